@@ -0,0 +1,30 @@
+// Copies the bundled font faces into dist/assets/fonts, which Wrangler
+// deploys as static assets next to the Worker. Fonts are data, so they don't
+// need to count against the Worker's size limit like the WASM modules do.
+// Runs as the Wrangler build command. Usage: node scripts/copy-fonts.mjs
+import { copyFileSync, mkdirSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+
+const require = createRequire(import.meta.url);
+
+const OUT_DIR = new URL('../dist/assets/fonts/', import.meta.url).pathname;
+
+// Package name and file prefix; src/fonts.ts registers the same list.
+const FAMILIES = [
+  ['inter', 'Inter'],
+  ['roboto', 'Roboto'],
+  ['noto-sans', 'NotoSans'],
+  ['noto-serif', 'NotoSerif'],
+  ['noto-sans-mono', 'NotoSansMono'],
+];
+const WEIGHTS = ['400Regular', '700Bold'];
+
+for (const [name, file] of FAMILIES) {
+  for (const weight of WEIGHTS) {
+    const path = `${name}/${weight}/${file}_${weight}.ttf`;
+    const target = join(OUT_DIR, path);
+    mkdirSync(dirname(target), { recursive: true });
+    copyFileSync(require.resolve(`@expo-google-fonts/${path}`), target);
+  }
+}
@@ -0,0 +1,105 @@
+// Regenerates src/glyphs.ts from the bundled TTFs.
+// Usage: node scripts/generate-metrics.mjs
+import { writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import * as fontkit from 'fontkit';
+
+const require = createRequire(import.meta.url);
+
+const FACES = [
+  ['INTER_REGULAR', '@expo-google-fonts/inter/400Regular/Inter_400Regular.ttf'],
+  ['INTER_BOLD', '@expo-google-fonts/inter/700Bold/Inter_700Bold.ttf'],
+  ['ROBOTO_REGULAR', '@expo-google-fonts/roboto/400Regular/Roboto_400Regular.ttf'],
+  ['ROBOTO_BOLD', '@expo-google-fonts/roboto/700Bold/Roboto_700Bold.ttf'],
+  ['NOTO_SANS_REGULAR', '@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf'],
+  ['NOTO_SANS_BOLD', '@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf'],
+  ['NOTO_SERIF_REGULAR', '@expo-google-fonts/noto-serif/400Regular/NotoSerif_400Regular.ttf'],
+  ['NOTO_SERIF_BOLD', '@expo-google-fonts/noto-serif/700Bold/NotoSerif_700Bold.ttf'],
+  [
+    'NOTO_SANS_MONO_REGULAR',
+    '@expo-google-fonts/noto-sans-mono/400Regular/NotoSansMono_400Regular.ttf',
+  ],
+  ['NOTO_SANS_MONO_BOLD', '@expo-google-fonts/noto-sans-mono/700Bold/NotoSansMono_700Bold.ttf'],
+];
+
+// Substitutions would change which glyphs a pair maps to; only kerning should
+// show up in the pair adjustments.
+const FEATURES = { liga: false, calt: false, clig: false, dlig: false, ccmp: false };
+
+const ASCII = range(0x20, 0x7e);
+const CHARACTERS = [
+  ...ASCII,
+  ...range(0xa0, 0xff),
+  0x2013, 0x2014, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2026, 0x20ac, 0x2122,
+  0x2190, 0x2192, 0x2212,
+];
+
+function range(start, end) {
+  return Array.from({ length: end - start + 1 }, (_, index) => start + index);
+}
+
+function quote(value) {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/[\u00a0\u00ad]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+  return `'${escaped}'`;
+}
+
+function formatEntries(entries) {
+  const parts = entries.map(([key, value]) => `${quote(key)}: ${value}`);
+  const lines = [];
+  for (let index = 0; index < parts.length; index += 8) {
+    lines.push(`    ${parts.slice(index, index + 8).join(', ')},`);
+  }
+  return lines.join('\n');
+}
+
+function extract(path) {
+  const font = fontkit.openSync(require.resolve(path));
+  const advance = (value) => font.layout(value, FEATURES).advanceWidth;
+
+  const advances = CHARACTERS.filter((code) => font.hasGlyphForCodePoint(code)).map(
+    (code) => [String.fromCodePoint(code), advance(String.fromCodePoint(code))],
+  );
+
+  const kerning = [];
+  for (const left of ASCII) {
+    for (const right of ASCII) {
+      const a = String.fromCodePoint(left);
+      const b = String.fromCodePoint(right);
+      const value = advance(a + b) - advance(a) - advance(b);
+      if (value) {
+        kerning.push([a + b, value]);
+      }
+    }
+  }
+
+  return { font, advances, kerning };
+}
+
+const blocks = FACES.map(([name, path]) => {
+  const { font, advances, kerning } = extract(path);
+  return [
+    `export const ${name}: FontMetrics = {`,
+    `  unitsPerEm: ${font.unitsPerEm},`,
+    '  advances: {',
+    formatEntries(advances),
+    '  },',
+    '  kerning: {',
+    formatEntries(kerning),
+    '  },',
+    '};',
+  ].join('\n');
+});
+
+const output = [
+  '// Generated by scripts/generate-metrics.mjs from the bundled Inter, Roboto',
+  '// and Noto fonts (SIL Open Font License 1.1). Do not edit by hand.',
+  "import type { FontMetrics } from './metrics';",
+  '',
+  blocks.join('\n\n'),
+  '',
+].join('\n');
+
+writeFileSync(new URL('../src/glyphs.ts', import.meta.url), output);
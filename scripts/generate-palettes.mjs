@@ -0,0 +1,93 @@
+// Regenerates src/palettes.ts from the Tailwind, Material and Radix colour
+// packages. Usage: node scripts/generate-palettes.mjs
+import { writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+
+// Deprecated Tailwind aliases that only duplicate other scales.
+const TAILWIND_SKIP = new Set([
+  'inherit',
+  'current',
+  'transparent',
+  'black',
+  'white',
+  'lightBlue',
+  'warmGray',
+  'trueGray',
+  'coolGray',
+  'blueGray',
+]);
+
+function kebab(value) {
+  return value.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+}
+
+function tailwind() {
+  const colors = require('tailwindcss/colors');
+  const entries = [];
+  for (const hue of Object.keys(colors)) {
+    if (TAILWIND_SKIP.has(hue)) {
+      continue;
+    }
+    for (const [step, value] of Object.entries(colors[hue])) {
+      entries.push([`${kebab(hue)}-${step}`, value]);
+    }
+  }
+  return entries;
+}
+
+function material() {
+  const colors = require('material-colors');
+  const entries = [];
+  for (const [hue, scale] of Object.entries(colors)) {
+    if (typeof scale !== 'object' || !('500' in scale)) {
+      continue;
+    }
+    for (const [step, value] of Object.entries(scale)) {
+      entries.push([`${kebab(hue)}-${step}`, value]);
+    }
+  }
+  return entries;
+}
+
+// Light scales only; steps run 1 to 12 as in the Radix docs.
+function radix() {
+  const colors = require('@radix-ui/colors');
+  const entries = [];
+  for (const [name, scale] of Object.entries(colors)) {
+    if (/(Dark|A|P3)/.test(name.slice(1))) {
+      continue;
+    }
+    for (const [key, value] of Object.entries(scale)) {
+      const step = key.slice(name.length);
+      entries.push([`${kebab(name)}-${step}`, value]);
+    }
+  }
+  return entries;
+}
+
+function formatEntries(entries) {
+  return entries
+    .map(([key, value]) => `    '${key}': '${value.toLowerCase()}',`)
+    .join('\n');
+}
+
+const PALETTES = [
+  ['tailwind', tailwind()],
+  ['material', material()],
+  ['radix', radix()],
+];
+
+const output = [
+  '// Generated by scripts/generate-palettes.mjs from tailwindcss, material-colors',
+  '// and @radix-ui/colors (all MIT licensed). Do not edit by hand.',
+  'export const PALETTES: Record<string, Record<string, string>> = {',
+  ...PALETTES.map(([name, entries]) =>
+    [`  ${name}: {`, formatEntries(entries), '  },'].join('\n'),
+  ),
+  '};',
+  '',
+].join('\n');
+
+writeFileSync(new URL('../src/palettes.ts', import.meta.url), output);
@@ -0,0 +1,102 @@
+import { BatchError, SpecError } from './errors';
+import { RenderSpec, parseRenderSpec } from './spec';
+
+export interface BatchLimits {
+  maxItems: number;
+  // Total output pixels (width x height x scale²) across the batch.
+  maxPixels: number;
+}
+
+export interface BatchEntry {
+  id: string;
+  spec: unknown;
+}
+
+export const DEFAULT_BATCH_LIMITS: BatchLimits = {
+  maxItems: 100,
+  maxPixels: 50_000_000,
+};
+
+export function parseBatchLimits(
+  maxItems: string | undefined,
+  maxPixels: string | undefined,
+): BatchLimits {
+  return {
+    maxItems: parseLimit(maxItems, DEFAULT_BATCH_LIMITS.maxItems),
+    maxPixels: parseLimit(maxPixels, DEFAULT_BATCH_LIMITS.maxPixels),
+  };
+}
+
+// The body is an array of specs or `{ "items": [...] }`. Only the envelope
+// is checked here; each spec is validated on its own by parseBatchItem.
+export function parseBatch(body: unknown, limits: BatchLimits): BatchEntry[] {
+  const specs = Array.isArray(body)
+    ? body
+    : isRecord(body) && Array.isArray(body.items)
+      ? body.items
+      : undefined;
+  if (!specs) {
+    throw new BatchError('', {
+      message: 'Expected an array of render specs or { "items": [...] }',
+    });
+  }
+  if (!specs.length) {
+    throw new BatchError('', { message: 'Empty batch' });
+  }
+  if (specs.length > limits.maxItems) {
+    throw new BatchError(String(specs.length), {
+      message: `At most ${limits.maxItems} items per batch`,
+    });
+  }
+
+  // Only explicit ids can clash. An item without one is keyed by its
+  // position, with `#` in front while an explicit id has that key.
+  const explicit = specs.map((spec: unknown) =>
+    isRecord(spec) && (typeof spec.id === 'string' || typeof spec.id === 'number')
+      ? String(spec.id)
+      : undefined,
+  );
+  const seen = new Set<string>();
+  for (const id of explicit) {
+    if (id === undefined) {
+      continue;
+    }
+    if (seen.has(id)) {
+      throw new BatchError(id, { message: `Duplicate item id "${id}"` });
+    }
+    seen.add(id);
+  }
+  return specs.map((spec: unknown, index: number) => {
+    let id = explicit[index];
+    if (id === undefined) {
+      id = String(index);
+      while (seen.has(id)) {
+        id = `#${id}`;
+      }
+      seen.add(id);
+    }
+    return { id, spec };
+  });
+}
+
+// Items use the render spec schema plus an optional `id`. Results are SVG
+// strings in JSON, so other formats and snippet outputs are refused.
+export function parseBatchItem(spec: unknown): RenderSpec {
+  const item = parseRenderSpec(spec, ['id']);
+  if (item.format && item.format !== 'svg') {
+    throw new SpecError([{ field: 'format', detail: 'Batch items always render as SVG' }]);
+  }
+  if (item.output && item.output !== 'image') {
+    throw new SpecError([{ field: 'output', detail: 'Batch items always render as images' }]);
+  }
+  return item;
+}
+
+function parseLimit(value: string | undefined, fallback: number): number {
+  const numeric = parseInt(value ?? '', 10);
+  return Number.isFinite(numeric) && numeric > 0 ? numeric : fallback;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,44 @@
+import { Align } from './util';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export type DirectionMode = TextDirection | 'auto';
+
+// Letters of the right-to-left scripts in Unicode.
+const RTL_LETTER =
+  /[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}\p{Script=Samaritan}\p{Script=Mandaic}\p{Script=Adlam}\p{Script=Hanifi_Rohingya}]/u;
+const LETTER = /\p{L}/u;
+
+// The direction of the first strongly directional character, as `dir=auto`
+// does in HTML. Text without letters reads left to right.
+export function detectDirection(text: string): TextDirection {
+  for (const char of text) {
+    if (RTL_LETTER.test(char)) {
+      return 'rtl';
+    }
+    if (LETTER.test(char)) {
+      return 'ltr';
+    }
+  }
+  return 'ltr';
+}
+
+export function resolveDirection(mode: DirectionMode, text: string): TextDirection {
+  return mode === 'auto' ? detectDirection(text) : mode;
+}
+
+// `text-anchor` is relative to the writing direction: `start` is the right
+// edge of right-to-left text. `left` and `right` stay physical sides.
+export function alignToAnchor(
+  align: Align,
+  direction: TextDirection = 'ltr',
+): 'start' | 'middle' | 'end' {
+  switch (align) {
+    case 'left':
+      return direction === 'rtl' ? 'end' : 'start';
+    case 'right':
+      return direction === 'rtl' ? 'start' : 'end';
+    default:
+      return 'middle';
+  }
+}
@@ -0,0 +1,696 @@
+import { CSS_COLORS } from './colors';
+import { ColorError } from './errors';
+
+// Channels are 0–255, alpha is 0–1.
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  alpha: number;
+}
+
+type Vec3 = [number, number, number];
+
+type Matrix = [Vec3, Vec3, Vec3];
+
+type MixSpace =
+  | 'srgb'
+  | 'srgb-linear'
+  | 'xyz'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch'
+  | 'hsl'
+  | 'hwb';
+
+type HueMethod = 'shorter' | 'longer' | 'increasing' | 'decreasing';
+
+// Unclamped sRGB in 0–1, so mixes and out-of-gamut lab()/oklch() values keep
+// their precision until the final rounding in `toRgba`.
+interface Color {
+  rgb: Vec3;
+  alpha: number;
+}
+
+interface ComponentRange {
+  percent: number;
+  min?: number;
+  max?: number;
+}
+
+interface Token {
+  value: number;
+  unit: string;
+}
+
+export const WHITE: Rgba = { r: 255, g: 255, b: 255, alpha: 1 };
+
+const MIX_SPACES: Record<string, MixSpace> = {
+  srgb: 'srgb',
+  'srgb-linear': 'srgb-linear',
+  xyz: 'xyz',
+  'xyz-d65': 'xyz',
+  lab: 'lab',
+  lch: 'lch',
+  oklab: 'oklab',
+  oklch: 'oklch',
+  hsl: 'hsl',
+  hwb: 'hwb',
+};
+
+const HUE_INDEX: Partial<Record<MixSpace, number>> = {
+  hsl: 0,
+  hwb: 0,
+  lch: 2,
+  oklch: 2,
+};
+
+const PERCENT: ComponentRange = { percent: 100, min: 0, max: 100 };
+const ALPHA: ComponentRange = { percent: 1, min: 0, max: 1 };
+const RGB_CHANNEL: ComponentRange = { percent: 255, min: 0, max: 255 };
+const LAB_LIGHTNESS: ComponentRange = { percent: 100, min: 0, max: 100 };
+const LAB_AXIS: ComponentRange = { percent: 125 };
+const LCH_CHROMA: ComponentRange = { percent: 150, min: 0 };
+const OKLAB_LIGHTNESS: ComponentRange = { percent: 1, min: 0, max: 1 };
+const OKLAB_AXIS: ComponentRange = { percent: 0.4 };
+const OKLCH_CHROMA: ComponentRange = { percent: 0.4, min: 0 };
+
+const SRGB_TO_XYZ: Matrix = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+const XYZ_TO_SRGB: Matrix = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+// Bradford adaptation, since CSS lab() and lch() are relative to D50.
+const D65_TO_D50: Matrix = [
+  [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+  [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+  [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008],
+];
+const D50_TO_D65: Matrix = [
+  [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+  [-0.028369706963208136, 1.0099954580106629, 0.021041398966943008],
+  [0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+];
+const D50_WHITE: Vec3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+const SRGB_TO_LMS: Matrix = [
+  [0.4122214708, 0.5363325363, 0.0514459929],
+  [0.2119034982, 0.6806995451, 0.1073969566],
+  [0.0883024619, 0.2817188376, 0.6299787005],
+];
+const LMS_TO_OKLAB: Matrix = [
+  [0.2104542553, 0.793617785, -0.0040720468],
+  [1.9779984951, -2.428592205, 0.4505937099],
+  [0.0259040371, 0.7827717662, -0.808675766],
+];
+const OKLAB_TO_LMS: Matrix = [
+  [1, 0.3963377774, 0.2158037573],
+  [1, -0.1055613458, -0.0638541728],
+  [1, -0.0894841775, -1.291485548],
+];
+const LMS_TO_SRGB: Matrix = [
+  [4.0767416621, -3.3077115913, 0.2309699292],
+  [-1.2684380046, 2.6097574011, -0.3413193965],
+  [-0.0041960863, -0.7034186147, 1.707614701],
+];
+
+// Parses any CSS Color 4 value: names, 3/4/6/8-digit hex, rgb(), hsl(),
+// hwb(), lab(), lch(), oklab(), oklch() and color-mix(), in both comma and
+// space syntax. Returns undefined for unrecognised input and throws a
+// ColorError when a recognised colour has bad or out-of-range components.
+export function parseRgba(input: string): Rgba | undefined {
+  const color = parseColorValue(input.trim().toLowerCase(), input);
+  return color ? toRgba(color) : undefined;
+}
+
+// Canonical form: `transparent`, `#rrggbb`, or `rgba(r, g, b, a)` when the
+// colour is translucent.
+export function formatRgba(color: Rgba): string {
+  if (color.alpha === 0) {
+    return 'transparent';
+  }
+  const hex = `#${[color.r, color.g, color.b]
+    .map((channel) => channel.toString(16).padStart(2, '0'))
+    .join('')}`;
+  if (color.alpha === 1) {
+    return hex;
+  }
+  return `rgba(${color.r}, ${color.g}, ${color.b}, ${color.alpha})`;
+}
+
+export function colorToRgba(color: string): Rgba | null {
+  try {
+    return parseRgba(color) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Flattens a translucent colour onto an opaque backdrop, which is what the
+// eye sees and so what contrast has to be measured against.
+export function compositeOver(color: Rgba, backdrop: Rgba = WHITE): Rgba {
+  const alpha = color.alpha + backdrop.alpha * (1 - color.alpha);
+  if (alpha === 0) {
+    return { r: 0, g: 0, b: 0, alpha: 0 };
+  }
+  const blend = (top: number, bottom: number) =>
+    Math.round(
+      (top * color.alpha + bottom * backdrop.alpha * (1 - color.alpha)) / alpha,
+    );
+  return {
+    r: blend(color.r, backdrop.r),
+    g: blend(color.g, backdrop.g),
+    b: blend(color.b, backdrop.b),
+    alpha: roundAlpha(alpha),
+  };
+}
+
+export function rgbaToOklch(color: Rgba): [number, number, number] {
+  const [lightness, chroma, hue] = labToPolar(
+    srgbToOklab([color.r / 255, color.g / 255, color.b / 255]),
+    0.000004,
+  );
+  return [lightness, chroma, Number.isNaN(hue) ? 0 : hue];
+}
+
+export function oklchToRgba(lch: [number, number, number], alpha = 1): Rgba {
+  return toRgba({ rgb: oklabToSrgb(polarToLab(lch)), alpha });
+}
+
+function parseColorValue(value: string, input: string): Color | undefined {
+  if (value === 'transparent') {
+    return { rgb: [0, 0, 0], alpha: 0 };
+  }
+
+  if (Object.hasOwn(CSS_COLORS, value)) {
+    return parseHex(CSS_COLORS[value].slice(1));
+  }
+
+  const hexMatch = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(value);
+  if (hexMatch) {
+    return parseHex(hexMatch[1]);
+  }
+
+  const functionMatch = /^([a-z-]+)\(\s*(.*?)\s*\)$/.exec(value);
+  if (!functionMatch) {
+    return undefined;
+  }
+
+  const [, name, body] = functionMatch;
+  switch (name) {
+    case 'rgb':
+    case 'rgba':
+      return parseComponents(name, body, input, (components) => [
+        readNumber(components[0], RGB_CHANNEL, name, input) / 255,
+        readNumber(components[1], RGB_CHANNEL, name, input) / 255,
+        readNumber(components[2], RGB_CHANNEL, name, input) / 255,
+      ]);
+    case 'hsl':
+    case 'hsla':
+      return parseComponents(name, body, input, (components) =>
+        hslToSrgb([
+          readHue(components[0], name, input),
+          readNumber(components[1], PERCENT, name, input) / 100,
+          readNumber(components[2], PERCENT, name, input) / 100,
+        ]),
+      );
+    case 'hwb':
+      return parseComponents(name, body, input, (components) =>
+        hwbToSrgb([
+          readHue(components[0], name, input),
+          readNumber(components[1], PERCENT, name, input) / 100,
+          readNumber(components[2], PERCENT, name, input) / 100,
+        ]),
+      );
+    case 'lab':
+      return parseComponents(name, body, input, (components) =>
+        labToSrgb([
+          readNumber(components[0], LAB_LIGHTNESS, name, input),
+          readNumber(components[1], LAB_AXIS, name, input),
+          readNumber(components[2], LAB_AXIS, name, input),
+        ]),
+      );
+    case 'lch':
+      return parseComponents(name, body, input, (components) =>
+        labToSrgb(
+          polarToLab([
+            readNumber(components[0], LAB_LIGHTNESS, name, input),
+            readNumber(components[1], LCH_CHROMA, name, input),
+            readHue(components[2], name, input),
+          ]),
+        ),
+      );
+    case 'oklab':
+      return parseComponents(name, body, input, (components) =>
+        oklabToSrgb([
+          readNumber(components[0], OKLAB_LIGHTNESS, name, input),
+          readNumber(components[1], OKLAB_AXIS, name, input),
+          readNumber(components[2], OKLAB_AXIS, name, input),
+        ]),
+      );
+    case 'oklch':
+      return parseComponents(name, body, input, (components) =>
+        oklabToSrgb(
+          polarToLab([
+            readNumber(components[0], OKLAB_LIGHTNESS, name, input),
+            readNumber(components[1], OKLCH_CHROMA, name, input),
+            readHue(components[2], name, input),
+          ]),
+        ),
+      );
+    case 'color-mix':
+      return parseColorMix(body, input);
+    default:
+      return undefined;
+  }
+}
+
+function parseHex(digits: string): Color {
+  const expanded =
+    digits.length <= 4
+      ? digits
+          .split('')
+          .map((char) => char + char)
+          .join('')
+      : digits;
+  const channel = (index: number) => parseInt(expanded.slice(index, index + 2), 16) / 255;
+  return {
+    rgb: [channel(0), channel(2), channel(4)],
+    alpha: expanded.length === 8 ? channel(6) : 1,
+  };
+}
+
+// Accepts the legacy comma syntax (`rgb(255, 0, 0, 0.5)`) and the modern
+// space syntax with an optional slash alpha (`rgb(255 0 0 / 50%)`).
+function parseComponents(
+  name: string,
+  body: string,
+  input: string,
+  convert: (components: string[]) => Vec3,
+): Color {
+  let components: string[];
+  let alpha: string | undefined;
+
+  if (body.includes(',')) {
+    components = body.split(',').map((part) => part.trim());
+    if (components.length === 4) {
+      alpha = components.pop();
+    }
+  } else {
+    const parts = body.split('/').map((part) => part.trim());
+    if (parts.length > 2) {
+      throw invalidFunction(name, input);
+    }
+    components = parts[0].split(/\s+/).filter(Boolean);
+    alpha = parts[1];
+  }
+
+  if (components.length !== 3 || alpha === '') {
+    throw invalidFunction(name, input);
+  }
+
+  return {
+    rgb: convert(components),
+    alpha: alpha === undefined ? 1 : readNumber(alpha, ALPHA, name, input),
+  };
+}
+
+// color-mix(in <space> [<method> hue], <color> [<p>%], <color> [<p>%])
+function parseColorMix(body: string, input: string): Color {
+  const args = splitTopLevel(body);
+  const spaceMatch =
+    /^in\s+([a-z-]+)(?:\s+(shorter|longer|increasing|decreasing)\s+hue)?$/.exec(
+      args[0] ?? '',
+    );
+  const space = spaceMatch ? MIX_SPACES[spaceMatch[1]] : undefined;
+  if (args.length !== 3 || !space) {
+    throw invalidFunction('color-mix', input);
+  }
+  const method = (spaceMatch?.[2] ?? 'shorter') as HueMethod;
+
+  const [first, second] = args.slice(1).map((arg) => {
+    const match =
+      /^(?:(\d+(?:\.\d+)?)%\s+)?(.+?)(?:\s+(\d+(?:\.\d+)?)%)?$/.exec(arg);
+    const color = match ? parseColorValue(match[2], input) : undefined;
+    if (!match || !color || (match[1] && match[3])) {
+      throw invalidFunction('color-mix', input);
+    }
+    const raw = match[1] ?? match[3];
+    const percent = raw === undefined ? undefined : parseFloat(raw);
+    if (percent !== undefined && percent > 100) {
+      throw outOfRange('color-mix', input);
+    }
+    return { color, percent };
+  });
+
+  // Percentages normalise as in CSS: a missing one is the rest of 100%, and
+  // a total under 100% scales the resulting alpha down.
+  const p1 = first.percent ?? (second.percent === undefined ? 50 : 100 - second.percent);
+  const p2 = second.percent ?? 100 - p1;
+  const total = p1 + p2;
+  if (total <= 0) {
+    throw outOfRange('color-mix', input);
+  }
+
+  const mixed = mixColors(first.color, second.color, p2 / total, space, method);
+  return {
+    rgb: mixed.rgb,
+    alpha: mixed.alpha * Math.min(total / 100, 1),
+  };
+}
+
+function mixColors(
+  from: Color,
+  to: Color,
+  amount: number,
+  space: MixSpace,
+  method: HueMethod,
+): Color {
+  const hueIndex = HUE_INDEX[space] ?? -1;
+  const a = toSpace(space, from.rgb);
+  const b = toSpace(space, to.rgb);
+
+  // An achromatic colour has no hue of its own, so it borrows the other's.
+  if (hueIndex >= 0) {
+    if (Number.isNaN(a[hueIndex])) {
+      a[hueIndex] = Number.isNaN(b[hueIndex]) ? 0 : b[hueIndex];
+    }
+    if (Number.isNaN(b[hueIndex])) {
+      b[hueIndex] = a[hueIndex];
+    }
+  }
+
+  // Interpolate premultiplied so a transparent end doesn't drag in black.
+  const alpha = from.alpha + (to.alpha - from.alpha) * amount;
+  const coords = a.map((value, index) => {
+    if (index === hueIndex) {
+      return mixHue(value, b[index], amount, method);
+    }
+    const premultiplied =
+      value * from.alpha + (b[index] * to.alpha - value * from.alpha) * amount;
+    return alpha === 0 ? value + (b[index] - value) * amount : premultiplied / alpha;
+  }) as Vec3;
+
+  return { rgb: fromSpace(space, coords), alpha };
+}
+
+function mixHue(from: number, to: number, amount: number, method: HueMethod): number {
+  let start = from;
+  let end = to;
+  const delta = end - start;
+  switch (method) {
+    case 'shorter':
+      if (delta > 180) {
+        start += 360;
+      } else if (delta < -180) {
+        end += 360;
+      }
+      break;
+    case 'longer':
+      if (delta > 0 && delta < 180) {
+        start += 360;
+      } else if (delta > -180 && delta <= 0) {
+        end += 360;
+      }
+      break;
+    case 'increasing':
+      if (delta < 0) {
+        end += 360;
+      }
+      break;
+    case 'decreasing':
+      if (delta > 0) {
+        start += 360;
+      }
+      break;
+  }
+  return normalizeHue(start + (end - start) * amount);
+}
+
+function toSpace(space: MixSpace, rgb: Vec3): Vec3 {
+  switch (space) {
+    case 'srgb':
+      return [...rgb];
+    case 'srgb-linear':
+      return rgb.map(srgbToLinear) as Vec3;
+    case 'xyz':
+      return multiply(SRGB_TO_XYZ, rgb.map(srgbToLinear) as Vec3);
+    case 'lab':
+      return srgbToLab(rgb);
+    case 'lch':
+      return labToPolar(srgbToLab(rgb), 0.0015);
+    case 'oklab':
+      return srgbToOklab(rgb);
+    case 'oklch':
+      return labToPolar(srgbToOklab(rgb), 0.000004);
+    case 'hsl':
+      return srgbToHsl(rgb);
+    case 'hwb':
+      return srgbToHwb(rgb);
+  }
+}
+
+function fromSpace(space: MixSpace, coords: Vec3): Vec3 {
+  switch (space) {
+    case 'srgb':
+      return coords;
+    case 'srgb-linear':
+      return coords.map(linearToSrgb) as Vec3;
+    case 'xyz':
+      return multiply(XYZ_TO_SRGB, coords).map(linearToSrgb) as Vec3;
+    case 'lab':
+      return labToSrgb(coords);
+    case 'lch':
+      return labToSrgb(polarToLab(coords));
+    case 'oklab':
+      return oklabToSrgb(coords);
+    case 'oklch':
+      return oklabToSrgb(polarToLab(coords));
+    case 'hsl':
+      return hslToSrgb(coords);
+    case 'hwb':
+      return hwbToSrgb(coords);
+  }
+}
+
+function hslToSrgb([hue, saturation, lightness]: Vec3): Vec3 {
+  const channel = (offset: number) => {
+    const k = (offset + hue / 30) % 12;
+    const amount = saturation * Math.min(lightness, 1 - lightness);
+    return lightness - amount * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+function srgbToHsl(rgb: Vec3): Vec3 {
+  const [r, g, b] = rgb;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) {
+    return [Number.NaN, 0, lightness];
+  }
+
+  const saturation =
+    lightness === 0 || lightness === 1
+      ? 0
+      : (max - lightness) / Math.min(lightness, 1 - lightness);
+  const hue =
+    max === r
+      ? (g - b) / delta + (g < b ? 6 : 0)
+      : max === g
+        ? (b - r) / delta + 2
+        : (r - g) / delta + 4;
+  return [hue * 60, saturation, lightness];
+}
+
+function hwbToSrgb([hue, whiteness, blackness]: Vec3): Vec3 {
+  if (whiteness + blackness >= 1) {
+    const gray = whiteness / (whiteness + blackness);
+    return [gray, gray, gray];
+  }
+  return hslToSrgb([hue, 1, 0.5]).map(
+    (channel) => channel * (1 - whiteness - blackness) + whiteness,
+  ) as Vec3;
+}
+
+function srgbToHwb(rgb: Vec3): Vec3 {
+  const [hue] = srgbToHsl(rgb);
+  return [hue, Math.min(...rgb), 1 - Math.max(...rgb)];
+}
+
+function srgbToLab(rgb: Vec3): Vec3 {
+  const xyz = multiply(D65_TO_D50, multiply(SRGB_TO_XYZ, rgb.map(srgbToLinear) as Vec3));
+  const [fx, fy, fz] = xyz.map((value, index) => {
+    const scaled = value / D50_WHITE[index];
+    return scaled > LAB_EPSILON ? Math.cbrt(scaled) : (LAB_KAPPA * scaled + 16) / 116;
+  });
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function labToSrgb([lightness, a, b]: Vec3): Vec3 {
+  const fy = (lightness + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+  const xyz: Vec3 = [
+    (fx ** 3 > LAB_EPSILON ? fx ** 3 : (116 * fx - 16) / LAB_KAPPA) * D50_WHITE[0],
+    (lightness > LAB_KAPPA * LAB_EPSILON ? fy ** 3 : lightness / LAB_KAPPA) * D50_WHITE[1],
+    (fz ** 3 > LAB_EPSILON ? fz ** 3 : (116 * fz - 16) / LAB_KAPPA) * D50_WHITE[2],
+  ];
+  return multiply(XYZ_TO_SRGB, multiply(D50_TO_D65, xyz)).map(linearToSrgb) as Vec3;
+}
+
+function srgbToOklab(rgb: Vec3): Vec3 {
+  const lms = multiply(SRGB_TO_LMS, rgb.map(srgbToLinear) as Vec3);
+  return multiply(LMS_TO_OKLAB, lms.map(Math.cbrt) as Vec3);
+}
+
+function oklabToSrgb(lab: Vec3): Vec3 {
+  const lms = multiply(OKLAB_TO_LMS, lab).map((value) => value ** 3) as Vec3;
+  return multiply(LMS_TO_SRGB, lms).map(linearToSrgb) as Vec3;
+}
+
+function labToPolar([lightness, a, b]: Vec3, achromatic: number): Vec3 {
+  const chroma = Math.hypot(a, b);
+  const hue = chroma < achromatic ? Number.NaN : normalizeHue((Math.atan2(b, a) * 180) / Math.PI);
+  return [lightness, chroma, hue];
+}
+
+function polarToLab([lightness, chroma, hue]: Vec3): Vec3 {
+  const radians = (hue * Math.PI) / 180;
+  return [lightness, chroma * Math.cos(radians), chroma * Math.sin(radians)];
+}
+
+function srgbToLinear(value: number): number {
+  const magnitude = Math.abs(value);
+  return magnitude <= 0.04045
+    ? value / 12.92
+    : Math.sign(value) * ((magnitude + 0.055) / 1.055) ** 2.4;
+}
+
+function linearToSrgb(value: number): number {
+  const magnitude = Math.abs(value);
+  return magnitude <= 0.0031308
+    ? value * 12.92
+    : Math.sign(value) * (1.055 * magnitude ** (1 / 2.4) - 0.055);
+}
+
+function multiply(matrix: Matrix, vector: Vec3): Vec3 {
+  return matrix.map(
+    (row) => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2],
+  ) as Vec3;
+}
+
+function toRgba(color: Color): Rgba {
+  // Out-of-gamut colours are clipped to sRGB.
+  const [r, g, b] = color.rgb.map((channel) =>
+    Math.round(Math.min(Math.max(channel, 0), 1) * 255),
+  );
+  return { r, g, b, alpha: roundAlpha(color.alpha) };
+}
+
+function readNumber(
+  raw: string,
+  range: ComponentRange,
+  name: string,
+  input: string,
+): number {
+  const token = parseToken(raw);
+  if (!token || (token.unit !== '' && token.unit !== '%')) {
+    throw invalidFunction(name, input);
+  }
+  const value = token.unit === '%' ? (token.value / 100) * range.percent : token.value;
+  if (
+    (range.min !== undefined && value < range.min) ||
+    (range.max !== undefined && value > range.max)
+  ) {
+    throw outOfRange(name, input);
+  }
+  return value;
+}
+
+function readHue(raw: string, name: string, input: string): number {
+  const token = parseToken(raw);
+  const degrees = token && hueDegrees(token);
+  // A huge turn count can still overflow once converted.
+  if (degrees === undefined || !Number.isFinite(degrees)) {
+    throw invalidFunction(name, input);
+  }
+  return normalizeHue(degrees);
+}
+
+function hueDegrees({ value, unit }: Token): number | undefined {
+  switch (unit) {
+    case '':
+    case 'deg':
+      return value;
+    case 'rad':
+      return (value * 180) / Math.PI;
+    case 'grad':
+      return value * 0.9;
+    case 'turn':
+      return value * 360;
+    default:
+      return undefined;
+  }
+}
+
+// `none` is a missing component and counts as zero. Exponents that
+// overflow, like 1e999, are not numbers at all.
+function parseToken(raw: string): Token | undefined {
+  if (raw === 'none') {
+    return { value: 0, unit: '' };
+  }
+  const match = /^([+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/.exec(raw);
+  const value = match ? parseFloat(match[1]) : Number.NaN;
+  if (!match || !Number.isFinite(value)) {
+    return undefined;
+  }
+  return { value, unit: match[2] ?? '' };
+}
+
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') {
+      depth += 1;
+    } else if (char === ')') {
+      depth -= 1;
+    }
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+function normalizeHue(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+function roundAlpha(alpha: number): number {
+  return Math.round(Math.min(Math.max(alpha, 0), 1) * 1000) / 1000;
+}
+
+function invalidFunction(name: string, input: string): ColorError {
+  return new ColorError(input, { message: `Invalid ${name}() color` });
+}
+
+function outOfRange(name: string, input: string): ColorError {
+  return new ColorError(input, { message: `Color component out of range in ${name}()` });
+}
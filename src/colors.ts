@@ -1,3 +1,23 @@
+import { ConfigError } from './errors';
+import { PALETTES } from './palettes';
+
+export interface Theme {
+  bg?: string;
+  fg?: string;
+  font?: string;
+  radius?: number;
+  stroke?: string;
+  strokeWidth?: number;
+}
+
+// Deploy-time settings from the THEMES var: extra colour tokens, extra
+// themes, and the theme used when a request doesn't name one.
+export interface ThemeConfig {
+  colors?: Record<string, string>;
+  themes?: Record<string, Theme>;
+  default?: string;
+}
+
 export const CSS_COLORS: Record<string, string> = {
   aliceblue: '#f0f8ff',
   antiquewhite: '#faebd7',
@@ -148,3 +168,156 @@ export const CSS_COLORS: Record<string, string> = {
   yellow: '#ffff00',
   yellowgreen: '#9acd32'
 };
+
+export const THEMES: Record<string, Theme> = {
+  light: { bg: 'gray-100', fg: 'gray-900' },
+  dark: { bg: 'slate-900', fg: 'slate-100' },
+  sepia: { bg: '#f4ecd8', fg: '#5b4636', font: 'noto-serif' },
+};
+
+// Unprefixed scale names (`blue-500`) are Tailwind; the other palettes need
+// their prefix (`material-blue-500`, `radix-blue-9`).
+const DEFAULT_PALETTE = 'tailwind';
+const MAX_TOKEN_DEPTH = 4;
+
+const customTokens = new Map<string, string>();
+const customThemes = new Map<string, Theme>();
+let defaultTheme: string | undefined;
+let loadedConfig: unknown;
+
+export function registerColorToken(name: string, value: string): void {
+  customTokens.set(name.trim().toLowerCase(), value.trim());
+}
+
+export function registerTheme(name: string, theme: Theme): void {
+  customThemes.set(name.trim().toLowerCase(), theme);
+}
+
+// Replaces the custom tokens and themes with `config`. The config is the
+// same object for every request to an isolate, so repeat calls are free. A
+// config that doesn't parse throws a ConfigError and is checked again on the
+// next request.
+export function configureThemes(config: string | ThemeConfig | undefined): void {
+  if (config === loadedConfig) {
+    return;
+  }
+  const parsed = config ? readThemeConfig(config) : {};
+
+  customTokens.clear();
+  customThemes.clear();
+  for (const [name, value] of Object.entries(parsed.colors ?? {})) {
+    registerColorToken(name, value);
+  }
+  for (const [name, theme] of Object.entries(parsed.themes ?? {})) {
+    registerTheme(name, theme);
+  }
+  defaultTheme = parsed.default?.trim().toLowerCase() || undefined;
+  loadedConfig = config;
+}
+
+const THEME_FIELDS: Record<keyof Theme, 'string' | 'number'> = {
+  bg: 'string',
+  fg: 'string',
+  font: 'string',
+  radius: 'number',
+  stroke: 'string',
+  strokeWidth: 'number',
+};
+
+function readThemeConfig(config: string | ThemeConfig): ThemeConfig {
+  let parsed: unknown = config;
+  if (typeof config === 'string') {
+    try {
+      parsed = JSON.parse(config);
+    } catch {
+      throw new ConfigError('THEMES', 'not valid JSON');
+    }
+  }
+  if (!isRecord(parsed)) {
+    throw new ConfigError('THEMES', 'expected a JSON object');
+  }
+
+  const { colors, themes, default: defaultName } = parsed;
+  if (colors !== undefined) {
+    if (!isRecord(colors)) {
+      throw new ConfigError('THEMES', '"colors" must be an object');
+    }
+    for (const [name, value] of Object.entries(colors)) {
+      if (typeof value !== 'string') {
+        throw new ConfigError('THEMES', `colour "${name}" must be a string`);
+      }
+    }
+  }
+  if (themes !== undefined) {
+    if (!isRecord(themes)) {
+      throw new ConfigError('THEMES', '"themes" must be an object');
+    }
+    for (const [name, theme] of Object.entries(themes)) {
+      if (!isRecord(theme)) {
+        throw new ConfigError('THEMES', `theme "${name}" must be an object`);
+      }
+      for (const [field, value] of Object.entries(theme)) {
+        const type = Object.hasOwn(THEME_FIELDS, field)
+          ? THEME_FIELDS[field as keyof Theme]
+          : undefined;
+        if (type && value !== undefined && typeof value !== type) {
+          throw new ConfigError('THEMES', `theme "${name}" field "${field}" must be a ${type}`);
+        }
+      }
+    }
+  }
+  if (defaultName !== undefined && typeof defaultName !== 'string') {
+    throw new ConfigError('THEMES', '"default" must be a string');
+  }
+  return parsed as ThemeConfig;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Follows token aliases (`brand-primary` to `blue-600` to `#2563eb`) and
+// returns where they end, or undefined when `name` isn't a token.
+export function resolveColorToken(name: string): string | undefined {
+  let value: string | undefined;
+  let current = name.trim().toLowerCase();
+  for (let depth = 0; depth < MAX_TOKEN_DEPTH; depth += 1) {
+    const next = lookupToken(current);
+    if (next === undefined) {
+      break;
+    }
+    value = next;
+    current = next.toLowerCase();
+  }
+  return value;
+}
+
+export function colorTokenNames(): string[] {
+  return [...customTokens.keys(), ...Object.keys(PALETTES[DEFAULT_PALETTE])];
+}
+
+export function getTheme(name: string): Theme | undefined {
+  const key = name.trim().toLowerCase();
+  return customThemes.get(key) ?? (Object.hasOwn(THEMES, key) ? THEMES[key] : undefined);
+}
+
+export function getDefaultTheme(): string | undefined {
+  return defaultTheme;
+}
+
+export function themeNames(): string[] {
+  return [...new Set([...customThemes.keys(), ...Object.keys(THEMES)])];
+}
+
+function lookupToken(name: string): string | undefined {
+  const custom = customTokens.get(name);
+  if (custom !== undefined) {
+    return custom;
+  }
+  const match = /^(tailwind|material|radix)-(.+)$/.exec(name);
+  const palette = PALETTES[match ? match[1] : DEFAULT_PALETTE];
+  const key = match ? match[2] : name;
+  // Own keys only, so `constructor` and friends aren't tokens.
+  const value = Object.hasOwn(palette, key) ? palette[key] : undefined;
+  return typeof value === 'string' ? value : undefined;
+}
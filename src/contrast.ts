@@ -0,0 +1,158 @@
+import {
+  Rgba,
+  WHITE,
+  colorToRgba,
+  compositeOver,
+  formatRgba,
+  oklchToRgba,
+  rgbaToOklch,
+} from './color';
+import { rgbToLuminance } from './util';
+
+export type ContrastLevel = 'aa' | 'aaa' | 'apca';
+
+export interface ContrastOptions {
+  level: ContrastLevel;
+  // WCAG "large text": 24px, or 18.66px when bold. Large text gets the
+  // lower AA/AAA ratio and the lower APCA Lc.
+  large: boolean;
+}
+
+const WCAG_TARGETS: Record<'aa' | 'aaa', { normal: number; large: number }> = {
+  aa: { normal: 4.5, large: 3 },
+  aaa: { normal: 7, large: 4.5 },
+};
+const APCA_TARGETS = { normal: 75, large: 60 };
+const LARGE_TEXT_SIZE = 24;
+const LARGE_BOLD_TEXT_SIZE = 18.66;
+const SEARCH_STEPS = 16;
+
+// APCA-W3 0.0.98G-4g constants.
+const APCA_EXPONENT = 2.4;
+const APCA_COEFFICIENTS = [0.2126729, 0.7151522, 0.072175];
+const APCA_BLACK_THRESHOLD = 0.022;
+const APCA_BLACK_CLAMP = 1.414;
+const APCA_DELTA_MIN = 0.0005;
+const APCA_SCALE = 1.14;
+const APCA_OFFSET = 0.027;
+const APCA_LOW_CLIP = 0.1;
+
+export function isLargeText(fontSize: number, fontWeight?: string): boolean {
+  const weight = fontWeight === 'bold' ? 700 : parseInt(fontWeight ?? '', 10);
+  return (
+    fontSize >= LARGE_TEXT_SIZE ||
+    (weight >= 700 && fontSize >= LARGE_BOLD_TEXT_SIZE)
+  );
+}
+
+export function contrastTarget(options: ContrastOptions): number {
+  const { level, large } = options;
+  const targets = level === 'apca' ? APCA_TARGETS : WCAG_TARGETS[level];
+  return large ? targets.large : targets.normal;
+}
+
+// WCAG 2.x contrast ratio, from 1 to 21.
+export function contrastRatio(fg: string, bg: string): number {
+  const [text, backdrop] = flatten(fg, bg);
+  const a = rgbToLuminance([text.r, text.g, text.b]);
+  const b = rgbToLuminance([backdrop.r, backdrop.g, backdrop.b]);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+// APCA lightness contrast (Lc). Positive for dark text on a light
+// background, negative for light text on a dark one.
+export function apcaContrast(fg: string, bg: string): number {
+  const [text, backdrop] = flatten(fg, bg);
+  const textY = apcaLuminance(text);
+  const backdropY = apcaLuminance(backdrop);
+  if (Math.abs(backdropY - textY) < APCA_DELTA_MIN) {
+    return 0;
+  }
+
+  if (backdropY > textY) {
+    const sapc = (backdropY ** 0.56 - textY ** 0.57) * APCA_SCALE;
+    return sapc < APCA_LOW_CLIP ? 0 : (sapc - APCA_OFFSET) * 100;
+  }
+  const sapc = (backdropY ** 0.65 - textY ** 0.62) * APCA_SCALE;
+  return sapc > -APCA_LOW_CLIP ? 0 : (sapc + APCA_OFFSET) * 100;
+}
+
+// The worst contrast of `fg` against any of the backgrounds, so text over a
+// gradient has to be readable on every stop.
+export function measureContrast(
+  fg: string,
+  backgrounds: string[],
+  level: ContrastLevel,
+): number {
+  const values = backgrounds.map((bg) =>
+    level === 'apca' ? apcaContrast(fg, bg) : contrastRatio(fg, bg),
+  );
+  return values.reduce((worst, value) =>
+    Math.abs(value) < Math.abs(worst) ? value : worst,
+  );
+}
+
+// Moves the foreground's OKLCH lightness the shortest distance, lighter or
+// darker, that meets the target, keeping its hue and chroma. Falls back to
+// black or white when no lightness of that hue gets there.
+export function enforceContrast(
+  fg: string,
+  backgrounds: string[],
+  options: ContrastOptions,
+): string {
+  const target = contrastTarget(options);
+  const score = (color: string) =>
+    Math.abs(measureContrast(color, backgrounds, options.level));
+  if (score(fg) >= target) {
+    return fg;
+  }
+
+  const rgba = colorToRgba(fg);
+  if (!rgba) {
+    return fg;
+  }
+
+  const [lightness, chroma, hue] = rgbaToOklch(rgba);
+  const at = (value: number) =>
+    formatRgba(oklchToRgba([value, chroma, hue], rgba.alpha));
+  const passes = (value: number) => score(at(value)) >= target;
+
+  const candidates = [1, 0]
+    .filter(passes)
+    .map((limit) => {
+      let failing = lightness;
+      let passing = limit;
+      for (let step = 0; step < SEARCH_STEPS; step += 1) {
+        const middle = (failing + passing) / 2;
+        if (passes(middle)) {
+          passing = middle;
+        } else {
+          failing = middle;
+        }
+      }
+      return passing;
+    })
+    .sort((a, b) => Math.abs(a - lightness) - Math.abs(b - lightness));
+
+  if (candidates.length) {
+    return at(candidates[0]);
+  }
+  return score('#000000') >= score('#ffffff') ? '#000000' : '#ffffff';
+}
+
+function flatten(fg: string, bg: string): [Rgba, Rgba] {
+  const backdrop = compositeOver(colorToRgba(bg) ?? WHITE);
+  const text = compositeOver(colorToRgba(fg) ?? backdrop, backdrop);
+  return [text, backdrop];
+}
+
+function apcaLuminance(color: Rgba): number {
+  const y = [color.r, color.g, color.b].reduce(
+    (sum, channel, index) =>
+      sum + (channel / 255) ** APCA_EXPONENT * APCA_COEFFICIENTS[index],
+    0,
+  );
+  return y > APCA_BLACK_THRESHOLD
+    ? y
+    : y + (APCA_BLACK_THRESHOLD - y) ** APCA_BLACK_CLAMP;
+}
@@ -0,0 +1,210 @@
+export interface ErrorDetails {
+  message?: string;
+  suggestion?: string;
+}
+
+export interface FieldError {
+  field: string;
+  detail: string;
+  suggestion?: string;
+}
+
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  code: string;
+  instance?: string;
+  segment?: string;
+  param?: string;
+  field?: string;
+  value?: string;
+  suggestion?: string;
+  errors?: FieldError[];
+}
+
+// Base class for every error caused by a bad request. `segment`, `param` and
+// `field` are filled in by the router, since the parsers don't know where a
+// value came from.
+export class AltboxError extends Error {
+  readonly code: string;
+  readonly value?: string;
+  readonly suggestion?: string;
+  segment?: string;
+  param?: string;
+  field?: string;
+
+  constructor(code: string, message: string, value?: string, suggestion?: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.value = value;
+    this.suggestion = suggestion;
+  }
+}
+
+export class DimensionError extends AltboxError {
+  constructor(value: string, details: ErrorDetails = {}) {
+    super(
+      'invalid_dimensions',
+      details.message ?? 'Invalid dimensions',
+      value,
+      details.suggestion,
+    );
+  }
+}
+
+export class SizePresetError extends AltboxError {
+  constructor(value: string, details: ErrorDetails = {}) {
+    super(
+      'unknown_size',
+      details.message ?? `Unknown size "${value}"`,
+      value,
+      details.suggestion,
+    );
+  }
+}
+
+export class ColorError extends AltboxError {
+  constructor(value: string, details: ErrorDetails = {}) {
+    super('invalid_color', details.message ?? 'Invalid color', value, details.suggestion);
+  }
+}
+
+export class GradientError extends AltboxError {
+  constructor(value: string, details: ErrorDetails = {}) {
+    super(
+      'invalid_gradient',
+      details.message ?? 'Invalid gradient',
+      value,
+      details.suggestion ?? 'linear(45,red,blue)',
+    );
+  }
+}
+
+export class FormatError extends AltboxError {
+  constructor(value: string, details: ErrorDetails = {}) {
+    super('invalid_format', details.message ?? 'Invalid format', value, details.suggestion);
+  }
+}
+
+export class IconError extends AltboxError {
+  constructor(value: string, details: ErrorDetails = {}) {
+    super('invalid_icon', details.message ?? 'Invalid icon', value, details.suggestion);
+  }
+}
+
+export class ThemeError extends AltboxError {
+  constructor(value: string, details: ErrorDetails = {}) {
+    super(
+      'unknown_theme',
+      details.message ?? `Unknown theme "${value}"`,
+      value,
+      details.suggestion,
+    );
+  }
+}
+
+export class BatchError extends AltboxError {
+  constructor(value: string, details: ErrorDetails = {}) {
+    super('invalid_batch', details.message ?? 'Invalid batch', value, details.suggestion);
+  }
+}
+
+export class RasterSizeError extends AltboxError {
+  constructor(value: string, details: ErrorDetails = {}) {
+    super(
+      'raster_too_large',
+      details.message ?? 'Image too large to rasterize',
+      value,
+      details.suggestion ?? 'svg',
+    );
+  }
+}
+
+// Collects every invalid field of a render spec, so a client can fix them
+// all in one go.
+export class SpecError extends AltboxError {
+  readonly errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super(
+      'invalid_spec',
+      errors.length === 1
+        ? errors[0].detail
+        : `Render spec has ${errors.length} invalid fields`,
+      undefined,
+      errors.length === 1 ? errors[0].suggestion : undefined,
+    );
+    this.errors = errors;
+    this.field = errors.length === 1 ? errors[0].field : undefined;
+  }
+}
+
+// Base class for failures that aren't the client's fault, such as a broken
+// deploy setting or a rasterizer crash. They map to a 5xx.
+export class ServerError extends Error {
+  readonly code: string;
+  readonly status: number;
+  readonly title: string;
+
+  constructor(code: string, message: string, status: number, title: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = status;
+    this.title = title;
+  }
+}
+
+export class ConfigError extends ServerError {
+  constructor(setting: string, message: string) {
+    super('invalid_config', `Invalid ${setting} setting: ${message}`, 500, 'Internal Server Error');
+  }
+}
+
+export class RasterError extends ServerError {
+  constructor(format: string) {
+    super('raster_failed', `Could not render the image as ${format}`, 500, 'Internal Server Error');
+  }
+}
+
+export function toProblemDetails(error: unknown, instance?: string): ProblemDetails {
+  if (error instanceof ServerError) {
+    return {
+      type: 'about:blank',
+      title: error.title,
+      status: error.status,
+      detail: error.message,
+      code: error.code,
+      instance,
+    };
+  }
+
+  if (error instanceof AltboxError) {
+    return {
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      detail: error.message,
+      code: error.code,
+      instance,
+      segment: error.segment,
+      param: error.param,
+      field: error.field,
+      value: error.value,
+      suggestion: error.suggestion,
+      errors: error instanceof SpecError ? error.errors : undefined,
+    };
+  }
+
+  return {
+    type: 'about:blank',
+    title: 'Bad Request',
+    status: 400,
+    detail: error instanceof Error ? error.message : 'Invalid request',
+    code: 'bad_request',
+    instance,
+  };
+}
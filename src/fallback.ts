@@ -0,0 +1,83 @@
+import { ProblemDetails } from './errors';
+import { fitFontSize } from './fit';
+import { escapeMarkup } from './markup';
+import { resolveDims } from './presets';
+import { buildSVG } from './svg';
+import { Dimensions } from './util';
+
+export const ERROR_FALLBACK_DIMS: Dimensions = { width: 300, height: 150 };
+
+const ERROR_BACKGROUND = '#fff5f5';
+const ERROR_FOREGROUND = '#b00020';
+const ERROR_STRIPE_COLOR = '#d33333';
+const ERROR_STRIPE_SIZE = 16;
+const ERROR_STRIPE_OPACITY = 0.12;
+const ERROR_MAX_LINES = 4;
+const ERROR_PAD = 8;
+
+// Uses the requested size when the dims segment itself parsed, so a broken
+// placeholder still occupies its slot in the layout.
+export function resolveErrorDims(segments: string[]): Dimensions {
+  try {
+    const { width, height } = resolveDims(segments);
+    return { width, height };
+  } catch {
+    return ERROR_FALLBACK_DIMS;
+  }
+}
+
+export function buildErrorSvg(problem: ProblemDetails, dims: Dimensions): string {
+  const { width, height } = dims;
+  const text = describeProblem(problem);
+  const pad = Math.min(ERROR_PAD, Math.min(width, height) / 4);
+
+  const fontSize = fitFontSize({
+    mode: 'shrink',
+    text,
+    width,
+    height,
+    pad,
+    fontSize: Math.min(Math.max(Math.min(width, height) / 8, 8), 24),
+    minSize: 6,
+    maxSize: 24,
+    wrap: true,
+    lineHeight: 1.2,
+    maxLines: ERROR_MAX_LINES,
+  });
+
+  return buildSVG({
+    width,
+    height,
+    background: ERROR_BACKGROUND,
+    pattern: {
+      kind: 'stripes',
+      color: ERROR_STRIPE_COLOR,
+      size: ERROR_STRIPE_SIZE,
+      opacity: ERROR_STRIPE_OPACITY,
+    },
+    foreground: ERROR_FOREGROUND,
+    text,
+    fontSize,
+    pad,
+    align: 'center',
+    wrap: true,
+    maxLines: ERROR_MAX_LINES,
+    stroke: ERROR_STRIPE_COLOR,
+    strokeWidth: 2,
+  });
+}
+
+function describeProblem(problem: ProblemDetails): string {
+  const where = problem.param ?? problem.segment;
+  return [
+    `**${escapeMarkup(problem.detail)}**`,
+    where && problem.value
+      ? escapeMarkup(`${where}: ${problem.value}`)
+      : undefined,
+    problem.suggestion
+      ? escapeMarkup(`Did you mean ${problem.suggestion}?`)
+      : undefined,
+  ]
+    .filter(Boolean)
+    .join('|');
+}
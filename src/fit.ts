@@ -0,0 +1,118 @@
+import { RichLine, measureLine, parseMarkup, plainText, wrapRichText } from './markup';
+import { splitBreakUnits } from './segment';
+
+export type FitMode = 'shrink' | 'grow' | 'fill';
+
+export interface FitOptions {
+  mode: FitMode;
+  text: string;
+  width: number;
+  height: number;
+  pad: number;
+  fontSize: number;
+  minSize: number;
+  maxSize: number;
+  fontFamily?: string;
+  fontWeight?: string;
+  wrap: boolean;
+  lineHeight: number;
+  maxLines?: number;
+}
+
+export function fitFontSize(options: FitOptions): number {
+  const { mode, text, fontSize, minSize, maxSize } = options;
+  if (!text.trim()) {
+    return fontSize;
+  }
+
+  const paragraphs = parseMarkup(text);
+  const fits = (size: number) => textFits(size, paragraphs, options);
+
+  switch (mode) {
+    case 'shrink':
+      if (fontSize <= minSize || fits(fontSize)) {
+        return fontSize;
+      }
+      return largestFitting(minSize, fontSize, fits) ?? minSize;
+    case 'grow':
+      if (fontSize >= maxSize || !fits(fontSize)) {
+        return fontSize;
+      }
+      return largestFitting(fontSize, maxSize, fits) ?? fontSize;
+    case 'fill':
+    default:
+      return largestFitting(minSize, maxSize, fits) ?? minSize;
+  }
+}
+
+function largestFitting(
+  min: number,
+  max: number,
+  fits: (size: number) => boolean,
+): number | undefined {
+  let low = Math.ceil(min);
+  let high = Math.floor(max);
+  let best: number | undefined;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (fits(mid)) {
+      best = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return best;
+}
+
+function textFits(
+  fontSize: number,
+  paragraphs: RichLine[],
+  options: FitOptions,
+): boolean {
+  const {
+    width,
+    height,
+    pad,
+    fontFamily,
+    fontWeight,
+    wrap,
+    lineHeight,
+    maxLines = 2,
+  } = options;
+
+  const maxWidth = Math.max(0, width - pad * 2);
+  const maxHeight = Math.max(0, height - pad * 2);
+
+  // Wrap without a line limit so truncation shows up as too many lines
+  // rather than being hidden behind an ellipsis.
+  const lines = wrapRichText({
+    paragraphs,
+    maxWidth,
+    fontSize,
+    fontFamily,
+    fontWeight,
+    wrap,
+    maxLines: Number.POSITIVE_INFINITY,
+  });
+
+  if (lines.length > maxLines || lines.length * fontSize * lineHeight > maxHeight) {
+    return false;
+  }
+
+  // A word split across lines by chunkWord reads as broken text, so it only
+  // counts as fitting if the line breaks all fall where wrapText may break.
+  if (countBreakUnits(paragraphs) !== countBreakUnits(lines)) {
+    return false;
+  }
+
+  return lines.every(
+    (line) => measureLine(line, { fontSize, fontFamily, fontWeight }) <= maxWidth,
+  );
+}
+
+function countBreakUnits(lines: RichLine[]): number {
+  return lines.reduce((count, line) => count + splitBreakUnits(plainText(line)).length, 0);
+}
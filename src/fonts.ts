@@ -0,0 +1,197 @@
+import { ConfigError } from './errors';
+import { TextSpan } from './markup';
+import { isBold } from './metrics';
+
+export type GenericFamily = 'sans-serif' | 'serif' | 'monospace';
+export type FontFaceKind = 'regular' | 'bold';
+
+// Resolves to the raw TTF or OTF bytes of one face.
+export type FontSource = () => Promise<ArrayBuffer>;
+
+export interface WebFont {
+  family: string;
+  generic: GenericFamily;
+  faces: { regular: FontSource; bold?: FontSource };
+}
+
+export interface ResolvedFont {
+  // The font-family to draw with; undefined means the default stack.
+  family?: string;
+  font?: WebFont;
+  // The requested name when it wasn't recognised.
+  unknown?: string;
+}
+
+// CSS generic families are always safe to pass through, since every viewer
+// maps them to something.
+const GENERIC_FAMILIES = [
+  'serif',
+  'sans-serif',
+  'monospace',
+  'cursive',
+  'fantasy',
+  'system-ui',
+  'ui-serif',
+  'ui-sans-serif',
+  'ui-monospace',
+  'ui-rounded',
+  'math',
+  'emoji',
+];
+
+// The font files are deployed as static assets (see wrangler.toml), so the
+// host of these URLs is never looked at.
+const ASSET_BASE = 'https://assets.local/fonts';
+// Loaded faces stay cached up to this many bytes, oldest dropped first.
+const CACHE_BUDGET = 8 * 1024 * 1024;
+
+const fonts = new Map<string, WebFont>();
+const loaded = new Map<FontSource, Promise<ArrayBuffer>>();
+const loadedSizes = new Map<FontSource, number>();
+let cachedBytes = 0;
+let assets: Fetcher | undefined;
+
+// The ASSETS binding the font files are read from, set for each request.
+export function configureFontAssets(binding: Fetcher | undefined): void {
+  assets = binding;
+}
+
+export function registerFont(name: string, font: WebFont): void {
+  const key = normalizeFontName(name);
+  if (!key) {
+    throw new Error('Invalid font name');
+  }
+  fonts.set(key, font);
+}
+
+export function getFont(name: string): WebFont | undefined {
+  return fonts.get(normalizeFontName(name));
+}
+
+export function fontNames(): string[] {
+  return [...fonts.keys()];
+}
+
+// `font` takes a registered font (`inter`, `Noto Sans`) or a CSS generic
+// family. Anything else would depend on what the viewer has installed.
+export function resolveFont(value: string | undefined): ResolvedFont {
+  const name = value?.trim();
+  if (!name) {
+    return {};
+  }
+  const font = getFont(name);
+  if (font) {
+    return { family: `${font.family}, ${font.generic}`, font };
+  }
+  if (GENERIC_FAMILIES.includes(name.toLowerCase())) {
+    return { family: name.toLowerCase() };
+  }
+  return { unknown: name };
+}
+
+// Loads are shared, so concurrent renders fetch a face only once.
+export function loadFontFace(font: WebFont, kind: FontFaceKind): Promise<ArrayBuffer> {
+  const source = (kind === 'bold' && font.faces.bold) || font.faces.regular;
+  let pending = loaded.get(source);
+  if (pending) {
+    // Re-inserted, so the Map's order stays least recently used first.
+    loaded.delete(source);
+    loaded.set(source, pending);
+    return pending;
+  }
+  pending = source();
+  loaded.set(source, pending);
+  pending.then(
+    (data) => {
+      loadedSizes.set(source, data.byteLength);
+      cachedBytes += data.byteLength;
+      trimCache(source);
+    },
+    () => loaded.delete(source),
+  );
+  return pending;
+}
+
+function trimCache(keep: FontSource): void {
+  for (const source of loaded.keys()) {
+    if (cachedBytes <= CACHE_BUDGET) {
+      return;
+    }
+    const size = loadedSizes.get(source);
+    // Loads still in flight have no size yet and are left alone.
+    if (source === keep || size === undefined) {
+      continue;
+    }
+    loaded.delete(source);
+    loadedSizes.delete(source);
+    cachedBytes -= size;
+  }
+}
+
+// The characters each face draws, for subsetting. The ellipsis that
+// truncated text may gain is included too.
+export function charactersByFace(
+  lines: TextSpan[][],
+  fontWeight?: string,
+): Partial<Record<FontFaceKind, string>> {
+  const used: Record<FontFaceKind, Set<string>> = { regular: new Set(), bold: new Set() };
+  for (const span of lines.flat()) {
+    const face = span.bold || isBold(fontWeight) ? 'bold' : 'regular';
+    for (const char of span.text) {
+      used[face].add(char);
+    }
+  }
+
+  const result: Partial<Record<FontFaceKind, string>> = {};
+  for (const face of ['regular', 'bold'] as const) {
+    if (used[face].size) {
+      used[face].add('.');
+      result[face] = [...used[face]].join('');
+    }
+  }
+  return result;
+}
+
+function normalizeFontName(name: string): string {
+  return name
+    .trim()
+    .replace(/^["']|["']$/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-');
+}
+
+// `path` is relative to the @expo-google-fonts packages, which the build
+// copies into the assets as they are.
+function bundled(path: string): FontSource {
+  return async () => {
+    if (!assets) {
+      throw new ConfigError('ASSETS', 'the binding is missing, so no font files can be read');
+    }
+    const response = await assets.fetch(`${ASSET_BASE}/${path}`);
+    if (!response.ok) {
+      throw new ConfigError('ASSETS', `font file ${path} is missing`);
+    }
+    return response.arrayBuffer();
+  };
+}
+
+// Name, family, generic family and the file prefix in its package.
+const BUNDLED: [string, string, GenericFamily, string][] = [
+  ['inter', 'Inter', 'sans-serif', 'Inter'],
+  ['roboto', 'Roboto', 'sans-serif', 'Roboto'],
+  ['noto-sans', 'Noto Sans', 'sans-serif', 'NotoSans'],
+  ['noto-serif', 'Noto Serif', 'serif', 'NotoSerif'],
+  ['noto-sans-mono', 'Noto Sans Mono', 'monospace', 'NotoSansMono'],
+];
+
+for (const [name, family, generic, file] of BUNDLED) {
+  registerFont(name, {
+    family,
+    generic,
+    faces: {
+      regular: bundled(`${name}/400Regular/${file}_400Regular.ttf`),
+      bold: bundled(`${name}/700Bold/${file}_700Bold.ttf`),
+    },
+  });
+}
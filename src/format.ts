@@ -0,0 +1,141 @@
+import { FormatError, RasterSizeError } from './errors';
+import { suggestClosest } from './util';
+
+export type OutputFormat = 'svg' | 'png' | 'webp' | 'avif' | 'jpg';
+
+export type RasterFormat = Exclude<OutputFormat, 'svg'>;
+
+export const CONTENT_TYPES: Record<OutputFormat, string> = {
+  svg: 'image/svg+xml; charset=utf-8',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  jpg: 'image/jpeg',
+};
+
+// Ties in Accept negotiation resolve in this order, so SVG wins whenever the
+// client is happy with it and we never rasterize without a reason.
+const FORMAT_PREFERENCE: OutputFormat[] = ['svg', 'png', 'webp', 'avif', 'jpg'];
+
+// Rasterizing holds the whole image in memory as RGBA, 4 bytes a pixel, so
+// raster output is capped: the default is 64 MB of pixels.
+export const DEFAULT_RASTER_MAX_PIXELS = 16_777_216;
+
+const FORMAT_ALIASES: Record<string, OutputFormat> = {
+  svg: 'svg',
+  png: 'png',
+  webp: 'webp',
+  avif: 'avif',
+  jpg: 'jpg',
+  jpeg: 'jpg',
+};
+
+const MEDIA_TYPES: Record<string, OutputFormat> = {
+  'image/svg+xml': 'svg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/jpeg': 'jpg',
+};
+
+export function parseFormat(value: string): OutputFormat {
+  const normalized = value.trim().toLowerCase();
+  const format = formatAlias(normalized);
+  if (!format) {
+    throw new FormatError(value, {
+      suggestion: suggestClosest(normalized, Object.keys(FORMAT_ALIASES), 1)[0],
+    });
+  }
+  return format;
+}
+
+// Own keys only, so `constructor` and friends aren't formats.
+function formatAlias(name: string): OutputFormat | undefined {
+  return Object.hasOwn(FORMAT_ALIASES, name) ? FORMAT_ALIASES[name] : undefined;
+}
+
+export function splitFormatExtension(segment: string): {
+  value: string;
+  format?: OutputFormat;
+} {
+  const match = /^(.+)\.([a-z]+)$/i.exec(segment);
+  if (!match) {
+    return { value: segment };
+  }
+  const format = formatAlias(match[2].toLowerCase());
+  if (!format) {
+    return { value: segment };
+  }
+  return { value: match[1], format };
+}
+
+// Browsers send a wildcard in every Accept header, and the types they list
+// are what they can decode rather than what they'd rather have: Safari's
+// <img> header ranks PNG above SVG. So a wildcard keeps SVG, and only a
+// client naming its formats outright can rank a raster one above it.
+export function negotiateFormat(accept: string | null): OutputFormat {
+  if (!accept) {
+    return 'svg';
+  }
+
+  const quality: Partial<Record<OutputFormat, number>> = {};
+
+  for (const entry of accept.split(',')) {
+    const [rawType, ...params] = entry.split(';').map((part) => part.trim());
+    const type = rawType.toLowerCase();
+    const q = parseQuality(params);
+
+    if (type === '*/*' || type === 'image/*') {
+      if (q > 0) {
+        return 'svg';
+      }
+      continue;
+    }
+
+    const format = Object.hasOwn(MEDIA_TYPES, type) ? MEDIA_TYPES[type] : undefined;
+    if (format) {
+      quality[format] = Math.max(quality[format] ?? 0, q);
+    }
+  }
+
+  let best: OutputFormat = 'svg';
+  let bestQuality = 0;
+  for (const format of FORMAT_PREFERENCE) {
+    const q = quality[format] ?? 0;
+    if (q > bestQuality) {
+      best = format;
+      bestQuality = q;
+    }
+  }
+  return best;
+}
+
+function parseQuality(params: string[]): number {
+  for (const param of params) {
+    const match = /^q=([\d.]+)$/i.exec(param);
+    if (match) {
+      const numeric = parseFloat(match[1]);
+      return Number.isFinite(numeric) ? Math.min(Math.max(numeric, 0), 1) : 0;
+    }
+  }
+  return 1;
+}
+
+export function parseRasterLimit(value: string | undefined): number {
+  const numeric = parseInt(value ?? '', 10);
+  return Number.isFinite(numeric) && numeric > 0 ? numeric : DEFAULT_RASTER_MAX_PIXELS;
+}
+
+// Checked before the WASM rasterizer is even loaded.
+export function checkRasterSize(
+  format: RasterFormat,
+  size: { width: number; height: number; scale: number },
+  maxPixels: number,
+): void {
+  const pixels = Math.ceil(size.width * size.scale) * Math.ceil(size.height * size.scale);
+  if (pixels > maxPixels) {
+    throw new RasterSizeError(format, {
+      message: `${format} output is limited to ${maxPixels} pixels; this image has ${pixels}`,
+    });
+  }
+}
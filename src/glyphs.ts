@@ -0,0 +1,902 @@
+// Generated by scripts/generate-metrics.mjs from the bundled Inter, Roboto
+// and Noto fonts (SIL Open Font License 1.1). Do not edit by hand.
+import type { FontMetrics } from './metrics';
+
+export const INTER_REGULAR: FontMetrics = {
+  unitsPerEm: 2048,
+  advances: {
+    ' ': 576, '!': 589, '"': 954, '#': 1297, '$': 1314, '%': 2011, '&': 1319, '\'': 614,
+    '(': 747, ')': 747, '*': 1026, '+': 1355, ',': 590, '-': 942, '.': 590, '/': 738,
+    '0': 1292, '1': 833, '2': 1249, '3': 1265, '4': 1323, '5': 1215, '6': 1270, '7': 1159,
+    '8': 1267, '9': 1270, ':': 590, ';': 618, '<': 1355, '=': 1355, '>': 1355, '?': 1047,
+    '@': 1978, 'A': 1413, 'B': 1340, 'C': 1496, 'D': 1478, 'E': 1231, 'F': 1209, 'G': 1528,
+    'H': 1522, 'I': 550, 'J': 1169, 'K': 1376, 'L': 1158, 'M': 1850, 'N': 1543, 'O': 1566,
+    'P': 1308, 'Q': 1566, 'R': 1318, 'S': 1314, 'T': 1322, 'U': 1524, 'V': 1413, 'W': 2018,
+    'X': 1397, 'Y': 1390, 'Z': 1288, '[': 747, '\\': 738, ']': 747, '^': 965, '_': 934,
+    '`': 661, 'a': 1150, 'b': 1254, 'c': 1170, 'd': 1254, 'e': 1194, 'f': 758, 'g': 1256,
+    'h': 1211, 'i': 496, 'j': 496, 'k': 1124, 'l': 496, 'm': 1794, 'n': 1210, 'o': 1228,
+    'p': 1254, 'q': 1254, 'r': 771, 's': 1081, 't': 670, 'u': 1211, 'v': 1151, 'w': 1676,
+    'x': 1118, 'y': 1151, 'z': 1131, '{': 873, '|': 681, '}': 873, '~': 1355, '\u00a0': 576,
+    '¡': 589, '¢': 1170, '£': 1251, '¤': 1484, '¥': 1126, '¦': 553, '§': 1164, '¨': 1210,
+    '©': 1872, 'ª': 929, '«': 1193, '¬': 1355, '®': 1364, '¯': 978, '°': 933, '±': 1355,
+    '²': 905, '³': 913, '´': 661, 'µ': 1200, '¶': 1234, '·': 590, '¸': 549, '¹': 623,
+    'º': 988, '»': 1193, '¼': 1643, '½': 1735, '¾': 1806, '¿': 1047, 'À': 1413, 'Á': 1413,
+    'Â': 1413, 'Ã': 1413, 'Ä': 1413, 'Å': 1413, 'Æ': 2035, 'Ç': 1496, 'È': 1231, 'É': 1231,
+    'Ê': 1231, 'Ë': 1231, 'Ì': 550, 'Í': 550, 'Î': 550, 'Ï': 550, 'Ð': 1505, 'Ñ': 1543,
+    'Ò': 1566, 'Ó': 1566, 'Ô': 1566, 'Õ': 1566, 'Ö': 1566, '×': 1355, 'Ø': 1566, 'Ù': 1524,
+    'Ú': 1524, 'Û': 1524, 'Ü': 1524, 'Ý': 1390, 'Þ': 1302, 'ß': 1262, 'à': 1150, 'á': 1150,
+    'â': 1150, 'ã': 1150, 'ä': 1150, 'å': 1150, 'æ': 1879, 'ç': 1170, 'è': 1194, 'é': 1194,
+    'ê': 1194, 'ë': 1194, 'ì': 496, 'í': 496, 'î': 496, 'ï': 496, 'ð': 1193, 'ñ': 1210,
+    'ò': 1228, 'ó': 1228, 'ô': 1228, 'õ': 1228, 'ö': 1228, '÷': 1355, 'ø': 1228, 'ù': 1211,
+    'ú': 1211, 'û': 1211, 'ü': 1211, 'ý': 1151, 'þ': 1254, 'ÿ': 1151, '–': 1024, '—': 2048,
+    '‘': 534, '’': 534, '“': 902, '”': 902, '•': 1152, '…': 1770, '€': 1365, '™': 1251,
+    '←': 1954, '→': 1954, '−': 1355,
+  },
+  kerning: {
+    '"&': -138, '",': -336, '".': -336, '"4': -256, '"A': -162, '"J': -337, '"c': -30, '"d': -30,
+    '"e': -30, '"g': -30, '"o': -30, '"q': -30, '$T': -10, '$X': -20, '&"': -138, '&\'': -138,
+    '&T': -116, '&V': -128, '&W': -81, '&Y': -151, '&\\': -256, '&v': -69, '&w': -69, '&y': -69,
+    '\'&': -138, '\',': -336, '\'.': -336, '\'4': -256, '\'A': -162, '\'J': -337, '\'c': -30, '\'d': -30,
+    '\'e': -30, '\'g': -30, '\'o': -30, '\'q': -30, '(c': -23, '(d': -23, '(e': -23, '(g': -23,
+    '(j': 58, '(o': -23, '(q': -23, '*&': -138, '*,': -558, '*.': -558, '*4': -186, '*@': -46,
+    '*A': -162, '*C': -23, '*G': -23, '*J': -197, '*O': -23, '*Q': -23, '*_': -278, '+2': -138,
+    '+3': -46, '+7': -92, '+A': -69, '+J': -93, '+T': -151, '+V': -104, '+W': -104, '+X': -70,
+    '+Y': -162, '+\\': -208, '+x': -46, ',"': -336, ',\'': -336, ',0': -104, ',1': -354, ',3': -110,
+    ',5': -58, ',6': -104, ',7': -58, ',8': -92, ',9': -28, ',?': -360, ',@': -180, ',C': -90,
+    ',G': -90, ',O': -90, ',Q': -90, ',T': -69, ',Y': -69, '-2': -138, '-3': -46, '-7': -92,
+    '-A': -69, '-J': -93, '-T': -151, '-V': -104, '-W': -104, '-X': -70, '-Y': -162, '-\\': -208,
+    '-x': -46, '."': -336, '.\'': -336, '.0': -104, '.1': -354, '.3': -110, '.5': -58, '.6': -104,
+    '.7': -58, '.8': -92, '.9': -28, '.?': -360, '.@': -180, '.C': -90, '.G': -90, '.O': -90,
+    '.Q': -90, '.T': -69, '.Y': -69, '/,': -162, '/.': -162, '/A': -50, '/J': -128, '0,': -104,
+    '0.': -104, '07': -80, '0V': -20, '0X': -70, '0Y': -69, '0\\': -40, '0_': -186, '0t': 30,
+    '1t': 30, '1v': 10, '1y': 10, '24': -64, '3*': -60, '3,': -92, '3.': -92, '3X': -40,
+    '3^': -60, '4*': -80, '4,': -138, '4.': -138, '41': -80, '4^': -80, '5,': -110, '5.': -110,
+    '6,': -138, '6.': -138, '6_': -186, '7#': -232, '7&': -186, '7,': -512, '7.': -512, '70': -64,
+    '73': -68, '74': -238, '75': -40, '76': -64, '77': 80, '78': -58, '79': -40, '7:': -138,
+    '7;': -138, '7<': -372, '7A': -221, '7J': -197, '7_': -650, '7a': -93, '7c': -104, '7d': -104,
+    '7e': -104, '7g': -104, '7m': -104, '7n': -104, '7o': -104, '7p': -104, '7q': -104, '7r': -104,
+    '7s': -81, '8*': -60, '8,': -92, '8.': -92, '8X': -40, '8^': -60, '9,': -104, '9.': -104,
+    '97': -80, '9V': -20, '9X': -70, '9Y': -69, '9\\': -40, '9_': -186, '9t': 30, ':T': -69,
+    ':V': -128, ':\\': -256, ';T': -69, ';V': -128, ';\\': -256, '=A': -104, '=T': -93, '=V': -139,
+    '=W': -128, '=X': -104, '=Y': -197, '=\\': -278, '=v': -81, '=x': -69, '=y': -81, '>7': -302,
+    '>T': -162, '>V': -151, '>W': -151, '>X': -116, '>Y': -186, '>Z': -128, '>\\': -302, '?A': -128,
+    '@,': -180, '@.': -180, '@/': -162, '@A': -70, '@T': -61, '@V': -69, '@X': -70, '@Y': -69,
+    '@\\': -138, '@_': -162, 'A"': -162, 'A\'': -162, 'A*': -162, 'A+': -69, 'A-': -69, 'A/': 40,
+    'A1': -69, 'A=': -104, 'A?': -128, 'A@': -70, 'AA': 30, 'AC': -70, 'AG': -70, 'AO': -70,
+    'AQ': -70, 'AT': -174, 'AU': -40, 'AV': -140, 'AW': -116, 'AY': -151, 'A\\': -140, 'A^': -162,
+    'Ai': 11, 'At': -40, 'Av': -139, 'Aw': -139, 'Ay': -139, 'A~': -69, 'BT': -116, 'CA': -40,
+    'CX': -11, 'C_': -81, 'D,': -90, 'D.': -90, 'D/': -81, 'DA': -70, 'DT': -61, 'DV': -69,
+    'DX': -70, 'DY': -69, 'D\\': -69, 'D_': -81, 'F,': -81, 'F.': -69, 'FA': -186, 'FJ': -139,
+    'F_': -69, 'Fa': -50, 'Fc': -81, 'Fd': -81, 'Fe': -81, 'Fg': -81, 'Fm': -60, 'Fn': -60,
+    'Fo': -81, 'Fp': -60, 'Fq': -81, 'Fr': -60, 'Fu': -69, 'Fv': -69, 'Fy': -69, 'Fz': -69,
+    'GA': -46, 'GT': -61, 'GV': -46, 'GX': -11, 'GY': -46, 'G\\': -46, 'Ht': 30, 'Hv': 10,
+    'Hy': 10, 'It': 30, 'Iv': 10, 'Iy': 10, 'J,': -69, 'J.': -69, 'J/': -116, 'JA': -40,
+    'J_': -104, 'K$': -20, 'K+': -221, 'K-': -221, 'K<': -139, 'K=': -69, 'K@': -69, 'KC': -69,
+    'KG': -69, 'KO': -69, 'KQ': -69, 'KS': -20, 'Kc': -81, 'Kd': -81, 'Ke': -81, 'Kg': -81,
+    'Ki': 32, 'Ko': -81, 'Kq': -81, 'Ku': -69, 'Kv': -81, 'Kw': -128, 'Ky': -81, 'K~': -221,
+    'L"': -186, 'L\'': -186, 'L*': -81, 'L+': -174, 'L-': -104, 'L1': -93, 'L@': -58, 'LC': -58,
+    'LG': -58, 'LO': -58, 'LQ': -58, 'LT': -197, 'LV': -139, 'LY': -69, 'L\\': -139, 'L^': -267,
+    'Lt': -46, 'Lv': -139, 'Ly': -139, 'L~': -81, 'Mt': 30, 'Mv': 10, 'My': 10, 'Nt': 30,
+    'Nv': 10, 'Ny': 10, 'O,': -90, 'O.': -90, 'O/': -81, 'OA': -70, 'OT': -61, 'OV': -69,
+    'OX': -70, 'OY': -69, 'O\\': -69, 'O_': -81, 'P&': -69, 'P+': -93, 'P,': -81, 'P-': -93,
+    'P.': -69, 'PA': -151, 'PJ': -197, 'Pc': -11, 'Pd': -11, 'Pe': -11, 'Pg': -11, 'Po': -11,
+    'Pq': -11, 'P~': -93, 'Q,': -90, 'Q.': -90, 'Q/': -81, 'QA': -70, 'QT': -61, 'QV': -69,
+    'QX': -70, 'QY': -69, 'Q\\': -69, 'Q_': -81, 'RV': -34, 'RY': -49, 'R\\': -34, 'Ra': -10,
+    'Rc': -30, 'Rd': -30, 'Re': -30, 'Rg': -30, 'Ro': -30, 'Rq': -30, 'ST': -10, 'SX': -20,
+    'T&': -69, 'T+': -151, 'T,': -69, 'T-': -151, 'T.': -69, 'T/': -104, 'T0': -69, 'T4': -139,
+    'T6': -69, 'T7': -162, 'T:': -69, 'T;': -69, 'T<': -162, 'T=': -69, 'T@': -61, 'TA': -174,
+    'TC': -61, 'TG': -61, 'TJ': -186, 'TO': -61, 'TQ': -61, 'TY': 40, 'T_': -116, 'Ta': -150,
+    'Tc': -160, 'Td': -160, 'Te': -160, 'Tg': -160, 'Tm': -116, 'Tn': -116, 'To': -160, 'Tp': -116,
+    'Tq': -160, 'Tr': -116, 'Ts': -151, 'Tt': -209, 'Tu': -151, 'Tv': -128, 'Tw': -128, 'Tx': -128,
+    'Ty': -128, 'Tz': -93, 'T~': -151, 'U,': -69, 'U.': -69, 'U/': -116, 'UA': -40, 'U_': -104,
+    'V&': -104, 'V+': -104, 'V,': -197, 'V-': -104, 'V.': -197, 'V/': -100, 'V0': -20, 'V4': -69,
+    'V6': -20, 'V:': -128, 'V;': -128, 'V<': -151, 'V=': -128, 'V@': -69, 'VA': -140, 'VC': -69,
+    'VG': -69, 'VJ': -197, 'VO': -69, 'VQ': -69, 'VV': 30, 'V\\': 30, 'V_': -162, 'Va': -104,
+    'Vc': -104, 'Vd': -104, 'Ve': -104, 'Vg': -104, 'Vo': -104, 'Vq': -104, 'Vs': -93, 'V~': -104,
+    'W&': -104, 'W+': -104, 'W,': -197, 'W-': -104, 'W.': -197, 'W4': -69, 'W:': -104, 'W;': -104,
+    'W<': -151, 'W=': -128, 'WA': -116, 'WJ': -128, 'WW': 50, 'Wa': -104, 'Wc': -104, 'Wd': -104,
+    'We': -104, 'Wg': -104, 'Wm': -70, 'Wn': -70, 'Wo': -104, 'Wp': -70, 'Wq': -104, 'Wr': -70,
+    'Ws': -69, 'W~': -104, 'X$': -20, 'X+': -70, 'X-': -70, 'X0': -70, 'X3': -40, 'X4': -81,
+    'X6': -70, 'X8': -40, 'X<': -116, 'X=': -104, 'X@': -70, 'XC': -70, 'XG': -70, 'XO': -70,
+    'XQ': -70, 'XS': -20, 'XT': -81, 'Xa': -116, 'Xc': -58, 'Xd': -58, 'Xe': -58, 'Xg': -58,
+    'Xo': -58, 'Xq': -58, 'X~': -70, 'Y&': -128, 'Y+': -162, 'Y,': -69, 'Y-': -162, 'Y.': -69,
+    'Y4': -139, 'Y:': -128, 'Y;': -128, 'Y<': -209, 'Y=': -197, 'Y@': -69, 'YA': -151, 'YC': -69,
+    'YG': -69, 'YJ': -69, 'YO': -69, 'YQ': -69, 'YT': 40, 'Ya': -145, 'Yc': -157, 'Yd': -157,
+    'Ye': -157, 'Yg': -157, 'Yi': -58, 'Ym': -80, 'Yn': -80, 'Yo': -157, 'Yp': -80, 'Yq': -157,
+    'Yr': -80, 'Ys': -139, 'Yu': -81, 'Y~': -162, 'Z+': -81, 'Z-': -81, 'Z<': -128, 'Z@': -69,
+    'ZC': -69, 'ZG': -69, 'ZO': -69, 'ZQ': -69, 'Z~': -81, '[c': -23, '[d': -23, '[e': -23,
+    '[g': -23, '[j': 58, '[o': -23, '[q': -23, '\\"': -324, '\\\'': -324, '\\*': -324, '\\+': -138,
+    '\\-': -138, '\\/': 80, '\\1': -138, '\\=': -208, '\\?': -256, '\\@': -140, '\\A': 30, '\\C': -70,
+    '\\G': -70, '\\O': -70, '\\Q': -70, '\\T': -81, '\\U': -40, '\\V': -100, '\\W': -116, '\\Y': -151,
+    '\\\\': -200, '\\^': -324, '\\i': 11, '\\t': -40, '\\v': -104, '\\w': -139, '\\y': -104, '\\~': -138,
+    '^&': -138, '^,': -558, '^.': -558, '^4': -186, '^@': -46, '^A': -162, '^C': -23, '^G': -23,
+    '^J': -197, '^O': -23, '^Q': -23, '^_': -278, '_*': -278, '_0': -186, '_1': -442, '_3': -186,
+    '_4': -232, '_5': -186, '_6': -186, '_8': -186, '_9': -186, '_@': -162, '_B': 69, '_C': -81,
+    '_D': 69, '_E': 69, '_F': 69, '_G': -81, '_H': 69, '_I': 69, '_K': 69, '_L': 69,
+    '_M': 69, '_N': 69, '_O': -81, '_P': 69, '_Q': -81, '_R': 69, '_T': -116, '_U': -81,
+    '_V': -162, '_\\': -324, '_^': -278, '_b': 69, '_h': 69, '_i': 69, '_j': 197, '_k': 69,
+    '_l': 69, '_m': 69, '_n': 69, '_p': 69, '_r': 69, '_v': -162, '_y': -162, '_|': 138,
+    'a1': -81, 'aT': -140, 'aV': -104, 'aW': -104, 'aY': -151, 'a\\': -104, 'av': -30, 'ay': -30,
+    'b"': -30, 'b\'': -30, 'b)': -23, 'b1': -69, 'bA': -69, 'bT': -160, 'bV': -104, 'bW': -104,
+    'bX': -58, 'bY': -174, 'b\\': -104, 'b]': -23, 'ba': 20, 'bv': -40, 'bw': -37, 'bx': -46,
+    'by': -40, 'bz': -30, 'b}': -23, 'c"': -30, 'c\'': -30, 'c)': -23, 'c1': -69, 'cA': -69,
+    'cT': -160, 'cV': -104, 'cW': -104, 'cX': -58, 'cY': -174, 'c\\': -104, 'c]': -23, 'ca': 20,
+    'cv': -40, 'cw': -37, 'cx': -46, 'cy': -40, 'cz': -30, 'c}': -23, 'dt': 30, 'dv': 10,
+    'dy': 10, 'e"': -30, 'e\'': -30, 'e)': -23, 'e1': -69, 'eA': -69, 'eT': -160, 'eV': -104,
+    'eW': -104, 'eX': -58, 'eY': -174, 'e\\': -104, 'e]': -23, 'ea': 20, 'ev': -40, 'ew': -37,
+    'ex': -46, 'ey': -40, 'ez': -30, 'e}': -23, 'f+': -58, 'f,': -116, 'f-': -58, 'f.': -116,
+    'f/': -58, 'f4': -128, 'fA': -69, 'fJ': -128, 'fY': 20, 'f_': -29, 'fa': -32, 'fc': -60,
+    'fd': -60, 'fe': -60, 'ff': -80, 'fg': -60, 'fo': -60, 'fq': -60, 'fs': -46, 'ft': -70,
+    'fw': 30, 'f~': -58, 'gT': -104, 'h1': -81, 'hT': -140, 'hV': -104, 'hW': -104, 'hY': -151,
+    'h\\': -104, 'hv': -30, 'hy': -30, 'k+': -93, 'k-': -93, 'k4': -93, 'k<': -174, 'kT': -116,
+    'kc': -46, 'kd': -46, 'ke': -46, 'kg': -46, 'ko': -46, 'kq': -46, 'k~': -93, 'lt': 30,
+    'lv': 10, 'ly': 10, 'm1': -81, 'mT': -140, 'mV': -104, 'mW': -104, 'mY': -151, 'm\\': -104,
+    'mv': -30, 'my': -30, 'n1': -81, 'nT': -140, 'nV': -104, 'nW': -104, 'nY': -151, 'n\\': -104,
+    'nv': -30, 'ny': -30, 'o"': -30, 'o\'': -30, 'o)': -23, 'o1': -69, 'oA': -69, 'oT': -160,
+    'oV': -104, 'oW': -104, 'oX': -58, 'oY': -174, 'o\\': -104, 'o]': -23, 'oa': 20, 'ov': -40,
+    'ow': -37, 'ox': -46, 'oy': -40, 'oz': -30, 'o}': -23, 'p"': -30, 'p\'': -30, 'p)': -23,
+    'p1': -69, 'pA': -69, 'pT': -160, 'pV': -104, 'pW': -104, 'pX': -58, 'pY': -174, 'p\\': -104,
+    'p]': -23, 'pa': 20, 'pv': -40, 'pw': -37, 'px': -46, 'py': -40, 'pz': -30, 'p}': -23,
+    'qT': -104, 'r+': -81, 'r,': -128, 'r-': -81, 'r.': -128, 'r/': -69, 'r<': -81, 'rA': -81,
+    'rB': 32, 'rD': 32, 'rE': 32, 'rF': 32, 'rH': 32, 'rI': 32, 'rJ': -116, 'rK': 32,
+    'rL': 32, 'rM': 32, 'rN': 32, 'rP': 32, 'rR': 32, 'rT': -116, 'rZ': -69, 'rb': 32,
+    'rc': -34, 'rd': -34, 're': -34, 'rf': 32, 'rg': -34, 'rh': 32, 'ri': 20, 'rj': 32,
+    'rk': 32, 'rl': 32, 'rm': 32, 'rn': 32, 'ro': -34, 'rp': 32, 'rq': -34, 'rr': 32,
+    'rt': 32, 'rv': 32, 'rw': 17, 'rx': 32, 'ry': 32, 'r|': 32, 'r~': -81, 'sT': -151,
+    'sV': -93, 'sW': -69, 'sY': -151, 's\\': -93, 't+': -40, 't-': -40, 't4': -29, 't<': -58,
+    'tT': -69, 'tV': -20, 'tW': -20, 'tY': -32, 't\\': -20, 'ta': 10, 'tc': -20, 'td': -20,
+    'te': -20, 'tf': -50, 'tg': -20, 'tj': 20, 'to': -20, 'tq': -20, 'ts': -20, 'tv': 40,
+    'tw': 30, 'ty': 40, 't~': -40, 'u+': -81, 'u-': -81, 'u/': -69, 'u<': -81, 'uT': -104,
+    'uY': -116, 'u_': -69, 'u~': -81, 'v+': -81, 'v,': -90, 'v-': -81, 'v.': -90, 'v/': -116,
+    'v<': -69, 'v=': -81, 'vA': -139, 'vB': 10, 'vD': 10, 'vE': 10, 'vF': 10, 'vH': 10,
+    'vI': 10, 'vJ': -128, 'vK': 10, 'vL': 10, 'vM': 10, 'vN': 10, 'vP': 10, 'vR': 10,
+    'vT': -69, 'vY': -69, 'v_': -162, 'va': -10, 'vb': 10, 'vc': -40, 'vd': -40, 've': -40,
+    'vf': 30, 'vg': -40, 'vh': 10, 'vk': 10, 'vl': 10, 'vo': -40, 'vq': -40, 'vt': 30,
+    'v|': 10, 'v~': -81, 'w&': -69, 'w,': -151, 'w.': -151, 'wA': -139, 'wJ': -116, 'wT': -104,
+    'wZ': -69, 'wc': -37, 'wd': -37, 'we': -37, 'wg': -37, 'wo': -37, 'wq': -37, 'x+': -46,
+    'x-': -46, 'x=': -69, 'xT': -128, 'xc': -46, 'xd': -46, 'xe': -46, 'xf': 40, 'xg': -46,
+    'xo': -46, 'xq': -46, 'xt': 40, 'x~': -46, 'y+': -81, 'y,': -90, 'y-': -81, 'y.': -90,
+    'y/': -116, 'y<': -69, 'y=': -81, 'yA': -139, 'yB': 10, 'yD': 10, 'yE': 10, 'yF': 10,
+    'yH': 10, 'yI': 10, 'yJ': -128, 'yK': 10, 'yL': 10, 'yM': 10, 'yN': 10, 'yP': 10,
+    'yR': 10, 'yT': -69, 'yY': -69, 'y_': -162, 'ya': -10, 'yb': 10, 'yc': -40, 'yd': -40,
+    'ye': -40, 'yf': 30, 'yg': -40, 'yh': 10, 'yk': 10, 'yl': 10, 'yo': -40, 'yq': -40,
+    'yt': 30, 'y|': 10, 'y~': -81, 'zT': -69, 'zc': -30, 'zd': -30, 'ze': -30, 'zg': -30,
+    'zo': -30, 'zq': -30, '{c': -23, '{d': -23, '{e': -23, '{g': -23, '{j': 58, '{o': -23,
+    '{q': -23, '|t': 30, '|v': 10, '|y': 10, '~2': -138, '~3': -46, '~7': -92, '~A': -69,
+    '~J': -93, '~T': -151, '~V': -104, '~W': -104, '~X': -70, '~Y': -162, '~\\': -208, '~x': -46,
+  },
+};
+
+export const INTER_BOLD: FontMetrics = {
+  unitsPerEm: 2048,
+  advances: {
+    ' ': 485, '!': 692, '"': 1130, '#': 1329, '$': 1341, '%': 2080, '&': 1376, '\'': 694,
+    '(': 772, ')': 772, '*': 1145, '+': 1390, ',': 684, '-': 958, '.': 684, '/': 795,
+    '0': 1381, '1': 883, '2': 1290, '3': 1322, '4': 1385, '5': 1274, '6': 1330, '7': 1191,
+    '8': 1333, '9': 1330, ':': 684, ';': 702, '<': 1390, '=': 1390, '>': 1390, '?': 1146,
+    '@': 2081, 'A': 1529, 'B': 1355, 'C': 1515, 'D': 1479, 'E': 1244, 'F': 1202, 'G': 1537,
+    'H': 1530, 'I': 575, 'J': 1197, 'K': 1473, 'L': 1158, 'M': 1908, 'N': 1561, 'O': 1578,
+    'P': 1327, 'Q': 1591, 'R': 1345, 'S': 1341, 'T': 1367, 'U': 1499, 'V': 1529, 'W': 2125,
+    'X': 1512, 'Y': 1497, 'Z': 1360, '[': 772, '\\': 795, ']': 772, '^': 997, '_': 975,
+    '`': 748, 'a': 1189, 'b': 1291, 'c': 1205, 'd': 1291, 'e': 1220, 'f': 815, 'g': 1294,
+    'h': 1275, 'i': 555, 'j': 555, 'k': 1188, 'l': 555, 'm': 1869, 'n': 1275, 'o': 1256,
+    'p': 1291, 'q': 1291, 'r': 834, 's': 1147, 't': 750, 'u': 1275, 'v': 1228, 'w': 1741,
+    'x': 1188, 'y': 1233, 'z': 1173, '{': 960, '|': 761, '}': 960, '~': 1390, '\u00a0': 485,
+    '¡': 692, '¢': 1205, '£': 1308, '¤': 1560, '¥': 1168, '¦': 694, '§': 1164, '¨': 1275,
+    '©': 1872, 'ª': 950, '«': 1352, '¬': 1390, '®': 1356, '¯': 899, '°': 941, '±': 1390,
+    '²': 942, '³': 966, '´': 748, 'µ': 1286, '¶': 1226, '·': 684, '¸': 746, '¹': 682,
+    'º': 1003, '»': 1352, '¼': 1732, '½': 1805, '¾': 1884, '¿': 1146, 'À': 1529, 'Á': 1529,
+    'Â': 1529, 'Ã': 1529, 'Ä': 1529, 'Å': 1529, 'Æ': 2094, 'Ç': 1515, 'È': 1244, 'É': 1244,
+    'Ê': 1244, 'Ë': 1244, 'Ì': 575, 'Í': 575, 'Î': 575, 'Ï': 575, 'Ð': 1556, 'Ñ': 1561,
+    'Ò': 1578, 'Ó': 1578, 'Ô': 1578, 'Õ': 1578, 'Ö': 1578, '×': 1390, 'Ø': 1578, 'Ù': 1499,
+    'Ú': 1499, 'Û': 1499, 'Ü': 1499, 'Ý': 1497, 'Þ': 1370, 'ß': 1346, 'à': 1189, 'á': 1189,
+    'â': 1189, 'ã': 1189, 'ä': 1189, 'å': 1189, 'æ': 1864, 'ç': 1205, 'è': 1220, 'é': 1220,
+    'ê': 1220, 'ë': 1220, 'ì': 555, 'í': 555, 'î': 555, 'ï': 555, 'ð': 1227, 'ñ': 1275,
+    'ò': 1256, 'ó': 1256, 'ô': 1256, 'õ': 1256, 'ö': 1256, '÷': 1390, 'ø': 1256, 'ù': 1275,
+    'ú': 1275, 'û': 1275, 'ü': 1275, 'ý': 1233, 'þ': 1291, 'ÿ': 1233, '–': 1024, '—': 2048,
+    '‘': 636, '’': 636, '“': 1106, '”': 1089, '•': 971, '…': 2052, '€': 1402, '™': 1311,
+    '←': 1954, '→': 1954, '−': 1390,
+  },
+  kerning: {
+    '"&': -138, '",': -368, '".': -368, '"4': -256, '"A': -162, '"J': -337, '"c': -41, '"d': -41,
+    '"e': -41, '"g': -41, '"o': -41, '"q': -41, '"s': -16, '$A': -31, '$T': -15, '$X': -25,
+    '&"': -138, '&\'': -138, '&T': -116, '&V': -128, '&W': -81, '&Y': -151, '&\\': -256, '&v': -69,
+    '&w': -69, '&y': -69, '\'&': -138, '\',': -368, '\'.': -368, '\'4': -256, '\'A': -162, '\'J': -337,
+    '\'c': -41, '\'d': -41, '\'e': -41, '\'g': -41, '\'o': -41, '\'q': -41, '\'s': -16, '(B': 37,
+    '(D': 37, '(E': 37, '(F': 37, '(H': 37, '(I': 37, '(K': 37, '(L': 37, '(M': 37,
+    '(N': 37, '(P': 37, '(R': 37, '(b': 37, '(c': -11, '(d': -11, '(e': -11, '(g': -11,
+    '(h': 37, '(j': 27, '(k': 37, '(l': 37, '(m': 37, '(n': 37, '(o': -11, '(p': 37,
+    '(q': -11, '(r': 37, '(|': 74, '*&': -138, '*,': -558, '*.': -558, '*4': -186, '*@': -70,
+    '*A': -194, '*C': -35, '*G': -35, '*J': -197, '*O': -35, '*Q': -35, '*_': -278, '+2': -88,
+    '+3': -22, '+7': -116, '+A': -69, '+J': -93, '+T': -157, '+V': -92, '+W': -48, '+X': -82,
+    '+Y': -131, '+\\': -184, '+x': -46, ', ': -126, ',!': -50, ',"': -406, ',\'': -406, ',0': -120,
+    ',1': -370, ',3': -94, ',5': -26, ',6': -120, ',7': -104, ',8': -116, ',9': -52, ',?': -360,
+    ',@': -180, ',C': -90, ',G': -90, ',O': -90, ',Q': -90, ',T': -69, ',Y': -132, '-2': -88,
+    '-3': -22, '-7': -116, '-A': -69, '-J': -93, '-T': -157, '-V': -92, '-W': -48, '-X': -82,
+    '-Y': -131, '-\\': -184, '-x': -46, '. ': -126, '.!': -50, '."': -406, '.\'': -406, '.0': -120,
+    '.1': -370, '.3': -94, '.5': -26, '.6': -120, '.7': -104, '.8': -116, '.9': -52, '.?': -360,
+    '.@': -180, '.C': -90, '.G': -90, '.O': -90, '.Q': -90, '.T': -69, '.Y': -132, '/,': -162,
+    '/.': -162, '/A': -50, '/J': -128, '/V': 16, '/W': 16, '/\\': 32, '0,': -120, '0.': -120,
+    '07': -80, '0V': -52, '0X': -75, '0Y': -69, '0\\': -104, '0_': -186, '0t': 35, '1)': 74,
+    '1]': 74, '1_': 74, '1t': 30, '1v': 21, '1y': 21, '1}': 74, '24': -64, '3*': -28,
+    '3,': -86, '3.': -86, '3X': -45, '3^': -28, '4*': -144, '4,': -138, '4.': -138, '41': -156,
+    '4^': -144, '5*': -22, '5,': -94, '5.': -94, '5^': -22, '6,': -122, '6.': -122, '6_': -186,
+    '7#': -232, '7&': -186, '7,': -512, '7.': -512, '70': -64, '73': -68, '74': -238, '75': -40,
+    '76': -64, '77': 80, '78': -58, '79': -40, '7:': -138, '7;': -138, '7<': -372, '7A': -221,
+    '7J': -197, '7_': -650, '7a': -93, '7c': -104, '7d': -104, '7e': -104, '7g': -104, '7m': -104,
+    '7n': -104, '7o': -104, '7p': -104, '7q': -104, '7r': -104, '7s': -81, '8*': -28, '8,': -86,
+    '8.': -86, '8X': -45, '8^': -28, '9,': -120, '9.': -120, '97': -80, '9V': -52, '9X': -75,
+    '9Y': -69, '9\\': -104, '9_': -186, '9t': 35, ':T': -69, ':V': -128, ':\\': -256, ';T': -69,
+    ';V': -128, ';\\': -256, '=A': -104, '=T': -93, '=V': -139, '=W': -128, '=X': -104, '=Y': -197,
+    '=\\': -278, '=v': -81, '=x': -69, '=y': -81, '>7': -302, '>A': -78, '>T': -162, '>V': -151,
+    '>W': -151, '>X': -116, '>Y': -186, '>Z': -128, '>\\': -302, '?A': -128, '@,': -180, '@.': -180,
+    '@/': -162, '@A': -86, '@T': -65, '@V': -82, '@W': -50, '@X': -108, '@Y': -88, '@\\': -164,
+    '@_': -162, 'A"': -162, 'A$': -31, 'A\'': -162, 'A*': -194, 'A+': -69, 'A-': -69, 'A/': 24,
+    'A1': -102, 'A<': -78, 'A=': -104, 'A?': -128, 'A@': -86, 'AA': 30, 'AC': -86, 'AG': -86,
+    'AO': -86, 'AQ': -86, 'AS': -31, 'AT': -182, 'AU': -40, 'AV': -162, 'AW': -147, 'AY': -161,
+    'A\\': -162, 'A^': -194, 'Ac': -47, 'Ad': -47, 'Ae': -47, 'Af': -18, 'Ag': -47, 'Ai': 5,
+    'Ao': -47, 'Aq': -47, 'As': -23, 'At': -56, 'Av': -139, 'Aw': -139, 'Ay': -139, 'A~': -69,
+    'BT': -116, 'CA': -56, 'CX': -30, 'C_': -81, 'Cv': 12, 'Cy': 12, 'D,': -90, 'D.': -90,
+    'D/': -81, 'DA': -86, 'DT': -65, 'DV': -82, 'DW': -50, 'DX': -108, 'DY': -88, 'D\\': -82,
+    'D_': -81, 'F,': -81, 'F.': -69, 'FA': -186, 'FJ': -139, 'F_': -69, 'Fa': -34, 'Fc': -59,
+    'Fd': -59, 'Fe': -59, 'Fg': -59, 'Fm': -40, 'Fn': -40, 'Fo': -59, 'Fp': -40, 'Fq': -59,
+    'Fr': -40, 'Fu': -69, 'Fv': -69, 'Fy': -69, 'Fz': -69, 'GA': -64, 'GT': -63, 'GV': -46,
+    'GX': -30, 'GY': -58, 'G\\': -46, 'H)': 37, 'H]': 37, 'H_': 37, 'Ht': 30, 'Hv': 21,
+    'Hy': 21, 'H}': 37, 'I)': 37, 'I]': 37, 'I_': 37, 'It': 30, 'Iv': 21, 'Iy': 21,
+    'I}': 37, 'J,': -69, 'J.': -69, 'J/': -116, 'JA': -40, 'J_': -104, 'K$': -20, 'K+': -158,
+    'K-': -158, 'K<': -139, 'K=': -69, 'K@': -82, 'KC': -82, 'KG': -82, 'KO': -82, 'KQ': -82,
+    'KS': -20, 'Kc': -81, 'Kd': -81, 'Ke': -81, 'Kg': -81, 'Ki': 15, 'Ko': -81, 'Kq': -81,
+    'Ku': -69, 'Kv': -81, 'Kw': -128, 'Ky': -81, 'K~': -158, 'L"': -186, 'L\'': -186, 'L*': -81,
+    'L+': -136, 'L-': -104, 'L1': -93, 'L@': -58, 'LC': -58, 'LG': -58, 'LO': -58, 'LQ': -58,
+    'LT': -186, 'LV': -158, 'LW': -75, 'LY': -178, 'L\\': -158, 'L^': -267, 'Lt': -46, 'Lv': -139,
+    'Ly': -139, 'L~': -81, 'M)': 37, 'M]': 37, 'M_': 37, 'Mt': 30, 'Mv': 21, 'My': 21,
+    'M}': 37, 'N)': 37, 'N]': 37, 'N_': 37, 'Nt': 30, 'Nv': 21, 'Ny': 21, 'N}': 37,
+    'O,': -90, 'O.': -90, 'O/': -81, 'OA': -86, 'OT': -65, 'OV': -82, 'OW': -50, 'OX': -108,
+    'OY': -88, 'O\\': -82, 'O_': -81, 'P&': -69, 'P+': -43, 'P,': -81, 'P-': -43, 'P.': -69,
+    'PA': -170, 'PJ': -197, 'Pa': -26, 'Pc': -17, 'Pd': -17, 'Pe': -17, 'Pg': -17, 'Po': -17,
+    'Pq': -17, 'P~': -43, 'Q,': -90, 'Q.': -90, 'Q/': -81, 'QA': -86, 'QT': -65, 'QV': -82,
+    'QW': -50, 'QX': -108, 'QY': -88, 'Q\\': -82, 'Q_': -81, 'RV': -40, 'RY': -60, 'R\\': -40,
+    'Ra': -10, 'Rc': -25, 'Rd': -25, 'Re': -25, 'Rg': -25, 'Ro': -25, 'Rq': -25, 'SA': -31,
+    'ST': -15, 'SX': -25, 'T$': -11, 'T&': -69, 'T+': -107, 'T,': -69, 'T-': -107, 'T.': -69,
+    'T/': -104, 'T0': -69, 'T4': -139, 'T6': -69, 'T7': -162, 'T:': -69, 'T;': -69, 'T<': -162,
+    'T=': -69, 'T@': -65, 'TA': -182, 'TC': -65, 'TG': -65, 'TJ': -186, 'TO': -65, 'TQ': -65,
+    'TS': -11, 'TY': 18, 'T_': -116, 'Ta': -150, 'Tc': -160, 'Td': -160, 'Te': -160, 'Tg': -160,
+    'Tm': -116, 'Tn': -116, 'To': -160, 'Tp': -116, 'Tq': -160, 'Tr': -116, 'Ts': -151, 'Tt': -209,
+    'Tu': -151, 'Tv': -128, 'Tw': -128, 'Tx': -65, 'Ty': -128, 'Tz': -93, 'T~': -107, 'U,': -69,
+    'U.': -69, 'U/': -116, 'UA': -40, 'U_': -104, 'V&': -104, 'V+': -117, 'V,': -197, 'V-': -117,
+    'V.': -197, 'V/': -100, 'V0': -52, 'V4': -69, 'V6': -52, 'V:': -128, 'V;': -128, 'V<': -151,
+    'V=': -128, 'V@': -69, 'VA': -162, 'VC': -82, 'VG': -82, 'VJ': -197, 'VO': -82, 'VQ': -82,
+    'VV': 30, 'V\\': 30, 'V_': -162, 'Va': -121, 'Vc': -125, 'Vd': -125, 'Ve': -125, 'Vg': -125,
+    'Vm': -16, 'Vn': -16, 'Vo': -125, 'Vp': -16, 'Vq': -125, 'Vr': -16, 'Vs': -93, 'V~': -117,
+    'W$': -12, 'W&': -104, 'W+': -85, 'W,': -197, 'W-': -85, 'W.': -197, 'W/': -64, 'W4': -69,
+    'W:': -104, 'W;': -104, 'W<': -151, 'W=': -128, 'W@': -50, 'WA': -147, 'WC': -50, 'WG': -50,
+    'WJ': -128, 'WO': -50, 'WQ': -50, 'WS': -12, 'WV': 16, 'WW': 45, 'W\\': 16, 'Wa': -118,
+    'Wc': -102, 'Wd': -102, 'We': -102, 'Wg': -102, 'Wm': -70, 'Wn': -70, 'Wo': -102, 'Wp': -70,
+    'Wq': -102, 'Wr': -70, 'Ws': -69, 'W~': -85, 'X$': -25, 'X+': -82, 'X-': -82, 'X0': -75,
+    'X3': -45, 'X4': -81, 'X6': -75, 'X8': -45, 'X<': -116, 'X=': -104, 'X@': -108, 'XC': -108,
+    'XG': -108, 'XO': -108, 'XQ': -108, 'XS': -25, 'XT': -81, 'Xa': -116, 'Xc': -58, 'Xd': -58,
+    'Xe': -58, 'Xg': -58, 'Xo': -58, 'Xq': -58, 'X~': -69, 'Y&': -128, 'Y+': -131, 'Y,': -132,
+    'Y-': -131, 'Y.': -132, 'Y4': -139, 'Y:': -128, 'Y;': -128, 'Y<': -209, 'Y=': -197, 'Y@': -88,
+    'YA': -161, 'YC': -88, 'YG': -88, 'YJ': -69, 'YO': -88, 'YQ': -88, 'YT': 18, 'Ya': -208,
+    'Yc': -224, 'Yd': -224, 'Ye': -224, 'Yg': -224, 'Yi': -42, 'Ym': -80, 'Yn': -80, 'Yo': -224,
+    'Yp': -80, 'Yq': -224, 'Yr': -80, 'Ys': -139, 'Yu': -81, 'Y~': -131, 'Z+': -75, 'Z-': -75,
+    'Z<': -128, 'Z@': -69, 'ZC': -69, 'ZG': -69, 'ZO': -69, 'ZQ': -69, 'Z~': -75, '[B': 37,
+    '[D': 37, '[E': 37, '[F': 37, '[H': 37, '[I': 37, '[K': 37, '[L': 37, '[M': 37,
+    '[N': 37, '[P': 37, '[R': 37, '[b': 37, '[c': -11, '[d': -11, '[e': -11, '[g': -11,
+    '[h': 37, '[j': 27, '[k': 37, '[l': 37, '[m': 37, '[n': 37, '[o': -11, '[p': 37,
+    '[q': -11, '[r': 37, '[|': 74, '\\"': -324, '\\$': -62, '\\\'': -324, '\\*': -388, '\\+': -138,
+    '\\-': -138, '\\/': 48, '\\1': -204, '\\<': -156, '\\=': -208, '\\?': -256, '\\@': -172, '\\A': 30,
+    '\\C': -86, '\\G': -86, '\\O': -86, '\\Q': -86, '\\S': -31, '\\T': -81, '\\U': -40, '\\V': -100,
+    '\\W': -118, '\\Y': -161, '\\\\': -200, '\\^': -388, '\\c': -47, '\\d': -47, '\\e': -47, '\\f': -18,
+    '\\g': -47, '\\i': 5, '\\o': -47, '\\q': -47, '\\s': -23, '\\t': -56, '\\v': -104, '\\w': -139,
+    '\\y': -104, '\\~': -138, '^&': -138, '^,': -558, '^.': -558, '^4': -186, '^@': -70, '^A': -194,
+    '^C': -35, '^G': -35, '^J': -197, '^O': -35, '^Q': -35, '^_': -278, '_*': -278, '_0': -186,
+    '_1': -442, '_3': -186, '_4': -232, '_5': -186, '_6': -186, '_8': -186, '_9': -186, '_@': -162,
+    '_B': 69, '_C': -81, '_D': 69, '_E': 69, '_F': 69, '_G': -81, '_H': 69, '_I': 69,
+    '_K': 69, '_L': 69, '_M': 69, '_N': 69, '_O': -81, '_P': 69, '_Q': -81, '_R': 69,
+    '_T': -116, '_U': -81, '_V': -162, '_\\': -324, '_^': -278, '_b': 69, '_h': 69, '_i': 32,
+    '_j': 197, '_k': 69, '_l': 69, '_m': 69, '_n': 69, '_p': 69, '_r': 69, '_v': -162,
+    '_y': -162, '_|': 138, 'a"': -43, 'a\'': -43, 'a1': -81, 'aT': -145, 'aV': -104, 'aW': -104,
+    'aY': -198, 'a\\': -104, 'av': -35, 'ay': -35, 'b"': -41, 'b\'': -41, 'b)': -26, 'b1': -69,
+    'bA': -69, 'bT': -160, 'bV': -125, 'bW': -102, 'bX': -58, 'bY': -232, 'b\\': -125, 'b]': -26,
+    'ba': 20, 'bv': -37, 'bw': -28, 'bx': -41, 'by': -37, 'bz': -41, 'b}': -26, 'c"': -41,
+    'c\'': -41, 'c)': -26, 'c1': -69, 'cA': -69, 'cT': -160, 'cV': -125, 'cW': -102, 'cX': -58,
+    'cY': -232, 'c\\': -125, 'c]': -26, 'ca': 20, 'cv': -37, 'cw': -28, 'cx': -41, 'cy': -37,
+    'cz': -41, 'c}': -26, 'd)': 37, 'd]': 37, 'd_': 37, 'dt': 30, 'dv': 21, 'dy': 21,
+    'd}': 37, 'e"': -41, 'e\'': -41, 'e)': -26, 'e1': -69, 'eA': -69, 'eT': -160, 'eV': -125,
+    'eW': -102, 'eX': -58, 'eY': -232, 'e\\': -125, 'e]': -26, 'ea': 20, 'ev': -37, 'ew': -28,
+    'ex': -41, 'ey': -37, 'ez': -41, 'e}': -26, 'f+': -42, 'f,': -116, 'f-': -42, 'f.': -116,
+    'f/': -27, 'f4': -128, 'fA': -69, 'fJ': -128, 'fY': 9, 'f_': -29, 'fa': -40, 'fc': -44,
+    'fd': -44, 'fe': -44, 'ff': -85, 'fg': -44, 'fi': 17, 'fj': 11, 'fo': -44, 'fq': -44,
+    'fs': -37, 'ft': -81, 'fw': 41, 'f~': -42, 'gT': -104, 'gj': 18, 'h"': -43, 'h\'': -43,
+    'h1': -81, 'hT': -145, 'hV': -104, 'hW': -104, 'hY': -198, 'h\\': -104, 'hv': -35, 'hy': -35,
+    'k+': -118, 'k-': -118, 'k4': -93, 'k<': -174, 'kT': -116, 'kc': -46, 'kd': -46, 'ke': -46,
+    'kg': -46, 'ko': -46, 'kq': -46, 'kv': 16, 'ky': 16, 'k~': -118, 'l)': 37, 'l]': 37,
+    'l_': 37, 'lt': 30, 'lv': 21, 'ly': 21, 'l}': 37, 'm"': -43, 'm\'': -43, 'm1': -81,
+    'mT': -145, 'mV': -104, 'mW': -104, 'mY': -198, 'm\\': -104, 'mv': -35, 'my': -35, 'n"': -43,
+    'n\'': -43, 'n1': -81, 'nT': -145, 'nV': -104, 'nW': -104, 'nY': -198, 'n\\': -104, 'nv': -35,
+    'ny': -35, 'o"': -41, 'o\'': -41, 'o)': -26, 'o1': -69, 'oA': -69, 'oT': -160, 'oV': -125,
+    'oW': -102, 'oX': -58, 'oY': -232, 'o\\': -125, 'o]': -26, 'oa': 20, 'ov': -37, 'ow': -28,
+    'ox': -41, 'oy': -37, 'oz': -41, 'o}': -26, 'p"': -41, 'p\'': -41, 'p)': -26, 'p1': -69,
+    'pA': -69, 'pT': -160, 'pV': -125, 'pW': -102, 'pX': -58, 'pY': -232, 'p\\': -125, 'p]': -26,
+    'pa': 20, 'pv': -37, 'pw': -28, 'px': -41, 'py': -37, 'pz': -41, 'p}': -26, 'qT': -104,
+    'qj': 18, 'r+': -75, 'r,': -128, 'r-': -75, 'r.': -128, 'r/': -63, 'r<': -81, 'rA': -81,
+    'rB': 32, 'rD': 32, 'rE': 32, 'rF': 32, 'rH': 32, 'rI': 32, 'rJ': -116, 'rK': 32,
+    'rL': 32, 'rM': 32, 'rN': 32, 'rP': 32, 'rR': 32, 'rT': -116, 'rZ': -69, 'ra': -28,
+    'rb': 32, 'rc': -50, 'rd': -50, 're': -50, 'rf': 40, 'rg': -50, 'rh': 32, 'ri': 9,
+    'rj': 31, 'rk': 32, 'rl': 32, 'rm': 15, 'rn': 15, 'ro': -50, 'rp': 15, 'rq': -50,
+    'rr': 15, 'rt': 40, 'rv': 32, 'rw': 17, 'rx': 32, 'ry': 32, 'r|': 32, 'r~': -75,
+    's"': -16, 's\'': -16, 'sT': -151, 'sV': -93, 'sW': -69, 'sY': -151, 's\\': -93, 't+': -34,
+    't-': -34, 't4': -13, 't<': -58, 'tB': 5, 'tD': 5, 'tE': 5, 'tF': 5, 'tH': 5,
+    'tI': 5, 'tK': 5, 'tL': 5, 'tM': 5, 'tN': 5, 'tP': 5, 'tR': 5, 'tT': -69,
+    'tV': -9, 'tW': -9, 'tY': -15, 't\\': -9, 'ta': 10, 'tb': 5, 'tc': -20, 'td': -20,
+    'te': -20, 'tf': -66, 'tg': -20, 'th': 5, 'tj': 15, 'tk': 5, 'tl': 5, 'to': -20,
+    'tq': -20, 'ts': -15, 'tt': -22, 'tv': 45, 'tw': 41, 'ty': 45, 't|': 5, 't~': -34,
+    'u+': -75, 'u-': -75, 'u/': -69, 'u<': -81, 'uT': -104, 'uY': -116, 'u_': -69, 'u~': -75,
+    'v+': -81, 'v,': -79, 'v-': -81, 'v.': -79, 'v/': -116, 'v<': -69, 'v=': -81, 'vA': -139,
+    'vB': 5, 'vD': 5, 'vE': 5, 'vF': 5, 'vH': 5, 'vI': 5, 'vJ': -128, 'vK': 5,
+    'vL': 5, 'vM': 5, 'vN': 5, 'vP': 5, 'vR': 5, 'vT': -69, 'vY': -69, 'v_': -162,
+    'va': -20, 'vb': 5, 'vc': -37, 'vd': -37, 've': -37, 'vf': 30, 'vg': -37, 'vh': 5,
+    'vk': 5, 'vl': 5, 'vo': -37, 'vq': -37, 'vt': 35, 'v|': 5, 'v~': -81, 'w&': -69,
+    'w,': -151, 'w.': -151, 'wA': -139, 'wJ': -116, 'wT': -104, 'wZ': -69, 'wa': -5, 'wc': -28,
+    'wd': -28, 'we': -28, 'wg': -28, 'wo': -28, 'wq': -28, 'x+': -46, 'x-': -46, 'x=': -69,
+    'xT': -65, 'xa': -4, 'xc': -41, 'xd': -41, 'xe': -41, 'xf': 29, 'xg': -41, 'xo': -41,
+    'xq': -41, 'xt': 29, 'x~': -46, 'y+': -81, 'y,': -79, 'y-': -81, 'y.': -79, 'y/': -116,
+    'y<': -69, 'y=': -81, 'yA': -139, 'yB': 5, 'yD': 5, 'yE': 5, 'yF': 5, 'yH': 5,
+    'yI': 5, 'yJ': -128, 'yK': 5, 'yL': 5, 'yM': 5, 'yN': 5, 'yP': 5, 'yR': 5,
+    'yT': -69, 'yY': -69, 'y_': -162, 'ya': -20, 'yb': 5, 'yc': -37, 'yd': -37, 'ye': -37,
+    'yf': 30, 'yg': -37, 'yh': 5, 'yk': 5, 'yl': 5, 'yo': -37, 'yq': -37, 'yt': 35,
+    'y|': 5, 'y~': -81, 'zT': -69, 'zc': -41, 'zd': -41, 'ze': -41, 'zg': -41, 'zo': -41,
+    'zq': -41, '{B': 37, '{D': 37, '{E': 37, '{F': 37, '{H': 37, '{I': 37, '{K': 37,
+    '{L': 37, '{M': 37, '{N': 37, '{P': 37, '{R': 37, '{b': 37, '{c': -11, '{d': -11,
+    '{e': -11, '{g': -11, '{h': 37, '{j': 27, '{k': 37, '{l': 37, '{m': 37, '{n': 37,
+    '{o': -11, '{p': 37, '{q': -11, '{r': 37, '{|': 74, '|)': 74, '|]': 74, '|_': 74,
+    '|t': 30, '|v': 21, '|y': 21, '|}': 74, '~2': -88, '~3': -22, '~7': -116, '~A': -69,
+    '~J': -93, '~T': -157, '~V': -92, '~W': -48, '~X': -82, '~Y': -131, '~\\': -184, '~x': -46,
+  },
+};
+
+export const ROBOTO_REGULAR: FontMetrics = {
+  unitsPerEm: 2048,
+  advances: {
+    ' ': 508, '!': 528, '"': 656, '#': 1261, '$': 1151, '%': 1500, '&': 1274, '\'': 358,
+    '(': 701, ')': 713, '*': 882, '+': 1162, ',': 403, '-': 566, '.': 540, '/': 845,
+    '0': 1151, '1': 1151, '2': 1151, '3': 1151, '4': 1151, '5': 1151, '6': 1151, '7': 1151,
+    '8': 1151, '9': 1151, ':': 496, ';': 433, '<': 1041, '=': 1124, '>': 1071, '?': 968,
+    '@': 1839, 'A': 1336, 'B': 1276, 'C': 1333, 'D': 1344, 'E': 1164, 'F': 1132, 'G': 1395,
+    'H': 1461, 'I': 557, 'J': 1130, 'K': 1285, 'L': 1103, 'M': 1788, 'N': 1461, 'O': 1409,
+    'P': 1292, 'Q': 1409, 'R': 1262, 'S': 1216, 'T': 1222, 'U': 1328, 'V': 1304, 'W': 1817,
+    'X': 1284, 'Y': 1230, 'Z': 1227, '[': 543, '\\': 841, ']': 543, '^': 856, '_': 924,
+    '`': 633, 'a': 1114, 'b': 1150, 'c': 1072, 'd': 1155, 'e': 1086, 'f': 712, 'g': 1150,
+    'h': 1128, 'i': 498, 'j': 490, 'k': 1038, 'l': 498, 'm': 1796, 'n': 1131, 'o': 1168,
+    'p': 1150, 'q': 1164, 'r': 694, 's': 1057, 't': 670, 'u': 1129, 'v': 992, 'w': 1539,
+    'x': 1016, 'y': 969, 'z': 1016, '{': 693, '|': 500, '}': 693, '~': 1393, '\u00a0': 508,
+    '¡': 500, '¢': 1121, '£': 1191, '¤': 1461, '¥': 1076, '¦': 492, '§': 1256, '¨': 857,
+    '©': 1609, 'ª': 916, '«': 961, '¬': 1134, '\u00ad': 0, '®': 1610, '¯': 939, '°': 765,
+    '±': 1095, '²': 751, '³': 751, '´': 642, 'µ': 1161, '¶': 1002, '·': 535, '¸': 508,
+    '¹': 751, 'º': 932, '»': 960, '¼': 1500, '½': 1589, '¾': 1593, '¿': 970, 'À': 1336,
+    'Á': 1336, 'Â': 1336, 'Ã': 1336, 'Ä': 1336, 'Å': 1336, 'Æ': 1914, 'Ç': 1333, 'È': 1164,
+    'É': 1164, 'Ê': 1164, 'Ë': 1164, 'Ì': 557, 'Í': 557, 'Î': 557, 'Ï': 557, 'Ð': 1374,
+    'Ñ': 1461, 'Ò': 1409, 'Ó': 1409, 'Ô': 1409, 'Õ': 1409, 'Ö': 1409, '×': 1093, 'Ø': 1409,
+    'Ù': 1328, 'Ú': 1328, 'Û': 1328, 'Ü': 1328, 'Ý': 1230, 'Þ': 1210, 'ß': 1218, 'à': 1114,
+    'á': 1114, 'â': 1114, 'ã': 1114, 'ä': 1114, 'å': 1114, 'æ': 1730, 'ç': 1072, 'è': 1086,
+    'é': 1086, 'ê': 1086, 'ë': 1086, 'ì': 507, 'í': 507, 'î': 507, 'ï': 507, 'ð': 1201,
+    'ñ': 1131, 'ò': 1168, 'ó': 1168, 'ô': 1168, 'õ': 1168, 'ö': 1168, '÷': 1170, 'ø': 1161,
+    'ù': 1129, 'ú': 1129, 'û': 1129, 'ü': 1129, 'ý': 969, 'þ': 1180, 'ÿ': 969, '–': 1344,
+    '—': 1599, '‘': 410, '’': 410, '“': 724, '”': 732, '•': 691, '…': 1370, '€': 1151,
+    '™': 1281, '−': 1171,
+  },
+  kerning: {
+    ' T': -40, '""': -107, '"\'': -107, '"A': -120, '"a': -50, '"c': -59, '"d': -59, '"e': -59,
+    '"g': -59, '"m': -20, '"n': -20, '"o': -61, '"p': -20, '"q': -59, '"s': -80, '"w': 11,
+    '\'"': -107, '\'\'': -107, '\'A': -120, '\'a': -50, '\'c': -59, '\'d': -59, '\'e': -59, '\'g': -59,
+    '\'m': -20, '\'n': -20, '\'o': -61, '\'p': -20, '\'q': -59, '\'s': -80, '\'w': 11, '(V': 20,
+    '(W': 18, '(Y': 22, ',"': -170, ',\'': -170, '."': -170, '.\'': -170, '//': -224, 'A"': -120,
+    'A\'': -120, 'A?': -61, 'AC': -11, 'AG': -11, 'AO': -11, 'AQ': -11, 'AT': -129, 'AU': -17,
+    'AV': -87, 'AW': -69, 'AY': -94, 'Ao': -12, 'At': -17, 'Au': -11, 'Av': -50, 'Aw': -33,
+    'Ay': -50, 'Az': 12, 'BT': -27, 'BV': -24, 'BY': -55, 'C)': -26, 'CT': -29, 'C]': -12,
+    'C}': -17, 'D,': -102, 'D.': -102, 'DA': -21, 'DT': -27, 'DV': -22, 'DX': -22, 'DY': -43,
+    'DZ': -23, 'ET': 20, 'Ec': -19, 'Ed': -19, 'Ee': -19, 'Ef': -18, 'Eg': -19, 'Eo': -19,
+    'Eq': -19, 'Eu': -17, 'Ev': -26, 'Ew': -22, 'Ey': -26, 'F,': -234, 'F.': -234, 'FA': -170,
+    'FJ': -264, 'FT': 20, 'Fa': -34, 'Fc': -21, 'Fd': -21, 'Fe': -21, 'Fg': -21, 'Fo': -21,
+    'Fq': -21, 'Fr': -26, 'Fu': -22, 'Fv': -24, 'Fy': -24, 'HA': 18, 'HT': -29, 'HX': 17,
+    'HY': -28, 'IA': 18, 'IT': -29, 'IX': 17, 'IY': -28, 'JA': -22, 'K-': -64, 'KC': -31,
+    'KG': -31, 'KO': -31, 'KQ': -31, 'Kc': -26, 'Kd': -26, 'Ke': -26, 'Kg': -26, 'Km': -23,
+    'Kn': -23, 'Ko': -27, 'Kp': -23, 'Kq': -26, 'Ku': -23, 'Kv': -40, 'Kw': -63, 'Ky': -40,
+    'LA': 19, 'LC': -65, 'LG': -65, 'LO': -65, 'LQ': -65, 'LT': -275, 'LU': -54, 'LV': -175,
+    'LW': -143, 'LY': -239, 'Lu': -44, 'Lv': -133, 'Lw': -92, 'Ly': -133, 'MA': 18, 'MT': -29,
+    'MX': 17, 'MY': -28, 'NA': 18, 'NT': -29, 'NX': 17, 'NY': -28, 'O,': -102, 'O.': -102,
+    'OA': -21, 'OT': -27, 'OV': -22, 'OX': -22, 'OY': -43, 'OZ': -23, 'P,': -324, 'P.': -324,
+    'PA': -138, 'PJ': -200, 'PX': -31, 'PZ': -26, 'Pa': -11, 'Pc': -13, 'Pd': -13, 'Pe': -13,
+    'Pg': -13, 'Po': -13, 'Pq': -13, 'Pt': 14, 'Pv': 15, 'Py': 15, 'QT': -43, 'QV': -28,
+    'QW': -20, 'QY': -35, 'RT': -80, 'RV': -19, 'RY': -48, 'T ': -40, 'T,': -218, 'T-': -232,
+    'T.': -218, 'TA': -79, 'TC': -28, 'TG': -28, 'TJ': -240, 'TO': -28, 'TQ': -28, 'TS': -16,
+    'TT': 16, 'TV': 16, 'TW': 15, 'TY': 16, 'Ta': -113, 'Tc': -99, 'Td': -99, 'Te': -99,
+    'Tg': -99, 'Tm': -109, 'Tn': -109, 'To': -99, 'Tp': -109, 'Tq': -99, 'Tr': -75, 'Ts': -116,
+    'Tu': -95, 'Tv': -72, 'Tw': -57, 'Tx': -77, 'Ty': -72, 'Tz': -60, 'UA': -22, 'V)': 20,
+    'V,': -225, 'V-': -37, 'V.': -225, 'VA': -75, 'VC': -13, 'VG': -13, 'VO': -13, 'VQ': -13,
+    'V]': 17, 'Va': -46, 'Vc': -44, 'Vd': -44, 'Ve': -44, 'Vg': -44, 'Vo': -46, 'Vq': -44,
+    'Vr': -30, 'Vu': -28, 'Vv': -11, 'Vy': -11, 'V}': 19, 'W)': 15, 'W,': -123, 'W-': -60,
+    'W.': -123, 'WA': -43, 'WT': 14, 'W]': 12, 'Wa': -33, 'Wc': -31, 'Wd': -31, 'We': -31,
+    'Wg': -31, 'Wo': -31, 'Wq': -31, 'Wr': -21, 'Wu': -19, 'W}': 14, 'X-': -46, 'XC': -25,
+    'XG': -25, 'XO': -25, 'XQ': -25, 'XV': 14, 'Xc': -26, 'Xd': -26, 'Xe': -26, 'Xg': -26,
+    'Xo': -21, 'Xq': -26, 'Xu': -21, 'Xv': -31, 'Xy': -31, 'Y&': -30, 'Y)': 20, 'Y*': -49,
+    'Y,': -211, 'Y-': -52, 'Y.': -211, 'YA': -94, 'YC': -29, 'YG': -29, 'YJ': -96, 'YO': -29,
+    'YQ': -29, 'YS': -16, 'YT': 17, 'YU': -96, 'YV': 18, 'YW': 17, 'YX': 13, 'YY': 18,
+    'Y]': 18, 'Ya': -73, 'Yc': -65, 'Yd': -65, 'Ye': -65, 'Yf': -22, 'Yg': -65, 'Ym': -40,
+    'Yn': -40, 'Yo': -65, 'Yp': -40, 'Yq': -65, 'Yr': -40, 'Ys': -58, 'Yt': -22, 'Yu': -39,
+    'Yv': -20, 'Yx': -23, 'Yy': -20, 'Yz': -30, 'Y}': 19, 'ZA': 13, 'ZC': -26, 'ZG': -26,
+    'ZO': -26, 'ZQ': -26, 'Zc': -21, 'Zd': -21, 'Ze': -21, 'Zg': -21, 'Zo': -21, 'Zq': -21,
+    'Zu': -19, 'Zv': -27, 'Zw': -27, 'Zy': -27, '[J': -18, '[U': -18, 'a"': -67, 'a\'': -67,
+    'av': -15, 'ay': -15, 'b"': -29, 'b\'': -29, 'bv': -11, 'bx': -15, 'by': -11, 'bz': -15,
+    'c"': -11, 'c\'': -11, 'e"': -14, 'e\'': -14, 'ev': -13, 'ey': -13, 'f"': 16, 'f\'': 16,
+    'f)': 20, 'f]': 18, 'fc': -24, 'fd': -24, 'fe': -24, 'fg': -24, 'fq': -24, 'f}': 19,
+    'h"': -104, 'h\'': -104, 'kc': -20, 'kd': -20, 'ke': -20, 'kg': -20, 'kq': -20, 'm"': -104,
+    'm\'': -104, 'n"': -104, 'n\'': -104, 'o"': -136, 'o\'': -136, 'ov': -15, 'ox': -21, 'oy': -15,
+    'oz': -16, 'p"': -29, 'p\'': -29, 'pv': -11, 'px': -15, 'py': -11, 'pz': -15, 'r"': 16,
+    'r\'': 16, 'r,': -123, 'r.': -123, 'ra': -40, 'rc': -19, 'rd': -19, 're': -19, 'rf': 15,
+    'rg': -19, 'ro': -20, 'rq': -19, 'rt': 50, 'rv': 18, 'rw': 17, 'ry': 18, 'to': -20,
+    'v"': 15, 'v\'': 15, 'v,': -107, 'v.': -107, 'va': -15, 'vc': -13, 'vd': -13, 've': -13,
+    'vf': 13, 'vg': -13, 'vo': -15, 'vq': -13, 'w,': -124, 'w.': -124, 'xc': -20, 'xd': -20,
+    'xe': -20, 'xg': -20, 'xo': -20, 'xq': -20, 'y"': 15, 'y\'': 15, 'y,': -107, 'y.': -107,
+    'ya': -15, 'yc': -13, 'yd': -13, 'ye': -13, 'yf': 13, 'yg': -13, 'yo': -15, 'yq': -13,
+    'zc': -16, 'zd': -16, 'ze': -16, 'zg': -16, 'zo': -16, 'zq': -16, '{J': -20, '{U': -20,
+  },
+};
+
+export const ROBOTO_BOLD: FontMetrics = {
+  unitsPerEm: 2048,
+  advances: {
+    ' ': 509, '!': 554, '"': 652, '#': 1213, '$': 1175, '%': 1514, '&': 1347, '\'': 330,
+    '(': 716, ')': 719, '*': 930, '+': 1116, ',': 504, '-': 807, '.': 594, '/': 760,
+    '0': 1175, '1': 1175, '2': 1175, '3': 1175, '4': 1175, '5': 1175, '6': 1175, '7': 1175,
+    '8': 1175, '9': 1175, ':': 577, ';': 539, '<': 1044, '=': 1175, '>': 1057, '?': 1019,
+    '@': 1836, 'A': 1376, 'B': 1307, 'C': 1340, 'D': 1331, 'E': 1152, 'F': 1124, 'G': 1396,
+    'H': 1446, 'I': 599, 'J': 1144, 'K': 1302, 'L': 1108, 'M': 1793, 'N': 1445, 'O': 1412,
+    'P': 1320, 'Q': 1412, 'R': 1312, 'S': 1261, 'T': 1269, 'U': 1350, 'V': 1338, 'W': 1792,
+    'X': 1300, 'Y': 1268, 'Z': 1243, '[': 567, '\\': 863, ']': 567, '^': 897, '_': 911,
+    '`': 676, 'a': 1096, 'b': 1152, 'c': 1067, 'd': 1153, 'e': 1106, 'f': 733, 'g': 1170,
+    'h': 1147, 'i': 542, 'j': 533, 'k': 1094, 'l': 542, 'm': 1774, 'n': 1148, 'o': 1156,
+    'p': 1152, 'q': 1155, 'r': 750, 's': 1052, 't': 693, 'u': 1147, 'v': 1037, 'w': 1504,
+    'x': 1042, 'y': 1031, 'z': 1042, '{': 675, '|': 516, '}': 675, '~': 1327, '\u00a0': 509,
+    '¡': 579, '¢': 1181, '£': 1217, '¤': 1418, '¥': 1098, '¦': 514, '§': 1287, '¨': 963,
+    '©': 1609, 'ª': 909, '«': 1024, '¬': 1128, '\u00ad': 0, '®': 1609, '¯': 1025, '°': 798,
+    '±': 1100, '²': 763, '³': 763, '´': 676, 'µ': 1265, '¶': 1001, '·': 618, '¸': 550,
+    '¹': 763, 'º': 937, '»': 1024, '¼': 1467, '½': 1554, '¾': 1658, '¿': 1020, 'À': 1376,
+    'Á': 1376, 'Â': 1376, 'Ã': 1376, 'Ä': 1376, 'Å': 1376, 'Æ': 1922, 'Ç': 1340, 'È': 1152,
+    'É': 1152, 'Ê': 1152, 'Ë': 1152, 'Ì': 599, 'Í': 599, 'Î': 599, 'Ï': 599, 'Ð': 1361,
+    'Ñ': 1445, 'Ò': 1412, 'Ó': 1412, 'Ô': 1412, 'Õ': 1412, 'Ö': 1412, '×': 1087, 'Ø': 1410,
+    'Ù': 1350, 'Ú': 1350, 'Û': 1350, 'Ü': 1350, 'Ý': 1268, 'Þ': 1248, 'ß': 1294, 'à': 1096,
+    'á': 1096, 'â': 1096, 'ã': 1096, 'ä': 1096, 'å': 1096, 'æ': 1730, 'ç': 1067, 'è': 1106,
+    'é': 1106, 'ê': 1106, 'ë': 1106, 'ì': 559, 'í': 559, 'î': 559, 'ï': 559, 'ð': 1177,
+    'ñ': 1148, 'ò': 1156, 'ó': 1156, 'ô': 1156, 'õ': 1156, 'ö': 1156, '÷': 1168, 'ø': 1155,
+    'ù': 1147, 'ú': 1147, 'û': 1147, 'ü': 1147, 'ý': 1031, 'þ': 1159, 'ÿ': 1031, '–': 1291,
+    '—': 1560, '‘': 478, '’': 470, '“': 826, '”': 833, '•': 736, '…': 1517, '€': 1175,
+    '™': 1293, '−': 1136,
+  },
+  kerning: {
+    ' T': -54, '""': -60, '"\'': -60, '"A': -120, '"a': -50, '"c': -59, '"d': -59, '"e': -59,
+    '"g': -59, '"m': -20, '"n': -20, '"o': -81, '"p': -20, '"q': -59, '"s': -88, '"w': 11,
+    '\'"': -60, '\'\'': -60, '\'A': -120, '\'a': -50, '\'c': -59, '\'d': -59, '\'e': -59, '\'g': -59,
+    '\'m': -20, '\'n': -20, '\'o': -81, '\'p': -20, '\'q': -59, '\'s': -88, '\'w': 11, '(V': 20,
+    '(W': 32, '(Y': 22, ',"': -248, ',\'': -248, '."': -248, '.\'': -248, '//': -240, 'A"': -120,
+    'A\'': -120, 'A?': -75, 'AC': -18, 'AG': -18, 'AO': -18, 'AQ': -18, 'AT': -123, 'AU': -17,
+    'AV': -80, 'AW': -49, 'AY': -132, 'Am': -33, 'An': -33, 'Ao': -12, 'Ap': -33, 'At': -17,
+    'Au': -11, 'Av': -50, 'Aw': -33, 'Ay': -50, 'Az': 12, 'BT': -27, 'BV': -24, 'BY': -55,
+    'C)': -26, 'CT': -29, 'C]': -12, 'C}': -17, 'D,': -116, 'D.': -116, 'DA': -21, 'DT': -66,
+    'DV': -22, 'DX': -22, 'DY': -43, 'DZ': -23, 'ET': 20, 'Ec': -19, 'Ed': -19, 'Ee': -19,
+    'Ef': -18, 'Eg': -19, 'Eo': -19, 'Eq': -19, 'Eu': -17, 'Ev': -26, 'Ew': -22, 'Ey': -26,
+    'F,': -261, 'F.': -261, 'FA': -185, 'FJ': -226, 'FT': 20, 'Fa': -34, 'Fc': -21, 'Fd': -21,
+    'Fe': -21, 'Fg': -21, 'Fo': -21, 'Fq': -21, 'Fr': -26, 'Fu': -22, 'Fv': -24, 'Fy': -24,
+    'HA': 18, 'HT': -29, 'HX': 17, 'HY': -28, 'IA': 18, 'IT': -29, 'IX': 17, 'IY': -28,
+    'JA': -22, 'K-': -132, 'KC': -31, 'KG': -31, 'KO': -31, 'KQ': -31, 'Kc': -26, 'Kd': -26,
+    'Ke': -26, 'Kg': -26, 'Km': -7, 'Kn': -7, 'Ko': -27, 'Kp': -7, 'Kq': -26, 'Ku': -23,
+    'Kv': -40, 'Kw': -63, 'Ky': -40, 'LA': 19, 'LC': -64, 'LG': -64, 'LO': -64, 'LQ': -64,
+    'LT': -228, 'LU': -34, 'LV': -196, 'LW': -109, 'LY': -266, 'Lu': -24, 'Lv': -126, 'Lw': -65,
+    'Ly': -126, 'MA': 18, 'MT': -29, 'MX': 17, 'MY': -28, 'NA': 18, 'NT': -29, 'NX': 17,
+    'NY': -28, 'O,': -116, 'O.': -116, 'OA': -21, 'OT': -66, 'OV': -22, 'OX': -22, 'OY': -43,
+    'OZ': -23, 'P,': -378, 'P.': -378, 'PA': -165, 'PJ': -189, 'PX': -45, 'PZ': -33, 'Pa': -11,
+    'Pc': -13, 'Pd': -13, 'Pe': -13, 'Pg': -13, 'Po': -13, 'Pq': -13, 'Pt': 14, 'Pv': 15,
+    'Py': 15, 'QT': -36, 'QV': -28, 'QW': -20, 'QY': -35, 'RT': -60, 'RV': -19, 'RY': -48,
+    'T ': -54, 'T,': -245, 'T-': -259, 'T.': -245, 'TA': -107, 'TC': -28, 'TG': -28, 'TJ': -224,
+    'TO': -28, 'TQ': -28, 'TS': -16, 'TT': 16, 'TV': 16, 'TW': 15, 'TY': 16, 'Ta': -150,
+    'Tc': -92, 'Td': -92, 'Te': -92, 'Tg': -92, 'Tm': -95, 'Tn': -95, 'To': -173, 'Tp': -95,
+    'Tq': -92, 'Tr': -68, 'Ts': -89, 'Tu': -75, 'Tv': -79, 'Tw': -50, 'Tx': -77, 'Ty': -79,
+    'Tz': -60, 'UA': -22, 'V)': 20, 'V,': -218, 'V-': -118, 'V.': -218, 'VA': -75, 'VC': -13,
+    'VG': -13, 'VO': -13, 'VQ': -13, 'V]': 17, 'Va': -46, 'Vc': -44, 'Vd': -44, 'Ve': -44,
+    'Vg': -44, 'Vo': -46, 'Vq': -44, 'Vr': -30, 'Vu': -28, 'Vv': -11, 'Vy': -11, 'V}': 19,
+    'W)': 15, 'W,': -137, 'W-': -60, 'W.': -137, 'WA': -43, 'WT': 14, 'W]': 12, 'Wa': -33,
+    'Wc': -31, 'Wd': -31, 'We': -31, 'Wg': -31, 'Wo': -31, 'Wq': -31, 'Wr': -21, 'Wu': -19,
+    'W}': 14, 'X-': -121, 'XC': -25, 'XG': -25, 'XO': -25, 'XQ': -25, 'XV': 14, 'Xc': -26,
+    'Xd': -26, 'Xe': -26, 'Xg': -26, 'Xo': -21, 'Xq': -26, 'Xu': -21, 'Xv': -31, 'Xy': -31,
+    'Y&': -30, 'Y)': 20, 'Y*': -49, 'Y,': -225, 'Y-': -120, 'Y.': -225, 'YA': -132, 'YC': -29,
+    'YG': -29, 'YJ': -96, 'YO': -29, 'YQ': -29, 'YS': -16, 'YT': 17, 'YU': -96, 'YV': 18,
+    'YW': 17, 'YX': 13, 'YY': 18, 'Y]': 18, 'Ya': -66, 'Yc': -65, 'Yd': -65, 'Ye': -65,
+    'Yf': -22, 'Yg': -65, 'Ym': -40, 'Yn': -40, 'Yo': -65, 'Yp': -40, 'Yq': -65, 'Yr': -40,
+    'Ys': -58, 'Yt': -22, 'Yu': -39, 'Yv': -20, 'Yx': -23, 'Yy': -20, 'Yz': -30, 'Y}': 19,
+    'ZA': 13, 'ZC': -26, 'ZG': -26, 'ZO': -26, 'ZQ': -26, 'Zc': -21, 'Zd': -21, 'Ze': -21,
+    'Zg': -21, 'Zo': -21, 'Zq': -21, 'Zu': -19, 'Zv': -27, 'Zw': -27, 'Zy': -27, '[J': -18,
+    '[U': -18, 'a"': -33, 'a\'': -33, 'av': -15, 'ay': -15, 'b"': -29, 'b\'': -29, 'bv': -11,
+    'bx': -15, 'by': -11, 'bz': -15, 'c"': -11, 'c\'': -11, 'e"': -14, 'e\'': -14, 'ev': -13,
+    'ey': -13, 'f"': 16, 'f\'': 16, 'f)': 20, 'f]': 18, 'fc': -24, 'fd': -24, 'fe': -24,
+    'fg': -24, 'fq': -24, 'f}': 19, 'h"': -88, 'h\'': -88, 'kc': -20, 'kd': -20, 'ke': -20,
+    'kg': -20, 'kq': -20, 'm"': -88, 'm\'': -88, 'n"': -88, 'n\'': -88, 'o"': -103, 'o\'': -103,
+    'ov': -15, 'ox': -21, 'oy': -15, 'oz': -16, 'p"': -29, 'p\'': -29, 'pv': -11, 'px': -15,
+    'py': -11, 'pz': -15, 'r"': 16, 'r\'': 16, 'r,': -157, 'r.': -157, 'ra': -33, 'rc': -19,
+    'rd': -19, 're': -19, 'rf': 18, 'rg': -19, 'ro': -31, 'rq': -19, 'rt': 50, 'rv': 18,
+    'rw': 17, 'ry': 18, 'to': -27, 'v"': 15, 'v\'': 15, 'v,': -148, 'v.': -148, 'va': -15,
+    'vc': -13, 'vd': -13, 've': -13, 'vf': 13, 'vg': -13, 'vo': -15, 'vq': -13, 'w,': -124,
+    'w.': -124, 'xc': -20, 'xd': -20, 'xe': -20, 'xg': -20, 'xo': -34, 'xq': -20, 'y"': 15,
+    'y\'': 15, 'y,': -148, 'y.': -148, 'ya': -15, 'yc': -13, 'yd': -13, 'ye': -13, 'yf': 13,
+    'yg': -13, 'yo': -15, 'yq': -13, 'zc': -16, 'zd': -16, 'ze': -16, 'zg': -16, 'zo': -16,
+    'zq': -16, '{J': -20, '{U': -20,
+  },
+};
+
+export const NOTO_SANS_REGULAR: FontMetrics = {
+  unitsPerEm: 1000,
+  advances: {
+    ' ': 260, '!': 269, '"': 408, '#': 646, '$': 572, '%': 831, '&': 732, '\'': 225,
+    '(': 300, ')': 300, '*': 551, '+': 572, ',': 268, '-': 322, '.': 268, '/': 372,
+    '0': 572, '1': 572, '2': 572, '3': 572, '4': 572, '5': 572, '6': 572, '7': 572,
+    '8': 572, '9': 572, ':': 268, ';': 268, '<': 572, '=': 572, '>': 572, '?': 434,
+    '@': 899, 'A': 639, 'B': 650, 'C': 632, 'D': 730, 'E': 556, 'F': 519, 'G': 728,
+    'H': 741, 'I': 339, 'J': 273, 'K': 619, 'L': 524, 'M': 907, 'N': 760, 'O': 781,
+    'P': 605, 'Q': 781, 'R': 622, 'S': 549, 'T': 556, 'U': 731, 'V': 600, 'W': 930,
+    'X': 586, 'Y': 566, 'Z': 572, '[': 329, '\\': 372, ']': 329, '^': 572, '_': 444,
+    '`': 281, 'a': 561, 'b': 615, 'c': 480, 'd': 615, 'e': 564, 'f': 344, 'g': 615,
+    'h': 618, 'i': 258, 'j': 258, 'k': 534, 'l': 258, 'm': 935, 'n': 618, 'o': 605,
+    'p': 615, 'q': 615, 'r': 413, 's': 479, 't': 361, 'u': 618, 'v': 508, 'w': 786,
+    'x': 529, 'y': 510, 'z': 470, '{': 380, '|': 551, '}': 380, '~': 572, '\u00a0': 260,
+    '¡': 269, '¢': 572, '£': 572, '¤': 572, '¥': 572, '¦': 551, '§': 513, '¨': 580,
+    '©': 832, 'ª': 357, '«': 509, '¬': 572, '\u00ad': 0, '®': 832, '¯': 500, '°': 428,
+    '±': 572, '²': 350, '³': 350, '´': 281, 'µ': 623, '¶': 655, '·': 268, '¸': 225,
+    '¹': 350, 'º': 376, '»': 509, '¼': 745, '½': 771, '¾': 781, '¿': 434, 'À': 639,
+    'Á': 639, 'Â': 639, 'Ã': 639, 'Ä': 639, 'Å': 639, 'Æ': 881, 'Ç': 632, 'È': 556,
+    'É': 556, 'Ê': 556, 'Ë': 556, 'Ì': 339, 'Í': 339, 'Î': 339, 'Ï': 339, 'Ð': 730,
+    'Ñ': 760, 'Ò': 781, 'Ó': 781, 'Ô': 781, 'Õ': 781, 'Ö': 781, '×': 572, 'Ø': 781,
+    'Ù': 731, 'Ú': 731, 'Û': 731, 'Ü': 731, 'Ý': 566, 'Þ': 605, 'ß': 631, 'à': 561,
+    'á': 561, 'â': 561, 'ã': 561, 'ä': 561, 'å': 561, 'æ': 864, 'ç': 480, 'è': 564,
+    'é': 564, 'ê': 564, 'ë': 564, 'ì': 258, 'í': 258, 'î': 258, 'ï': 258, 'ð': 605,
+    'ñ': 618, 'ò': 605, 'ó': 605, 'ô': 605, 'õ': 605, 'ö': 605, '÷': 572, 'ø': 605,
+    'ù': 618, 'ú': 618, 'û': 618, 'ü': 618, 'ý': 510, 'þ': 615, 'ÿ': 510, '–': 500,
+    '—': 1000, '‘': 175, '’': 175, '“': 359, '”': 359, '•': 376, '…': 791, '€': 572,
+    '™': 773, '−': 572,
+  },
+  kerning: {
+    '"A': -70, '"T': 20, '"V': 20, '"W': 20, '"Y': 10, '"a': -40, '"c': -60, '"d': -60,
+    '"e': -60, '"g': -30, '"m': -30, '"n': -30, '"o': -60, '"p': -30, '"q': -60, '"r': -30,
+    '"s': -30, '"u': -30, '&T': -60, '&V': -20, '&W': -20, '&Y': -30, '\'A': -70, '\'T': 20,
+    '\'V': 20, '\'W': 20, '\'Y': 10, '\'a': -40, '\'c': -60, '\'d': -60, '\'e': -60, '\'g': -30,
+    '\'m': -30, '\'n': -30, '\'o': -60, '\'p': -30, '\'q': -60, '\'r': -30, '\'s': -30, '\'u': -30,
+    '(J': 90, '(j': 40, ',C': -50, ',G': -50, ',O': -50, ',Q': -50, ',T': -70, ',U': -20,
+    ',V': -60, ',W': -60, ',Y': -60, '-T': -40, '.C': -50, '.G': -50, '.O': -50, '.Q': -50,
+    '.T': -70, '.U': -20, '.V': -60, '.W': -60, '.Y': -60, 'A"': -70, 'A\'': -70, 'AC': -20,
+    'AG': -20, 'AJ': 50, 'AO': -20, 'AQ': -20, 'AT': -70, 'AV': -40, 'AW': -40, 'AY': -60,
+    'B,': -10, 'B.': -10, 'CC': -20, 'CG': -20, 'CO': -20, 'CQ': -20, 'D,': -40, 'D.': -40,
+    'DA': -20, 'DT': -30, 'DV': -10, 'DW': -10, 'DX': -20, 'DY': -10, 'DZ': -10, 'EJ': 60,
+    'F)': 20, 'F,': -60, 'F.': -60, 'F?': 20, 'FA': -20, 'F]': 20, 'F}': 20, 'KC': -20,
+    'KG': -20, 'KO': -20, 'KQ': -20, 'L"': -80, 'L\'': -80, 'LC': -20, 'LG': -20, 'LO': -20,
+    'LQ': -20, 'LT': -20, 'LU': -10, 'LV': -20, 'LW': -20, 'LY': -30, 'O,': -40, 'O.': -40,
+    'OA': -20, 'OT': -30, 'OV': -10, 'OW': -10, 'OX': -20, 'OY': -10, 'OZ': -10, 'P&': -10,
+    'P,': -130, 'P.': -130, 'PA': -50, 'PX': -20, 'PZ': -10, 'Q,': -40, 'Q.': -40, 'QA': -20,
+    'QT': -30, 'QV': -10, 'QW': -10, 'QX': -20, 'QY': -10, 'QZ': -10, 'T&': -20, 'T,': -60,
+    'T-': -40, 'T.': -60, 'T?': 20, 'TA': -70, 'TC': -20, 'TG': -20, 'TO': -20, 'TQ': -20,
+    'TT': 20, 'Ta': -80, 'Tc': -70, 'Td': -70, 'Te': -70, 'Tg': -70, 'Tm': -50, 'Tn': -50,
+    'To': -70, 'Tp': -50, 'Tq': -70, 'Tr': -50, 'Ts': -60, 'Tu': -50, 'Tv': -20, 'Tw': -20,
+    'Tx': -20, 'Ty': -20, 'Tz': -40, 'U,': -20, 'U.': -20, 'UA': -10, 'V,': -50, 'V.': -50,
+    'V?': 20, 'VA': -40, 'VC': -10, 'VG': -10, 'VO': -10, 'VQ': -10, 'Va': -20, 'Vc': -20,
+    'Vd': -20, 'Ve': -20, 'Vg': -10, 'Vm': -10, 'Vn': -10, 'Vo': -20, 'Vp': -10, 'Vq': -20,
+    'Vr': -10, 'Vs': -10, 'Vu': -10, 'W,': -50, 'W.': -50, 'W?': 20, 'WA': -40, 'WC': -10,
+    'WG': -10, 'WO': -10, 'WQ': -10, 'Wa': -20, 'Wc': -20, 'Wd': -20, 'We': -20, 'Wg': -10,
+    'Wm': -10, 'Wn': -10, 'Wo': -20, 'Wp': -10, 'Wq': -20, 'Wr': -10, 'Ws': -10, 'Wu': -10,
+    'XC': -20, 'XG': -20, 'XO': -20, 'XQ': -20, 'Y&': -30, 'Y,': -60, 'Y.': -60, 'Y?': 20,
+    'YA': -60, 'YC': -20, 'YG': -20, 'YO': -20, 'YQ': -20, 'Ya': -50, 'Yc': -50, 'Yd': -50,
+    'Ye': -50, 'Yg': -50, 'Ym': -30, 'Yn': -30, 'Yo': -50, 'Yp': -30, 'Yq': -50, 'Yr': -30,
+    'Ys': -40, 'Yu': -30, 'Yz': -20, 'ZC': -10, 'ZG': -10, 'ZO': -10, 'ZQ': -10, '[J': 90,
+    '[j': 40, '_J': 95, 'a"': -10, 'a\'': -10, 'b"': -10, 'b\'': -10, 'bv': -20, 'bw': -20,
+    'bx': -20, 'by': -20, 'bz': -10, 'c"': 20, 'c\'': 20, 'e"': -10, 'e\'': -10, 'ev': -20,
+    'ew': -20, 'ex': -20, 'ey': -20, 'ez': -10, 'f"': 60, 'f\'': 60, 'f)': 40, 'f,': -20,
+    'f.': -20, 'f]': 40, 'f}': 40, 'h"': -10, 'h\'': -10, 'm"': -10, 'm\'': -10, 'n"': -10,
+    'n\'': -10, 'o"': -10, 'o\'': -10, 'ov': -20, 'ow': -20, 'ox': -20, 'oy': -20, 'oz': -10,
+    'p"': -10, 'p\'': -10, 'pv': -20, 'pw': -20, 'px': -20, 'py': -20, 'pz': -10, 'r"': 40,
+    'r\'': 40, 'r,': -160, 'r.': -160, 'ra': -20, 'rc': -20, 'rd': -20, 're': -20, 'rg': -10,
+    'ro': -20, 'rq': -20, 't"': 20, 't\'': 20, 'v"': 40, 'v\'': 40, 'v,': -40, 'v.': -40,
+    'v?': 20, 'w"': 40, 'w\'': 40, 'w,': -40, 'w.': -40, 'w?': 20, 'xc': -20, 'xd': -20,
+    'xe': -20, 'xo': -20, 'xq': -20, 'y"': 40, 'y\'': 40, 'y,': -40, 'y.': -40, 'y?': 20,
+    '{J': 90, '{j': 40,
+  },
+};
+
+export const NOTO_SANS_BOLD: FontMetrics = {
+  unitsPerEm: 1000,
+  advances: {
+    ' ': 260, '!': 282, '"': 479, '#': 646, '$': 572, '%': 902, '&': 750, '\'': 266,
+    '(': 339, ')': 339, '*': 542, '+': 572, ',': 285, '-': 320, '.': 281, '/': 415,
+    '0': 572, '1': 572, '2': 572, '3': 572, '4': 572, '5': 572, '6': 572, '7': 572,
+    '8': 572, '9': 572, ':': 281, ';': 285, '<': 572, '=': 572, '>': 572, '?': 477,
+    '@': 898, 'A': 692, 'B': 665, 'C': 642, 'D': 732, 'E': 560, 'F': 549, 'G': 724,
+    'H': 765, 'I': 389, 'J': 331, 'K': 664, 'L': 559, 'M': 943, 'N': 813, 'O': 791,
+    'P': 621, 'Q': 791, 'R': 656, 'S': 551, 'T': 577, 'U': 756, 'V': 650, 'W': 967,
+    'X': 670, 'Y': 626, 'Z': 579, '[': 331, '\\': 415, ']': 331, '^': 572, '_': 411,
+    '`': 365, 'a': 599, 'b': 632, 'c': 516, 'd': 632, 'e': 597, 'f': 387, 'g': 632,
+    'h': 650, 'i': 299, 'j': 298, 'k': 620, 'l': 298, 'm': 975, 'n': 650, 'o': 625,
+    'p': 632, 'q': 632, 'r': 447, 's': 502, 't': 434, 'u': 650, 'v': 571, 'w': 856,
+    'x': 578, 'y': 571, 'z': 493, '{': 394, '|': 551, '}': 394, '~': 572, '\u00a0': 260,
+    '¡': 286, '¢': 572, '£': 572, '¤': 568, '¥': 572, '¦': 551, '§': 486, '¨': 593,
+    '©': 832, 'ª': 381, '«': 614, '¬': 572, '\u00ad': 0, '®': 832, '¯': 500, '°': 424,
+    '±': 572, '²': 379, '³': 380, '´': 365, 'µ': 653, '¶': 648, '·': 281, '¸': 263,
+    '¹': 380, 'º': 386, '»': 614, '¼': 830, '½': 874, '¾': 845, '¿': 477, 'À': 692,
+    'Á': 692, 'Â': 692, 'Ã': 692, 'Ä': 692, 'Å': 692, 'Æ': 952, 'Ç': 642, 'È': 560,
+    'É': 560, 'Ê': 560, 'Ë': 560, 'Ì': 389, 'Í': 389, 'Î': 389, 'Ï': 389, 'Ð': 732,
+    'Ñ': 805, 'Ò': 791, 'Ó': 791, 'Ô': 791, 'Õ': 791, 'Ö': 791, '×': 572, 'Ø': 791,
+    'Ù': 756, 'Ú': 756, 'Û': 756, 'Ü': 756, 'Ý': 626, 'Þ': 628, 'ß': 704, 'à': 599,
+    'á': 599, 'â': 599, 'ã': 599, 'ä': 599, 'å': 599, 'æ': 917, 'ç': 516, 'è': 597,
+    'é': 597, 'ê': 597, 'ë': 597, 'ì': 299, 'í': 299, 'î': 299, 'ï': 299, 'ð': 627,
+    'ñ': 650, 'ò': 625, 'ó': 625, 'ô': 625, 'õ': 625, 'ö': 625, '÷': 572, 'ø': 619,
+    'ù': 650, 'ú': 650, 'û': 650, 'ü': 650, 'ý': 571, 'þ': 632, 'ÿ': 571, '–': 500,
+    '—': 1000, '‘': 217, '’': 217, '“': 445, '”': 445, '•': 376, '…': 855, '€': 572,
+    '™': 773, '−': 581,
+  },
+  kerning: {
+    '"A': -70, '"T': 20, '"V': 20, '"W': 20, '"Y': 10, '"a': -40, '"c': -60, '"d': -60,
+    '"e': -60, '"g': -30, '"m': -30, '"n': -30, '"o': -60, '"p': -30, '"q': -60, '"r': -30,
+    '"s': -30, '"u': -30, '&T': -60, '&V': -20, '&W': -20, '&Y': -30, '\'A': -70, '\'T': 20,
+    '\'V': 20, '\'W': 20, '\'Y': 10, '\'a': -40, '\'c': -60, '\'d': -60, '\'e': -60, '\'g': -30,
+    '\'m': -30, '\'n': -30, '\'o': -60, '\'p': -30, '\'q': -60, '\'r': -30, '\'s': -30, '\'u': -30,
+    '(J': 90, '(j': 40, ',C': -50, ',G': -50, ',O': -50, ',Q': -50, ',T': -70, ',U': -20,
+    ',V': -60, ',W': -60, ',Y': -60, '-T': -40, '.C': -50, '.G': -50, '.O': -50, '.Q': -50,
+    '.T': -70, '.U': -20, '.V': -60, '.W': -60, '.Y': -60, 'A"': -70, 'A\'': -70, 'AC': -20,
+    'AG': -20, 'AJ': 50, 'AO': -20, 'AQ': -20, 'AT': -70, 'AV': -40, 'AW': -40, 'AY': -60,
+    'B,': -10, 'B.': -10, 'CC': -20, 'CG': -20, 'CO': -20, 'CQ': -20, 'D,': -40, 'D.': -40,
+    'DA': -20, 'DT': -30, 'DV': -10, 'DW': -10, 'DX': -20, 'DY': -10, 'DZ': -10, 'EJ': 60,
+    'F)': 20, 'F,': -60, 'F.': -60, 'F?': 20, 'FA': -20, 'F]': 20, 'F}': 20, 'KC': -20,
+    'KG': -20, 'KO': -20, 'KQ': -20, 'L"': -80, 'L\'': -80, 'LC': -20, 'LG': -20, 'LO': -20,
+    'LQ': -20, 'LT': -20, 'LU': -10, 'LV': -20, 'LW': -20, 'LY': -30, 'O,': -40, 'O.': -40,
+    'OA': -20, 'OT': -30, 'OV': -10, 'OW': -10, 'OX': -20, 'OY': -10, 'OZ': -10, 'P&': -10,
+    'P,': -130, 'P.': -130, 'PA': -50, 'PX': -20, 'PZ': -10, 'Q,': -40, 'Q.': -40, 'QA': -20,
+    'QT': -30, 'QV': -10, 'QW': -10, 'QX': -20, 'QY': -10, 'QZ': -10, 'T&': -20, 'T,': -60,
+    'T-': -40, 'T.': -60, 'T?': 20, 'TA': -70, 'TC': -20, 'TG': -20, 'TO': -20, 'TQ': -20,
+    'TT': 20, 'Ta': -80, 'Tc': -70, 'Td': -70, 'Te': -70, 'Tg': -70, 'Tm': -50, 'Tn': -50,
+    'To': -70, 'Tp': -50, 'Tq': -70, 'Tr': -50, 'Ts': -60, 'Tu': -50, 'Tv': -20, 'Tw': -20,
+    'Tx': -20, 'Ty': -20, 'Tz': -40, 'U,': -20, 'U.': -20, 'UA': -10, 'V,': -50, 'V.': -50,
+    'V?': 20, 'VA': -40, 'VC': -10, 'VG': -10, 'VO': -10, 'VQ': -10, 'Va': -20, 'Vc': -20,
+    'Vd': -20, 'Ve': -20, 'Vg': -10, 'Vm': -10, 'Vn': -10, 'Vo': -20, 'Vp': -10, 'Vq': -20,
+    'Vr': -10, 'Vs': -10, 'Vu': -10, 'W,': -50, 'W.': -50, 'W?': 20, 'WA': -40, 'WC': -10,
+    'WG': -10, 'WO': -10, 'WQ': -10, 'Wa': -20, 'Wc': -20, 'Wd': -20, 'We': -20, 'Wg': -10,
+    'Wm': -10, 'Wn': -10, 'Wo': -20, 'Wp': -10, 'Wq': -20, 'Wr': -10, 'Ws': -10, 'Wu': -10,
+    'XC': -20, 'XG': -20, 'XO': -20, 'XQ': -20, 'Y&': -30, 'Y,': -60, 'Y.': -60, 'Y?': 20,
+    'YA': -60, 'YC': -20, 'YG': -20, 'YO': -20, 'YQ': -20, 'Ya': -50, 'Yc': -50, 'Yd': -50,
+    'Ye': -50, 'Yg': -50, 'Ym': -30, 'Yn': -30, 'Yo': -50, 'Yp': -30, 'Yq': -50, 'Yr': -30,
+    'Ys': -40, 'Yu': -30, 'Yz': -20, 'ZC': -10, 'ZG': -10, 'ZO': -10, 'ZQ': -10, '[J': 90,
+    '[j': 40, '_J': 95, 'a"': -10, 'a\'': -10, 'b"': -10, 'b\'': -10, 'bv': -20, 'bw': -20,
+    'bx': -20, 'by': -20, 'bz': -10, 'c"': 20, 'c\'': 20, 'e"': -10, 'e\'': -10, 'ev': -20,
+    'ew': -20, 'ex': -20, 'ey': -20, 'ez': -10, 'f"': 60, 'f\'': 60, 'f)': 40, 'f,': -20,
+    'f.': -20, 'f]': 40, 'f}': 40, 'h"': -10, 'h\'': -10, 'm"': -10, 'm\'': -10, 'n"': -10,
+    'n\'': -10, 'o"': -10, 'o\'': -10, 'ov': -20, 'ow': -20, 'ox': -20, 'oy': -20, 'oz': -10,
+    'p"': -10, 'p\'': -10, 'pv': -20, 'pw': -20, 'px': -20, 'py': -20, 'pz': -10, 'r"': 40,
+    'r\'': 40, 'r,': -160, 'r.': -160, 'ra': -20, 'rc': -20, 'rd': -20, 're': -20, 'rg': -10,
+    'ro': -20, 'rq': -20, 't"': 20, 't\'': 20, 'v"': 40, 'v\'': 40, 'v,': -40, 'v.': -40,
+    'v?': 20, 'w"': 40, 'w\'': 40, 'w,': -40, 'w.': -40, 'w?': 20, 'xc': -20, 'xd': -20,
+    'xe': -20, 'xo': -20, 'xq': -20, 'y"': 40, 'y\'': 40, 'y,': -40, 'y.': -40, 'y?': 20,
+    '{J': 90, '{j': 40,
+  },
+};
+
+export const NOTO_SERIF_REGULAR: FontMetrics = {
+  unitsPerEm: 1000,
+  advances: {
+    ' ': 260, '!': 332, '"': 408, '#': 559, '$': 559, '%': 896, '&': 742, '\'': 220,
+    '(': 346, ')': 346, '*': 500, '+': 559, ',': 250, '-': 310, '.': 250, '/': 288,
+    '0': 559, '1': 559, '2': 559, '3': 559, '4': 559, '5': 559, '6': 559, '7': 559,
+    '8': 559, '9': 559, ':': 286, ';': 286, '<': 559, '=': 559, '>': 559, '?': 474,
+    '@': 921, 'A': 705, 'B': 654, 'C': 614, 'D': 727, 'E': 623, 'F': 590, 'G': 714,
+    'H': 793, 'I': 367, 'J': 357, 'K': 700, 'L': 623, 'M': 938, 'N': 763, 'O': 742,
+    'P': 604, 'Q': 742, 'R': 656, 'S': 544, 'T': 613, 'U': 717, 'V': 675, 'W': 1047,
+    'X': 660, 'Y': 625, 'Z': 592, '[': 360, '\\': 288, ']': 360, '^': 559, '_': 459,
+    '`': 274, 'a': 563, 'b': 614, 'c': 492, 'd': 614, 'e': 535, 'f': 369, 'g': 538,
+    'h': 635, 'i': 320, 'j': 300, 'k': 585, 'l': 310, 'm': 945, 'n': 645, 'o': 577,
+    'p': 614, 'q': 614, 'r': 471, 's': 451, 't': 352, 'u': 635, 'v': 579, 'w': 862,
+    'x': 578, 'y': 565, 'z': 511, '{': 428, '|': 559, '}': 428, '~': 559, '\u00a0': 260,
+    '¡': 332, '¢': 559, '£': 559, '¤': 559, '¥': 559, '¦': 559, '§': 544, '¨': 577,
+    '©': 845, 'ª': 382, '«': 514, '¬': 559, '\u00ad': 0, '®': 845, '¯': 459, '°': 400,
+    '±': 559, '²': 400, '³': 400, '´': 274, 'µ': 615, '¶': 617, '·': 250, '¸': 333,
+    '¹': 400, 'º': 397, '»': 514, '¼': 840, '½': 840, '¾': 840, '¿': 474, 'À': 705,
+    'Á': 705, 'Â': 705, 'Ã': 705, 'Ä': 705, 'Å': 705, 'Æ': 951, 'Ç': 614, 'È': 623,
+    'É': 623, 'Ê': 623, 'Ë': 623, 'Ì': 367, 'Í': 367, 'Î': 367, 'Ï': 367, 'Ð': 727,
+    'Ñ': 763, 'Ò': 742, 'Ó': 742, 'Ô': 742, 'Õ': 742, 'Ö': 742, '×': 559, 'Ø': 742,
+    'Ù': 717, 'Ú': 717, 'Û': 717, 'Ü': 717, 'Ý': 625, 'Þ': 604, 'ß': 647, 'à': 563,
+    'á': 563, 'â': 563, 'ã': 563, 'ä': 563, 'å': 563, 'æ': 841, 'ç': 492, 'è': 535,
+    'é': 535, 'ê': 535, 'ë': 535, 'ì': 320, 'í': 320, 'î': 320, 'ï': 320, 'ð': 577,
+    'ñ': 645, 'ò': 577, 'ó': 577, 'ô': 577, 'õ': 577, 'ö': 577, '÷': 559, 'ø': 577,
+    'ù': 635, 'ú': 635, 'û': 635, 'ü': 635, 'ý': 565, 'þ': 614, 'ÿ': 565, '–': 500,
+    '—': 1000, '‘': 250, '’': 250, '“': 450, '”': 450, '•': 362, '…': 858, '€': 559,
+    '™': 835, '−': 579,
+  },
+  kerning: {
+    '"A': -80, '"c': -20, '"d': -20, '"e': -20, '"g': -40, '"o': -20, '"q': -20, '&?': -30,
+    '&T': -30, '&V': -40, '&W': -40, '&Y': -30, '\'A': -80, '\'c': -20, '\'d': -20, '\'e': -20,
+    '\'g': -40, '\'o': -20, '\'q': -20, '*&': -10, '*,': -120, '*.': -120, '*A': -50, ',?': -90,
+    ',C': -20, ',G': -20, ',O': -20, ',Q': -20, ',T': -90, ',U': -20, ',V': -110, ',W': -90,
+    ',Y': -80, ',v': -70, ',w': -60, ',y': -50, '.?': -90, '.C': -20, '.G': -20, '.O': -20,
+    '.Q': -20, '.T': -90, '.U': -20, '.V': -110, '.W': -90, '.Y': -80, '.v': -70, '.w': -60,
+    '.y': -50, '@A': -30, '@Y': -10, 'A"': -80, 'A\'': -80, 'A*': -70, 'A?': -60, 'AC': -20,
+    'AG': -20, 'AO': -20, 'AQ': -20, 'AT': -60, 'AU': -20, 'AV': -80, 'AW': -70, 'AY': -70,
+    'Ac': -20, 'Ad': -20, 'Ae': -20, 'Ag': -20, 'Ao': -20, 'Aq': -20, 'Au': -20, 'Av': -60,
+    'Aw': -30, 'Ay': -50, 'B*': -20, 'B?': -20, 'BA': -20, 'BT': -20, 'BV': -40, 'BW': -30,
+    'BX': -20, 'BY': -40, 'BZ': -20, 'Bw': -10, 'By': -20, 'D,': -20, 'D.': -20, 'D?': -20,
+    'DA': -20, 'DT': -20, 'DV': -20, 'DW': -20, 'DX': -20, 'DY': -30, 'EV': -20, 'EW': -20,
+    'EY': -20, 'F&': -20, 'F,': -120, 'F.': -120, 'F@': -40, 'FA': -70, 'Fa': -40, 'Fc': -40,
+    'Fd': -40, 'Fe': -40, 'Fg': -40, 'Fo': -40, 'Fq': -40, 'G?': -20, 'GT': -20, 'GV': -20,
+    'GW': -20, 'GY': -20, 'KC': -20, 'KG': -20, 'KO': -20, 'KQ': -20, 'Kc': -20, 'Kd': -20,
+    'Ke': -20, 'Kg': -20, 'Ko': -20, 'Kq': -20, 'Ku': -20, 'Kw': -30, 'Ky': -30, 'L"': -60,
+    'L\'': -60, 'L*': -80, 'L?': -70, 'LT': -70, 'LV': -50, 'LW': -50, 'LY': -60, 'Lv': -20,
+    'Lw': -10, 'Ly': -30, 'O,': -20, 'O.': -20, 'O?': -20, 'OA': -20, 'OT': -20, 'OV': -20,
+    'OW': -20, 'OX': -20, 'OY': -30, 'P&': -10, 'P,': -120, 'P.': -120, 'PA': -50, 'Q,': -20,
+    'Q.': -20, 'Q?': -20, 'QA': -20, 'QT': -20, 'QV': -20, 'QW': -20, 'QX': -20, 'QY': -30,
+    'R*': -20, 'R?': -20, 'RC': -20, 'RG': -20, 'RO': -20, 'RQ': -20, 'RT': -20, 'RU': -10,
+    'RV': -30, 'RW': -30, 'RY': -30, 'Rv': -10, 'Rw': -10, 'Ry': -20, 'S?': -20, 'SA': -20,
+    'ST': -20, 'SV': -20, 'SW': -20, 'SX': -20, 'SY': -20, 'Sw': -10, 'Sy': -20, 'T&': -10,
+    'T,': -90, 'T.': -90, 'T@': -30, 'TA': -60, 'TC': -20, 'TG': -20, 'TO': -20, 'TQ': -20,
+    'Ta': -30, 'Tc': -50, 'Td': -50, 'Te': -50, 'Tg': -50, 'To': -50, 'Tq': -50, 'Ts': -5,
+    'U,': -20, 'U.': -20, 'U@': -10, 'UA': -20, 'V&': -30, 'V,': -110, 'V.': -110, 'V@': -50,
+    'VA': -80, 'VC': -20, 'VG': -20, 'VO': -20, 'VQ': -20, 'Va': -60, 'Vc': -60, 'Vd': -60,
+    'Ve': -60, 'Vg': -60, 'Vo': -60, 'Vq': -60, 'Vs': -40, 'W,': -90, 'W.': -90, 'W@': -50,
+    'WA': -70, 'WC': -20, 'WG': -20, 'WO': -20, 'WQ': -20, 'Wa': -70, 'Wc': -60, 'Wd': -60,
+    'We': -60, 'Wg': -60, 'Wo': -60, 'Wq': -60, 'Ws': -50, 'Wz': -30, 'XC': -20, 'XG': -20,
+    'XO': -20, 'XQ': -20, 'XS': -10, 'Xw': -30, 'Xy': -50, 'Y&': -10, 'Y,': -80, 'Y.': -80,
+    'Y@': -40, 'YA': -70, 'YC': -30, 'YG': -30, 'YO': -30, 'YQ': -30, 'YS': -20, 'Ya': -60,
+    'Yc': -70, 'Yd': -70, 'Ye': -70, 'Yg': -70, 'Yo': -70, 'Yq': -70, 'Ys': -60, 'Yz': -20,
+    'a"': -40, 'a\'': -40, 'ay': -20, 'bV': -60, 'bW': -60, 'bY': -70, 'by': -20, 'eV': -60,
+    'eW': -60, 'eY': -60, 'f"': 80, 'f\'': 80, 'f)': 90, 'f*': 80, 'f]': 90, 'f}': 90,
+    'gW': -20, 'h"': -40, 'h\'': -40, 'hy': -20, 'kc': -20, 'kd': -20, 'ke': -20, 'kg': -20,
+    'ko': -20, 'kq': -20, 'm"': -40, 'm\'': -40, 'my': -20, 'n"': -40, 'n\'': -40, 'ny': -20,
+    'oV': -60, 'oW': -60, 'oY': -70, 'oy': -20, 'pV': -60, 'pW': -60, 'pY': -70, 'py': -20,
+    'r*': 30, 'r,': -130, 'r.': -130, 'ra': -20, 'sY': -60, 'v,': -50, 'v.': -70, 'vA': -60,
+    'w,': -70, 'w.': -70, 'wA': -30, 'y,': -90, 'y.': -90, 'yA': -50,
+  },
+};
+
+export const NOTO_SERIF_BOLD: FontMetrics = {
+  unitsPerEm: 1000,
+  advances: {
+    ' ': 260, '!': 382, '"': 509, '#': 565, '$': 565, '%': 906, '&': 801, '\'': 290,
+    '(': 401, ')': 401, '*': 502, '+': 565, ',': 294, '-': 310, '.': 294, '/': 288,
+    '0': 565, '1': 565, '2': 565, '3': 565, '4': 565, '5': 565, '6': 565, '7': 565,
+    '8': 565, '9': 565, ':': 304, ';': 304, '<': 565, '=': 565, '>': 565, '?': 550,
+    '@': 921, 'A': 753, 'B': 672, 'C': 669, 'D': 767, 'E': 653, 'F': 621, 'G': 770,
+    'H': 819, 'I': 401, 'J': 396, 'K': 734, 'L': 654, 'M': 952, 'N': 788, 'O': 787,
+    'P': 638, 'Q': 787, 'R': 712, 'S': 579, 'T': 653, 'U': 747, 'V': 698, 'W': 1067,
+    'X': 733, 'Y': 693, 'Z': 667, '[': 415, '\\': 288, ']': 415, '^': 559, '_': 459,
+    '`': 334, 'a': 600, 'b': 649, 'c': 527, 'd': 649, 'e': 572, 'f': 407, 'g': 560,
+    'h': 667, 'i': 352, 'j': 345, 'k': 637, 'l': 352, 'm': 986, 'n': 667, 'o': 614,
+    'p': 645, 'q': 648, 'r': 523, 's': 481, 't': 405, 'u': 667, 'v': 606, 'w': 856,
+    'x': 646, 'y': 579, 'z': 529, '{': 442, '|': 565, '}': 442, '~': 565, '\u00a0': 260,
+    '¡': 382, '¢': 565, '£': 559, '¤': 565, '¥': 565, '¦': 565, '§': 544, '¨': 577,
+    '©': 845, 'ª': 420, '«': 554, '¬': 565, '\u00ad': 0, '®': 845, '¯': 459, '°': 400,
+    '±': 565, '²': 400, '³': 400, '´': 334, 'µ': 665, '¶': 627, '·': 294, '¸': 333,
+    '¹': 400, 'º': 437, '»': 554, '¼': 840, '½': 840, '¾': 840, '¿': 550, 'À': 753,
+    'Á': 753, 'Â': 753, 'Ã': 753, 'Ä': 753, 'Å': 753, 'Æ': 993, 'Ç': 669, 'È': 653,
+    'É': 653, 'Ê': 653, 'Ë': 653, 'Ì': 401, 'Í': 401, 'Î': 401, 'Ï': 401, 'Ð': 767,
+    'Ñ': 788, 'Ò': 787, 'Ó': 787, 'Ô': 787, 'Õ': 787, 'Ö': 787, '×': 565, 'Ø': 787,
+    'Ù': 747, 'Ú': 747, 'Û': 747, 'Ü': 747, 'Ý': 693, 'Þ': 638, 'ß': 706, 'à': 600,
+    'á': 600, 'â': 600, 'ã': 600, 'ä': 600, 'å': 600, 'æ': 875, 'ç': 527, 'è': 572,
+    'é': 572, 'ê': 572, 'ë': 572, 'ì': 352, 'í': 352, 'î': 352, 'ï': 352, 'ð': 614,
+    'ñ': 667, 'ò': 614, 'ó': 614, 'ô': 614, 'õ': 614, 'ö': 614, '÷': 565, 'ø': 614,
+    'ù': 667, 'ú': 667, 'û': 667, 'ü': 667, 'ý': 579, 'þ': 645, 'ÿ': 579, '–': 500,
+    '—': 1000, '‘': 280, '’': 280, '“': 489, '”': 489, '•': 400, '…': 913, '€': 559,
+    '™': 835, '−': 573,
+  },
+  kerning: {
+    '"A': -80, '"c': -20, '"d': -20, '"e': -20, '"g': -40, '"o': -20, '"q': -20, '&?': -30,
+    '&T': -30, '&V': -40, '&W': -40, '&Y': -30, '\'A': -80, '\'c': -20, '\'d': -20, '\'e': -20,
+    '\'g': -40, '\'o': -20, '\'q': -20, '*&': -10, '*,': -120, '*.': -120, '*A': -50, ',?': -90,
+    ',C': -20, ',G': -20, ',O': -20, ',Q': -20, ',T': -90, ',U': -20, ',V': -110, ',W': -90,
+    ',Y': -80, ',v': -70, ',w': -60, ',y': -50, '.?': -90, '.C': -20, '.G': -20, '.O': -20,
+    '.Q': -20, '.T': -90, '.U': -20, '.V': -110, '.W': -90, '.Y': -80, '.v': -70, '.w': -60,
+    '.y': -50, '@A': -30, '@Y': -10, 'A"': -80, 'A\'': -80, 'A*': -70, 'A?': -60, 'AC': -20,
+    'AG': -20, 'AO': -20, 'AQ': -20, 'AT': -60, 'AU': -20, 'AV': -80, 'AW': -70, 'AY': -70,
+    'Ac': -20, 'Ad': -20, 'Ae': -20, 'Ag': -20, 'Ao': -20, 'Aq': -20, 'Au': -20, 'Av': -60,
+    'Aw': -30, 'Ay': -50, 'B*': -20, 'B?': -20, 'BA': -20, 'BT': -20, 'BV': -40, 'BW': -30,
+    'BX': -20, 'BY': -40, 'BZ': -20, 'Bw': -10, 'By': -20, 'D,': -20, 'D.': -20, 'D?': -20,
+    'DA': -20, 'DT': -20, 'DV': -20, 'DW': -20, 'DX': -20, 'DY': -30, 'EV': -20, 'EW': -20,
+    'EY': -20, 'F&': -20, 'F,': -120, 'F.': -120, 'F@': -40, 'FA': -70, 'Fa': -40, 'Fc': -40,
+    'Fd': -40, 'Fe': -40, 'Fg': -40, 'Fo': -40, 'Fq': -40, 'G?': -20, 'GT': -20, 'GV': -20,
+    'GW': -20, 'GY': -20, 'KC': -20, 'KG': -20, 'KO': -20, 'KQ': -20, 'Kc': -20, 'Kd': -20,
+    'Ke': -20, 'Kg': -20, 'Ko': -20, 'Kq': -20, 'Ku': -20, 'Kw': -30, 'Ky': -30, 'L"': -60,
+    'L\'': -60, 'L*': -80, 'L?': -70, 'LT': -70, 'LV': -50, 'LW': -50, 'LY': -60, 'Lv': -20,
+    'Lw': -10, 'Ly': -30, 'O,': -20, 'O.': -20, 'O?': -20, 'OA': -20, 'OT': -20, 'OV': -20,
+    'OW': -20, 'OX': -20, 'OY': -30, 'P&': -10, 'P,': -120, 'P.': -120, 'PA': -50, 'Q,': -20,
+    'Q.': -20, 'Q?': -20, 'QA': -20, 'QT': -20, 'QV': -20, 'QW': -20, 'QX': -20, 'QY': -30,
+    'R*': -20, 'R?': -20, 'RC': -20, 'RG': -20, 'RO': -20, 'RQ': -20, 'RT': -20, 'RU': -10,
+    'RV': -30, 'RW': -30, 'RY': -30, 'Rv': -10, 'Rw': -10, 'Ry': -20, 'S?': -20, 'SA': -20,
+    'ST': -20, 'SV': -20, 'SW': -20, 'SX': -20, 'SY': -20, 'Sw': -10, 'Sy': -20, 'T&': -10,
+    'T,': -90, 'T.': -90, 'T@': -30, 'TA': -60, 'TC': -20, 'TG': -20, 'TO': -20, 'TQ': -20,
+    'Ta': -30, 'Tc': -38, 'Td': -38, 'Te': -38, 'Tg': -38, 'To': -38, 'Tq': -38, 'Ts': -5,
+    'U,': -20, 'U.': -20, 'U@': -10, 'UA': -20, 'V&': -30, 'V,': -110, 'V.': -110, 'V@': -50,
+    'VA': -80, 'VC': -20, 'VG': -20, 'VO': -20, 'VQ': -20, 'Va': -60, 'Vc': -60, 'Vd': -60,
+    'Ve': -60, 'Vg': -60, 'Vo': -60, 'Vq': -60, 'Vs': -40, 'W,': -90, 'W.': -90, 'W@': -50,
+    'WA': -70, 'WC': -20, 'WG': -20, 'WO': -20, 'WQ': -20, 'Wa': -64, 'Wc': -60, 'Wd': -60,
+    'We': -60, 'Wg': -60, 'Wo': -60, 'Wq': -60, 'Ws': -50, 'Wz': -30, 'XC': -20, 'XG': -20,
+    'XO': -20, 'XQ': -20, 'XS': -10, 'Xw': -30, 'Xy': -50, 'Y&': -10, 'Y,': -80, 'Y.': -80,
+    'Y@': -40, 'YA': -70, 'YC': -30, 'YG': -30, 'YO': -30, 'YQ': -30, 'YS': -20, 'Ya': -60,
+    'Yc': -70, 'Yd': -70, 'Ye': -70, 'Yg': -70, 'Yo': -70, 'Yq': -70, 'Ys': -60, 'Yz': -20,
+    'a"': -40, 'a\'': -40, 'ay': -20, 'bV': -60, 'bW': -60, 'bY': -70, 'by': -20, 'eV': -60,
+    'eW': -60, 'eY': -60, 'f"': 80, 'f\'': 80, 'f)': 90, 'f*': 80, 'f]': 90, 'f}': 90,
+    'gW': -20, 'h"': -40, 'h\'': -40, 'hy': -20, 'kc': -20, 'kd': -20, 'ke': -20, 'kg': -20,
+    'ko': -20, 'kq': -20, 'm"': -40, 'm\'': -40, 'my': -20, 'n"': -40, 'n\'': -40, 'ny': -20,
+    'oV': -60, 'oW': -60, 'oY': -70, 'oy': -20, 'pV': -60, 'pW': -60, 'pY': -70, 'py': -20,
+    'r*': 30, 'r,': -142, 'r.': -142, 'ra': -20, 'sY': -60, 'v,': -50, 'v.': -70, 'vA': -60,
+    'w,': -70, 'w.': -70, 'wA': -30, 'y,': -90, 'y.': -90, 'yA': -50,
+  },
+};
+
+export const NOTO_SANS_MONO_REGULAR: FontMetrics = {
+  unitsPerEm: 1000,
+  advances: {
+    ' ': 600, '!': 600, '"': 600, '#': 600, '$': 600, '%': 600, '&': 600, '\'': 600,
+    '(': 600, ')': 600, '*': 600, '+': 600, ',': 600, '-': 600, '.': 600, '/': 600,
+    '0': 600, '1': 600, '2': 600, '3': 600, '4': 600, '5': 600, '6': 600, '7': 600,
+    '8': 600, '9': 600, ':': 600, ';': 600, '<': 600, '=': 600, '>': 600, '?': 600,
+    '@': 600, 'A': 600, 'B': 600, 'C': 600, 'D': 600, 'E': 600, 'F': 600, 'G': 600,
+    'H': 600, 'I': 600, 'J': 600, 'K': 600, 'L': 600, 'M': 600, 'N': 600, 'O': 600,
+    'P': 600, 'Q': 600, 'R': 600, 'S': 600, 'T': 600, 'U': 600, 'V': 600, 'W': 600,
+    'X': 600, 'Y': 600, 'Z': 600, '[': 600, '\\': 600, ']': 600, '^': 600, '_': 600,
+    '`': 600, 'a': 600, 'b': 600, 'c': 600, 'd': 600, 'e': 600, 'f': 600, 'g': 600,
+    'h': 600, 'i': 600, 'j': 600, 'k': 600, 'l': 600, 'm': 600, 'n': 600, 'o': 600,
+    'p': 600, 'q': 600, 'r': 600, 's': 600, 't': 600, 'u': 600, 'v': 600, 'w': 600,
+    'x': 600, 'y': 600, 'z': 600, '{': 600, '|': 600, '}': 600, '~': 600, '\u00a0': 600,
+    '¡': 600, '¢': 600, '£': 600, '¤': 600, '¥': 600, '¦': 600, '§': 600, '¨': 600,
+    '©': 600, 'ª': 600, '«': 600, '¬': 600, '®': 600, '¯': 600, '°': 600, '±': 600,
+    '²': 600, '³': 600, '´': 600, 'µ': 600, '¶': 600, '·': 600, '¸': 600, '¹': 600,
+    'º': 600, '»': 600, '¼': 600, '½': 600, '¾': 600, '¿': 600, 'À': 600, 'Á': 600,
+    'Â': 600, 'Ã': 600, 'Ä': 600, 'Å': 600, 'Æ': 600, 'Ç': 600, 'È': 600, 'É': 600,
+    'Ê': 600, 'Ë': 600, 'Ì': 600, 'Í': 600, 'Î': 600, 'Ï': 600, 'Ð': 600, 'Ñ': 600,
+    'Ò': 600, 'Ó': 600, 'Ô': 600, 'Õ': 600, 'Ö': 600, '×': 600, 'Ø': 600, 'Ù': 600,
+    'Ú': 600, 'Û': 600, 'Ü': 600, 'Ý': 600, 'Þ': 600, 'ß': 600, 'à': 600, 'á': 600,
+    'â': 600, 'ã': 600, 'ä': 600, 'å': 600, 'æ': 600, 'ç': 600, 'è': 600, 'é': 600,
+    'ê': 600, 'ë': 600, 'ì': 600, 'í': 600, 'î': 600, 'ï': 600, 'ð': 600, 'ñ': 600,
+    'ò': 600, 'ó': 600, 'ô': 600, 'õ': 600, 'ö': 600, '÷': 600, 'ø': 600, 'ù': 600,
+    'ú': 600, 'û': 600, 'ü': 600, 'ý': 600, 'þ': 600, 'ÿ': 600, '–': 600, '—': 600,
+    '‘': 600, '’': 600, '“': 600, '”': 600, '•': 600, '…': 600, '€': 600, '™': 600,
+    '←': 600, '→': 600, '−': 600,
+  },
+  kerning: {
+
+  },
+};
+
+export const NOTO_SANS_MONO_BOLD: FontMetrics = {
+  unitsPerEm: 1000,
+  advances: {
+    ' ': 600, '!': 600, '"': 600, '#': 600, '$': 600, '%': 600, '&': 600, '\'': 600,
+    '(': 600, ')': 600, '*': 600, '+': 600, ',': 600, '-': 600, '.': 600, '/': 600,
+    '0': 600, '1': 600, '2': 600, '3': 600, '4': 600, '5': 600, '6': 600, '7': 600,
+    '8': 600, '9': 600, ':': 600, ';': 600, '<': 600, '=': 600, '>': 600, '?': 600,
+    '@': 600, 'A': 600, 'B': 600, 'C': 600, 'D': 600, 'E': 600, 'F': 600, 'G': 600,
+    'H': 600, 'I': 600, 'J': 600, 'K': 600, 'L': 600, 'M': 600, 'N': 600, 'O': 600,
+    'P': 600, 'Q': 600, 'R': 600, 'S': 600, 'T': 600, 'U': 600, 'V': 600, 'W': 600,
+    'X': 600, 'Y': 600, 'Z': 600, '[': 600, '\\': 600, ']': 600, '^': 600, '_': 600,
+    '`': 600, 'a': 600, 'b': 600, 'c': 600, 'd': 600, 'e': 600, 'f': 600, 'g': 600,
+    'h': 600, 'i': 600, 'j': 600, 'k': 600, 'l': 600, 'm': 600, 'n': 600, 'o': 600,
+    'p': 600, 'q': 600, 'r': 600, 's': 600, 't': 600, 'u': 600, 'v': 600, 'w': 600,
+    'x': 600, 'y': 600, 'z': 600, '{': 600, '|': 600, '}': 600, '~': 600, '\u00a0': 600,
+    '¡': 600, '¢': 600, '£': 600, '¤': 600, '¥': 600, '¦': 600, '§': 600, '¨': 600,
+    '©': 600, 'ª': 600, '«': 600, '¬': 600, '®': 600, '¯': 600, '°': 600, '±': 600,
+    '²': 600, '³': 600, '´': 600, 'µ': 600, '¶': 600, '·': 600, '¸': 600, '¹': 600,
+    'º': 600, '»': 600, '¼': 600, '½': 600, '¾': 600, '¿': 600, 'À': 600, 'Á': 600,
+    'Â': 600, 'Ã': 600, 'Ä': 600, 'Å': 600, 'Æ': 600, 'Ç': 600, 'È': 600, 'É': 600,
+    'Ê': 600, 'Ë': 600, 'Ì': 600, 'Í': 600, 'Î': 600, 'Ï': 600, 'Ð': 600, 'Ñ': 600,
+    'Ò': 600, 'Ó': 600, 'Ô': 600, 'Õ': 600, 'Ö': 600, '×': 600, 'Ø': 600, 'Ù': 600,
+    'Ú': 600, 'Û': 600, 'Ü': 600, 'Ý': 600, 'Þ': 600, 'ß': 600, 'à': 600, 'á': 600,
+    'â': 600, 'ã': 600, 'ä': 600, 'å': 600, 'æ': 600, 'ç': 600, 'è': 600, 'é': 600,
+    'ê': 600, 'ë': 600, 'ì': 600, 'í': 600, 'î': 600, 'ï': 600, 'ð': 600, 'ñ': 600,
+    'ò': 600, 'ó': 600, 'ô': 600, 'õ': 600, 'ö': 600, '÷': 600, 'ø': 600, 'ù': 600,
+    'ú': 600, 'û': 600, 'ü': 600, 'ý': 600, 'þ': 600, 'ÿ': 600, '–': 600, '—': 600,
+    '‘': 600, '’': 600, '“': 600, '”': 600, '•': 600, '…': 600, '€': 600, '™': 600,
+    '←': 600, '→': 600, '−': 600,
+  },
+  kerning: {
+
+  },
+};
@@ -0,0 +1,216 @@
+import { GradientError } from './errors';
+import { colorToRgb, escapeXML, parseColor } from './util';
+
+export type GradientKind = 'linear' | 'radial' | 'conic';
+
+export interface GradientStop {
+  color: string;
+  offset: number;
+}
+
+export interface Gradient {
+  kind: GradientKind;
+  angle: number;
+  stops: GradientStop[];
+}
+
+export const GRADIENT_ID = 'bgGradient';
+
+const MAX_STOPS = 16;
+const CONIC_SEGMENTS = 90;
+
+export function isGradient(input: string): boolean {
+  return /^(linear|radial|conic)(-gradient)?\(/i.test(input.trim());
+}
+
+export function parseGradient(input: string): Gradient {
+  const normalized = input.trim().toLowerCase();
+  const match = /^(linear|radial|conic)(?:-gradient)?\((.*)\)$/.exec(normalized);
+  if (!match) {
+    throw new GradientError(input);
+  }
+
+  const kind = match[1] as GradientKind;
+  const args = splitArgs(match[2]);
+
+  let angle = kind === 'linear' ? 180 : 0;
+  if (kind !== 'radial' && args.length) {
+    const angleMatch = /^(-?\d+(?:\.\d+)?)(?:deg)?$/.exec(args[0]);
+    if (angleMatch) {
+      angle = parseFloat(angleMatch[1]);
+      args.shift();
+    }
+  }
+
+  if (args.length < 2 || args.length > MAX_STOPS) {
+    throw new GradientError(input);
+  }
+
+  const stops = args.map((arg) => {
+    const stopMatch = /^(.*?)(?:\s+(-?\d+(?:\.\d+)?)%)?$/.exec(arg);
+    if (!stopMatch || !stopMatch[1]) {
+      throw new GradientError(input);
+    }
+    return {
+      color: parseColor(stopMatch[1]),
+      offset: stopMatch[2] === undefined ? undefined : parseFloat(stopMatch[2]) / 100,
+    };
+  });
+
+  return {
+    kind,
+    angle: ((angle % 360) + 360) % 360,
+    stops: resolveOffsets(stops),
+  };
+}
+
+export function buildGradientDef(
+  gradient: Gradient,
+  width: number,
+  height: number,
+): string {
+  switch (gradient.kind) {
+    case 'linear':
+      return buildLinear(gradient, width, height);
+    case 'radial':
+      return `<radialGradient id="${GRADIENT_ID}" cx="0.5" cy="0.5" r="${round(Math.SQRT1_2)}">${buildStops(gradient.stops)}</radialGradient>`;
+    case 'conic':
+      return buildConic(gradient, width, height);
+  }
+}
+
+function buildLinear(gradient: Gradient, width: number, height: number): string {
+  // Match CSS: 0deg points up, angles turn clockwise, and the gradient line is
+  // long enough for the corners to land exactly on the first and last stops.
+  const radians = (gradient.angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  const cx = width / 2;
+  const cy = height / 2;
+
+  return `<linearGradient id="${GRADIENT_ID}" gradientUnits="userSpaceOnUse" x1="${round(cx - dx * half)}" y1="${round(cy - dy * half)}" x2="${round(cx + dx * half)}" y2="${round(cy + dy * half)}">${buildStops(gradient.stops)}</linearGradient>`;
+}
+
+function buildConic(gradient: Gradient, width: number, height: number): string {
+  // SVG has no conic gradient, so approximate one with thin solid wedges.
+  // Each wedge overlaps the next by half a step to hide anti-aliasing seams.
+  const cx = width / 2;
+  const cy = height / 2;
+  const radius = Math.hypot(width, height);
+  const step = 360 / CONIC_SEGMENTS;
+
+  const wedges: string[] = [];
+  for (let index = 0; index < CONIC_SEGMENTS; index += 1) {
+    const start = gradient.angle + index * step;
+    const end = start + step * 1.5;
+    const color = colorAt(gradient.stops, (index + 0.5) / CONIC_SEGMENTS);
+    const [x1, y1] = polar(cx, cy, radius, start);
+    const [x2, y2] = polar(cx, cy, radius, end);
+    wedges.push(
+      `<path d="M${round(cx)} ${round(cy)}L${x1} ${y1}L${x2} ${y2}Z"${paintAttr('fill', color)}/>`,
+    );
+  }
+
+  return `<pattern id="${GRADIENT_ID}" patternUnits="userSpaceOnUse" width="${width}" height="${height}">${wedges.join('')}</pattern>`;
+}
+
+function buildStops(stops: GradientStop[]): string {
+  return stops
+    .map(
+      (stop) =>
+        `<stop offset="${round(stop.offset)}"${paintAttr('stop-color', stop.color)}/>`,
+    )
+    .join('');
+}
+
+function paintAttr(name: 'fill' | 'stop-color', color: string): string {
+  if (color === 'transparent') {
+    const opacity = name === 'fill' ? 'fill-opacity' : 'stop-opacity';
+    return ` ${name}="#000000" ${opacity}="0"`;
+  }
+  return ` ${name}="${escapeXML(color)}"`;
+}
+
+function colorAt(stops: GradientStop[], position: number): string {
+  const nextIndex = stops.findIndex((stop) => stop.offset >= position);
+  if (nextIndex <= 0) {
+    return stops[nextIndex === 0 ? 0 : stops.length - 1].color;
+  }
+
+  const from = stops[nextIndex - 1];
+  const to = stops[nextIndex];
+  const fromRgb = colorToRgb(from.color);
+  const toRgb = colorToRgb(to.color);
+  const span = to.offset - from.offset;
+  const t = span > 0 ? (position - from.offset) / span : 1;
+
+  if (!fromRgb || !toRgb) {
+    return t < 0.5 ? from.color : to.color;
+  }
+
+  const mixed = fromRgb.map((channel, index) =>
+    Math.round(channel + (toRgb[index] - channel) * t),
+  );
+  return `#${mixed.map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function polar(cx: number, cy: number, radius: number, degrees: number): [number, number] {
+  const radians = (degrees * Math.PI) / 180;
+  return [round(cx + radius * Math.sin(radians)), round(cy - radius * Math.cos(radians))];
+}
+
+function resolveOffsets(
+  stops: { color: string; offset: number | undefined }[],
+): GradientStop[] {
+  const offsets = stops.map((stop) => stop.offset);
+  offsets[0] ??= 0;
+  offsets[offsets.length - 1] ??= 1;
+
+  // Spread unpositioned stops evenly between their positioned neighbours,
+  // then keep offsets monotonic like CSS does.
+  let last = 0;
+  for (let index = 1; index < offsets.length; index += 1) {
+    if (offsets[index] !== undefined) {
+      const gap = index - last;
+      const from = offsets[last] as number;
+      const to = offsets[index] as number;
+      for (let fill = 1; fill < gap; fill += 1) {
+        offsets[last + fill] = from + ((to - from) * fill) / gap;
+      }
+      last = index;
+    }
+  }
+
+  let previous = 0;
+  return stops.map((stop, index) => {
+    const offset = Math.max(previous, Math.min(Math.max(offsets[index] as number, 0), 1));
+    previous = offset;
+    return { color: stop.color, offset };
+  });
+}
+
+function splitArgs(value: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') {
+      depth += 1;
+    } else if (char === ')') {
+      depth -= 1;
+    }
+    if (char === ',' && depth === 0) {
+      args.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  args.push(current.trim());
+  return args.filter(Boolean);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,395 @@
+import { ProblemDetails } from './errors';
+import { escapeXML } from './util';
+
+export interface ParamHelp {
+  name: string;
+  description: string;
+  example: string;
+}
+
+export const USAGE = 'Usage: /:widthxheight/:bg?/:fg?[.svg|.png|.webp|.avif|.jpg]';
+
+export const EXAMPLES = [
+  '/600x300/red/white?says=Hello+World',
+  '/og/linear(45,navy,teal)?says=**Launch**|Coming+soon',
+  '/16:9/800?pattern=cross&label=both',
+  '/set/320x180,640x360,1280x720/teal?says=Hero',
+];
+
+export const SEGMENTS: ParamHelp[] = [
+  {
+    name: 'dims',
+    description: 'Size as WxH (max 8000), a preset like og, hd or a4@150dpi, or a ratio followed by a width.',
+    example: '/600x300, /og, /16:9/800',
+  },
+  {
+    name: 'bg',
+    description: 'Background colour (CSS name, hex with optional alpha, rgb(), hsl(), hwb(), lab(), lch(), oklab(), oklch(), color-mix(), t for transparent), a palette token like blue-500, material-teal-a200 or radix-slate-9, seed:<text> for a stable colour hashed from the text, or a gradient.',
+    example: '/600x300/teal, /600x300/radial(gold,navy)',
+  },
+  {
+    name: 'fg',
+    description: 'Text colour. Picked for contrast against the background when omitted.',
+    example: '/600x300/navy/white',
+  },
+  {
+    name: 'set',
+    description: 'Route listing one placeholder at several comma-separated sizes, as a srcset manifest or SVG sprite.',
+    example: '/set/320x180,640x360/teal',
+  },
+  {
+    name: 'batch',
+    description: 'POST a JSON array of render specs, each with an optional id (its position when missing), to render many SVGs at once. Returns { items: { id: { svg, etag } or { error } }, failed }.',
+    example: 'POST /batch [{ "id": "hero", "size": "og", "text": "Hi" }]',
+  },
+  {
+    name: 'render',
+    description: 'POST a JSON render spec: { v: 1, size, bg, fg, format } plus any query parameter under a readable name (text for says, lineHeight for lh). Errors list every invalid field.',
+    example: 'POST /render { "size": "600x300", "bg": "navy", "text": "Hi" }',
+  },
+  {
+    name: 'r',
+    description: 'GET a render spec encoded as base64url JSON, optionally followed by a format extension.',
+    example: '/r/eyJzaXplIjoib2cifQ.png',
+  },
+];
+
+export const PARAMS: ParamHelp[] = [
+  {
+    name: 'says',
+    description: 'Text to draw. Supports | line breaks, **bold**, _italic_, {color:text} and {w}/{h}/{ratio}.',
+    example: 'says=**Hi**|{w}x{h}',
+  },
+  {
+    name: 'theme',
+    description: 'Named theme setting the default bg, fg, font, radius and stroke: light, dark, sepia or a deploy-defined theme.',
+    example: 'theme=dark',
+  },
+  {
+    name: 'seed',
+    description: 'Text to hash into a stable background colour (when bg is omitted), initials and identicons.',
+    example: 'seed=alice@example.com',
+  },
+  {
+    name: 'initials',
+    description: 'Draw initials when says is empty: auto takes them from the seed, any other value is a name to take them from.',
+    example: 'initials=auto',
+  },
+  {
+    name: 'identicon',
+    description: 'Draw a symmetric block identicon from the seed.',
+    example: 'identicon=1',
+  },
+  {
+    name: 'label',
+    description: 'Text to draw when says is empty: dims, ratio, both or none.',
+    example: 'label=both',
+  },
+  {
+    name: 'font',
+    description: 'Font for the text: inter, roboto, noto-sans, noto-serif, noto-sans-mono or a CSS generic family like serif. Unknown fonts fall back to the default with a Warning header.',
+    example: 'font=noto-serif',
+  },
+  {
+    name: 'embed',
+    description: 'Inline the font in the SVG as a WOFF2 subset of just the characters drawn, so it looks the same everywhere.',
+    example: 'embed=1',
+  },
+  {
+    name: 'weight',
+    description: 'Font weight.',
+    example: 'weight=700',
+  },
+  {
+    name: 'size',
+    description: 'Font size in pixels (12 to 128).',
+    example: 'size=32',
+  },
+  {
+    name: 'fit',
+    description: 'Auto-size the text: shrink, grow or fill.',
+    example: 'fit=fill',
+  },
+  {
+    name: 'minsize',
+    description: 'Smallest font size fit may use.',
+    example: 'minsize=10',
+  },
+  {
+    name: 'maxsize',
+    description: 'Largest font size fit may use.',
+    example: 'maxsize=200',
+  },
+  {
+    name: 'wrap',
+    description: 'Wrap long text onto several lines.',
+    example: 'wrap=1',
+  },
+  {
+    name: 'lines',
+    description: 'Maximum number of lines (1 to 20, default 2).',
+    example: 'lines=3',
+  },
+  {
+    name: 'lh',
+    description: 'Line height as a multiple of the font size.',
+    example: 'lh=1.4',
+  },
+  {
+    name: 'align',
+    description: 'Horizontal alignment: left, center or right. Left and right are the same sides for right-to-left text.',
+    example: 'align=left',
+  },
+  {
+    name: 'dir',
+    description: 'Text direction: auto (from the first letter, the default), ltr or rtl.',
+    example: 'dir=rtl',
+  },
+  {
+    name: 'valign',
+    description: 'Vertical alignment: top, middle or bottom.',
+    example: 'valign=top',
+  },
+  {
+    name: 'pad',
+    description: 'Padding around the text in pixels.',
+    example: 'pad=24',
+  },
+  {
+    name: 'icon',
+    description: 'Icon drawn above the text, e.g. image, user, video or map.',
+    example: 'icon=image',
+  },
+  {
+    name: 'gradient',
+    description: 'Gradient background: linear(angle,stops...), radial(stops...) or conic(stops...).',
+    example: 'gradient=linear(90,red,blue)',
+  },
+  {
+    name: 'pattern',
+    description: 'Pattern over the background: grid, checker, stripes, dots or cross.',
+    example: 'pattern=cross',
+  },
+  {
+    name: 'pcolor',
+    description: 'Pattern colour. Defaults to the text colour.',
+    example: 'pcolor=white',
+  },
+  {
+    name: 'psize',
+    description: 'Pattern tile size in pixels.',
+    example: 'psize=16',
+  },
+  {
+    name: 'popacity',
+    description: 'Pattern opacity from 0 to 1.',
+    example: 'popacity=0.3',
+  },
+  {
+    name: 'showalpha',
+    description: 'Draw a checkerboard behind transparent backgrounds.',
+    example: 'showalpha=1',
+  },
+  {
+    name: 'shape',
+    description: 'Background shape: rect (the default), circle, ellipse or squircle.',
+    example: 'shape=circle',
+  },
+  {
+    name: 'radius',
+    description: 'Corner radius in pixels, or one per corner as top-left,top-right,bottom-right,bottom-left.',
+    example: 'radius=12,12,0,0',
+  },
+  {
+    name: 'stroke',
+    description: 'Border colour.',
+    example: 'stroke=black',
+  },
+  {
+    name: 'sw',
+    description: 'Border width in pixels.',
+    example: 'sw=2',
+  },
+  {
+    name: 'dash',
+    description: 'Dash and gap lengths for a dashed border.',
+    example: 'dash=4,2',
+  },
+  {
+    name: 'inset',
+    description: 'Draw the border inside the edge instead of centred on it, where half of it is clipped.',
+    example: 'inset=1',
+  },
+  {
+    name: 'shadow',
+    description: 'Add a drop shadow: 1 for the default, or dx,dy,blur,colour.',
+    example: 'shadow=0,4,8,rgb(0,0,0,0.3)',
+  },
+  {
+    name: 'tstroke',
+    description: 'Outline colour for the text.',
+    example: 'tstroke=black',
+  },
+  {
+    name: 'tsw',
+    description: 'Text outline width in pixels (default 1).',
+    example: 'tsw=2',
+  },
+  {
+    name: 'tshadow',
+    description: 'Add a drop shadow to the text.',
+    example: 'tshadow=1',
+  },
+  {
+    name: 'tbg',
+    description: 'Colour of a rounded pill behind the text. The automatic text colour contrasts with it.',
+    example: 'tbg=black',
+  },
+  {
+    name: 'topacity',
+    description: 'Text opacity from 0 to 1.',
+    example: 'topacity=0.8',
+  },
+  {
+    name: 't1',
+    description: 'A text layer. Number layers t1, t2, … (up to 20); numbers set the drawing order. Layers go over everything else.',
+    example: 't1=Title&t1pos=top-left',
+  },
+  {
+    name: 'r1, c1, l1',
+    description: 'A rectangle, circle or line layer in the given colour, or the text colour when left empty (r1=).',
+    example: 'r1=red&r1size=80x24&r1radius=12',
+  },
+  {
+    name: 'i1',
+    description: 'An icon layer, by icon name.',
+    example: 'i1=star&i1pos=bottom-right',
+  },
+  {
+    name: 't1pos',
+    description: 'Where a layer sits: top-left, top, top-right, left, center (the default), right, bottom-left, bottom or bottom-right.',
+    example: 't1pos=bottom',
+  },
+  {
+    name: 't1xy',
+    description: 'Layer offset as dx,dy in pixels.',
+    example: 't1xy=0,-12',
+  },
+  {
+    name: 't1size',
+    description: 'Font size of a text layer, or the WxH box of a shape, line or icon layer (default 40).',
+    example: 'r1size=120x2',
+  },
+  {
+    name: 't1color',
+    description: 'Colour of a text or icon layer. Also t1weight and t1lines for text, t1stroke and t1sw for outlines, t1radius for rectangles and t1opacity for any layer.',
+    example: 't1color=white',
+  },
+  {
+    name: 'contrast',
+    description: 'Check text contrast against the background: aa, aaa (WCAG 2.x ratio) or apca (Lc). Reported in X-Contrast-Ratio.',
+    example: 'contrast=aa',
+  },
+  {
+    name: 'enforce',
+    description: 'With contrast, adjust the text lightness until the target is met.',
+    example: 'enforce=1',
+  },
+  {
+    name: 'scale',
+    description: 'Pixel density multiplier from 1 to 4, fractions allowed.',
+    example: 'scale=1.5',
+  },
+  {
+    name: 'scales',
+    description: 'For /set: densities to list, comma-separated. Defaults to 1,2,3 for one size and 1 for several.',
+    example: 'scales=1,2',
+  },
+  {
+    name: 'sprite',
+    description: 'For /set: return an SVG sprite with one <symbol> per size instead of a JSON srcset manifest.',
+    example: 'sprite=1',
+  },
+  {
+    name: 'format',
+    description: 'Output format: svg, png, webp, avif or jpg. A file extension works too. Without either, SVG is served unless the Accept header, with no wildcard, ranks a raster type above it.',
+    example: 'format=png',
+  },
+  {
+    name: 'as',
+    description: 'Return a snippet instead of the image: html (an <img> tag with a 2x srcset), datauri or css (a background-image rule).',
+    example: 'as=html',
+  },
+  {
+    name: 'base64',
+    description: 'With as=datauri or as=css, base64-encode SVG instead of URL-encoding it.',
+    example: 'base64=1',
+  },
+  {
+    name: 'onerror',
+    description: 'How to report bad requests: text (a help response) or image (an SVG showing the error).',
+    example: 'onerror=image',
+  },
+  {
+    name: 'errstatus',
+    description: 'Status code for error images of bad requests (default 400). Use 200 for clients that hide failed images. Server errors keep their 5xx status.',
+    example: 'errstatus=200',
+  },
+];
+
+export function buildHelpText(problem?: ProblemDetails): string {
+  return [
+    USAGE,
+    `Example: ${EXAMPLES[0]}`,
+    problem ? `Error: ${problem.detail}` : null,
+    problem?.suggestion ? `Did you mean ${problem.suggestion}?` : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+export function buildHelpHtml(problem?: ProblemDetails): string {
+  const errorBlock = problem
+    ? `<section class="error"><h2>${escapeXML(problem.detail)}</h2>${describeSource(problem)}${problem.suggestion ? `<p>Did you mean <code>${escapeXML(problem.suggestion)}</code>?</p>` : ''}</section>`
+    : '';
+
+  return [
+    '<!doctype html>',
+    '<html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">',
+    '<title>Altbox</title>',
+    '<style>body{font:16px/1.5 system-ui,sans-serif;max-width:48rem;margin:2rem auto;padding:0 1rem;color:#111}code{background:#f3f3f3;padding:0 .25em;border-radius:3px}table{border-collapse:collapse;width:100%}td,th{text-align:left;vertical-align:top;padding:.4rem;border-bottom:1px solid #e5e5e5}.error{border-left:4px solid #d33;background:#fff5f5;padding:.5rem 1rem;margin-bottom:1.5rem}</style>',
+    '</head><body>',
+    '<h1>Altbox</h1>',
+    errorBlock,
+    `<p><code>${escapeXML(USAGE.replace(/^Usage: /, ''))}</code></p>`,
+    `<ul>${EXAMPLES.map((example) => `<li><a href="${escapeXML(example)}"><code>${escapeXML(example)}</code></a></li>`).join('')}</ul>`,
+    '<h2>Path segments</h2>',
+    buildTable(SEGMENTS),
+    '<h2>Query parameters</h2>',
+    buildTable(PARAMS),
+    '</body></html>',
+  ].join('');
+}
+
+function buildTable(rows: ParamHelp[]): string {
+  const body = rows
+    .map(
+      (row) =>
+        `<tr><td><code>${escapeXML(row.name)}</code></td><td>${escapeXML(row.description)}</td><td><code>${escapeXML(row.example)}</code></td></tr>`,
+    )
+    .join('');
+  return `<table><thead><tr><th>Name</th><th>Description</th><th>Example</th></tr></thead><tbody>${body}</tbody></table>`;
+}
+
+function describeSource(problem: ProblemDetails): string {
+  const where = problem.param
+    ? `query parameter <code>${escapeXML(problem.param)}</code>`
+    : problem.segment
+      ? `path segment <code>${escapeXML(problem.segment)}</code>`
+      : '';
+  if (!where) {
+    return '';
+  }
+  const value = problem.value ? ` (got <code>${escapeXML(problem.value)}</code>)` : '';
+  return `<p>In the ${where}${value}.</p>`;
+}
@@ -0,0 +1,131 @@
+import {
+  mdiAccount,
+  mdiAccountGroup,
+  mdiCalendar,
+  mdiCamera,
+  mdiCart,
+  mdiChartBar,
+  mdiCog,
+  mdiEmail,
+  mdiFileDocument,
+  mdiHeart,
+  mdiHome,
+  mdiImageOutline,
+  mdiMagnify,
+  mdiMap,
+  mdiMapMarker,
+  mdiMusic,
+  mdiPlay,
+  mdiStar,
+  mdiVideo,
+} from '@mdi/js';
+
+import { IconError } from './errors';
+import { Align, VerticalAlign, escapeXML, suggestClosest } from './util';
+
+// Path data from Material Design Icons (Apache 2.0), drawn on a 24x24 grid.
+export const ICONS: Record<string, string> = {
+  image: mdiImageOutline,
+  photo: mdiImageOutline,
+  user: mdiAccount,
+  users: mdiAccountGroup,
+  video: mdiVideo,
+  play: mdiPlay,
+  map: mdiMap,
+  pin: mdiMapMarker,
+  camera: mdiCamera,
+  music: mdiMusic,
+  file: mdiFileDocument,
+  chart: mdiChartBar,
+  mail: mdiEmail,
+  calendar: mdiCalendar,
+  cart: mdiCart,
+  star: mdiStar,
+  heart: mdiHeart,
+  home: mdiHome,
+  search: mdiMagnify,
+  settings: mdiCog,
+};
+
+const ICON_GRID = 24;
+const ICON_SCALE = 0.4;
+const ICON_SCALE_WITH_TEXT = 0.25;
+const ICON_GAP = 0.25;
+
+export interface IconLayoutOptions {
+  width: number;
+  height: number;
+  pad: number;
+  align: Align;
+  valign: VerticalAlign;
+  textHeight: number;
+}
+
+export interface IconLayout {
+  x: number;
+  y: number;
+  size: number;
+  textTop: number;
+}
+
+export function parseIcon(value: string): string {
+  const name = value.trim().toLowerCase();
+  if (!Object.hasOwn(ICONS, name)) {
+    throw new IconError(value, {
+      suggestion: suggestClosest(name, Object.keys(ICONS), 1)[0],
+    });
+  }
+  return name;
+}
+
+// Stacks the icon above the text block and positions the pair as one unit,
+// so valign and align behave the same with or without an icon.
+export function layoutIcon(options: IconLayoutOptions): IconLayout {
+  const { width, height, pad, align, valign, textHeight } = options;
+  const availableHeight = Math.max(0, height - pad * 2);
+  const base = Math.min(width, height);
+
+  const gapRatio = textHeight ? ICON_GAP : 0;
+  let size = base * (textHeight ? ICON_SCALE_WITH_TEXT : ICON_SCALE);
+  if (size * (1 + gapRatio) + textHeight > availableHeight) {
+    size = Math.max(0, (availableHeight - textHeight) / (1 + gapRatio));
+  }
+  const gap = size * gapRatio;
+
+  const blockHeight = size + gap + textHeight;
+  const top = valign === 'top'
+    ? pad
+    : valign === 'bottom'
+      ? height - pad - blockHeight
+      : (height - blockHeight) / 2;
+
+  const x = align === 'left'
+    ? pad
+    : align === 'right'
+      ? width - pad - size
+      : (width - size) / 2;
+
+  return {
+    x: round(x),
+    y: round(top),
+    size: round(size),
+    textTop: round(top + size + gap),
+  };
+}
+
+export function buildIcon(
+  name: string,
+  layout: IconLayout,
+  fill: string,
+): string {
+  const path = ICONS[name];
+  if (!path || !layout.size) {
+    return '';
+  }
+  const scale = round(layout.size / ICON_GRID);
+  return `<path transform="translate(${layout.x} ${layout.y}) scale(${scale})" d="${path}" fill="${escapeXML(fill)}"/>`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,151 @@
+import { DimensionError } from './errors';
+import { resolveDims } from './presets';
+import { Dimensions } from './util';
+
+export interface ImageSetVariant extends Dimensions {
+  scale: number;
+  url: string;
+  descriptor: string;
+}
+
+export interface ImageSetManifest {
+  src: string;
+  srcset: string;
+  sizes?: string;
+  variants: ImageSetVariant[];
+}
+
+export const MAX_SET_SIZES = 12;
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+const MAX_SET_SCALES = 4;
+const DEFAULT_DENSITIES = [1, 2, 3];
+
+// A comma-separated list of WxH values or size presets, e.g.
+// `320x180,640x360,hd`.
+export function parseDimsList(value: string): Dimensions[] {
+  const entries = value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (!entries.length) {
+    throw new DimensionError(value, { message: 'Empty size list' });
+  }
+  if (entries.length > MAX_SET_SIZES) {
+    throw new DimensionError(value, {
+      message: `At most ${MAX_SET_SIZES} sizes per set`,
+    });
+  }
+
+  const seen = new Set<string>();
+  const sizes: Dimensions[] = [];
+  for (const entry of entries) {
+    const { width, height } = resolveDims([entry]);
+    const key = `${width}x${height}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      sizes.push({ width, height });
+    }
+  }
+  return sizes;
+}
+
+// Scales default to 1x/2x/3x for a single size, where the srcset uses
+// density descriptors, and to 1x only when there are several widths.
+export function parseScaleList(value: string | null, sizeCount: number): number[] {
+  const requested = (value ?? '')
+    .split(',')
+    .map((entry) => parseFloat(entry))
+    .filter(Number.isFinite)
+    .map((scale) => clampScale(scale));
+  const scales = requested.length
+    ? [...new Set(requested)]
+    : sizeCount === 1
+      ? DEFAULT_DENSITIES
+      : [1];
+  return scales.sort((a, b) => a - b).slice(0, MAX_SET_SCALES);
+}
+
+export function clampScale(scale: number): number {
+  return Math.round(Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE) * 100) / 100;
+}
+
+export function buildManifest(
+  sizes: Dimensions[],
+  scales: number[],
+  buildUrl: (size: Dimensions, scale: number) => string,
+): ImageSetManifest {
+  const byWidth = sizes.length > 1;
+  const variants: ImageSetVariant[] = [];
+  const descriptors = new Set<string>();
+
+  // Lower scales go first so a native-size variant wins over an upscaled
+  // smaller one with the same width.
+  for (const scale of scales) {
+    for (const size of sizes) {
+      const descriptor = byWidth
+        ? `${Math.round(size.width * scale)}w`
+        : `${scale}x`;
+      if (descriptors.has(descriptor)) {
+        continue;
+      }
+      descriptors.add(descriptor);
+      variants.push({ ...size, scale, url: buildUrl(size, scale), descriptor });
+    }
+  }
+
+  if (byWidth) {
+    variants.sort((a, b) => parseInt(a.descriptor, 10) - parseInt(b.descriptor, 10));
+  }
+
+  const widths = [...new Set(sizes.map((size) => size.width))].sort((a, b) => a - b);
+  return {
+    src: variants[0].url,
+    srcset: variants.map((variant) => `${variant.url} ${variant.descriptor}`).join(', '),
+    sizes: byWidth ? buildSizes(widths) : undefined,
+    variants,
+  };
+}
+
+// Each rendered SVG becomes a <symbol> for `<use href="sprite.svg#id">`.
+// Definition ids are prefixed so gradients and patterns of different
+// variants don't collide in one document.
+export function buildSprite(symbols: { id: string; svg: string }[]): string {
+  return [
+    '<svg xmlns="http://www.w3.org/2000/svg">',
+    ...symbols.map(({ id, svg }) => toSymbol(svg, id)),
+    '</svg>',
+  ].join('');
+}
+
+export function symbolId(size: Dimensions): string {
+  return `v-${size.width}x${size.height}`;
+}
+
+function toSymbol(svg: string, id: string): string {
+  const match = /^<svg\b([^>]*)>([\s\S]*)<\/svg>$/.exec(svg);
+  if (!match) {
+    return '';
+  }
+  const viewBox = /\bviewBox="([^"]*)"/.exec(match[1])?.[1];
+  const label = /\baria-label="([^"]*)"/.exec(match[1])?.[1];
+  const body = match[2]
+    .replace(/\bid="([^"]+)"/g, (_, name: string) => `id="${id}-${name}"`)
+    .replace(/url\(#([^)]+)\)/g, (_, name: string) => `url(#${id}-${name})`);
+  const attributes = [
+    `id="${id}"`,
+    viewBox ? `viewBox="${viewBox}"` : '',
+    label ? `role="img" aria-label="${label}"` : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+  return `<symbol ${attributes}>${body}</symbol>`;
+}
+
+function buildSizes(widths: number[]): string {
+  const last = widths[widths.length - 1];
+  return [
+    ...widths.slice(0, -1).map((width) => `(max-width: ${width}px) ${width}px`),
+    `${last}px`,
+  ].join(', ');
+}
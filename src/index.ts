@@ -1,117 +1,688 @@
-import { buildSVG } from './svg';
-import { Align, autoContrast, parseColor, parseDims } from './util';
+import {
+  Theme,
+  ThemeConfig,
+  configureThemes,
+  getDefaultTheme,
+  getTheme,
+  themeNames,
+} from './colors';
+import { parseBatch, parseBatchItem, parseBatchLimits } from './batch';
+import { DirectionMode, resolveDirection } from './bidi';
+import {
+  ContrastLevel,
+  enforceContrast,
+  isLargeText,
+  measureContrast,
+} from './contrast';
+import {
+  AltboxError,
+  BatchError,
+  ProblemDetails,
+  SpecError,
+  ThemeError,
+  toProblemDetails,
+} from './errors';
+import {
+  CONTENT_TYPES,
+  OutputFormat,
+  checkRasterSize,
+  negotiateFormat,
+  parseFormat,
+  parseRasterLimit,
+  splitFormatExtension,
+} from './format';
+import { buildErrorSvg, resolveErrorDims } from './fallback';
+import { FitMode, fitFontSize } from './fit';
+import {
+  FontFaceKind,
+  WebFont,
+  charactersByFace,
+  configureFontAssets,
+  getFont,
+  loadFontFace,
+  resolveFont,
+} from './fonts';
+import { Gradient, isGradient, parseGradient } from './gradient';
+import { buildHelpHtml, buildHelpText } from './help';
+import { parseIcon } from './icons';
+import {
+  buildManifest,
+  buildSprite,
+  clampScale,
+  parseDimsList,
+  parseScaleList,
+  symbolId,
+} from './imageset';
+import { LabelMode, buildLabel, expandTemplate } from './label';
+import { parseLayers } from './layers';
+import { parseMarkup, plainText } from './markup';
+import { isBold } from './metrics';
+import { PatternKind, PatternOptions } from './pattern';
+import { resolveDims } from './presets';
+import { Seed, hashSeed, isSeed, parseSeed, seedColor, seedInitials } from './seed';
+import { clampText } from './segment';
+import {
+  ShapeKind,
+  clampCorners,
+  parseCorners,
+  parseDash,
+  parseShadow,
+  scaleCorners,
+} from './shape';
+import {
+  OutputMode,
+  SNIPPET_CONTENT_TYPES,
+  buildCssRule,
+  buildDataUri,
+  buildImgTag,
+} from './snippet';
+import {
+  RenderSpec,
+  decodeSpec,
+  parseRenderSpec,
+  specFieldFor,
+  specSegments,
+  specToUrl,
+} from './spec';
+import { DEFAULT_LINE_HEIGHT, buildSVG } from './svg';
+import {
+  Align,
+  Dimensions,
+  VerticalAlign,
+  autoContrast,
+  hashString,
+  parseColor,
+  suggestClosest,
+} from './util';
 
-interface RenderOptions {
-  width: number;
-  height: number;
+// Deploy-wide settings from wrangler.toml `[vars]` or the dashboard.
+interface Env {
+  ONERROR?: string;
+  ERROR_STATUS?: string;
+  THEMES?: string | ThemeConfig;
+  BATCH_MAX_ITEMS?: string;
+  BATCH_MAX_PIXELS?: string;
+  RASTER_MAX_PIXELS?: string;
+  // Static assets holding the font files.
+  ASSETS?: Fetcher;
+}
+
+type ErrorMode = 'text' | 'image';
+
+// Everything about a placeholder except its size and output, so one style
+// can be rendered at several sizes.
+interface StyleOptions {
   background: string;
+  gradient?: Gradient;
   foreground: string;
-  scale: number;
+  // Pill behind the label, which the foreground then contrasts with.
+  textBackground?: string;
+  maxLines: number;
+  lineHeight: number;
+  valign: VerticalAlign;
+  theme?: Theme;
+  seed?: Seed;
   searchParams: URLSearchParams;
 }
 
+interface ImageSetOptions {
+  url: URL;
+  // Raw path segments after the route, still URL-encoded.
+  segments: string[];
+  lookup: string[];
+  extension?: OutputFormat;
+}
+
+type BatchResult =
+  | { status: 200; width: number; height: number; etag: string; svg: string }
+  | { status: number; error: ProblemDetails };
+
+interface RenderOptions extends StyleOptions {
+  width: number;
+  height: number;
+  scale: number;
+  format: OutputFormat;
+  output?: OutputMode;
+}
+
 const DEFAULT_BACKGROUND = '#dddddd';
-const MAX_TEXT_LENGTH = 120;
+const MIN_FONT_SIZE = 12;
+const MAX_FONT_SIZE = 128;
+const FIT_SIZE_LIMIT = 512;
+const DEFAULT_PATTERN_SIZE = 20;
+const DEFAULT_PATTERN_OPACITY = 0.15;
+const ALPHA_CHECKER_COLOR = '#cccccc';
+const ALPHA_CHECKER_BASE = '#ffffff';
+const DEFAULT_MAX_LINES = 2;
+const MAX_LINES = 20;
+const MIN_LINE_HEIGHT = 0.5;
+const MAX_LINE_HEIGHT = 3;
+const DEFAULT_ERROR_STATUS = 400;
+const ALLOWED_METHODS = 'GET, HEAD, POST, OPTIONS';
 
 export default {
-  async fetch(request: Request): Promise<Response> {
+  async fetch(request: Request, env: Env = {}): Promise<Response> {
     if (request.method === 'OPTIONS') {
       return new Response(null, {
         status: 204,
-        headers: buildHeaders(),
+        headers: buildHeaders({
+          extra: [
+            ['Access-Control-Allow-Methods', ALLOWED_METHODS],
+            ['Access-Control-Allow-Headers', 'Content-Type'],
+          ],
+        }),
       });
     }
 
     try {
+      configureThemes(env.THEMES);
+      configureFontAssets(env.ASSETS);
       const url = new URL(request.url);
-      const segments = url.pathname.replace(/^\/+|\/+$/g, '').split('/');
-      const lookup = segments.filter(Boolean).map(decodeURIComponent);
+      const { segments, lookup, extension } = splitPath(url);
 
       if (!lookup.length) {
-        return usageResponse();
+        return usageResponse(request);
       }
 
-      const { width, height } = parseDims(lookup[0]);
-      const bgSegment = lookup[1];
-      const fgSegment = lookup[2];
-
-      const background = bgSegment ? parseColor(bgSegment) : DEFAULT_BACKGROUND;
-      const foreground = fgSegment
-        ? parseColor(fgSegment)
-        : autoContrast(background);
-
-      const scale = parseScale(url.searchParams.get('scale'));
-
-      const { svg, etag } = await renderSvg({
-        width,
-        height,
-        background,
-        foreground,
-        scale,
-        searchParams: url.searchParams,
-      });
+      if (lookup.length === 1 && lookup[0] === 'batch') {
+        return await batchResponse(request, env);
+      }
 
-      const responseHeaders = buildHeaders({
-        extra: [
-          ['Content-Type', 'image/svg+xml; charset=utf-8'],
-          ['Cache-Control', 'public, max-age=31536000, immutable'],
-          ['ETag', etag],
-        ],
-      });
+      if (lookup.length === 1 && lookup[0] === 'render') {
+        return await renderSpecResponse(request, env);
+      }
 
-      if (request.headers.get('If-None-Match') === etag) {
-        return new Response(null, {
-          status: 304,
-          headers: responseHeaders,
-        });
+      if (lookup.length === 2 && lookup[0] === 'r') {
+        const spec = located({ segment: 'spec' }, () =>
+          parseRenderSpec(decodeSpec(lookup[1])),
+        );
+        return await specResponse(
+          request,
+          env,
+          extension ? { ...spec, format: extension } : spec,
+        );
       }
 
-      if (request.method === 'HEAD') {
-        return new Response(null, {
-          status: 200,
-          headers: responseHeaders,
+      if (lookup[0] === 'set') {
+        return await imageSetResponse(request, {
+          url,
+          segments,
+          lookup: lookup.slice(1),
+          extension,
         });
       }
 
-      return new Response(svg, {
-        status: 200,
-        headers: responseHeaders,
-      });
+      return await imageResponse(request, env, url);
     } catch (error) {
-      return usageResponse(error instanceof Error ? error.message : undefined);
+      const searchParams = new URL(request.url).searchParams;
+      const mode = parseErrorMode(searchParams.get('onerror') ?? env.ONERROR);
+      if (mode === 'image') {
+        return errorImageResponse(
+          request,
+          error,
+          parseErrorStatus(searchParams.get('errstatus') ?? env.ERROR_STATUS),
+        );
+      }
+      return usageResponse(request, error);
     }
   },
 };
 
+// `POST /render` takes the spec as a JSON body. Bad specs always get JSON
+// problem details, listing every invalid field.
+async function renderSpecResponse(request: Request, env: Env): Promise<Response> {
+  if (request.method !== 'POST') {
+    return new Response(null, {
+      status: 405,
+      headers: buildHeaders({ extra: [['Allow', 'POST, OPTIONS']] }),
+    });
+  }
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new SpecError([{ field: '', detail: 'Request body is not valid JSON' }]);
+    }
+    return await specResponse(request, env, parseRenderSpec(body));
+  } catch (error) {
+    return problemResponse(toProblemDetails(error, new URL(request.url).pathname));
+  }
+}
+
+// Spec routes render through the canonical URL, so a spec and its URL give
+// the same image, headers and ETag.
+async function specResponse(request: Request, env: Env, spec: RenderSpec): Promise<Response> {
+  const url = new URL(specToUrl(spec, new URL(request.url).origin));
+  return specLocated(() => imageResponse(request, env, url));
+}
+
+// The path/query form: `/<dims>/<bg>/<fg>[.ext]?says=...`.
+async function imageResponse(request: Request, env: Env, url: URL): Promise<Response> {
+  const { lookup, extension } = splitPath(url);
+  const formatParam = url.searchParams.get('format');
+  const explicitFormat =
+    extension ??
+    (formatParam
+      ? located({ param: 'format' }, () => parseFormat(formatParam))
+      : undefined);
+  const output = parseOutput(url.searchParams.get('as'));
+  // Snippets are read as text, so the Accept header says nothing about the
+  // image inside them.
+  const negotiated = !explicitFormat && output === 'image';
+  const format =
+    explicitFormat ?? (negotiated ? negotiateFormat(request.headers.get('Accept')) : 'svg');
+
+  const { width, height, consumed } = located({ segment: 'dims' }, () =>
+    resolveDims(lookup),
+  );
+  const style = await resolveStyle(url, lookup[consumed], lookup[consumed + 1]);
+  const scale = parseScale(url.searchParams.get('scale'));
+
+  // An <img> tag only links to the image, so it is never rasterized here.
+  if (format !== 'svg' && output !== 'html') {
+    checkRasterSize(format, { width, height, scale }, parseRasterLimit(env.RASTER_MAX_PIXELS));
+  }
+
+  const { svg, etag, contrast, alt, warnings, font, faces } = await renderSvg({
+    ...style,
+    width,
+    height,
+    scale,
+    format,
+    output,
+  });
+
+  const responseHeaders = buildHeaders({
+    extra: [
+      [
+        'Content-Type',
+        output === 'image' ? CONTENT_TYPES[format] : SNIPPET_CONTENT_TYPES[output],
+      ],
+      ['Cache-Control', 'public, max-age=31536000, immutable'],
+      ['ETag', etag],
+    ],
+  });
+
+  if (negotiated) {
+    responseHeaders.set('Vary', 'Accept');
+  }
+
+  const exposed: string[] = [];
+  if (contrast !== undefined) {
+    responseHeaders.set('X-Contrast-Ratio', formatContrast(contrast));
+    exposed.push('X-Contrast-Ratio');
+  }
+  if (warnings.length) {
+    responseHeaders.set('Warning', warnings.map(formatWarning).join(', '));
+    exposed.push('Warning');
+  }
+  if (exposed.length) {
+    responseHeaders.set('Access-Control-Expose-Headers', exposed.join(', '));
+  }
+
+  if (request.headers.get('If-None-Match') === etag) {
+    return new Response(null, {
+      status: 304,
+      headers: responseHeaders,
+    });
+  }
+
+  if (request.method === 'HEAD') {
+    return new Response(null, {
+      status: 200,
+      headers: responseHeaders,
+    });
+  }
+
+  if (output === 'html') {
+    const tag = buildImgTag({
+      src: snippetUrl(url, 1),
+      srcset: `${snippetUrl(url, 1)} 1x, ${snippetUrl(url, 2)} 2x`,
+      width,
+      height,
+      alt,
+    });
+    return new Response(tag, {
+      status: 200,
+      headers: responseHeaders,
+    });
+  }
+
+  // Loaded lazily so plain SVG requests never pay for the WASM codecs.
+  const image =
+    format === 'svg'
+      ? svg
+      : await (await import('./raster')).rasterize(svg, {
+          format,
+          scale,
+          font: await loadRasterFont(font, faces),
+        });
+
+  if (output === 'image') {
+    return new Response(image, {
+      status: 200,
+      headers: responseHeaders,
+    });
+  }
+
+  const dataUri = buildDataUri(
+    image,
+    CONTENT_TYPES[format],
+    parseBoolean(url.searchParams.get('base64')),
+  );
+  return new Response(output === 'css' ? buildCssRule(dataUri) : dataUri, {
+    status: 200,
+    headers: responseHeaders,
+  });
+}
+
+async function resolveStyle(
+  url: URL,
+  bgSegment: string | undefined,
+  fgSegment: string | undefined,
+): Promise<StyleOptions> {
+  const { searchParams } = url;
+  const theme = located({ param: 'theme' }, () =>
+    parseTheme(searchParams.get('theme')),
+  );
+  const bgSource = bgSegment ?? theme?.bg;
+  const bgLocation = bgSegment ? { segment: 'bg' } : { param: 'theme' };
+  const fgSource = fgSegment ?? theme?.fg;
+  const fgLocation = fgSegment ? { segment: 'fg' } : { param: 'theme' };
+
+  const gradientParam = searchParams.get('gradient');
+  const gradientSource =
+    gradientParam ?? (bgSource && isGradient(bgSource) ? bgSource : undefined);
+  const gradientLocation = gradientParam ? { param: 'gradient' } : bgLocation;
+  const gradient = gradientSource
+    ? located(gradientLocation, () => parseGradient(gradientSource))
+    : undefined;
+
+  // A `seed:` background hashes to a stable colour; `?seed=` only feeds
+  // initials and identicons unless the background is left empty.
+  const seedParam = searchParams.get('seed');
+  const seedSource =
+    bgSource && isSeed(bgSource) ? bgSource : seedParam ?? undefined;
+  const seedLocation =
+    bgSource && isSeed(bgSource) ? bgLocation : { param: 'seed' };
+  const seed = seedSource
+    ? await hashSeed(located(seedLocation, () => parseSeed(seedSource)))
+    : undefined;
+
+  const background = gradient
+    ? gradient.stops[0].color
+    : seed && (!bgSource || isSeed(bgSource))
+      ? seedColor(seed)
+      : bgSource
+        ? located(bgLocation, () => parseColor(bgSource))
+        : DEFAULT_BACKGROUND;
+  const textBackgroundParam = searchParams.get('tbg');
+  const textBackground = textBackgroundParam
+    ? located({ param: 'tbg' }, () => parseColor(textBackgroundParam))
+    : undefined;
+  const foreground = fgSource
+    ? located(fgLocation, () => parseColor(fgSource))
+    : autoContrast(
+        textBackground ??
+          (gradient ? gradient.stops.map((stop) => stop.color) : background),
+      );
+
+  const maxLines = parseMaxLines(searchParams.get('lines'));
+  const lineHeight = parseLineHeight(searchParams.get('lh'));
+  const valign = parseVAlign(searchParams.get('valign'));
+
+  return {
+    background,
+    gradient,
+    foreground,
+    textBackground,
+    maxLines,
+    lineHeight,
+    valign,
+    theme,
+    seed,
+    searchParams,
+  };
+}
+
+// `/set/<sizes>/<bg>/<fg>` lists one placeholder at several sizes: a JSON
+// manifest with srcset and sizes strings, or with `sprite=1` an SVG sprite
+// sheet holding each size as a <symbol>.
+async function imageSetResponse(
+  request: Request,
+  options: ImageSetOptions,
+): Promise<Response> {
+  const { url, segments, lookup, extension } = options;
+  const [list = '', bgSegment, fgSegment] = lookup;
+  const sizes = located({ segment: 'dims' }, () => parseDimsList(list));
+  const style = await resolveStyle(url, bgSegment, fgSegment);
+  const sprite = parseBoolean(url.searchParams.get('sprite'));
+
+  // A manifest still renders its first size, so bad params fail here rather
+  // than in every URL it hands out.
+  const symbols = await Promise.all(
+    (sprite ? sizes : sizes.slice(0, 1)).map(async (size) => ({
+      id: symbolId(size),
+      svg: (await renderSvg({ ...style, ...size, scale: 1, format: 'svg' })).svg,
+    })),
+  );
+
+  let body: string;
+  let contentType: string;
+  if (sprite) {
+    body = buildSprite(symbols);
+    contentType = CONTENT_TYPES.svg;
+  } else {
+    const tail = segments.slice(2);
+    const buildUrl = (size: Dimensions, scale: number) => {
+      const path = [`${size.width}x${size.height}`, ...tail];
+      if (extension) {
+        const lastIndex = path.length - 1;
+        path[lastIndex] = `${splitFormatExtension(path[lastIndex]).value}.${extension}`;
+      }
+      const query = new URLSearchParams(url.searchParams);
+      query.delete('sprite');
+      query.delete('scales');
+      if (scale === 1) {
+        query.delete('scale');
+      } else {
+        query.set('scale', String(scale));
+      }
+      const search = query.toString();
+      return `${url.origin}/${path.join('/')}${search ? `?${search}` : ''}`;
+    };
+    const scales = parseScaleList(url.searchParams.get('scales'), sizes.length);
+    body = JSON.stringify(buildManifest(sizes, scales, buildUrl));
+    contentType = 'application/json; charset=utf-8';
+  }
+
+  return new Response(request.method === 'HEAD' ? null : body, {
+    status: 200,
+    headers: buildHeaders({
+      extra: [
+        ['Content-Type', contentType],
+        ['Cache-Control', 'public, max-age=31536000, immutable'],
+      ],
+    }),
+  });
+}
+
+// `POST /batch` renders many placeholders in one request and returns a JSON
+// map of item id to SVG and ETag. A bad item gets its own problem details
+// instead of failing the batch; only a bad envelope or a batch over the
+// limits is rejected as a whole.
+async function batchResponse(request: Request, env: Env): Promise<Response> {
+  if (request.method !== 'POST') {
+    return new Response(null, {
+      status: 405,
+      headers: buildHeaders({ extra: [['Allow', 'POST, OPTIONS']] }),
+    });
+  }
+
+  const { pathname } = new URL(request.url);
+  try {
+    const limits = parseBatchLimits(env.BATCH_MAX_ITEMS, env.BATCH_MAX_PIXELS);
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new BatchError('', { message: 'Request body is not valid JSON' });
+    }
+    const entries = parseBatch(body, limits);
+
+    // Sizes are resolved up front so the pixel budget is checked before
+    // anything renders.
+    let pixels = 0;
+    const jobs = entries.map(({ id, spec }) => {
+      try {
+        const item = parseBatchItem(spec);
+        const { width, height } = resolveDims(specSegments(item).dims);
+        const scale = clampScale(item.scale ?? 1);
+        pixels += width * height * scale * scale;
+        return { id, item, width, height, scale };
+      } catch (error) {
+        return { id, error };
+      }
+    });
+    if (pixels > limits.maxPixels) {
+      throw new BatchError(String(pixels), {
+        message: `Batch renders ${pixels} pixels, more than the limit of ${limits.maxPixels}`,
+      });
+    }
+
+    // No prototype, so an id such as `__proto__` is an ordinary key.
+    const items: Record<string, BatchResult> = Object.create(null);
+    let failed = 0;
+    for (const job of jobs) {
+      try {
+        if ('error' in job) {
+          throw job.error;
+        }
+        items[job.id] = await specLocated(() => renderBatchItem(request.url, job));
+      } catch (error) {
+        const problem = toProblemDetails(error);
+        items[job.id] = { status: problem.status, error: problem };
+        failed += 1;
+      }
+    }
+
+    return new Response(JSON.stringify({ items, failed }), {
+      status: 200,
+      headers: buildHeaders({
+        extra: [
+          ['Content-Type', 'application/json; charset=utf-8'],
+          ['Cache-Control', 'no-store'],
+        ],
+      }),
+    });
+  } catch (error) {
+    return problemResponse(toProblemDetails(error, pathname));
+  }
+}
+
+async function renderBatchItem(
+  base: string,
+  job: { item: RenderSpec; width: number; height: number; scale: number },
+): Promise<BatchResult> {
+  const { item, width, height, scale } = job;
+  const url = new URL(specToUrl(item, new URL(base).origin));
+  const { bg, fg } = specSegments(item);
+  const style = await resolveStyle(url, bg, fg);
+  const { svg, etag } = await renderSvg({
+    ...style,
+    width,
+    height,
+    scale,
+    format: 'svg',
+    // Matches the ETag of the same placeholder fetched with GET.
+    output: 'image',
+  });
+  return { status: 200, width, height, etag, svg };
+}
+
 async function renderSvg(options: RenderOptions) {
   const {
     width,
     height,
     background,
-    foreground,
+    gradient,
+    foreground: requestedForeground,
+    textBackground,
     scale,
+    format,
+    output,
+    maxLines,
+    lineHeight,
+    valign,
+    theme,
+    seed,
     searchParams,
   } = options;
 
+  const dims = { width, height };
   const textParam = searchParams.get('says');
-  const rawText = textParam ? textParam.trim() : '';
-  const text = clampText(rawText);
+  const rawText = textParam ? expandTemplate(textParam.trim(), dims) : '';
+  const label = parseLabel(searchParams.get('label'));
+  const initials = parseInitials(searchParams.get('initials'), seed);
+  const text = clampText(rawText || initials || buildLabel(label, dims));
+  const identicon = parseBoolean(searchParams.get('identicon')) ? seed : undefined;
 
-  const fontFamily = searchParams.get('font')?.trim() || undefined;
+  const iconParam = searchParams.get('icon');
+  const icon = iconParam
+    ? located({ param: 'icon' }, () => parseIcon(iconParam))
+    : undefined;
+  const layers = parseLayers(searchParams);
+  // Everything drawn with the font, for subsetting an embedded one.
+  const drawnText = [
+    ...(text ? parseMarkup(text) : []),
+    ...layers.flatMap((layer) =>
+      layer.text ? [[{ text: layer.text, bold: isBold(layer.weight), italic: false }]] : [],
+    ),
+  ];
+
+  const font = resolveFont(searchParams.get('font')?.trim() || theme?.font);
+  const fontFamily = font.family;
   const fontWeight = searchParams.get('weight')?.trim() || undefined;
 
   const sizeParam = parseFloatSafe(searchParams.get('size'));
+  const minSizeParam = parseFloatSafe(searchParams.get('minsize'));
+  const maxSizeParam = parseFloatSafe(searchParams.get('maxsize'));
   const padParam = parseFloatSafe(searchParams.get('pad'));
-  const radiusParam = parseFloatSafe(searchParams.get('radius'));
-  const strokeParam = searchParams.get('stroke');
+  const radiusParam = searchParams.get('radius');
+  const shape = parseShape(searchParams.get('shape'));
+  const strokeParam = searchParams.get('stroke') ?? theme?.stroke;
   const strokeWidthParam = parseFloatSafe(searchParams.get('sw'));
-  const shadow = parseBoolean(searchParams.get('shadow'));
+  const dashParam = searchParams.get('dash');
+  const inset = parseBoolean(searchParams.get('inset'));
+  const shadowParam = searchParams.get('shadow');
+  const shadow = shadowParam
+    ? located({ param: 'shadow' }, () => parseShadow(shadowParam))
+    : undefined;
+  const textStrokeParam = searchParams.get('tstroke');
+  const textStrokeWidthParam = parseFloatSafe(searchParams.get('tsw'));
+  const textShadow = parseBoolean(searchParams.get('tshadow'));
+  const textOpacityParam = parseFloatSafe(searchParams.get('topacity'));
+  const patternKind = parsePattern(searchParams.get('pattern'));
+  const patternColorParam = searchParams.get('pcolor');
+  const patternSizeParam = parseFloatSafe(searchParams.get('psize'));
+  const patternOpacityParam = parseFloatSafe(searchParams.get('popacity'));
+  const showAlpha = parseBoolean(searchParams.get('showalpha'));
+  // Raster output draws with the font files directly, so only SVG embeds.
+  const embed =
+    parseBoolean(searchParams.get('embed')) &&
+    !!font.font &&
+    drawnText.length > 0 &&
+    format === 'svg';
+  const contrastLevel = parseContrast(searchParams.get('contrast'));
+  const enforce = parseBoolean(searchParams.get('enforce'));
 
   const baseSize = Math.min(width, height) / 6;
-  const fontSize = clampNumber(
+  const requestedSize = clampNumber(
     Number.isFinite(sizeParam) ? sizeParam : baseSize,
-    12,
-    128,
+    MIN_FONT_SIZE,
+    MAX_FONT_SIZE,
   );
 
   const pad = clampNumber(
@@ -120,76 +691,264 @@ async function renderSvg(options: RenderOptions) {
     Math.min(width, height) / 2,
   );
 
-  const radius = clampNumber(
-    Number.isFinite(radiusParam) ? radiusParam : 0,
-    0,
-    Math.min(width, height) / 2,
+  const themeRadius = Number(theme?.radius ?? 0);
+  const radius = clampCorners(
+    (radiusParam ? parseCorners(radiusParam) : undefined) ??
+      [themeRadius, themeRadius, themeRadius, themeRadius],
+    width,
+    height,
   );
+  const dash = dashParam ? parseDash(dashParam) : undefined;
 
-  const strokeColor = strokeParam ? parseColor(strokeParam) : undefined;
+  const strokeColor = strokeParam
+    ? located({ param: searchParams.has('stroke') ? 'stroke' : 'theme' }, () =>
+        parseColor(strokeParam),
+      )
+    : undefined;
+  // Theme borders default to a hairline; otherwise `stroke` alone draws nothing.
+  const themeStrokeWidth = theme?.stroke ? Number(theme.strokeWidth ?? 1) : 0;
   const strokeWidth = clampNumber(
-    Number.isFinite(strokeWidthParam) ? strokeWidthParam : 0,
+    Number.isFinite(strokeWidthParam) ? strokeWidthParam : themeStrokeWidth,
     0,
     Math.min(width, height) / 5,
   );
 
+  const textStroke = textStrokeParam
+    ? located({ param: 'tstroke' }, () => parseColor(textStrokeParam))
+    : undefined;
+  const textOpacity = clampNumber(
+    Number.isFinite(textOpacityParam) ? textOpacityParam : 1,
+    0,
+    1,
+  );
+
+  const patternSize = clampNumber(
+    Number.isFinite(patternSizeParam) ? patternSizeParam : DEFAULT_PATTERN_SIZE,
+    2,
+    Math.max(2, Math.min(width, height)),
+  );
+
   const align = parseAlign(searchParams.get('align'));
+  const direction = resolveDirection(
+    parseDirection(searchParams.get('dir')),
+    text ? parseMarkup(text).map(plainText).join(' ') : '',
+  );
   const wrap = parseBoolean(searchParams.get('wrap'));
+  const fit = parseFit(searchParams.get('fit'));
+
+  let fontSize = requestedSize;
+  if (fit && text) {
+    const minSize = clampNumber(
+      Number.isFinite(minSizeParam) ? minSizeParam : MIN_FONT_SIZE,
+      1,
+      FIT_SIZE_LIMIT,
+    );
+    const maxSize = clampNumber(
+      Number.isFinite(maxSizeParam) ? maxSizeParam : MAX_FONT_SIZE,
+      minSize,
+      FIT_SIZE_LIMIT,
+    );
+    fontSize = fitFontSize({
+      mode: fit,
+      text,
+      width,
+      height,
+      pad,
+      fontSize: clampNumber(requestedSize, minSize, maxSize),
+      minSize,
+      maxSize,
+      fontFamily,
+      fontWeight,
+      wrap,
+      lineHeight,
+      maxLines,
+    });
+  }
+
+  // An outline wider than a quarter of the text would swallow the letters.
+  const textStrokeWidth = textStroke
+    ? clampNumber(
+        Number.isFinite(textStrokeWidthParam) ? textStrokeWidthParam : 1,
+        0,
+        fontSize / 4,
+      )
+    : 0;
+
+  // Checked after fitting, since the target depends on the final text size.
+  let foreground = requestedForeground;
+  let contrast: number | undefined;
+  if (contrastLevel) {
+    const backgrounds = textBackground
+      ? [textBackground]
+      : gradient
+        ? gradient.stops.map((stop) => stop.color)
+        : [background];
+    const contrastOptions = {
+      level: contrastLevel,
+      large: isLargeText(fontSize, fontWeight),
+    };
+    if (enforce) {
+      foreground = enforceContrast(foreground, backgrounds, contrastOptions);
+    }
+    contrast = measureContrast(foreground, backgrounds, contrastLevel);
+  }
+
+  let pattern: PatternOptions | undefined;
+  if (patternKind) {
+    pattern = {
+      kind: patternKind,
+      color: patternColorParam
+        ? located({ param: 'pcolor' }, () => parseColor(patternColorParam))
+        : foreground,
+      size: patternSize,
+      opacity: clampNumber(
+        Number.isFinite(patternOpacityParam)
+          ? patternOpacityParam
+          : DEFAULT_PATTERN_OPACITY,
+        0,
+        1,
+      ),
+    };
+  } else if (showAlpha && background === 'transparent' && !gradient) {
+    pattern = {
+      kind: 'checker',
+      color: ALPHA_CHECKER_COLOR,
+      size: patternSize,
+      opacity: 1,
+      base: ALPHA_CHECKER_BASE,
+    };
+  }
+
+  const characters = charactersByFace(drawnText, fontWeight);
+  const fontFaces =
+    embed && font.font
+      ? await (await import('./webfont')).buildFontFaces(font.font, characters)
+      : undefined;
 
   const svg = buildSVG({
     width,
     height,
     background,
+    gradient,
+    pattern,
     foreground,
     text: text || undefined,
+    icon,
+    identicon,
     fontFamily,
+    fontFaces,
     fontSize,
     fontWeight,
     pad,
     align,
+    valign,
+    direction,
     wrap,
+    maxLines,
+    lineHeight,
     scale,
-    radius: radius * scale,
+    shape,
+    radius: scaleCorners(radius, scale),
     stroke: strokeColor,
     strokeWidth: strokeWidth ? strokeWidth * scale : undefined,
-    shadow,
+    dash: dash?.map((length) => length * scale),
+    inset,
+    shadow: shadow && {
+      ...shadow,
+      dx: shadow.dx * scale,
+      dy: shadow.dy * scale,
+      blur: shadow.blur * scale,
+    },
+    textStroke,
+    textStrokeWidth: textStrokeWidth ? textStrokeWidth * scale : undefined,
+    textShadow,
+    textBackground,
+    textOpacity,
+    layers,
   });
 
   const etagPayload = JSON.stringify({
     width,
     height,
     background,
+    gradient,
+    pattern,
     foreground,
+    // X-Contrast-Ratio is only sent, and scored, for the requested level.
+    contrastLevel,
     text,
+    markup: text ? parseMarkup(text) : [],
+    icon,
+    identicon: identicon?.digest,
     fontFamily,
     fontSize,
     pad,
     fontWeight,
     align,
+    valign,
+    direction,
     wrap,
+    maxLines,
+    lineHeight,
     scale,
-    radius: radius * scale,
+    shape,
+    radius: scaleCorners(radius, scale),
     stroke: strokeColor,
     strokeWidth: strokeWidth ? strokeWidth * scale : undefined,
-    shadow,
+    dash: dash?.map((length) => length * scale),
+    inset,
+    shadow: shadow && {
+      ...shadow,
+      dx: shadow.dx * scale,
+      dy: shadow.dy * scale,
+      blur: shadow.blur * scale,
+    },
+    textStroke,
+    textStrokeWidth: textStrokeWidth ? textStrokeWidth * scale : undefined,
+    textShadow,
+    textBackground,
+    textOpacity,
+    layers,
+    format,
+    output,
+    // Data URIs and CSS rules percent-encode or base64-encode the image.
+    base64:
+      output === 'datauri' || output === 'css'
+        ? parseBoolean(searchParams.get('base64'))
+        : undefined,
+    embed,
   });
   const etagHash = await hashString(etagPayload);
   const etag = `"${etagHash}"`;
 
-  return { svg, etag };
+  const alt = text ? parseMarkup(text).map(plainText).join(' ') : '';
+
+  const warnings = font.unknown
+    ? [`Unknown font ${font.unknown}; drawn with the default font`]
+    : [];
+
+  return {
+    svg,
+    etag,
+    contrast,
+    alt,
+    warnings,
+    font: font.font,
+    faces: Object.keys(characters) as FontFaceKind[],
+  };
 }
 
-function clampText(value: string): string {
-  if (!value) {
-    return '';
-  }
-  if (value.length <= MAX_TEXT_LENGTH) {
-    return value;
-  }
-  if (MAX_TEXT_LENGTH <= 3) {
-    return '.'.repeat(MAX_TEXT_LENGTH);
+// The faces the text is drawn with, read from the assets: the requested
+// font, or Inter for everything else.
+async function loadRasterFont(font: WebFont | undefined, faces: FontFaceKind[]) {
+  const rasterFont = font ?? getFont('inter');
+  if (!rasterFont || !faces.length) {
+    return undefined;
   }
-  return `${value.slice(0, MAX_TEXT_LENGTH - 3)}...`;
+  return {
+    family: rasterFont.family,
+    faces: await Promise.all(faces.map((kind) => loadFontFace(rasterFont, kind))),
+  };
 }
 
 function parseFloatSafe(value: string | null): number {
@@ -201,14 +960,30 @@ function parseFloatSafe(value: string | null): number {
 }
 
 function parseScale(raw: string | null): number {
-  if (!raw) {
+  const numeric = parseFloatSafe(raw);
+  if (!Number.isFinite(numeric)) {
     return 1;
   }
+  return clampScale(numeric);
+}
+
+function parseMaxLines(raw: string | null): number {
+  if (!raw) {
+    return DEFAULT_MAX_LINES;
+  }
   const numeric = parseInt(raw, 10);
   if (!Number.isFinite(numeric)) {
-    return 1;
+    return DEFAULT_MAX_LINES;
+  }
+  return clampNumber(numeric, 1, MAX_LINES);
+}
+
+function parseLineHeight(raw: string | null): number {
+  const numeric = parseFloatSafe(raw);
+  if (!Number.isFinite(numeric)) {
+    return DEFAULT_LINE_HEIGHT;
   }
-  return numeric === 2 ? 2 : 1;
+  return clampNumber(numeric, MIN_LINE_HEIGHT, MAX_LINE_HEIGHT);
 }
 
 function parseAlign(value: string | null): Align {
@@ -223,6 +998,183 @@ function parseAlign(value: string | null): Align {
   }
 }
 
+function parseShape(value: string | null): ShapeKind {
+  switch ((value ?? '').toLowerCase()) {
+    case 'circle':
+      return 'circle';
+    case 'ellipse':
+      return 'ellipse';
+    case 'squircle':
+      return 'squircle';
+    case 'rect':
+    default:
+      return 'rect';
+  }
+}
+
+function parseDirection(value: string | null): DirectionMode {
+  switch ((value ?? '').toLowerCase()) {
+    case 'ltr':
+      return 'ltr';
+    case 'rtl':
+      return 'rtl';
+    case 'auto':
+    default:
+      return 'auto';
+  }
+}
+
+function parseVAlign(value: string | null): VerticalAlign {
+  switch ((value ?? '').toLowerCase()) {
+    case 'top':
+      return 'top';
+    case 'bottom':
+      return 'bottom';
+    case 'middle':
+    default:
+      return 'middle';
+  }
+}
+
+function parseLabel(value: string | null): LabelMode {
+  switch ((value ?? '').toLowerCase()) {
+    case 'dims':
+      return 'dims';
+    case 'ratio':
+      return 'ratio';
+    case 'both':
+      return 'both';
+    case 'none':
+    default:
+      return 'none';
+  }
+}
+
+function parsePattern(value: string | null): PatternKind | undefined {
+  switch ((value ?? '').toLowerCase()) {
+    case 'grid':
+      return 'grid';
+    case 'checker':
+      return 'checker';
+    case 'stripes':
+      return 'stripes';
+    case 'dots':
+      return 'dots';
+    case 'cross':
+      return 'cross';
+    default:
+      return undefined;
+  }
+}
+
+// `auto` takes initials from the seed; anything else is a name to take
+// them from.
+function parseInitials(value: string | null, seed?: Seed): string {
+  const source = value?.trim();
+  if (!source) {
+    return '';
+  }
+  if (source.toLowerCase() === 'auto') {
+    return seed ? seedInitials(seed.value) : '';
+  }
+  return seedInitials(source);
+}
+
+function parseTheme(value: string | null): Theme | undefined {
+  const name = value?.trim() || getDefaultTheme();
+  if (!name) {
+    return undefined;
+  }
+  const theme = getTheme(name);
+  if (!theme) {
+    throw new ThemeError(name, {
+      suggestion: suggestClosest(name.toLowerCase(), themeNames(), 1)[0],
+    });
+  }
+  return theme;
+}
+
+function parseOutput(value: string | null): OutputMode {
+  switch ((value ?? '').toLowerCase()) {
+    case 'html':
+      return 'html';
+    case 'datauri':
+      return 'datauri';
+    case 'css':
+      return 'css';
+    case 'image':
+    default:
+      return 'image';
+  }
+}
+
+// The image URL an HTML snippet points at: this request without the
+// snippet params, at the given scale.
+function snippetUrl(url: URL, scale: number): string {
+  const target = new URL(url);
+  target.searchParams.delete('as');
+  target.searchParams.delete('base64');
+  if (scale === 1) {
+    target.searchParams.delete('scale');
+  } else {
+    target.searchParams.set('scale', String(scale));
+  }
+  return target.toString();
+}
+
+function parseContrast(value: string | null): ContrastLevel | undefined {
+  switch ((value ?? '').toLowerCase()) {
+    case 'aa':
+      return 'aa';
+    case 'aaa':
+      return 'aaa';
+    case 'apca':
+      return 'apca';
+    default:
+      return undefined;
+  }
+}
+
+// A `Warning` header value (RFC 7234). Header values must be ASCII.
+function formatWarning(text: string): string {
+  return `299 - "${text.replace(/[^\x20-\x7e]|["\\]/g, '?')}"`;
+}
+
+function formatContrast(value: number): string {
+  return (Math.round(value * 100) / 100).toString();
+}
+
+function parseFit(value: string | null): FitMode | undefined {
+  switch ((value ?? '').toLowerCase()) {
+    case 'shrink':
+      return 'shrink';
+    case 'grow':
+      return 'grow';
+    case 'fill':
+      return 'fill';
+    default:
+      return undefined;
+  }
+}
+
+function parseErrorMode(value: string | null | undefined): ErrorMode {
+  switch ((value ?? '').toLowerCase()) {
+    case 'image':
+      return 'image';
+    case 'text':
+    default:
+      return 'text';
+  }
+}
+
+function parseErrorStatus(value: string | null | undefined): number {
+  const numeric = parseInt(value ?? '', 10);
+  if (!Number.isFinite(numeric) || numeric < 200 || numeric > 599) {
+    return DEFAULT_ERROR_STATUS;
+  }
+  return numeric;
+}
+
 function parseBoolean(value: string | null): boolean {
   if (!value) {
     return false;
@@ -231,14 +1183,6 @@ function parseBoolean(value: string | null): boolean {
   return normalized === 'true' || normalized === '1' || normalized === 'yes';
 }
 
-async function hashString(value: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(value);
-  const hash = await crypto.subtle.digest('SHA-256', data);
-  const bytes = Array.from(new Uint8Array(hash));
-  return bytes.map((byte) => byte.toString(16).padStart(2, '0')).join('').slice(0, 32);
-}
-
 function clampNumber(value: number, min: number, max: number): number {
   if (Number.isNaN(value)) {
     return min;
@@ -246,23 +1190,131 @@ function clampNumber(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
 
-function usageResponse(message?: string) {
-  const text = [
-    'Usage: /:widthxheight/:bg?/:fg?',
-    'Example: /600x300/red/white?says=Hello+World',
-    message ? `Error: ${message}` : null,
-  ]
-    .filter(Boolean)
-    .join('\n');
+// Tags errors thrown by a parser with the path segment or query parameter
+// that was being parsed, for the error response.
+function located<T>(
+  source: { segment?: string; param?: string },
+  parse: () => T,
+): T {
+  try {
+    return parse();
+  } catch (error) {
+    if (error instanceof AltboxError) {
+      error.segment ??= source.segment;
+      error.param ??= source.param;
+    }
+    throw error;
+  }
+}
 
-  return new Response(text, {
-    status: 400,
+// Errors from rendering a spec point at the spec field as well as the
+// query parameter it became.
+async function specLocated<T>(render: () => Promise<T>): Promise<T> {
+  try {
+    return await render();
+  } catch (error) {
+    if (error instanceof AltboxError) {
+      error.field ??= specFieldFor(error);
+    }
+    throw error;
+  }
+}
+
+// Raw segments stay URL-encoded for building URLs; `lookup` is decoded,
+// with any format extension moved off the last segment.
+function splitPath(url: URL): {
+  segments: string[];
+  lookup: string[];
+  extension?: OutputFormat;
+} {
+  const segments = url.pathname.split('/').filter(Boolean);
+  const lookup = segments.map(decodeURIComponent);
+  if (!lookup.length) {
+    return { segments, lookup };
+  }
+  const last = splitFormatExtension(lookup[lookup.length - 1]);
+  lookup[lookup.length - 1] = last.value;
+  return { segments, lookup, extension: last.format };
+}
+
+function usageResponse(request: Request, error?: unknown) {
+  const problem =
+    error === undefined
+      ? undefined
+      : toProblemDetails(error, new URL(request.url).pathname);
+  const accept = (request.headers.get('Accept') ?? '').toLowerCase();
+
+  if (problem && /application\/(problem\+)?json/.test(accept)) {
+    return problemResponse(problem);
+  }
+
+  const status = problem?.status ?? 400;
+
+  if (accept.includes('text/html')) {
+    return new Response(buildHelpHtml(problem), {
+      status,
+      headers: buildHeaders({
+        extra: [['Content-Type', 'text/html; charset=utf-8']],
+      }),
+    });
+  }
+
+  return new Response(buildHelpText(problem), {
+    status,
     headers: buildHeaders({
       extra: [['Content-Type', 'text/plain; charset=utf-8']],
     }),
   });
 }
 
+function problemResponse(problem: ProblemDetails) {
+  return new Response(JSON.stringify(problem), {
+    status: problem.status,
+    headers: buildHeaders({
+      extra: [['Content-Type', 'application/problem+json; charset=utf-8']],
+    }),
+  });
+}
+
+// Draws the error into an image so a broken placeholder shows up in the page
+// instead of as a broken-image icon. Always SVG: rasterizing could fail too.
+// `clientStatus` (errstatus) only replaces the status of bad requests; server
+// errors keep theirs so they still read as failures.
+function errorImageResponse(request: Request, error: unknown, clientStatus: number) {
+  const url = new URL(request.url);
+  const problem = toProblemDetails(error, url.pathname);
+  const status = problem.status < 500 ? clientStatus : problem.status;
+  const lookup = url.pathname
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => splitFormatExtension(safeDecode(segment)).value);
+
+  const headers = buildHeaders({
+    extra: [
+      ['Content-Type', CONTENT_TYPES.svg],
+      ['Cache-Control', 'no-store'],
+      ['X-Error-Code', problem.code],
+    ],
+  });
+
+  if (request.method === 'HEAD') {
+    return new Response(null, { status, headers });
+  }
+
+  return new Response(buildErrorSvg(problem, resolveErrorDims(lookup)), {
+    status,
+    headers,
+  });
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
 function buildHeaders(options?: {
   extra?: [string, string][];
 }): Headers {
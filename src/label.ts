@@ -0,0 +1,83 @@
+import { Dimensions } from './util';
+
+export type LabelMode = 'dims' | 'ratio' | 'both' | 'none';
+
+// Landscape ratios worth naming even when the pixel size doesn't reduce to
+// them exactly (1366x768 is sold as 16:9, 2560x1080 as 21:9).
+const COMMON_RATIOS: [string, number][] = [
+  ['1:1', 1],
+  ['5:4', 5 / 4],
+  ['4:3', 4 / 3],
+  ['3:2', 3 / 2],
+  ['16:10', 16 / 10],
+  ['16:9', 16 / 9],
+  ['1.91:1', 1.91],
+  ['2:1', 2],
+  ['21:9', 64 / 27],
+  ['3:1', 3],
+];
+
+const RATIO_TOLERANCE = 0.01;
+const MAX_RATIO_TERM = 99;
+
+export function formatDims({ width, height }: Dimensions): string {
+  return `${width}×${height}`;
+}
+
+export function formatRatio({ width, height }: Dimensions): string {
+  const portrait = height > width;
+  const value = portrait ? height / width : width / height;
+
+  const common = COMMON_RATIOS.find(
+    ([, ratio]) => Math.abs(value - ratio) / ratio <= RATIO_TOLERANCE,
+  );
+  if (common) {
+    return portrait ? flipRatio(common[0]) : common[0];
+  }
+
+  const divisor = gcd(width, height);
+  const w = width / divisor;
+  const h = height / divisor;
+  if (w <= MAX_RATIO_TERM && h <= MAX_RATIO_TERM) {
+    return `${w}:${h}`;
+  }
+
+  const decimal = String(Math.round(value * 100) / 100);
+  return portrait ? `1:${decimal}` : `${decimal}:1`;
+}
+
+export function buildLabel(mode: LabelMode, dims: Dimensions): string {
+  switch (mode) {
+    case 'dims':
+      return formatDims(dims);
+    case 'ratio':
+      return formatRatio(dims);
+    case 'both':
+      return `${formatDims(dims)} · ${formatRatio(dims)}`;
+    case 'none':
+    default:
+      return '';
+  }
+}
+
+export function expandTemplate(text: string, dims: Dimensions): string {
+  return text.replace(/\{(w|h|ratio)\}/g, (_, key: string) => {
+    switch (key) {
+      case 'w':
+        return String(dims.width);
+      case 'h':
+        return String(dims.height);
+      default:
+        return formatRatio(dims);
+    }
+  });
+}
+
+function flipRatio(ratio: string): string {
+  const [w, h] = ratio.split(':');
+  return `${h}:${w}`;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
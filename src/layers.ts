@@ -0,0 +1,550 @@
+import { AltboxError } from './errors';
+import { buildIcon, parseIcon } from './icons';
+import { measureText } from './metrics';
+import { MAX_TEXT_LENGTH, clampText, splitGraphemes } from './segment';
+import { escapeXML, parseColor, wrapText } from './util';
+
+export type LayerKind = 'text' | 'rect' | 'circle' | 'line' | 'icon';
+
+export type LayerAnchor =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right';
+
+// One element drawn over the placeholder. Sizes and offsets are in CSS
+// pixels, before `scale`.
+export interface Layer {
+  type: LayerKind;
+  // What a text layer says and which icon an icon layer draws.
+  text?: string;
+  icon?: string;
+  // Text and icon colour, shape fill or line colour. Defaults to the
+  // placeholder's text colour.
+  color?: string;
+  // Where the layer's box sits on a 3x3 grid inside the padding, then
+  // nudged by `offset`.
+  anchor?: LayerAnchor;
+  offset?: [number, number];
+  // Box of a shape, line or icon: a number for a square.
+  size?: number | [number, number];
+  fontSize?: number;
+  weight?: string;
+  lines?: number;
+  stroke?: string;
+  strokeWidth?: number;
+  radius?: number;
+  opacity?: number;
+}
+
+export interface LayerContext {
+  width: number;
+  height: number;
+  pad: number;
+  scale: number;
+  fontFamily: string;
+  foreground: string;
+}
+
+export const MAX_LAYERS = 20;
+
+export const LAYER_ANCHORS: readonly LayerAnchor[] = [
+  'top-left',
+  'top',
+  'top-right',
+  'left',
+  'center',
+  'right',
+  'bottom-left',
+  'bottom',
+  'bottom-right',
+];
+
+// Query parameters name a layer by kind and number (`t1`, `r2`), and its
+// settings by suffix (`t1pos`, `r2radius`). Numbers set the drawing order.
+const PREFIXES: Record<string, LayerKind> = {
+  r: 'rect',
+  c: 'circle',
+  l: 'line',
+  i: 'icon',
+  t: 'text',
+};
+const KIND_PREFIXES = Object.fromEntries(
+  Object.entries(PREFIXES).map(([prefix, kind]) => [kind, prefix]),
+) as Record<LayerKind, string>;
+
+type SuffixField = Exclude<keyof Layer, 'type' | 'text' | 'icon'>;
+
+// `size` is the font size of a text layer and the box of anything else.
+const SUFFIXES: Record<string, SuffixField> = {
+  pos: 'anchor',
+  xy: 'offset',
+  size: 'size',
+  color: 'color',
+  weight: 'weight',
+  lines: 'lines',
+  stroke: 'stroke',
+  sw: 'strokeWidth',
+  radius: 'radius',
+  opacity: 'opacity',
+};
+
+const LAYER_PARAM = new RegExp(
+  `^([${Object.keys(PREFIXES).join('')}])(\\d{1,2})(${Object.keys(SUFFIXES).join('|')})?$`,
+);
+
+// Layers whose bare parameter is what they draw, rather than a colour.
+const VALUE_KINDS: readonly LayerKind[] = ['text', 'icon'];
+
+const DEFAULT_BOX = 40;
+const DEFAULT_LINE_BOX: [number, number] = [DEFAULT_BOX, 0];
+const LAYER_LINE_HEIGHT = 1.2;
+
+interface LayerGroup {
+  prefix: string;
+  kind: LayerKind;
+  order: number;
+  value?: string;
+  settings: Partial<Record<SuffixField, string>>;
+}
+
+// Layers from query parameters, in drawing order, with their values read
+// leniently the way other numeric params are. Colours and icons are left
+// for `parseLayers` to validate.
+export function readLayers(searchParams: URLSearchParams): Layer[] {
+  return groupLayerParams(searchParams).map(groupToLayer);
+}
+
+// Validated layers ready for `buildLayers`. Errors carry the query
+// parameter they came from.
+export function parseLayers(searchParams: URLSearchParams): Layer[] {
+  return groupLayerParams(searchParams).map((group) => {
+    const layer = groupToLayer(group);
+    // Shapes and lines take their colour from the bare parameter.
+    const colorParam =
+      group.settings.color !== undefined || group.kind === 'text' || group.kind === 'icon'
+        ? `${group.prefix}color`
+        : group.prefix;
+    return {
+      ...layer,
+      icon: layer.icon && withParam(group.prefix, () => parseIcon(layer.icon as string)),
+      color: layer.color && withParam(colorParam, () => parseColor(layer.color as string)),
+      stroke:
+        layer.stroke &&
+        withParam(`${group.prefix}stroke`, () => parseColor(layer.stroke as string)),
+    };
+  });
+}
+
+// The query parameters for a list of layers, numbered in order.
+export function layerParams(layers: Layer[]): [string, string][] {
+  return layers.flatMap((layer, index) => {
+    const prefix = `${KIND_PREFIXES[layer.type]}${index + 1}`;
+    const value = layer.type === 'text'
+      ? layer.text
+      : layer.type === 'icon'
+        ? layer.icon
+        : layer.color;
+    const entries: [string, string][] = [[prefix, value ?? '']];
+    for (const [suffix, field] of Object.entries(SUFFIXES)) {
+      const setting = field === 'size' && layer.type === 'text' ? layer.fontSize : layer[field];
+      if (setting === undefined || (field === 'color' && setting === value)) {
+        continue;
+      }
+      entries.push([`${prefix}${suffix}`, formatSetting(field, setting)]);
+    }
+    return entries;
+  });
+}
+
+// The spec field a layer query parameter belongs to, for specs whose layers
+// were numbered by `layerParams`.
+export function layerFieldFor(param: string): string | undefined {
+  const match = LAYER_PARAM.exec(param);
+  if (!match) {
+    return undefined;
+  }
+  const [, prefix, number, suffix] = match;
+  const kind = PREFIXES[prefix];
+  const field = suffix
+    ? suffix === 'size' && kind === 'text'
+      ? 'fontSize'
+      : SUFFIXES[suffix]
+    : kind === 'text'
+      ? 'text'
+      : kind === 'icon'
+        ? 'icon'
+        : 'color';
+  return `layers[${Number(number) - 1}].${field}`;
+}
+
+// Checks the `layers` field of a JSON render spec, reporting each problem
+// against its own path.
+export function parseLayerSpecs(
+  value: unknown,
+  fail: (field: string, detail: string) => void,
+): Layer[] | undefined {
+  if (!Array.isArray(value)) {
+    fail('layers', 'Expected an array of layers');
+    return undefined;
+  }
+  if (value.length > MAX_LAYERS) {
+    fail('layers', `At most ${MAX_LAYERS} layers are allowed`);
+    return undefined;
+  }
+
+  return value.map((item, index) => {
+    const path = `layers[${index}]`;
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      fail(path, 'Expected a layer object');
+      return { type: 'text' };
+    }
+    const input = item as Record<string, unknown>;
+    const type = input.type as LayerKind;
+    if (!Object.hasOwn(KIND_PREFIXES, type)) {
+      fail(`${path}.type`, `Expected one of ${Object.keys(KIND_PREFIXES).join(', ')}`);
+    }
+
+    const layer: Layer = { type };
+    for (const [field, raw] of Object.entries(input)) {
+      if (field === 'type' || raw === undefined || raw === null) {
+        continue;
+      }
+      const detail = checkLayerField(layer, field, raw);
+      if (detail) {
+        fail(`${path}.${field}`, detail);
+      }
+    }
+    return layer;
+  });
+}
+
+export function buildLayers(layers: Layer[], context: LayerContext): string {
+  return layers.map((layer) => buildLayer(layer, context)).join('');
+}
+
+function buildLayer(layer: Layer, context: LayerContext): string {
+  const { scale, foreground } = context;
+  const color = layer.color ?? foreground;
+  const strokeWidth = (layer.strokeWidth ?? (layer.type === 'line' ? 1 : 0)) * scale;
+
+  let element: string;
+  switch (layer.type) {
+    case 'text':
+      element = buildTextLayer(layer, color, context);
+      break;
+    case 'icon': {
+      const [size] = boxSize(layer, scale);
+      const { x, y } = place(layer, size, size, context);
+      element = layer.icon
+        ? buildIcon(layer.icon, { x, y, size: round(size), textTop: 0 }, color)
+        : '';
+      break;
+    }
+    case 'line': {
+      const [width, height] = boxSize(layer, scale);
+      const { x, y } = place(layer, width, height, context);
+      element = `<line x1="${round(x)}" y1="${round(y)}" x2="${round(x + width)}" y2="${round(y + height)}" stroke="${escapeXML(color)}" stroke-width="${round(strokeWidth)}" stroke-linecap="round" />`;
+      break;
+    }
+    case 'circle': {
+      const [width, height] = boxSize(layer, scale);
+      const { x, y } = place(layer, width, height, context);
+      element = `<circle cx="${round(x + width / 2)}" cy="${round(y + height / 2)}" r="${round(Math.min(width, height) / 2)}" fill="${escapeXML(color)}"${strokeAttributes(layer.stroke, strokeWidth)} />`;
+      break;
+    }
+    case 'rect':
+    default: {
+      const [width, height] = boxSize(layer, scale);
+      const { x, y } = place(layer, width, height, context);
+      const radius = Math.min((layer.radius ?? 0) * scale, width / 2, height / 2);
+      const corners = radius > 0 ? ` rx="${round(radius)}" ry="${round(radius)}"` : '';
+      element = `<rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}"${corners} fill="${escapeXML(color)}"${strokeAttributes(layer.stroke, strokeWidth)} />`;
+      break;
+    }
+  }
+
+  if (!element) {
+    return '';
+  }
+  const opacity = layer.opacity ?? 1;
+  return opacity < 1 ? `<g opacity="${Math.max(0, opacity)}">${element}</g>` : element;
+}
+
+function buildTextLayer(layer: Layer, color: string, context: LayerContext): string {
+  const { width, height, pad, scale, fontFamily } = context;
+  if (!layer.text) {
+    return '';
+  }
+  const fontSize = (layer.fontSize ?? Math.max(8, Math.min(width, height) / scale / 10)) * scale;
+  const [dx] = layer.offset ?? [0, 0];
+  const lines = wrapText({
+    text: layer.text,
+    maxWidth: Math.max(0, width - pad * 2 - Math.abs(dx) * scale),
+    fontSize,
+    fontFamily,
+    fontWeight: layer.weight,
+    wrap: true,
+    maxLines: Math.max(1, Math.floor(layer.lines ?? 2)),
+  });
+  if (!lines.length) {
+    return '';
+  }
+
+  const lineHeight = fontSize * LAYER_LINE_HEIGHT;
+  const textWidth = Math.max(
+    ...lines.map((line) => measureText(line, { fontSize, fontFamily, fontWeight: layer.weight })),
+  );
+  const { x, y } = place(layer, textWidth, lineHeight * lines.length, context);
+  // Lines hang from the box edge named by the anchor, so measuring errors
+  // don't push right-aligned text off its edge.
+  const anchor = layer.anchor ?? 'center';
+  const [textAnchor, textX] = anchor.endsWith('left')
+    ? ['start', x]
+    : anchor.endsWith('right')
+      ? ['end', x + textWidth]
+      : ['middle', x + textWidth / 2];
+  const tspans = lines
+    .map(
+      (line, index) =>
+        `<tspan x="${round(textX)}" y="${round(y + lineHeight * (index + 0.5))}">${escapeXML(line)}</tspan>`,
+    )
+    .join('');
+  const weightAttr = layer.weight ? ` font-weight="${escapeXML(layer.weight)}"` : '';
+  const strokeWidth = (layer.strokeWidth ?? 1) * scale;
+  const strokeAttr = layer.stroke
+    ? `${strokeAttributes(layer.stroke, strokeWidth)} stroke-linejoin="round" paint-order="stroke"`
+    : '';
+  return `<text fill="${escapeXML(color)}" text-anchor="${textAnchor}" font-family="${escapeXML(fontFamily)}" font-size="${round(fontSize)}" dominant-baseline="middle"${weightAttr}${strokeAttr}>${tspans}</text>`;
+}
+
+// Top-left corner of a box anchored on the grid, plus the layer's offset.
+function place(
+  layer: Layer,
+  boxWidth: number,
+  boxHeight: number,
+  context: LayerContext,
+): { x: number; y: number } {
+  const { width, height, pad, scale } = context;
+  const anchor = layer.anchor ?? 'center';
+  const [dx, dy] = layer.offset ?? [0, 0];
+  const x = anchor.endsWith('left')
+    ? pad
+    : anchor.endsWith('right')
+      ? width - pad - boxWidth
+      : (width - boxWidth) / 2;
+  const y = anchor.startsWith('top')
+    ? pad
+    : anchor.startsWith('bottom')
+      ? height - pad - boxHeight
+      : (height - boxHeight) / 2;
+  return { x: x + dx * scale, y: y + dy * scale };
+}
+
+function boxSize(layer: Layer, scale: number): [number, number] {
+  const size = layer.size ?? (layer.type === 'line' ? DEFAULT_LINE_BOX : DEFAULT_BOX);
+  const [width, height] = typeof size === 'number' ? [size, size] : size;
+  return [width * scale, height * scale];
+}
+
+function strokeAttributes(stroke: string | undefined, strokeWidth: number): string {
+  return stroke && strokeWidth > 0
+    ? ` stroke="${escapeXML(stroke)}" stroke-width="${round(strokeWidth)}"`
+    : '';
+}
+
+function groupLayerParams(searchParams: URLSearchParams): LayerGroup[] {
+  const groups = new Map<string, LayerGroup>();
+  searchParams.forEach((raw, key) => {
+    const match = LAYER_PARAM.exec(key);
+    if (!match) {
+      return;
+    }
+    const [, letter, number, suffix] = match;
+    const prefix = `${letter}${number}`;
+    let group = groups.get(prefix);
+    if (!group) {
+      group = { prefix, kind: PREFIXES[letter], order: Number(number), settings: {} };
+      groups.set(prefix, group);
+    }
+    const value = raw.trim();
+    if (!value) {
+      return;
+    }
+    if (suffix) {
+      group.settings[SUFFIXES[suffix]] ??= value;
+    } else {
+      group.value ??= value;
+    }
+  });
+
+  // Text and icons need something to draw, while any param of a shape, even
+  // an empty `r1=`, draws it in the text colour.
+  const kinds = Object.values(PREFIXES);
+  return [...groups.values()]
+    .filter((group) => group.value !== undefined || !VALUE_KINDS.includes(group.kind))
+    .sort((a, b) => a.order - b.order || kinds.indexOf(a.kind) - kinds.indexOf(b.kind))
+    .slice(0, MAX_LAYERS);
+}
+
+function groupToLayer(group: LayerGroup): Layer {
+  const { kind, value, settings } = group;
+  const layer: Layer = { type: kind };
+  if (kind === 'text') {
+    layer.text = value && clampText(value);
+  } else if (kind === 'icon') {
+    layer.icon = value;
+  } else {
+    layer.color = value;
+  }
+
+  for (const [field, raw] of Object.entries(settings) as [SuffixField, string][]) {
+    switch (field) {
+      case 'anchor': {
+        const anchor = raw.toLowerCase() as LayerAnchor;
+        if (LAYER_ANCHORS.includes(anchor)) {
+          layer.anchor = anchor;
+        }
+        break;
+      }
+      case 'offset': {
+        const [dx, dy = 0] = raw.split(',').map((part) => parseFloat(part));
+        if (Number.isFinite(dx) && Number.isFinite(dy)) {
+          layer.offset = [dx, dy];
+        }
+        break;
+      }
+      case 'size': {
+        if (kind === 'text') {
+          const fontSize = parseFloat(raw);
+          if (fontSize > 0) {
+            layer.fontSize = fontSize;
+          }
+          break;
+        }
+        const [width, height = width] = raw.split('x').map((part) => parseFloat(part));
+        if (width >= 0 && height >= 0) {
+          layer.size = width === height ? width : [width, height];
+        }
+        break;
+      }
+      case 'color':
+      case 'stroke':
+      case 'weight':
+        layer[field] = raw;
+        break;
+      case 'lines': {
+        const lines = parseInt(raw, 10);
+        if (lines >= 1) {
+          layer.lines = Math.min(lines, 20);
+        }
+        break;
+      }
+      default: {
+        const numeric = parseFloat(raw);
+        if (Number.isFinite(numeric) && numeric >= 0) {
+          layer[field] = numeric;
+        }
+      }
+    }
+  }
+  return layer;
+}
+
+function checkLayerField(layer: Layer, field: string, raw: unknown): string | undefined {
+  switch (field) {
+    case 'text':
+      if (typeof raw !== 'string') {
+        return 'Expected a string';
+      }
+      if (splitGraphemes(raw).length > MAX_TEXT_LENGTH) {
+        return `Text is longer than ${MAX_TEXT_LENGTH} characters`;
+      }
+      layer.text = raw;
+      return undefined;
+    case 'icon':
+    case 'color':
+    case 'stroke':
+    case 'weight':
+      if (typeof raw !== 'string') {
+        return 'Expected a string';
+      }
+      layer[field] = raw;
+      return undefined;
+    case 'anchor':
+      if (!LAYER_ANCHORS.includes(raw as LayerAnchor)) {
+        return `Expected one of ${LAYER_ANCHORS.join(', ')}`;
+      }
+      layer.anchor = raw as LayerAnchor;
+      return undefined;
+    case 'offset':
+      if (!isNumberPair(raw)) {
+        return 'Expected [dx, dy]';
+      }
+      layer.offset = raw;
+      return undefined;
+    case 'size':
+      if (layer.type === 'text') {
+        return 'Text layers take fontSize instead';
+      }
+      if (!(isNonNegative(raw) || (isNumberPair(raw) && raw.every(isNonNegative)))) {
+        return 'Expected a number or [width, height]';
+      }
+      layer.size = raw;
+      return undefined;
+    case 'fontSize':
+    case 'lines':
+    case 'strokeWidth':
+    case 'radius':
+    case 'opacity':
+      if (!isNonNegative(raw)) {
+        return 'Expected a non-negative number';
+      }
+      layer[field] = raw;
+      return undefined;
+    default:
+      return `Unknown layer field "${field}"`;
+  }
+}
+
+function formatSetting(field: SuffixField, value: Layer[SuffixField]): string {
+  if (field === 'offset' && Array.isArray(value)) {
+    return value.join(',');
+  }
+  if (field === 'size' && Array.isArray(value)) {
+    return value.join('x');
+  }
+  return String(value);
+}
+
+function withParam<T>(param: string, parse: () => T): T {
+  try {
+    return parse();
+  } catch (error) {
+    if (error instanceof AltboxError) {
+      error.param ??= param;
+    }
+    throw error;
+  }
+}
+
+function isNumberPair(value: unknown): value is [number, number] {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((part) => typeof part === 'number' && Number.isFinite(part))
+  );
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,257 @@
+import { MeasureOptions, measureText } from './metrics';
+import { WrapOptions, escapeXML, parseColor, wrapText } from './util';
+
+export interface TextSpan {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  color?: string;
+}
+
+export type RichLine = TextSpan[];
+
+export interface RichWrapOptions extends Omit<WrapOptions, 'text'> {
+  paragraphs: RichLine[];
+}
+
+interface StyledChar {
+  char: string;
+  span: TextSpan;
+}
+
+const ELLIPSIS = '...';
+
+// Inline markup accepted in `says`: `|`, a newline or `\n` break the line,
+// `**bold**`, `_italic_` and `{color:text}` style spans, and a backslash
+// escapes the next character. Returns one span list per explicit line.
+export function parseMarkup(input: string): RichLine[] {
+  const paragraphs: RichLine[] = [];
+  const colors: string[] = [];
+  let spans: RichLine = [];
+  let current = '';
+  let bold = false;
+  let italic = false;
+
+  const flush = () => {
+    if (!current) {
+      return;
+    }
+    const color = colors[colors.length - 1];
+    spans.push(
+      color ? { text: current, bold, italic, color } : { text: current, bold, italic },
+    );
+    current = '';
+  };
+
+  const breakLine = () => {
+    flush();
+    paragraphs.push(spans);
+    spans = [];
+  };
+
+  const chars = Array.from(input);
+  for (let index = 0; index < chars.length; index += 1) {
+    const char = chars[index];
+    const next = chars[index + 1];
+
+    if (char === '\\' && next !== undefined) {
+      if (next === 'n') {
+        breakLine();
+      } else {
+        current += next;
+      }
+      index += 1;
+      continue;
+    }
+
+    if (char === '\r') {
+      continue;
+    }
+
+    if (char === '\n' || char === '|') {
+      breakLine();
+      continue;
+    }
+
+    if (char === '*' && next === '*') {
+      flush();
+      bold = !bold;
+      index += 1;
+      continue;
+    }
+
+    // Underscores inside words (snake_case) stay literal, as in Markdown.
+    if (char === '_' && !isWordChar(italic ? next : chars[index - 1])) {
+      flush();
+      italic = !italic;
+      continue;
+    }
+
+    if (char === '{') {
+      const colon = findColorEnd(chars, index + 1);
+      const color =
+        colon === -1
+          ? undefined
+          : tryParseColor(chars.slice(index + 1, colon).join(''));
+      if (color) {
+        flush();
+        colors.push(color);
+        index = colon;
+        continue;
+      }
+    }
+
+    if (char === '}' && colors.length) {
+      flush();
+      colors.pop();
+      continue;
+    }
+
+    current += char;
+  }
+
+  breakLine();
+  return paragraphs;
+}
+
+// Escapes markup characters so `parseMarkup` keeps them as literal text.
+export function escapeMarkup(text: string): string {
+  return text.replace(/[\\|*_{}]/g, (char) => `\\${char}`);
+}
+
+export function plainText(line: RichLine): string {
+  return line.map((span) => span.text).join('');
+}
+
+export function measureLine(line: RichLine, options: MeasureOptions): number {
+  return line.reduce(
+    (width, span) =>
+      width +
+      measureText(span.text, {
+        ...options,
+        fontWeight: span.bold ? 'bold' : options.fontWeight,
+      }),
+    0,
+  );
+}
+
+// Wraps each explicit line with `wrapText`, then maps the wrapped plain text
+// back onto the original spans so styling survives the line breaks.
+export function wrapRichText(options: RichWrapOptions): RichLine[] {
+  const { paragraphs, maxLines = 2, ...wrapOptions } = options;
+  const lines: RichLine[] = [];
+  let truncated = false;
+
+  for (const paragraph of paragraphs) {
+    const remaining = maxLines - lines.length;
+    if (remaining <= 0) {
+      truncated = true;
+      break;
+    }
+
+    const wrapped = wrapText({
+      ...wrapOptions,
+      text: plainText(paragraph),
+      maxLines: remaining,
+    });
+    if (!wrapped.length) {
+      lines.push([]);
+      continue;
+    }
+    lines.push(...restyleLines(paragraph, wrapped));
+  }
+
+  if (truncated) {
+    const last = lines[lines.length - 1];
+    const tail = last[last.length - 1];
+    if (!tail) {
+      lines[lines.length - 1] = [{ text: ELLIPSIS, bold: false, italic: false }];
+    } else if (!tail.text.endsWith(ELLIPSIS)) {
+      last[last.length - 1] = { ...tail, text: `${tail.text}${ELLIPSIS}` };
+    }
+  }
+
+  return lines;
+}
+
+export function renderSpan(span: TextSpan): string {
+  const text = escapeXML(span.text);
+  const attributes = [
+    span.bold ? ' font-weight="bold"' : '',
+    span.italic ? ' font-style="italic"' : '',
+    span.color ? ` fill="${escapeXML(span.color)}"` : '',
+  ].join('');
+  return attributes ? `<tspan${attributes}>${text}</tspan>` : text;
+}
+
+function restyleLines(paragraph: RichLine, wrapped: string[]): RichLine[] {
+  const source: StyledChar[] = paragraph.flatMap((span) =>
+    Array.from(span.text, (char) => ({ char, span })),
+  );
+  let position = 0;
+
+  return wrapped.map((line) => {
+    while (position < source.length && /\s/.test(source[position].char)) {
+      position += 1;
+    }
+
+    const styled: StyledChar[] = [];
+    for (const char of line) {
+      const from = source[position];
+      if (char === ' ' && from && /\s/.test(from.char)) {
+        while (position < source.length && /\s/.test(source[position].char)) {
+          position += 1;
+        }
+        styled.push({ char, span: from.span });
+      } else if (from && from.char === char) {
+        styled.push(from);
+        position += 1;
+      } else {
+        // Characters wrapText added itself, i.e. the overflow ellipsis.
+        const previous = styled[styled.length - 1] ?? from;
+        styled.push({ char, span: previous ? previous.span : paragraph[0] });
+      }
+    }
+
+    return groupSpans(styled);
+  });
+}
+
+function groupSpans(chars: StyledChar[]): RichLine {
+  const spans: RichLine = [];
+  let owner: TextSpan | undefined;
+  for (const { char, span } of chars) {
+    if (owner === span) {
+      spans[spans.length - 1].text += char;
+    } else {
+      spans.push({ ...span, text: char });
+      owner = span;
+    }
+  }
+  return spans;
+}
+
+function findColorEnd(chars: string[], start: number): number {
+  for (let index = start; index < chars.length; index += 1) {
+    const char = chars[index];
+    if (char === ':') {
+      return index > start ? index : -1;
+    }
+    if (char === '{' || char === '}' || char === '|') {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+function tryParseColor(value: string): string | undefined {
+  try {
+    return parseColor(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}]/u.test(char);
+}
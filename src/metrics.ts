@@ -0,0 +1,129 @@
+import {
+  INTER_BOLD,
+  INTER_REGULAR,
+  NOTO_SANS_BOLD,
+  NOTO_SANS_MONO_BOLD,
+  NOTO_SANS_MONO_REGULAR,
+  NOTO_SANS_REGULAR,
+  NOTO_SERIF_BOLD,
+  NOTO_SERIF_REGULAR,
+  ROBOTO_BOLD,
+  ROBOTO_REGULAR,
+} from './glyphs';
+
+export interface FontMetrics {
+  unitsPerEm: number;
+  advances: Record<string, number>;
+  kerning: Record<string, number>;
+}
+
+export interface FontFaceMetrics {
+  regular: FontMetrics;
+  bold?: FontMetrics;
+}
+
+export interface MeasureOptions {
+  fontSize: number;
+  fontFamily?: string;
+  fontWeight?: string;
+}
+
+export const DEFAULT_METRICS_FAMILY = 'inter';
+
+// Fallback advances (in em) for characters the registered fonts don't cover.
+// These are drawn from whatever fallback font the renderer picks, so they are
+// approximations of typical widths rather than exact values.
+const FALLBACK_ADVANCE = 0.6;
+const WIDE_ADVANCE = 1;
+const EMOJI_ADVANCE = 1.2;
+
+const FONT_METRICS = new Map<string, FontFaceMetrics>([
+  [DEFAULT_METRICS_FAMILY, { regular: INTER_REGULAR, bold: INTER_BOLD }],
+  ['roboto', { regular: ROBOTO_REGULAR, bold: ROBOTO_BOLD }],
+  ['noto sans', { regular: NOTO_SANS_REGULAR, bold: NOTO_SANS_BOLD }],
+  ['noto serif', { regular: NOTO_SERIF_REGULAR, bold: NOTO_SERIF_BOLD }],
+  ['noto sans mono', { regular: NOTO_SANS_MONO_REGULAR, bold: NOTO_SANS_MONO_BOLD }],
+]);
+
+export function registerFontMetrics(family: string, metrics: FontFaceMetrics): void {
+  const key = normalizeFamily(family);
+  if (!key) {
+    throw new Error('Invalid font family');
+  }
+  FONT_METRICS.set(key, metrics);
+}
+
+export function measureText(text: string, options: MeasureOptions): number {
+  const { fontSize, fontFamily, fontWeight } = options;
+  const metrics = resolveMetrics(fontFamily, fontWeight);
+  const scale = fontSize / metrics.unitsPerEm;
+
+  let width = 0;
+  let previous: string | undefined;
+  for (const char of text) {
+    const advance = metrics.advances[char];
+    if (advance !== undefined) {
+      width += advance * scale;
+      if (previous !== undefined) {
+        width += (metrics.kerning[previous + char] ?? 0) * scale;
+      }
+    } else {
+      width += fallbackAdvance(char.codePointAt(0) ?? 0) * fontSize;
+    }
+    previous = char;
+  }
+  return width;
+}
+
+function resolveMetrics(fontFamily?: string, fontWeight?: string): FontMetrics {
+  const families = (fontFamily ?? '').split(',').map(normalizeFamily);
+  const face =
+    families.map((family) => FONT_METRICS.get(family)).find(Boolean) ??
+    (FONT_METRICS.get(DEFAULT_METRICS_FAMILY) as FontFaceMetrics);
+
+  return isBold(fontWeight) && face.bold ? face.bold : face.regular;
+}
+
+function normalizeFamily(family: string): string {
+  return family.trim().replace(/^["']|["']$/g, '').trim().toLowerCase();
+}
+
+export function isBold(fontWeight?: string): boolean {
+  if (!fontWeight) {
+    return false;
+  }
+  const normalized = fontWeight.trim().toLowerCase();
+  if (normalized === 'bold' || normalized === 'bolder') {
+    return true;
+  }
+  const numeric = parseInt(normalized, 10);
+  return Number.isFinite(numeric) && numeric >= 600;
+}
+
+function fallbackAdvance(code: number): number {
+  if (
+    (code >= 0x0300 && code <= 0x036f) ||
+    code === 0x200d ||
+    (code >= 0xfe00 && code <= 0xfe0f)
+  ) {
+    // Combining marks, zero-width joiners and variation selectors.
+    return 0;
+  }
+  if (
+    (code >= 0x1f300 && code <= 0x1faff) ||
+    (code >= 0x2600 && code <= 0x27bf)
+  ) {
+    return EMOJI_ADVANCE;
+  }
+  if (
+    (code >= 0x1100 && code <= 0x115f) ||
+    (code >= 0x2e80 && code <= 0xa4cf) ||
+    (code >= 0xac00 && code <= 0xd7a3) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0xff00 && code <= 0xff60) ||
+    (code >= 0x20000 && code <= 0x3fffd)
+  ) {
+    return WIDE_ADVANCE;
+  }
+  return FALLBACK_ADVANCE;
+}
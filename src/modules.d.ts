@@ -0,0 +1,28 @@
+// Wrangler bundles .wasm imports as precompiled modules and .ttf imports as
+// raw bytes (see the rules in wrangler.toml).
+declare module '*.wasm' {
+  const module: WebAssembly.Module;
+  export default module;
+}
+
+declare module '*.ttf' {
+  const data: ArrayBuffer;
+  export default data;
+}
+
+// The one Node API the Worker uses, available through the nodejs_compat
+// flag. Declared here so the Worker isn't typed against all of Node.
+declare module 'node:zlib' {
+  export const constants: {
+    BROTLI_PARAM_MODE: number;
+    BROTLI_MODE_FONT: number;
+    BROTLI_PARAM_QUALITY: number;
+    BROTLI_MAX_QUALITY: number;
+    BROTLI_PARAM_SIZE_HINT: number;
+  };
+
+  export function brotliCompressSync(
+    data: Uint8Array,
+    options?: { params?: Record<number, number> },
+  ): Uint8Array;
+}
@@ -0,0 +1,878 @@
+// Generated by scripts/generate-palettes.mjs from tailwindcss, material-colors
+// and @radix-ui/colors (all MIT licensed). Do not edit by hand.
+export const PALETTES: Record<string, Record<string, string>> = {
+  tailwind: {
+    'slate-50': '#f8fafc',
+    'slate-100': '#f1f5f9',
+    'slate-200': '#e2e8f0',
+    'slate-300': '#cbd5e1',
+    'slate-400': '#94a3b8',
+    'slate-500': '#64748b',
+    'slate-600': '#475569',
+    'slate-700': '#334155',
+    'slate-800': '#1e293b',
+    'slate-900': '#0f172a',
+    'slate-950': '#020617',
+    'gray-50': '#f9fafb',
+    'gray-100': '#f3f4f6',
+    'gray-200': '#e5e7eb',
+    'gray-300': '#d1d5db',
+    'gray-400': '#9ca3af',
+    'gray-500': '#6b7280',
+    'gray-600': '#4b5563',
+    'gray-700': '#374151',
+    'gray-800': '#1f2937',
+    'gray-900': '#111827',
+    'gray-950': '#030712',
+    'zinc-50': '#fafafa',
+    'zinc-100': '#f4f4f5',
+    'zinc-200': '#e4e4e7',
+    'zinc-300': '#d4d4d8',
+    'zinc-400': '#a1a1aa',
+    'zinc-500': '#71717a',
+    'zinc-600': '#52525b',
+    'zinc-700': '#3f3f46',
+    'zinc-800': '#27272a',
+    'zinc-900': '#18181b',
+    'zinc-950': '#09090b',
+    'neutral-50': '#fafafa',
+    'neutral-100': '#f5f5f5',
+    'neutral-200': '#e5e5e5',
+    'neutral-300': '#d4d4d4',
+    'neutral-400': '#a3a3a3',
+    'neutral-500': '#737373',
+    'neutral-600': '#525252',
+    'neutral-700': '#404040',
+    'neutral-800': '#262626',
+    'neutral-900': '#171717',
+    'neutral-950': '#0a0a0a',
+    'stone-50': '#fafaf9',
+    'stone-100': '#f5f5f4',
+    'stone-200': '#e7e5e4',
+    'stone-300': '#d6d3d1',
+    'stone-400': '#a8a29e',
+    'stone-500': '#78716c',
+    'stone-600': '#57534e',
+    'stone-700': '#44403c',
+    'stone-800': '#292524',
+    'stone-900': '#1c1917',
+    'stone-950': '#0c0a09',
+    'red-50': '#fef2f2',
+    'red-100': '#fee2e2',
+    'red-200': '#fecaca',
+    'red-300': '#fca5a5',
+    'red-400': '#f87171',
+    'red-500': '#ef4444',
+    'red-600': '#dc2626',
+    'red-700': '#b91c1c',
+    'red-800': '#991b1b',
+    'red-900': '#7f1d1d',
+    'red-950': '#450a0a',
+    'orange-50': '#fff7ed',
+    'orange-100': '#ffedd5',
+    'orange-200': '#fed7aa',
+    'orange-300': '#fdba74',
+    'orange-400': '#fb923c',
+    'orange-500': '#f97316',
+    'orange-600': '#ea580c',
+    'orange-700': '#c2410c',
+    'orange-800': '#9a3412',
+    'orange-900': '#7c2d12',
+    'orange-950': '#431407',
+    'amber-50': '#fffbeb',
+    'amber-100': '#fef3c7',
+    'amber-200': '#fde68a',
+    'amber-300': '#fcd34d',
+    'amber-400': '#fbbf24',
+    'amber-500': '#f59e0b',
+    'amber-600': '#d97706',
+    'amber-700': '#b45309',
+    'amber-800': '#92400e',
+    'amber-900': '#78350f',
+    'amber-950': '#451a03',
+    'yellow-50': '#fefce8',
+    'yellow-100': '#fef9c3',
+    'yellow-200': '#fef08a',
+    'yellow-300': '#fde047',
+    'yellow-400': '#facc15',
+    'yellow-500': '#eab308',
+    'yellow-600': '#ca8a04',
+    'yellow-700': '#a16207',
+    'yellow-800': '#854d0e',
+    'yellow-900': '#713f12',
+    'yellow-950': '#422006',
+    'lime-50': '#f7fee7',
+    'lime-100': '#ecfccb',
+    'lime-200': '#d9f99d',
+    'lime-300': '#bef264',
+    'lime-400': '#a3e635',
+    'lime-500': '#84cc16',
+    'lime-600': '#65a30d',
+    'lime-700': '#4d7c0f',
+    'lime-800': '#3f6212',
+    'lime-900': '#365314',
+    'lime-950': '#1a2e05',
+    'green-50': '#f0fdf4',
+    'green-100': '#dcfce7',
+    'green-200': '#bbf7d0',
+    'green-300': '#86efac',
+    'green-400': '#4ade80',
+    'green-500': '#22c55e',
+    'green-600': '#16a34a',
+    'green-700': '#15803d',
+    'green-800': '#166534',
+    'green-900': '#14532d',
+    'green-950': '#052e16',
+    'emerald-50': '#ecfdf5',
+    'emerald-100': '#d1fae5',
+    'emerald-200': '#a7f3d0',
+    'emerald-300': '#6ee7b7',
+    'emerald-400': '#34d399',
+    'emerald-500': '#10b981',
+    'emerald-600': '#059669',
+    'emerald-700': '#047857',
+    'emerald-800': '#065f46',
+    'emerald-900': '#064e3b',
+    'emerald-950': '#022c22',
+    'teal-50': '#f0fdfa',
+    'teal-100': '#ccfbf1',
+    'teal-200': '#99f6e4',
+    'teal-300': '#5eead4',
+    'teal-400': '#2dd4bf',
+    'teal-500': '#14b8a6',
+    'teal-600': '#0d9488',
+    'teal-700': '#0f766e',
+    'teal-800': '#115e59',
+    'teal-900': '#134e4a',
+    'teal-950': '#042f2e',
+    'cyan-50': '#ecfeff',
+    'cyan-100': '#cffafe',
+    'cyan-200': '#a5f3fc',
+    'cyan-300': '#67e8f9',
+    'cyan-400': '#22d3ee',
+    'cyan-500': '#06b6d4',
+    'cyan-600': '#0891b2',
+    'cyan-700': '#0e7490',
+    'cyan-800': '#155e75',
+    'cyan-900': '#164e63',
+    'cyan-950': '#083344',
+    'sky-50': '#f0f9ff',
+    'sky-100': '#e0f2fe',
+    'sky-200': '#bae6fd',
+    'sky-300': '#7dd3fc',
+    'sky-400': '#38bdf8',
+    'sky-500': '#0ea5e9',
+    'sky-600': '#0284c7',
+    'sky-700': '#0369a1',
+    'sky-800': '#075985',
+    'sky-900': '#0c4a6e',
+    'sky-950': '#082f49',
+    'blue-50': '#eff6ff',
+    'blue-100': '#dbeafe',
+    'blue-200': '#bfdbfe',
+    'blue-300': '#93c5fd',
+    'blue-400': '#60a5fa',
+    'blue-500': '#3b82f6',
+    'blue-600': '#2563eb',
+    'blue-700': '#1d4ed8',
+    'blue-800': '#1e40af',
+    'blue-900': '#1e3a8a',
+    'blue-950': '#172554',
+    'indigo-50': '#eef2ff',
+    'indigo-100': '#e0e7ff',
+    'indigo-200': '#c7d2fe',
+    'indigo-300': '#a5b4fc',
+    'indigo-400': '#818cf8',
+    'indigo-500': '#6366f1',
+    'indigo-600': '#4f46e5',
+    'indigo-700': '#4338ca',
+    'indigo-800': '#3730a3',
+    'indigo-900': '#312e81',
+    'indigo-950': '#1e1b4b',
+    'violet-50': '#f5f3ff',
+    'violet-100': '#ede9fe',
+    'violet-200': '#ddd6fe',
+    'violet-300': '#c4b5fd',
+    'violet-400': '#a78bfa',
+    'violet-500': '#8b5cf6',
+    'violet-600': '#7c3aed',
+    'violet-700': '#6d28d9',
+    'violet-800': '#5b21b6',
+    'violet-900': '#4c1d95',
+    'violet-950': '#2e1065',
+    'purple-50': '#faf5ff',
+    'purple-100': '#f3e8ff',
+    'purple-200': '#e9d5ff',
+    'purple-300': '#d8b4fe',
+    'purple-400': '#c084fc',
+    'purple-500': '#a855f7',
+    'purple-600': '#9333ea',
+    'purple-700': '#7e22ce',
+    'purple-800': '#6b21a8',
+    'purple-900': '#581c87',
+    'purple-950': '#3b0764',
+    'fuchsia-50': '#fdf4ff',
+    'fuchsia-100': '#fae8ff',
+    'fuchsia-200': '#f5d0fe',
+    'fuchsia-300': '#f0abfc',
+    'fuchsia-400': '#e879f9',
+    'fuchsia-500': '#d946ef',
+    'fuchsia-600': '#c026d3',
+    'fuchsia-700': '#a21caf',
+    'fuchsia-800': '#86198f',
+    'fuchsia-900': '#701a75',
+    'fuchsia-950': '#4a044e',
+    'pink-50': '#fdf2f8',
+    'pink-100': '#fce7f3',
+    'pink-200': '#fbcfe8',
+    'pink-300': '#f9a8d4',
+    'pink-400': '#f472b6',
+    'pink-500': '#ec4899',
+    'pink-600': '#db2777',
+    'pink-700': '#be185d',
+    'pink-800': '#9d174d',
+    'pink-900': '#831843',
+    'pink-950': '#500724',
+    'rose-50': '#fff1f2',
+    'rose-100': '#ffe4e6',
+    'rose-200': '#fecdd3',
+    'rose-300': '#fda4af',
+    'rose-400': '#fb7185',
+    'rose-500': '#f43f5e',
+    'rose-600': '#e11d48',
+    'rose-700': '#be123c',
+    'rose-800': '#9f1239',
+    'rose-900': '#881337',
+    'rose-950': '#4c0519',
+  },
+  material: {
+    'red-50': '#ffebee',
+    'red-100': '#ffcdd2',
+    'red-200': '#ef9a9a',
+    'red-300': '#e57373',
+    'red-400': '#ef5350',
+    'red-500': '#f44336',
+    'red-600': '#e53935',
+    'red-700': '#d32f2f',
+    'red-800': '#c62828',
+    'red-900': '#b71c1c',
+    'red-a100': '#ff8a80',
+    'red-a200': '#ff5252',
+    'red-a400': '#ff1744',
+    'red-a700': '#d50000',
+    'pink-50': '#fce4ec',
+    'pink-100': '#f8bbd0',
+    'pink-200': '#f48fb1',
+    'pink-300': '#f06292',
+    'pink-400': '#ec407a',
+    'pink-500': '#e91e63',
+    'pink-600': '#d81b60',
+    'pink-700': '#c2185b',
+    'pink-800': '#ad1457',
+    'pink-900': '#880e4f',
+    'pink-a100': '#ff80ab',
+    'pink-a200': '#ff4081',
+    'pink-a400': '#f50057',
+    'pink-a700': '#c51162',
+    'purple-50': '#f3e5f5',
+    'purple-100': '#e1bee7',
+    'purple-200': '#ce93d8',
+    'purple-300': '#ba68c8',
+    'purple-400': '#ab47bc',
+    'purple-500': '#9c27b0',
+    'purple-600': '#8e24aa',
+    'purple-700': '#7b1fa2',
+    'purple-800': '#6a1b9a',
+    'purple-900': '#4a148c',
+    'purple-a100': '#ea80fc',
+    'purple-a200': '#e040fb',
+    'purple-a400': '#d500f9',
+    'purple-a700': '#aa00ff',
+    'deep-purple-50': '#ede7f6',
+    'deep-purple-100': '#d1c4e9',
+    'deep-purple-200': '#b39ddb',
+    'deep-purple-300': '#9575cd',
+    'deep-purple-400': '#7e57c2',
+    'deep-purple-500': '#673ab7',
+    'deep-purple-600': '#5e35b1',
+    'deep-purple-700': '#512da8',
+    'deep-purple-800': '#4527a0',
+    'deep-purple-900': '#311b92',
+    'deep-purple-a100': '#b388ff',
+    'deep-purple-a200': '#7c4dff',
+    'deep-purple-a400': '#651fff',
+    'deep-purple-a700': '#6200ea',
+    'indigo-50': '#e8eaf6',
+    'indigo-100': '#c5cae9',
+    'indigo-200': '#9fa8da',
+    'indigo-300': '#7986cb',
+    'indigo-400': '#5c6bc0',
+    'indigo-500': '#3f51b5',
+    'indigo-600': '#3949ab',
+    'indigo-700': '#303f9f',
+    'indigo-800': '#283593',
+    'indigo-900': '#1a237e',
+    'indigo-a100': '#8c9eff',
+    'indigo-a200': '#536dfe',
+    'indigo-a400': '#3d5afe',
+    'indigo-a700': '#304ffe',
+    'blue-50': '#e3f2fd',
+    'blue-100': '#bbdefb',
+    'blue-200': '#90caf9',
+    'blue-300': '#64b5f6',
+    'blue-400': '#42a5f5',
+    'blue-500': '#2196f3',
+    'blue-600': '#1e88e5',
+    'blue-700': '#1976d2',
+    'blue-800': '#1565c0',
+    'blue-900': '#0d47a1',
+    'blue-a100': '#82b1ff',
+    'blue-a200': '#448aff',
+    'blue-a400': '#2979ff',
+    'blue-a700': '#2962ff',
+    'light-blue-50': '#e1f5fe',
+    'light-blue-100': '#b3e5fc',
+    'light-blue-200': '#81d4fa',
+    'light-blue-300': '#4fc3f7',
+    'light-blue-400': '#29b6f6',
+    'light-blue-500': '#03a9f4',
+    'light-blue-600': '#039be5',
+    'light-blue-700': '#0288d1',
+    'light-blue-800': '#0277bd',
+    'light-blue-900': '#01579b',
+    'light-blue-a100': '#80d8ff',
+    'light-blue-a200': '#40c4ff',
+    'light-blue-a400': '#00b0ff',
+    'light-blue-a700': '#0091ea',
+    'cyan-50': '#e0f7fa',
+    'cyan-100': '#b2ebf2',
+    'cyan-200': '#80deea',
+    'cyan-300': '#4dd0e1',
+    'cyan-400': '#26c6da',
+    'cyan-500': '#00bcd4',
+    'cyan-600': '#00acc1',
+    'cyan-700': '#0097a7',
+    'cyan-800': '#00838f',
+    'cyan-900': '#006064',
+    'cyan-a100': '#84ffff',
+    'cyan-a200': '#18ffff',
+    'cyan-a400': '#00e5ff',
+    'cyan-a700': '#00b8d4',
+    'teal-50': '#e0f2f1',
+    'teal-100': '#b2dfdb',
+    'teal-200': '#80cbc4',
+    'teal-300': '#4db6ac',
+    'teal-400': '#26a69a',
+    'teal-500': '#009688',
+    'teal-600': '#00897b',
+    'teal-700': '#00796b',
+    'teal-800': '#00695c',
+    'teal-900': '#004d40',
+    'teal-a100': '#a7ffeb',
+    'teal-a200': '#64ffda',
+    'teal-a400': '#1de9b6',
+    'teal-a700': '#00bfa5',
+    'green-50': '#e8f5e9',
+    'green-100': '#c8e6c9',
+    'green-200': '#a5d6a7',
+    'green-300': '#81c784',
+    'green-400': '#66bb6a',
+    'green-500': '#4caf50',
+    'green-600': '#43a047',
+    'green-700': '#388e3c',
+    'green-800': '#2e7d32',
+    'green-900': '#1b5e20',
+    'green-a100': '#b9f6ca',
+    'green-a200': '#69f0ae',
+    'green-a400': '#00e676',
+    'green-a700': '#00c853',
+    'light-green-50': '#f1f8e9',
+    'light-green-100': '#dcedc8',
+    'light-green-200': '#c5e1a5',
+    'light-green-300': '#aed581',
+    'light-green-400': '#9ccc65',
+    'light-green-500': '#8bc34a',
+    'light-green-600': '#7cb342',
+    'light-green-700': '#689f38',
+    'light-green-800': '#558b2f',
+    'light-green-900': '#33691e',
+    'light-green-a100': '#ccff90',
+    'light-green-a200': '#b2ff59',
+    'light-green-a400': '#76ff03',
+    'light-green-a700': '#64dd17',
+    'lime-50': '#f9fbe7',
+    'lime-100': '#f0f4c3',
+    'lime-200': '#e6ee9c',
+    'lime-300': '#dce775',
+    'lime-400': '#d4e157',
+    'lime-500': '#cddc39',
+    'lime-600': '#c0ca33',
+    'lime-700': '#afb42b',
+    'lime-800': '#9e9d24',
+    'lime-900': '#827717',
+    'lime-a100': '#f4ff81',
+    'lime-a200': '#eeff41',
+    'lime-a400': '#c6ff00',
+    'lime-a700': '#aeea00',
+    'yellow-50': '#fffde7',
+    'yellow-100': '#fff9c4',
+    'yellow-200': '#fff59d',
+    'yellow-300': '#fff176',
+    'yellow-400': '#ffee58',
+    'yellow-500': '#ffeb3b',
+    'yellow-600': '#fdd835',
+    'yellow-700': '#fbc02d',
+    'yellow-800': '#f9a825',
+    'yellow-900': '#f57f17',
+    'yellow-a100': '#ffff8d',
+    'yellow-a200': '#ffff00',
+    'yellow-a400': '#ffea00',
+    'yellow-a700': '#ffd600',
+    'amber-50': '#fff8e1',
+    'amber-100': '#ffecb3',
+    'amber-200': '#ffe082',
+    'amber-300': '#ffd54f',
+    'amber-400': '#ffca28',
+    'amber-500': '#ffc107',
+    'amber-600': '#ffb300',
+    'amber-700': '#ffa000',
+    'amber-800': '#ff8f00',
+    'amber-900': '#ff6f00',
+    'amber-a100': '#ffe57f',
+    'amber-a200': '#ffd740',
+    'amber-a400': '#ffc400',
+    'amber-a700': '#ffab00',
+    'orange-50': '#fff3e0',
+    'orange-100': '#ffe0b2',
+    'orange-200': '#ffcc80',
+    'orange-300': '#ffb74d',
+    'orange-400': '#ffa726',
+    'orange-500': '#ff9800',
+    'orange-600': '#fb8c00',
+    'orange-700': '#f57c00',
+    'orange-800': '#ef6c00',
+    'orange-900': '#e65100',
+    'orange-a100': '#ffd180',
+    'orange-a200': '#ffab40',
+    'orange-a400': '#ff9100',
+    'orange-a700': '#ff6d00',
+    'deep-orange-50': '#fbe9e7',
+    'deep-orange-100': '#ffccbc',
+    'deep-orange-200': '#ffab91',
+    'deep-orange-300': '#ff8a65',
+    'deep-orange-400': '#ff7043',
+    'deep-orange-500': '#ff5722',
+    'deep-orange-600': '#f4511e',
+    'deep-orange-700': '#e64a19',
+    'deep-orange-800': '#d84315',
+    'deep-orange-900': '#bf360c',
+    'deep-orange-a100': '#ff9e80',
+    'deep-orange-a200': '#ff6e40',
+    'deep-orange-a400': '#ff3d00',
+    'deep-orange-a700': '#dd2c00',
+    'brown-50': '#efebe9',
+    'brown-100': '#d7ccc8',
+    'brown-200': '#bcaaa4',
+    'brown-300': '#a1887f',
+    'brown-400': '#8d6e63',
+    'brown-500': '#795548',
+    'brown-600': '#6d4c41',
+    'brown-700': '#5d4037',
+    'brown-800': '#4e342e',
+    'brown-900': '#3e2723',
+    'grey-50': '#fafafa',
+    'grey-100': '#f5f5f5',
+    'grey-200': '#eeeeee',
+    'grey-300': '#e0e0e0',
+    'grey-400': '#bdbdbd',
+    'grey-500': '#9e9e9e',
+    'grey-600': '#757575',
+    'grey-700': '#616161',
+    'grey-800': '#424242',
+    'grey-900': '#212121',
+    'blue-grey-50': '#eceff1',
+    'blue-grey-100': '#cfd8dc',
+    'blue-grey-200': '#b0bec5',
+    'blue-grey-300': '#90a4ae',
+    'blue-grey-400': '#78909c',
+    'blue-grey-500': '#607d8b',
+    'blue-grey-600': '#546e7a',
+    'blue-grey-700': '#455a64',
+    'blue-grey-800': '#37474f',
+    'blue-grey-900': '#263238',
+  },
+  radix: {
+    'amber-1': '#fefdfb',
+    'amber-2': '#fefbe9',
+    'amber-3': '#fff7c2',
+    'amber-4': '#ffee9c',
+    'amber-5': '#fbe577',
+    'amber-6': '#f3d673',
+    'amber-7': '#e9c162',
+    'amber-8': '#e2a336',
+    'amber-9': '#ffc53d',
+    'amber-10': '#ffba18',
+    'amber-11': '#ab6400',
+    'amber-12': '#4f3422',
+    'blue-1': '#fbfdff',
+    'blue-2': '#f4faff',
+    'blue-3': '#e6f4fe',
+    'blue-4': '#d5efff',
+    'blue-5': '#c2e5ff',
+    'blue-6': '#acd8fc',
+    'blue-7': '#8ec8f6',
+    'blue-8': '#5eb1ef',
+    'blue-9': '#0090ff',
+    'blue-10': '#0588f0',
+    'blue-11': '#0d74ce',
+    'blue-12': '#113264',
+    'bronze-1': '#fdfcfc',
+    'bronze-2': '#fdf7f5',
+    'bronze-3': '#f6edea',
+    'bronze-4': '#efe4df',
+    'bronze-5': '#e7d9d3',
+    'bronze-6': '#dfcdc5',
+    'bronze-7': '#d3bcb3',
+    'bronze-8': '#c2a499',
+    'bronze-9': '#a18072',
+    'bronze-10': '#957468',
+    'bronze-11': '#7d5e54',
+    'bronze-12': '#43302b',
+    'brown-1': '#fefdfc',
+    'brown-2': '#fcf9f6',
+    'brown-3': '#f6eee7',
+    'brown-4': '#f0e4d9',
+    'brown-5': '#ebdaca',
+    'brown-6': '#e4cdb7',
+    'brown-7': '#dcbc9f',
+    'brown-8': '#cea37e',
+    'brown-9': '#ad7f58',
+    'brown-10': '#a07553',
+    'brown-11': '#815e46',
+    'brown-12': '#3e332e',
+    'crimson-1': '#fffcfd',
+    'crimson-2': '#fef7f9',
+    'crimson-3': '#ffe9f0',
+    'crimson-4': '#fedce7',
+    'crimson-5': '#facedd',
+    'crimson-6': '#f3bed1',
+    'crimson-7': '#eaacc3',
+    'crimson-8': '#e093b2',
+    'crimson-9': '#e93d82',
+    'crimson-10': '#df3478',
+    'crimson-11': '#cb1d63',
+    'crimson-12': '#621639',
+    'cyan-1': '#fafdfe',
+    'cyan-2': '#f2fafb',
+    'cyan-3': '#def7f9',
+    'cyan-4': '#caf1f6',
+    'cyan-5': '#b5e9f0',
+    'cyan-6': '#9ddde7',
+    'cyan-7': '#7dcedc',
+    'cyan-8': '#3db9cf',
+    'cyan-9': '#00a2c7',
+    'cyan-10': '#0797b9',
+    'cyan-11': '#107d98',
+    'cyan-12': '#0d3c48',
+    'gold-1': '#fdfdfc',
+    'gold-2': '#faf9f2',
+    'gold-3': '#f2f0e7',
+    'gold-4': '#eae6db',
+    'gold-5': '#e1dccf',
+    'gold-6': '#d8d0bf',
+    'gold-7': '#cbc0aa',
+    'gold-8': '#b9a88d',
+    'gold-9': '#978365',
+    'gold-10': '#8c7a5e',
+    'gold-11': '#71624b',
+    'gold-12': '#3b352b',
+    'grass-1': '#fbfefb',
+    'grass-2': '#f5fbf5',
+    'grass-3': '#e9f6e9',
+    'grass-4': '#daf1db',
+    'grass-5': '#c9e8ca',
+    'grass-6': '#b2ddb5',
+    'grass-7': '#94ce9a',
+    'grass-8': '#65ba74',
+    'grass-9': '#46a758',
+    'grass-10': '#3e9b4f',
+    'grass-11': '#2a7e3b',
+    'grass-12': '#203c25',
+    'gray-1': '#fcfcfc',
+    'gray-2': '#f9f9f9',
+    'gray-3': '#f0f0f0',
+    'gray-4': '#e8e8e8',
+    'gray-5': '#e0e0e0',
+    'gray-6': '#d9d9d9',
+    'gray-7': '#cecece',
+    'gray-8': '#bbbbbb',
+    'gray-9': '#8d8d8d',
+    'gray-10': '#838383',
+    'gray-11': '#646464',
+    'gray-12': '#202020',
+    'green-1': '#fbfefc',
+    'green-2': '#f4fbf6',
+    'green-3': '#e6f6eb',
+    'green-4': '#d6f1df',
+    'green-5': '#c4e8d1',
+    'green-6': '#adddc0',
+    'green-7': '#8eceaa',
+    'green-8': '#5bb98b',
+    'green-9': '#30a46c',
+    'green-10': '#2b9a66',
+    'green-11': '#218358',
+    'green-12': '#193b2d',
+    'indigo-1': '#fdfdfe',
+    'indigo-2': '#f7f9ff',
+    'indigo-3': '#edf2fe',
+    'indigo-4': '#e1e9ff',
+    'indigo-5': '#d2deff',
+    'indigo-6': '#c1d0ff',
+    'indigo-7': '#abbdf9',
+    'indigo-8': '#8da4ef',
+    'indigo-9': '#3e63dd',
+    'indigo-10': '#3358d4',
+    'indigo-11': '#3a5bc7',
+    'indigo-12': '#1f2d5c',
+    'iris-1': '#fdfdff',
+    'iris-2': '#f8f8ff',
+    'iris-3': '#f0f1fe',
+    'iris-4': '#e6e7ff',
+    'iris-5': '#dadcff',
+    'iris-6': '#cbcdff',
+    'iris-7': '#b8baf8',
+    'iris-8': '#9b9ef0',
+    'iris-9': '#5b5bd6',
+    'iris-10': '#5151cd',
+    'iris-11': '#5753c6',
+    'iris-12': '#272962',
+    'jade-1': '#fbfefd',
+    'jade-2': '#f4fbf7',
+    'jade-3': '#e6f7ed',
+    'jade-4': '#d6f1e3',
+    'jade-5': '#c3e9d7',
+    'jade-6': '#acdec8',
+    'jade-7': '#8bceb6',
+    'jade-8': '#56ba9f',
+    'jade-9': '#29a383',
+    'jade-10': '#26997b',
+    'jade-11': '#208368',
+    'jade-12': '#1d3b31',
+    'lime-1': '#fcfdfa',
+    'lime-2': '#f8faf3',
+    'lime-3': '#eef6d6',
+    'lime-4': '#e2f0bd',
+    'lime-5': '#d3e7a6',
+    'lime-6': '#c2da91',
+    'lime-7': '#abc978',
+    'lime-8': '#8db654',
+    'lime-9': '#bdee63',
+    'lime-10': '#b0e64c',
+    'lime-11': '#5c7c2f',
+    'lime-12': '#37401c',
+    'mauve-1': '#fdfcfd',
+    'mauve-2': '#faf9fb',
+    'mauve-3': '#f2eff3',
+    'mauve-4': '#eae7ec',
+    'mauve-5': '#e3dfe6',
+    'mauve-6': '#dbd8e0',
+    'mauve-7': '#d0cdd7',
+    'mauve-8': '#bcbac7',
+    'mauve-9': '#8e8c99',
+    'mauve-10': '#84828e',
+    'mauve-11': '#65636d',
+    'mauve-12': '#211f26',
+    'mint-1': '#f9fefd',
+    'mint-2': '#f2fbf9',
+    'mint-3': '#ddf9f2',
+    'mint-4': '#c8f4e9',
+    'mint-5': '#b3ecde',
+    'mint-6': '#9ce0d0',
+    'mint-7': '#7ecfbd',
+    'mint-8': '#4cbba5',
+    'mint-9': '#86ead4',
+    'mint-10': '#7de0cb',
+    'mint-11': '#027864',
+    'mint-12': '#16433c',
+    'olive-1': '#fcfdfc',
+    'olive-2': '#f8faf8',
+    'olive-3': '#eff1ef',
+    'olive-4': '#e7e9e7',
+    'olive-5': '#dfe2df',
+    'olive-6': '#d7dad7',
+    'olive-7': '#cccfcc',
+    'olive-8': '#b9bcb8',
+    'olive-9': '#898e87',
+    'olive-10': '#7f847d',
+    'olive-11': '#60655f',
+    'olive-12': '#1d211c',
+    'orange-1': '#fefcfb',
+    'orange-2': '#fff7ed',
+    'orange-3': '#ffefd6',
+    'orange-4': '#ffdfb5',
+    'orange-5': '#ffd19a',
+    'orange-6': '#ffc182',
+    'orange-7': '#f5ae73',
+    'orange-8': '#ec9455',
+    'orange-9': '#f76b15',
+    'orange-10': '#ef5f00',
+    'orange-11': '#cc4e00',
+    'orange-12': '#582d1d',
+    'pink-1': '#fffcfe',
+    'pink-2': '#fef7fb',
+    'pink-3': '#fee9f5',
+    'pink-4': '#fbdcef',
+    'pink-5': '#f6cee7',
+    'pink-6': '#efbfdd',
+    'pink-7': '#e7acd0',
+    'pink-8': '#dd93c2',
+    'pink-9': '#d6409f',
+    'pink-10': '#cf3897',
+    'pink-11': '#c2298a',
+    'pink-12': '#651249',
+    'plum-1': '#fefcff',
+    'plum-2': '#fdf7fd',
+    'plum-3': '#fbebfb',
+    'plum-4': '#f7def8',
+    'plum-5': '#f2d1f3',
+    'plum-6': '#e9c2ec',
+    'plum-7': '#deade3',
+    'plum-8': '#cf91d8',
+    'plum-9': '#ab4aba',
+    'plum-10': '#a144af',
+    'plum-11': '#953ea3',
+    'plum-12': '#53195d',
+    'purple-1': '#fefcfe',
+    'purple-2': '#fbf7fe',
+    'purple-3': '#f7edfe',
+    'purple-4': '#f2e2fc',
+    'purple-5': '#ead5f9',
+    'purple-6': '#e0c4f4',
+    'purple-7': '#d1afec',
+    'purple-8': '#be93e4',
+    'purple-9': '#8e4ec6',
+    'purple-10': '#8347b9',
+    'purple-11': '#8145b5',
+    'purple-12': '#402060',
+    'red-1': '#fffcfc',
+    'red-2': '#fff7f7',
+    'red-3': '#feebec',
+    'red-4': '#ffdbdc',
+    'red-5': '#ffcdce',
+    'red-6': '#fdbdbe',
+    'red-7': '#f4a9aa',
+    'red-8': '#eb8e90',
+    'red-9': '#e5484d',
+    'red-10': '#dc3e42',
+    'red-11': '#ce2c31',
+    'red-12': '#641723',
+    'ruby-1': '#fffcfd',
+    'ruby-2': '#fff7f8',
+    'ruby-3': '#feeaed',
+    'ruby-4': '#ffdce1',
+    'ruby-5': '#ffced6',
+    'ruby-6': '#f8bfc8',
+    'ruby-7': '#efacb8',
+    'ruby-8': '#e592a3',
+    'ruby-9': '#e54666',
+    'ruby-10': '#dc3b5d',
+    'ruby-11': '#ca244d',
+    'ruby-12': '#64172b',
+    'sage-1': '#fbfdfc',
+    'sage-2': '#f7f9f8',
+    'sage-3': '#eef1f0',
+    'sage-4': '#e6e9e8',
+    'sage-5': '#dfe2e0',
+    'sage-6': '#d7dad9',
+    'sage-7': '#cbcfcd',
+    'sage-8': '#b8bcba',
+    'sage-9': '#868e8b',
+    'sage-10': '#7c8481',
+    'sage-11': '#5f6563',
+    'sage-12': '#1a211e',
+    'sand-1': '#fdfdfc',
+    'sand-2': '#f9f9f8',
+    'sand-3': '#f1f0ef',
+    'sand-4': '#e9e8e6',
+    'sand-5': '#e2e1de',
+    'sand-6': '#dad9d6',
+    'sand-7': '#cfceca',
+    'sand-8': '#bcbbb5',
+    'sand-9': '#8d8d86',
+    'sand-10': '#82827c',
+    'sand-11': '#63635e',
+    'sand-12': '#21201c',
+    'sky-1': '#f9feff',
+    'sky-2': '#f1fafd',
+    'sky-3': '#e1f6fd',
+    'sky-4': '#d1f0fa',
+    'sky-5': '#bee7f5',
+    'sky-6': '#a9daed',
+    'sky-7': '#8dcae3',
+    'sky-8': '#60b3d7',
+    'sky-9': '#7ce2fe',
+    'sky-10': '#74daf8',
+    'sky-11': '#00749e',
+    'sky-12': '#1d3e56',
+    'slate-1': '#fcfcfd',
+    'slate-2': '#f9f9fb',
+    'slate-3': '#f0f0f3',
+    'slate-4': '#e8e8ec',
+    'slate-5': '#e0e1e6',
+    'slate-6': '#d9d9e0',
+    'slate-7': '#cdced6',
+    'slate-8': '#b9bbc6',
+    'slate-9': '#8b8d98',
+    'slate-10': '#80838d',
+    'slate-11': '#60646c',
+    'slate-12': '#1c2024',
+    'teal-1': '#fafefd',
+    'teal-2': '#f3fbf9',
+    'teal-3': '#e0f8f3',
+    'teal-4': '#ccf3ea',
+    'teal-5': '#b8eae0',
+    'teal-6': '#a1ded2',
+    'teal-7': '#83cdc1',
+    'teal-8': '#53b9ab',
+    'teal-9': '#12a594',
+    'teal-10': '#0d9b8a',
+    'teal-11': '#008573',
+    'teal-12': '#0d3d38',
+    'tomato-1': '#fffcfc',
+    'tomato-2': '#fff8f7',
+    'tomato-3': '#feebe7',
+    'tomato-4': '#ffdcd3',
+    'tomato-5': '#ffcdc2',
+    'tomato-6': '#fdbdaf',
+    'tomato-7': '#f5a898',
+    'tomato-8': '#ec8e7b',
+    'tomato-9': '#e54d2e',
+    'tomato-10': '#dd4425',
+    'tomato-11': '#d13415',
+    'tomato-12': '#5c271f',
+    'violet-1': '#fdfcfe',
+    'violet-2': '#faf8ff',
+    'violet-3': '#f4f0fe',
+    'violet-4': '#ebe4ff',
+    'violet-5': '#e1d9ff',
+    'violet-6': '#d4cafe',
+    'violet-7': '#c2b5f5',
+    'violet-8': '#aa99ec',
+    'violet-9': '#6e56cf',
+    'violet-10': '#654dc4',
+    'violet-11': '#6550b9',
+    'violet-12': '#2f265f',
+    'yellow-1': '#fdfdf9',
+    'yellow-2': '#fefce9',
+    'yellow-3': '#fffab8',
+    'yellow-4': '#fff394',
+    'yellow-5': '#ffe770',
+    'yellow-6': '#f3d768',
+    'yellow-7': '#e4c767',
+    'yellow-8': '#d5ae39',
+    'yellow-9': '#ffe629',
+    'yellow-10': '#ffdc00',
+    'yellow-11': '#9e6c00',
+    'yellow-12': '#473b1f',
+  },
+};
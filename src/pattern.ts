@@ -0,0 +1,51 @@
+import { escapeXML } from './util';
+
+export type PatternKind = 'grid' | 'checker' | 'stripes' | 'dots' | 'cross';
+
+export interface PatternOptions {
+  kind: PatternKind;
+  color: string;
+  size: number;
+  opacity: number;
+  base?: string;
+}
+
+export const PATTERN_ID = 'bgPattern';
+
+export function buildPatternDef(pattern: PatternOptions): string {
+  const { kind, size, base } = pattern;
+  const color = escapeXML(pattern.color);
+  const line = Math.max(1, round(size / 16));
+  const half = round(size / 2);
+
+  const baseRect = base
+    ? `<rect width="${size}" height="${size}" fill="${escapeXML(base)}"/>`
+    : '';
+
+  let tile: string;
+  let transform = '';
+  switch (kind) {
+    case 'grid':
+      tile = `<path d="M${size} 0H0V${size}" fill="none" stroke="${color}" stroke-width="${line}"/>`;
+      break;
+    case 'checker':
+      tile = `<rect width="${half}" height="${half}" fill="${color}"/><rect x="${half}" y="${half}" width="${half}" height="${half}" fill="${color}"/>`;
+      break;
+    case 'stripes':
+      tile = `<rect width="${half}" height="${size}" fill="${color}"/>`;
+      transform = ' patternTransform="rotate(45)"';
+      break;
+    case 'dots':
+      tile = `<circle cx="${half}" cy="${half}" r="${round(size * 0.15)}" fill="${color}"/>`;
+      break;
+    case 'cross':
+      tile = `<path d="M0 0L${size} ${size}M${size} 0L0 ${size}" fill="none" stroke="${color}" stroke-width="${line}"/>`;
+      break;
+  }
+
+  return `<pattern id="${PATTERN_ID}" patternUnits="userSpaceOnUse" width="${size}" height="${size}"${transform}>${baseRect}${tile}</pattern>`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,117 @@
+import { DimensionError, SizePresetError } from './errors';
+import { Dimensions, clampDims, parseDims, suggestClosest } from './util';
+
+export interface ResolvedDims extends Dimensions {
+  // Number of path segments the size took up; `/16:9/800` uses two.
+  consumed: number;
+}
+
+export const SIZE_PRESETS: Record<string, Dimensions> = {
+  // Social and web
+  og: { width: 1200, height: 630 },
+  twitter: { width: 1200, height: 675 },
+  facebook: { width: 1200, height: 630 },
+  linkedin: { width: 1200, height: 627 },
+  instagram: { width: 1080, height: 1080 },
+  'instagram-portrait': { width: 1080, height: 1350 },
+  story: { width: 1080, height: 1920 },
+  youtube: { width: 1280, height: 720 },
+  favicon: { width: 32, height: 32 },
+  avatar: { width: 256, height: 256 },
+  square: { width: 1080, height: 1080 },
+  // Video and screens
+  sd: { width: 640, height: 480 },
+  hd: { width: 1280, height: 720 },
+  fhd: { width: 1920, height: 1080 },
+  '1080p': { width: 1920, height: 1080 },
+  qhd: { width: 2560, height: 1440 },
+  '4k': { width: 3840, height: 2160 },
+  // IAB ad units
+  'banner-728': { width: 728, height: 90 },
+  'banner-468': { width: 468, height: 60 },
+  'banner-320': { width: 320, height: 50 },
+  mrec: { width: 300, height: 250 },
+  skyscraper: { width: 160, height: 600 },
+  'half-page': { width: 300, height: 600 },
+  billboard: { width: 970, height: 250 },
+  // Devices, in CSS pixels
+  'iphone-se': { width: 375, height: 667 },
+  'iphone-15': { width: 393, height: 852 },
+  'iphone-15-pro': { width: 393, height: 852 },
+  'iphone-15-plus': { width: 430, height: 932 },
+  'iphone-15-pro-max': { width: 430, height: 932 },
+  'pixel-8': { width: 412, height: 915 },
+  'galaxy-s24': { width: 360, height: 780 },
+  ipad: { width: 820, height: 1180 },
+  'ipad-pro': { width: 1024, height: 1366 },
+  'macbook-air': { width: 1470, height: 956 },
+  desktop: { width: 1440, height: 900 },
+};
+
+// Paper sizes in millimetres, rendered at `@<n>dpi` (96 when omitted).
+export const PAPER_SIZES: Record<string, [number, number]> = {
+  a3: [297, 420],
+  a4: [210, 297],
+  a5: [148, 210],
+  a6: [105, 148],
+  letter: [215.9, 279.4],
+  legal: [215.9, 355.6],
+};
+
+const DEFAULT_DPI = 96;
+const MAX_DPI = 1200;
+const MM_PER_INCH = 25.4;
+
+export function resolveDims(segments: string[]): ResolvedDims {
+  const [first = '', second] = segments;
+  const value = first.trim().toLowerCase();
+
+  const ratioMatch = /^(\d{1,3}(?:\.\d{1,2})?):(\d{1,3}(?:\.\d{1,2})?)$/.exec(value);
+  if (ratioMatch) {
+    const widthMatch = second ? /^\d{1,4}$/.exec(second.trim()) : null;
+    const ratioWidth = parseFloat(ratioMatch[1]);
+    const ratioHeight = parseFloat(ratioMatch[2]);
+    if (!widthMatch || !ratioWidth || !ratioHeight) {
+      throw new DimensionError(first, {
+        message: 'Aspect ratios need a width, e.g. /16:9/800',
+        suggestion: `${value}/800`,
+      });
+    }
+    const width = parseInt(widthMatch[0], 10);
+    const height = Math.max(1, Math.round((width * ratioHeight) / ratioWidth));
+    return { ...clampDims(width, height), consumed: 2 };
+  }
+
+  if (/^[\dx]+$/.test(value)) {
+    return { ...parseDims(first), consumed: 1 };
+  }
+
+  const preset = resolvePreset(value);
+  return { ...clampDims(preset.width, preset.height), consumed: 1 };
+}
+
+function resolvePreset(value: string): Dimensions {
+  if (Object.hasOwn(SIZE_PRESETS, value)) {
+    return SIZE_PRESETS[value];
+  }
+
+  const paperMatch = /^([a-z0-9]+)(?:@(\d{1,4})dpi)?$/.exec(value);
+  if (paperMatch && Object.hasOwn(PAPER_SIZES, paperMatch[1])) {
+    const dpi = Math.min(parseInt(paperMatch[2] ?? `${DEFAULT_DPI}`, 10), MAX_DPI);
+    const [widthMm, heightMm] = PAPER_SIZES[paperMatch[1]];
+    return {
+      width: Math.round((widthMm / MM_PER_INCH) * dpi),
+      height: Math.round((heightMm / MM_PER_INCH) * dpi),
+    };
+  }
+
+  // The help output adds "Did you mean" for the suggestion.
+  throw new SizePresetError(value, { suggestion: suggestPresets(value)[0] });
+}
+
+export function suggestPresets(value: string): string[] {
+  return suggestClosest(value.replace(/@.*$/, ''), [
+    ...Object.keys(SIZE_PRESETS),
+    ...Object.keys(PAPER_SIZES),
+  ]);
+}
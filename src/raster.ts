@@ -0,0 +1,113 @@
+import { Resvg, initWasm } from '@resvg/resvg-wasm';
+import resvgWasm from '@resvg/resvg-wasm/index_bg.wasm';
+import encodeAvif, { init as initAvif } from '@jsquash/avif/encode';
+import avifWasm from '@jsquash/avif/codec/enc/avif_enc.wasm';
+import encodeJpeg, { init as initJpeg } from '@jsquash/jpeg/encode';
+import jpegWasm from '@jsquash/jpeg/codec/enc/mozjpeg_enc.wasm';
+import encodeWebp, { init as initWebp } from '@jsquash/webp/encode';
+import webpWasm from '@jsquash/webp/codec/enc/webp_enc_simd.wasm';
+
+import { RasterError } from './errors';
+import { RasterFormat } from './format';
+
+export interface RasterOptions {
+  format: RasterFormat;
+  scale: number;
+  // The faces the text is drawn with: the requested font, or Inter. Without
+  // one, nothing draws text.
+  font?: { family: string; faces: ArrayBuffer[] };
+}
+
+const RASTER_FONT_FAMILY = 'Inter';
+const JPEG_BACKGROUND = '#ffffff';
+
+type CodecInit = (module: WebAssembly.Module) => Promise<unknown>;
+
+let resvgReady: Promise<void> | undefined;
+const codecReady: Partial<Record<RasterFormat, Promise<unknown>>> = {};
+
+// Failures in resvg or a codec are ours, not the client's, and their
+// messages are WASM internals, so they surface as a plain RasterError.
+export async function rasterize(
+  svg: string,
+  options: RasterOptions,
+): Promise<ArrayBuffer> {
+  try {
+    return await render(svg, options);
+  } catch {
+    throw new RasterError(options.format);
+  }
+}
+
+async function render(svg: string, options: RasterOptions): Promise<ArrayBuffer> {
+  const { format, scale, font } = options;
+
+  // A failed init is dropped, so the next request tries again.
+  resvgReady ??= initWasm(resvgWasm).catch((error: unknown) => {
+    resvgReady = undefined;
+    throw error;
+  });
+  await resvgReady;
+
+  const resvg = new Resvg(svg, {
+    fitTo: { mode: 'zoom', value: scale },
+    background: format === 'jpg' ? JPEG_BACKGROUND : undefined,
+    font: {
+      fontBuffers: (font?.faces ?? []).map((face) => new Uint8Array(face)),
+      loadSystemFonts: false,
+      defaultFontFamily: font?.family ?? RASTER_FONT_FAMILY,
+      sansSerifFamily: RASTER_FONT_FAMILY,
+    },
+  });
+
+  const rendered = resvg.render();
+  try {
+    if (format === 'png') {
+      // Copy out of WASM memory so the buffer outlives `free()` below.
+      return rendered.asPng().slice().buffer as ArrayBuffer;
+    }
+
+    const image = {
+      data: new Uint8ClampedArray(rendered.pixels),
+      width: rendered.width,
+      height: rendered.height,
+      colorSpace: 'srgb',
+    } as ImageData;
+
+    return await encode(image, format);
+  } finally {
+    rendered.free();
+    resvg.free();
+  }
+}
+
+async function encode(
+  image: ImageData,
+  format: Exclude<RasterFormat, 'png'>,
+): Promise<ArrayBuffer> {
+  switch (format) {
+    case 'webp':
+      await initCodec('webp', initWebp, webpWasm);
+      return encodeWebp(image);
+    case 'avif':
+      await initCodec('avif', initAvif, avifWasm);
+      return encodeAvif(image);
+    case 'jpg':
+      await initCodec('jpg', initJpeg, jpegWasm);
+      return encodeJpeg(image);
+  }
+}
+
+function initCodec(
+  format: RasterFormat,
+  init: unknown,
+  module: WebAssembly.Module,
+): Promise<unknown> {
+  // The jSquash typings omit the precompiled-module overload that Workers
+  // need, since Workers cannot fetch .wasm files at runtime.
+  codecReady[format] ??= (init as CodecInit)(module).catch((error: unknown) => {
+    delete codecReady[format];
+    throw error;
+  });
+  return codecReady[format] as Promise<unknown>;
+}
@@ -0,0 +1,123 @@
+import { ColorError } from './errors';
+import { escapeXML, hashString, parseColor } from './util';
+
+export interface Seed {
+  value: string;
+  digest: string;
+}
+
+export interface IdenticonLayout {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export const SEED_PREFIX = 'seed:';
+
+const IDENTICON_GRID = 5;
+// Saturation and lightness stay in a band where every hue is pleasant and
+// either black or white text stays readable.
+const SEED_SATURATION = [45, 70];
+const SEED_LIGHTNESS = [42, 58];
+const MAX_INITIALS = 2;
+
+export function isSeed(value: string): boolean {
+  return value.trim().toLowerCase().startsWith(SEED_PREFIX);
+}
+
+export function parseSeed(value: string): string {
+  const seed = (isSeed(value) ? value.trim().slice(SEED_PREFIX.length) : value).trim();
+  if (!seed) {
+    throw new ColorError(value, { message: 'Empty seed' });
+  }
+  return seed;
+}
+
+// Seeds are case-insensitive so `Alice@Example.com` and `alice@example.com`
+// get the same avatar.
+export async function hashSeed(value: string): Promise<Seed> {
+  return { value, digest: await hashString(value.toLowerCase()) };
+}
+
+export function seedColor(seed: Seed): string {
+  const { digest } = seed;
+  const hue = parseInt(digest.slice(0, 4), 16) % 360;
+  const saturation = pick(digest.slice(4, 6), SEED_SATURATION);
+  const lightness = pick(digest.slice(6, 8), SEED_LIGHTNESS);
+  return parseColor(`hsl(${hue}, ${saturation}%, ${lightness}%)`);
+}
+
+// `Jane Doe` and `jane.doe@example.com` give JD; a single word gives its
+// first letter.
+export function seedInitials(value: string): string {
+  const name = value.includes('@') ? value.slice(0, value.indexOf('@')) : value;
+  const words = name
+    .split(/[\s._+-]+/)
+    .map((word) => word.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(Boolean);
+  if (!words.length) {
+    return '';
+  }
+  const picked = words.length === 1 ? words : [words[0], words[words.length - 1]];
+  return picked
+    .slice(0, MAX_INITIALS)
+    .map((word) => Array.from(word)[0].toUpperCase())
+    .join('');
+}
+
+export function layoutIdenticon(options: {
+  width: number;
+  height: number;
+  pad: number;
+}): IdenticonLayout {
+  const { width, height, pad } = options;
+  const side = Math.min(width, height);
+  // Keep a margin like GitHub's avatars even when no padding is asked for.
+  const margin = Math.max(pad, side / 12);
+  const size = Math.max(0, side - margin * 2);
+  return {
+    x: round((width - size) / 2),
+    y: round((height - size) / 2),
+    size: round(size),
+  };
+}
+
+// A 5x5 grid mirrored around the middle column, as on GitHub. Each of the
+// 15 unique cells is filled when its digest nibble is even.
+export function buildIdenticon(
+  seed: Seed,
+  layout: IdenticonLayout,
+  fill: string,
+): string {
+  const cell = layout.size / IDENTICON_GRID;
+  if (!cell) {
+    return '';
+  }
+
+  const half = Math.ceil(IDENTICON_GRID / 2);
+  const rects: string[] = [];
+  for (let column = 0; column < half; column += 1) {
+    for (let row = 0; row < IDENTICON_GRID; row += 1) {
+      const nibble = parseInt(seed.digest[8 + column * IDENTICON_GRID + row], 16);
+      if (nibble % 2 !== 0) {
+        continue;
+      }
+      const mirrored = IDENTICON_GRID - 1 - column;
+      for (const x of mirrored === column ? [column] : [column, mirrored]) {
+        rects.push(
+          `<rect x="${round(layout.x + x * cell)}" y="${round(layout.y + row * cell)}" width="${round(cell)}" height="${round(cell)}"/>`,
+        );
+      }
+    }
+  }
+
+  return rects.length ? `<g fill="${escapeXML(fill)}">${rects.join('')}</g>` : '';
+}
+
+function pick(hex: string, [min, max]: number[]): number {
+  return min + Math.round((parseInt(hex, 16) / 255) * (max - min));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,76 @@
+// A unit wrapText may start a new line before. `space` is set when the
+// source had whitespace in front of it, which the line keeps when the two
+// units end up on the same line.
+export interface BreakUnit {
+  text: string;
+  space: boolean;
+}
+
+// Longest text drawn in one place, in graphemes.
+export const MAX_TEXT_LENGTH = 120;
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+// Scripts written without spaces between words, where a line may break
+// between any two characters.
+const IDEOGRAPHIC = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\uff00-\uffef]/u;
+// Closing punctuation and small kana that may not start a line, and opening
+// brackets that may not end one (the kinsoku shori rules, simplified).
+const NO_BREAK_BEFORE = new Set(
+  Array.from('、。，．・：；？！ー…‥」』）】〕〉》〙〗｝］ぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ々〻゛゜'),
+);
+const NO_BREAK_AFTER = new Set(Array.from('「『（【〔〈《〘〖｛［'));
+
+// User-perceived characters: an emoji ZWJ sequence, a flag or a letter with
+// its combining marks each come back as one string.
+export function splitGraphemes(text: string): string[] {
+  return Array.from(graphemeSegmenter.segment(text), ({ segment }) => segment);
+}
+
+// Splits text at whitespace and between ideographs, the places a line may
+// break.
+export function splitBreakUnits(text: string): BreakUnit[] {
+  const units: BreakUnit[] = [];
+  for (const [index, word] of text.trim().split(/\s+/).entries()) {
+    if (!word) {
+      continue;
+    }
+    let current = '';
+    let previous: string | undefined;
+    let space = index > 0;
+    for (const grapheme of splitGraphemes(word)) {
+      if (previous !== undefined && canBreakBetween(previous, grapheme)) {
+        units.push({ text: current, space });
+        current = '';
+        space = false;
+      }
+      current += grapheme;
+      previous = grapheme;
+    }
+    units.push({ text: current, space });
+  }
+  return units;
+}
+
+function canBreakBetween(before: string, after: string): boolean {
+  if (!IDEOGRAPHIC.test(before) && !IDEOGRAPHIC.test(after)) {
+    return false;
+  }
+  return !NO_BREAK_BEFORE.has(after) && !NO_BREAK_AFTER.has(before);
+}
+
+// Counts graphemes, so the cut never splits an emoji or a combining mark
+// from its letter.
+export function clampText(value: string): string {
+  if (!value) {
+    return '';
+  }
+  const graphemes = splitGraphemes(value);
+  if (graphemes.length <= MAX_TEXT_LENGTH) {
+    return value;
+  }
+  if (MAX_TEXT_LENGTH <= 3) {
+    return '.'.repeat(MAX_TEXT_LENGTH);
+  }
+  return `${graphemes.slice(0, MAX_TEXT_LENGTH - 3).join('')}...`;
+}
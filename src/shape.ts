@@ -0,0 +1,168 @@
+import { escapeXML, parseColor } from './util';
+
+export type ShapeKind = 'rect' | 'circle' | 'ellipse' | 'squircle';
+
+// Corner radii in CSS order: top-left, top-right, bottom-right, bottom-left.
+export type Corners = [number, number, number, number];
+
+export interface DropShadow {
+  dx: number;
+  dy: number;
+  blur: number;
+  // Without a color the shadow is black at `opacity`.
+  color?: string;
+  opacity?: number;
+}
+
+export interface ShapeGeometry {
+  kind: ShapeKind;
+  width: number;
+  height: number;
+  radius: Corners;
+  // Distance the outline is pulled in from the canvas edge, so an inset
+  // border is drawn whole instead of half clipped.
+  inset?: number;
+}
+
+export const DEFAULT_SHADOW: DropShadow = { dx: 0, dy: 2, blur: 3, opacity: 0.25 };
+
+const MAX_DASHES = 8;
+
+// `radius=12` or the CSS shorthand `radius=tl,tr,br,bl`, where two values
+// are tl/br and tr/bl and three are tl, tr/bl and br.
+export function parseCorners(value: string): Corners | undefined {
+  const parts = value.split(',').map((part) => parseFloat(part));
+  if (!parts.length || parts.length > 4 || parts.some((part) => !Number.isFinite(part))) {
+    return undefined;
+  }
+  const [tl, tr = tl, br = tl, bl = tr] = parts;
+  return [tl, tr, br, bl];
+}
+
+// `dash=4,2`: alternating dash and gap lengths, as in stroke-dasharray.
+export function parseDash(value: string): number[] | undefined {
+  const parts = value.split(',').map((part) => parseFloat(part));
+  if (
+    parts.length > MAX_DASHES ||
+    parts.some((part) => !Number.isFinite(part) || part < 0) ||
+    !parts.some((part) => part > 0)
+  ) {
+    return undefined;
+  }
+  return parts;
+}
+
+// `shadow=1` for the default shadow, or `shadow=dx,dy[,blur[,color]]`. The
+// color may itself contain commas, as in `rgb(0,0,0,0.3)`.
+export function parseShadow(value: string): DropShadow | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'true' || normalized === '1' || normalized === 'yes') {
+    return DEFAULT_SHADOW;
+  }
+
+  const parts = value.split(',');
+  const numbers: number[] = [];
+  while (numbers.length < 3 && parts.length && /^\s*-?[\d.]+\s*$/.test(parts[0])) {
+    numbers.push(parseFloat(parts.shift() as string));
+  }
+  const [dx, dy, blur = DEFAULT_SHADOW.blur] = numbers;
+  if (numbers.length < 2 || numbers.some((number) => !Number.isFinite(number))) {
+    return undefined;
+  }
+
+  const color = parts.join(',').trim();
+  return color
+    ? { dx, dy, blur: Math.max(0, blur), color: parseColor(color) }
+    : { dx, dy, blur: Math.max(0, blur), opacity: DEFAULT_SHADOW.opacity };
+}
+
+// Each radius is capped at half the shorter side, like a single `rx`.
+export function clampCorners(corners: Corners, width: number, height: number): Corners {
+  const limit = Math.min(width, height) / 2;
+  return corners.map((radius) => Math.min(Math.max(radius, 0), limit)) as Corners;
+}
+
+export function scaleCorners(corners: Corners, scale: number): Corners {
+  return corners.map((radius) => radius * scale) as Corners;
+}
+
+// The background outline as an SVG element, with `attributes` (fill, stroke,
+// filter) appended.
+export function buildShape(geometry: ShapeGeometry, attributes: string): string {
+  const { kind, width, height, inset = 0 } = geometry;
+  const cx = round(width / 2);
+  const cy = round(height / 2);
+
+  switch (kind) {
+    case 'circle':
+      return `<circle cx="${cx}" cy="${cy}" r="${round(Math.max(0, Math.min(width, height) / 2 - inset))}"${attributes} />`;
+    case 'ellipse':
+      return `<ellipse cx="${cx}" cy="${cy}" rx="${round(Math.max(0, width / 2 - inset))}" ry="${round(Math.max(0, height / 2 - inset))}"${attributes} />`;
+    case 'squircle':
+      return `<path d="${squirclePath(inset, inset, width - inset * 2, height - inset * 2)}"${attributes} />`;
+    case 'rect':
+    default:
+      return buildRoundedRect(geometry, attributes);
+  }
+}
+
+function buildRoundedRect(geometry: ShapeGeometry, attributes: string): string {
+  const { width, height, inset = 0 } = geometry;
+  const radius = geometry.radius.map((corner) => Math.max(0, corner - inset)) as Corners;
+  const position = inset ? ` x="${round(inset)}" y="${round(inset)}"` : '';
+  const size = `width="${round(width - inset * 2)}" height="${round(height - inset * 2)}"`;
+
+  if (radius.every((corner) => corner === radius[0])) {
+    const corners = radius[0] ? ` rx="${round(radius[0])}" ry="${round(radius[0])}"` : '';
+    return `<rect${position} ${size}${corners}${attributes} />`;
+  }
+  return `<path d="${cornersPath(inset, inset, width - inset * 2, height - inset * 2, radius)}"${attributes} />`;
+}
+
+function cornersPath(x: number, y: number, width: number, height: number, radius: Corners): string {
+  const [tl, tr, br, bl] = radius.map(round);
+  const right = round(x + width);
+  const bottom = round(y + height);
+  return [
+    `M${round(x + tl)} ${round(y)}`,
+    `H${round(right - tr)}`,
+    tr ? `A${tr} ${tr} 0 0 1 ${right} ${round(y + tr)}` : '',
+    `V${round(bottom - br)}`,
+    br ? `A${br} ${br} 0 0 1 ${round(right - br)} ${bottom}` : '',
+    `H${round(x + bl)}`,
+    bl ? `A${bl} ${bl} 0 0 1 ${round(x)} ${round(bottom - bl)}` : '',
+    `V${round(y + tl)}`,
+    tl ? `A${tl} ${tl} 0 0 1 ${round(x + tl)} ${round(y)}` : '',
+    'Z',
+  ].join('');
+}
+
+// A superellipse-like outline: each side bulges out to cubic control points
+// in the corners, which reads as the continuous curve of app icons.
+function squirclePath(x: number, y: number, width: number, height: number): string {
+  const left = round(x);
+  const top = round(y);
+  const right = round(x + width);
+  const bottom = round(y + height);
+  const cx = round(x + width / 2);
+  const cy = round(y + height / 2);
+  return [
+    `M${left} ${cy}`,
+    `C${left} ${top} ${left} ${top} ${cx} ${top}`,
+    `S${right} ${top} ${right} ${cy}`,
+    `S${right} ${bottom} ${cx} ${bottom}`,
+    `S${left} ${bottom} ${left} ${cy}`,
+    'Z',
+  ].join('');
+}
+
+export function buildShadowFilter(id: string, shadow: DropShadow): string {
+  const { dx, dy, blur, color, opacity } = shadow;
+  const colorAttr = color ? ` flood-color="${escapeXML(color)}"` : '';
+  const opacityAttr = opacity !== undefined ? ` flood-opacity="${opacity}"` : '';
+  return `<filter id="${id}" x="-20%" y="-20%" width="140%" height="140%"><feDropShadow dx="${round(dx)}" dy="${round(dy)}" stdDeviation="${round(blur)}"${colorAttr}${opacityAttr}/></filter>`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,58 @@
+import { escapeXML } from './util';
+
+export type OutputMode = 'image' | 'html' | 'datauri' | 'css';
+
+export interface ImgTagOptions {
+  src: string;
+  srcset: string;
+  width: number;
+  height: number;
+  alt: string;
+}
+
+export const SNIPPET_CONTENT_TYPES: Record<Exclude<OutputMode, 'image'>, string> = {
+  html: 'text/html; charset=utf-8',
+  datauri: 'text/plain; charset=utf-8',
+  css: 'text/css; charset=utf-8',
+};
+
+// SVG stays readable as a URL-encoded data URI, and that is usually smaller
+// than base64. Raster formats always need base64.
+export function buildDataUri(
+  body: string | ArrayBuffer,
+  mediaType: string,
+  base64 = false,
+): string {
+  const type = mediaType.replace(/;\s*charset=[^;]+/i, '');
+  if (typeof body === 'string' && !base64) {
+    return `data:${type},${encodeSvg(body)}`;
+  }
+  const bytes =
+    typeof body === 'string' ? new TextEncoder().encode(body) : new Uint8Array(body);
+  return `data:${type};base64,${toBase64(bytes)}`;
+}
+
+export function buildImgTag(options: ImgTagOptions): string {
+  const { src, srcset, width, height, alt } = options;
+  return `<img src="${escapeXML(src)}" srcset="${escapeXML(srcset)}" width="${width}" height="${height}" alt="${escapeXML(alt)}">`;
+}
+
+export function buildCssRule(dataUri: string): string {
+  return `background-image: url("${dataUri}");`;
+}
+
+// Percent-encodes only what a data URI inside `url("...")` or an HTML
+// attribute can't hold, so the markup stays legible.
+function encodeSvg(svg: string): string {
+  return encodeURIComponent(svg).replace(/%(20|3D|3A|2F|2C|3B|40)/g, (escape) =>
+    decodeURIComponent(escape),
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,454 @@
+import { DirectionMode } from './bidi';
+import { ContrastLevel } from './contrast';
+import { AltboxError, FieldError, SpecError } from './errors';
+import { FitMode } from './fit';
+import { OutputFormat, parseFormat, splitFormatExtension } from './format';
+import { LabelMode } from './label';
+import { Layer, layerFieldFor, layerParams, parseLayerSpecs, readLayers } from './layers';
+import { PatternKind } from './pattern';
+import { resolveDims } from './presets';
+import { ShapeKind } from './shape';
+import { OutputMode } from './snippet';
+import { Align, VerticalAlign, suggestClosest } from './util';
+
+export const SPEC_VERSION = 1;
+
+// The typed form of a placeholder URL. `size`, `bg` and `fg` are the path
+// segments and every other field is a query parameter under a readable
+// name, so `/600x300/navy?says=Hi&lh=1.4` is
+// `{ v: 1, size: "600x300", bg: "navy", text: "Hi", lineHeight: 1.4 }`.
+export interface RenderSpec {
+  v: typeof SPEC_VERSION;
+  size: string;
+  bg?: string;
+  fg?: string;
+  format?: OutputFormat;
+  text?: string;
+  theme?: string;
+  seed?: string;
+  initials?: string;
+  identicon?: boolean;
+  label?: LabelMode;
+  font?: string;
+  embed?: boolean;
+  weight?: string;
+  fontSize?: number;
+  fit?: FitMode;
+  minSize?: number;
+  maxSize?: number;
+  wrap?: boolean;
+  lines?: number;
+  lineHeight?: number;
+  align?: Align;
+  valign?: VerticalAlign;
+  dir?: DirectionMode;
+  textStroke?: string;
+  textStrokeWidth?: number;
+  textShadow?: boolean;
+  textBackground?: string;
+  textOpacity?: number;
+  pad?: number;
+  icon?: string;
+  gradient?: string;
+  pattern?: PatternKind;
+  patternColor?: string;
+  patternSize?: number;
+  patternOpacity?: number;
+  showAlpha?: boolean;
+  shape?: ShapeKind;
+  // A number, or per-corner radii as in `radius=tl,tr,br,bl`.
+  radius?: number | string;
+  stroke?: string;
+  strokeWidth?: number;
+  dash?: string;
+  inset?: boolean;
+  // `true` for the default shadow, or `dx,dy,blur,color`.
+  shadow?: boolean | string;
+  contrast?: ContrastLevel;
+  enforce?: boolean;
+  scale?: number;
+  output?: OutputMode;
+  base64?: boolean;
+  // Text, shapes, lines and icons drawn over the placeholder, in order.
+  layers?: Layer[];
+}
+
+type PathField = 'v' | 'size' | 'bg' | 'fg' | 'format';
+type OptionField = Exclude<keyof RenderSpec, PathField | 'layers'>;
+type OptionValue = string | number | boolean;
+
+interface OptionSchema {
+  param: string;
+  // `flag` takes true or false, or a string of settings.
+  type: 'string' | 'number' | 'boolean' | 'flag';
+  values?: readonly string[];
+}
+
+// In the order the canonical URL lists them.
+const OPTIONS: Record<OptionField, OptionSchema> = {
+  text: { param: 'says', type: 'string' },
+  theme: { param: 'theme', type: 'string' },
+  seed: { param: 'seed', type: 'string' },
+  initials: { param: 'initials', type: 'string' },
+  identicon: { param: 'identicon', type: 'boolean' },
+  label: { param: 'label', type: 'string', values: ['dims', 'ratio', 'both', 'none'] },
+  font: { param: 'font', type: 'string' },
+  embed: { param: 'embed', type: 'boolean' },
+  weight: { param: 'weight', type: 'string' },
+  fontSize: { param: 'size', type: 'number' },
+  fit: { param: 'fit', type: 'string', values: ['shrink', 'grow', 'fill'] },
+  minSize: { param: 'minsize', type: 'number' },
+  maxSize: { param: 'maxsize', type: 'number' },
+  wrap: { param: 'wrap', type: 'boolean' },
+  lines: { param: 'lines', type: 'number' },
+  lineHeight: { param: 'lh', type: 'number' },
+  align: { param: 'align', type: 'string', values: ['left', 'center', 'right'] },
+  valign: { param: 'valign', type: 'string', values: ['top', 'middle', 'bottom'] },
+  dir: { param: 'dir', type: 'string', values: ['auto', 'ltr', 'rtl'] },
+  textStroke: { param: 'tstroke', type: 'string' },
+  textStrokeWidth: { param: 'tsw', type: 'number' },
+  textShadow: { param: 'tshadow', type: 'boolean' },
+  textBackground: { param: 'tbg', type: 'string' },
+  textOpacity: { param: 'topacity', type: 'number' },
+  pad: { param: 'pad', type: 'number' },
+  icon: { param: 'icon', type: 'string' },
+  gradient: { param: 'gradient', type: 'string' },
+  pattern: {
+    param: 'pattern',
+    type: 'string',
+    values: ['grid', 'checker', 'stripes', 'dots', 'cross'],
+  },
+  patternColor: { param: 'pcolor', type: 'string' },
+  patternSize: { param: 'psize', type: 'number' },
+  patternOpacity: { param: 'popacity', type: 'number' },
+  showAlpha: { param: 'showalpha', type: 'boolean' },
+  shape: { param: 'shape', type: 'string', values: ['rect', 'circle', 'ellipse', 'squircle'] },
+  radius: { param: 'radius', type: 'string' },
+  stroke: { param: 'stroke', type: 'string' },
+  strokeWidth: { param: 'sw', type: 'number' },
+  dash: { param: 'dash', type: 'string' },
+  inset: { param: 'inset', type: 'boolean' },
+  shadow: { param: 'shadow', type: 'flag' },
+  contrast: { param: 'contrast', type: 'string', values: ['aa', 'aaa', 'apca'] },
+  enforce: { param: 'enforce', type: 'boolean' },
+  scale: { param: 'scale', type: 'number' },
+  output: { param: 'as', type: 'string', values: ['image', 'html', 'datauri', 'css'] },
+  base64: { param: 'base64', type: 'boolean' },
+};
+
+const OPTION_FIELDS = Object.keys(OPTIONS) as OptionField[];
+const PATH_FIELDS: PathField[] = ['v', 'size', 'bg', 'fg', 'format'];
+const SIZE_FIELDS = ['width', 'height'];
+const ALL_FIELDS = [...PATH_FIELDS, ...SIZE_FIELDS, ...OPTION_FIELDS, 'layers'];
+
+// Validates JSON input against the schema and returns the canonical spec.
+// Every bad field is reported, not just the first. `ignore` lists extra
+// fields a caller handles itself, like a batch item's `id`.
+export function parseRenderSpec(input: unknown, ignore: string[] = []): RenderSpec {
+  if (!isRecord(input)) {
+    throw new SpecError([{ field: '', detail: 'Render spec must be a JSON object' }]);
+  }
+
+  const errors: FieldError[] = [];
+  const fail = (field: string, detail: string, suggestion?: string) => {
+    errors.push({ field, detail, suggestion });
+  };
+
+  for (const field of Object.keys(input)) {
+    if (!ALL_FIELDS.includes(field) && !ignore.includes(field)) {
+      fail(field, `Unknown field "${field}"`, suggestField(field));
+    }
+  }
+
+  if (input.v !== undefined && input.v !== SPEC_VERSION) {
+    fail('v', `Unsupported spec version ${JSON.stringify(input.v)}, expected ${SPEC_VERSION}`);
+  }
+
+  const size = readSize(input, fail);
+  const bg = readString(input, 'bg', fail);
+  const fg = readString(input, 'fg', fail);
+  if (fg !== undefined && bg === undefined) {
+    fail('fg', 'fg needs a bg, as in the URL form');
+  }
+
+  let format: OutputFormat | undefined;
+  const formatValue = readString(input, 'format', fail);
+  if (formatValue !== undefined) {
+    try {
+      format = parseFormat(formatValue);
+    } catch (error) {
+      if (!(error instanceof AltboxError)) {
+        throw error;
+      }
+      fail('format', error.message, error.suggestion);
+    }
+  }
+
+  const options: Partial<Record<OptionField, OptionValue>> = {};
+  for (const field of OPTION_FIELDS) {
+    const value = input[field];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    const result = checkOption(OPTIONS[field], value);
+    if (typeof result === 'object') {
+      fail(field, result.detail);
+    } else {
+      options[field] = result;
+    }
+  }
+
+  const layers =
+    input.layers === undefined || input.layers === null
+      ? undefined
+      : parseLayerSpecs(input.layers, fail);
+
+  if (errors.length) {
+    throw new SpecError(errors);
+  }
+  return compact({
+    v: SPEC_VERSION,
+    size: size as string,
+    bg,
+    fg,
+    format,
+    ...options,
+    layers: layers?.length ? layers : undefined,
+  } as RenderSpec);
+}
+
+// Parses a path/query placeholder URL into its canonical spec. Values the
+// renderer would ignore, like an unknown `align`, are dropped.
+export function urlToSpec(input: string | URL): RenderSpec {
+  const url = new URL(input, 'http://localhost');
+  const lookup = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const last = splitFormatExtension(lookup.pop() ?? '');
+  lookup.push(last.value);
+
+  const { consumed } = resolveDims(lookup);
+  const formatParam = url.searchParams.get('format');
+  const spec: Record<string, OptionValue | undefined> = {
+    v: SPEC_VERSION,
+    size: lookup.slice(0, consumed).join('/'),
+    bg: lookup[consumed],
+    fg: lookup[consumed + 1],
+    format: last.format ?? (formatParam ? parseFormat(formatParam) : undefined),
+  };
+
+  for (const field of OPTION_FIELDS) {
+    const raw = url.searchParams.get(OPTIONS[field].param);
+    if (raw) {
+      spec[field] = fromParam(OPTIONS[field], raw);
+    }
+  }
+  const layers = readLayers(url.searchParams);
+  return compact({
+    ...spec,
+    layers: layers.length ? layers : undefined,
+  } as unknown as RenderSpec);
+}
+
+// The canonical URL for a spec. The format goes on as a file extension.
+export function specToUrl(spec: RenderSpec, origin = ''): string {
+  const { dims, bg, fg } = specSegments(spec);
+  const path = [...dims, bg, fg]
+    .filter((segment): segment is string => segment !== undefined)
+    .map(encodeSegment);
+  if (spec.format) {
+    path[path.length - 1] += `.${spec.format}`;
+  }
+  const search = specToSearchParams(spec).toString();
+  return `${origin}/${path.join('/')}${search ? `?${search}` : ''}`;
+}
+
+export function specSegments(spec: RenderSpec): {
+  dims: string[];
+  bg?: string;
+  fg?: string;
+} {
+  return { dims: spec.size.split('/').filter(Boolean), bg: spec.bg, fg: spec.fg };
+}
+
+export function specToSearchParams(spec: RenderSpec): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  for (const field of OPTION_FIELDS) {
+    const value = spec[field];
+    if (value === undefined || value === false) {
+      continue;
+    }
+    searchParams.set(OPTIONS[field].param, value === true ? '1' : String(value));
+  }
+  for (const [param, value] of layerParams(spec.layers ?? [])) {
+    searchParams.set(param, value);
+  }
+  return searchParams;
+}
+
+// The spec field an error from the URL pipeline belongs to.
+export function specFieldFor(location: { segment?: string; param?: string }): string | undefined {
+  if (location.segment) {
+    return location.segment === 'dims' ? 'size' : location.segment;
+  }
+  if (location.param === 'format') {
+    return 'format';
+  }
+  return (
+    OPTION_FIELDS.find((field) => OPTIONS[field].param === location.param) ??
+    (location.param ? layerFieldFor(location.param) : undefined)
+  );
+}
+
+// `/r/<spec>` carries the spec as base64url-encoded UTF-8 JSON.
+export function encodeSpec(spec: RenderSpec): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(JSON.stringify(spec))) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeSpec(value: string): unknown {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+  } catch {
+    throw new SpecError([{ field: '', detail: 'Spec is not base64url-encoded JSON' }]);
+  }
+}
+
+function readSize(
+  input: Record<string, unknown>,
+  fail: (field: string, detail: string, suggestion?: string) => void,
+): string | undefined {
+  const { width, height } = input;
+  let size = readString(input, 'size', fail);
+  if (size === undefined && (width !== undefined || height !== undefined)) {
+    if (!isPositive(width) || !isPositive(height)) {
+      fail(isPositive(width) ? 'height' : 'width', 'width and height must be positive numbers');
+      return undefined;
+    }
+    size = `${width}x${height}`;
+  } else if (width !== undefined || height !== undefined) {
+    fail('size', 'Give either size or width and height, not both');
+    return undefined;
+  }
+  if (size === undefined) {
+    fail('size', 'Missing size', '600x300');
+    return undefined;
+  }
+
+  const dims = size.split('/').filter(Boolean);
+  try {
+    const { consumed } = resolveDims(dims);
+    if (consumed < dims.length) {
+      fail('size', `Unexpected "${dims.slice(consumed).join('/')}" after the size`);
+    }
+  } catch (error) {
+    if (!(error instanceof AltboxError)) {
+      throw error;
+    }
+    fail('size', error.message, error.suggestion);
+  }
+  return size;
+}
+
+function readString(
+  input: Record<string, unknown>,
+  field: string,
+  fail: (field: string, detail: string) => void,
+): string | undefined {
+  const value = input[field];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    fail(field, 'Expected a string');
+    return undefined;
+  }
+  return value.trim() || undefined;
+}
+
+function checkOption(
+  schema: OptionSchema,
+  value: unknown,
+): OptionValue | { detail: string } {
+  switch (schema.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+        ? value
+        : { detail: 'Expected a number' };
+    case 'boolean':
+      return typeof value === 'boolean' ? value : { detail: 'Expected true or false' };
+    case 'flag':
+      return typeof value === 'boolean' || typeof value === 'string'
+        ? value
+        : { detail: 'Expected true, false or a string' };
+    case 'string':
+    default: {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        return { detail: 'Expected a string' };
+      }
+      if (!schema.values) {
+        return String(value);
+      }
+      const normalized = String(value).toLowerCase();
+      return schema.values.includes(normalized)
+        ? normalized
+        : { detail: `Expected one of ${schema.values.join(', ')}` };
+    }
+  }
+}
+
+function fromParam(schema: OptionSchema, raw: string): OptionValue | undefined {
+  switch (schema.type) {
+    case 'number': {
+      const numeric = parseFloat(raw);
+      return Number.isFinite(numeric) ? numeric : undefined;
+    }
+    case 'boolean':
+      return ['true', '1', 'yes'].includes(raw.toLowerCase()) || undefined;
+    case 'flag':
+      if (['true', '1', 'yes'].includes(raw.toLowerCase())) {
+        return true;
+      }
+      return ['false', '0', 'no'].includes(raw.toLowerCase()) ? undefined : raw;
+    case 'string':
+    default: {
+      if (!schema.values) {
+        return raw;
+      }
+      const normalized = raw.toLowerCase();
+      return schema.values.includes(normalized) ? normalized : undefined;
+    }
+  }
+}
+
+// Query parameter names are common mistakes in JSON, so `says` suggests
+// `text` before falling back to the closest field name.
+function suggestField(field: string): string | undefined {
+  return (
+    OPTION_FIELDS.find((option) => OPTIONS[option].param === field) ??
+    suggestClosest(field, ALL_FIELDS, 1)[0]
+  );
+}
+
+// Commas and colons are legal in a path segment and keep gradients and
+// ratios readable.
+function encodeSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(/%2C/gi, ',').replace(/%3A/gi, ':');
+}
+
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as T;
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,77 @@
+// The exports of harfbuzzjs' standalone hb-subset build that subsetFont uses.
+export interface HarfBuzzSubset {
+  memory: WebAssembly.Memory;
+  malloc(size: number): number;
+  free(pointer: number): void;
+  hb_blob_create(
+    data: number,
+    length: number,
+    mode: number,
+    userData: number,
+    destroy: number,
+  ): number;
+  hb_blob_destroy(blob: number): void;
+  hb_blob_get_data(blob: number, length: number): number;
+  hb_blob_get_length(blob: number): number;
+  hb_face_create(blob: number, index: number): number;
+  hb_face_destroy(face: number): void;
+  hb_face_reference_blob(face: number): number;
+  hb_set_add(set: number, codepoint: number): void;
+  hb_subset_input_create_or_fail(): number;
+  hb_subset_input_destroy(input: number): void;
+  hb_subset_input_set_flags(input: number, flags: number): void;
+  hb_subset_input_unicode_set(input: number): number;
+  hb_subset_or_fail(face: number, input: number): number;
+}
+
+const HB_MEMORY_MODE_READONLY = 1;
+// Hinting only matters for small sizes on old rasterizers and is a large
+// share of a subset.
+const HB_SUBSET_FLAGS_NO_HINTING = 0x1;
+
+export function subsetFont(
+  hb: HarfBuzzSubset,
+  font: ArrayBuffer | Uint8Array,
+  text: string,
+): Uint8Array {
+  const bytes = font instanceof Uint8Array ? font : new Uint8Array(font);
+  const pointer = hb.malloc(bytes.byteLength);
+  new Uint8Array(hb.memory.buffer).set(bytes, pointer);
+
+  const blob = hb.hb_blob_create(pointer, bytes.byteLength, HB_MEMORY_MODE_READONLY, 0, 0);
+  const face = hb.hb_face_create(blob, 0);
+  hb.hb_blob_destroy(blob);
+
+  const input = hb.hb_subset_input_create_or_fail();
+  try {
+    if (!input) {
+      throw new Error('Could not create subset input');
+    }
+    hb.hb_subset_input_set_flags(input, HB_SUBSET_FLAGS_NO_HINTING);
+    const unicodes = hb.hb_subset_input_unicode_set(input);
+    for (const char of new Set(text)) {
+      hb.hb_set_add(unicodes, char.codePointAt(0) as number);
+    }
+
+    const subset = hb.hb_subset_or_fail(face, input);
+    if (!subset) {
+      throw new Error('Font subsetting failed');
+    }
+    const result = hb.hb_face_reference_blob(subset);
+    // Read the heap only now: subsetting may have grown the memory.
+    const offset = hb.hb_blob_get_data(result, 0);
+    const output = new Uint8Array(hb.memory.buffer).slice(
+      offset,
+      offset + hb.hb_blob_get_length(result),
+    );
+    hb.hb_blob_destroy(result);
+    hb.hb_face_destroy(subset);
+    return output;
+  } finally {
+    if (input) {
+      hb.hb_subset_input_destroy(input);
+    }
+    hb.hb_face_destroy(face);
+    hb.free(pointer);
+  }
+}
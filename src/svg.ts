@@ -1,44 +1,119 @@
-import { Align, escapeXML, wrapText } from './util';
+import { TextDirection, alignToAnchor } from './bidi';
+import { GRADIENT_ID, Gradient, buildGradientDef } from './gradient';
+import { buildIcon, layoutIcon } from './icons';
+import { Layer, buildLayers } from './layers';
+import {
+  RichLine,
+  measureLine,
+  parseMarkup,
+  plainText,
+  renderSpan,
+  wrapRichText,
+} from './markup';
+import { PATTERN_ID, PatternOptions, buildPatternDef } from './pattern';
+import { Seed, buildIdenticon, layoutIdenticon } from './seed';
+import {
+  Corners,
+  DropShadow,
+  ShapeGeometry,
+  ShapeKind,
+  buildShadowFilter,
+  buildShape,
+} from './shape';
+import { Align, VerticalAlign, escapeXML } from './util';
 
 export interface SvgOptions {
   width: number;
   height: number;
   background: string;
+  gradient?: Gradient;
+  pattern?: PatternOptions;
   foreground: string;
   text?: string;
+  icon?: string;
+  identicon?: Seed;
   fontFamily?: string;
+  // @font-face rules for embedded fonts.
+  fontFaces?: string;
   fontSize: number;
   fontWeight?: string;
   pad: number;
   align: Align;
+  valign?: VerticalAlign;
+  // Resolved writing direction of the text.
+  direction?: TextDirection;
   wrap: boolean;
+  maxLines?: number;
+  lineHeight?: number;
   scale?: number;
-  radius?: number;
+  shape?: ShapeKind;
+  // One radius for every corner, or one per corner (rect only).
+  radius?: number | Corners;
   stroke?: string;
   strokeWidth?: number;
-  shadow?: boolean;
+  // Dash and gap lengths for a dashed border.
+  dash?: number[];
+  // Draw the border inside the edge rather than centred on it.
+  inset?: boolean;
+  shadow?: DropShadow;
+  // Label styling: an outline, a drop shadow, a pill behind the lines and
+  // the label's opacity.
+  textStroke?: string;
+  textStrokeWidth?: number;
+  textShadow?: boolean;
+  textBackground?: string;
+  textOpacity?: number;
+  // Extra elements drawn over everything else, in order.
+  layers?: Layer[];
 }
 
 const DEFAULT_FONT = 'system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif';
 
+export const DEFAULT_LINE_HEIGHT = 1.2;
+
+const SHADOW_ID = 'dropShadow';
+const TEXT_SHADOW_ID = 'textShadow';
+
+// Padding of the label pill, in em.
+const PILL_PAD_X = 0.5;
+const PILL_PAD_Y = 0.25;
+
 export function buildSVG(options: SvgOptions): string {
   const {
     width,
     height,
     background,
+    gradient,
+    pattern,
     foreground,
     text,
+    icon,
+    identicon,
     fontFamily,
+    fontFaces,
     fontSize,
     fontWeight,
     pad,
     align,
+    valign = 'middle',
+    direction = 'ltr',
     wrap,
+    maxLines,
+    lineHeight: lineHeightMultiplier = DEFAULT_LINE_HEIGHT,
     scale = 1,
+    shape = 'rect',
     radius = 0,
     stroke,
     strokeWidth = 0,
-    shadow = false,
+    dash,
+    inset = false,
+    shadow,
+    textStroke,
+    textStrokeWidth = 0,
+    textShadow = false,
+    textBackground,
+    textOpacity = 1,
+    layers = [],
   } = options;
 
   const clampedScale = Math.max(1, Math.min(scale, 4));
@@ -46,139 +121,299 @@ export function buildSVG(options: SvgOptions): string {
   const scaledHeight = Math.max(1, Math.round(height * clampedScale));
   const scaledPad = Math.max(0, pad * clampedScale);
   const effectiveFontSize = fontSize * clampedScale;
-  const lineHeight = effectiveFontSize * 1.2;
+  const lineHeight = effectiveFontSize * lineHeightMultiplier;
 
   const availableWidth = Math.max(0, scaledWidth - scaledPad * 2);
-  const lines = text
-    ? wrapText({
-        text,
+  const paragraphs = text ? parseMarkup(text) : [];
+  const lines = paragraphs.length
+    ? wrapRichText({
+        paragraphs,
         maxWidth: availableWidth,
         fontSize: effectiveFontSize,
+        fontFamily: fontFamily ?? DEFAULT_FONT,
+        fontWeight,
         wrap,
+        maxLines,
       })
     : [];
 
-  const anchor = alignToAnchor(align);
+  const anchor = alignToAnchor(align, direction);
   const textX = align === 'center'
     ? scaledWidth / 2
     : align === 'left'
       ? scaledPad
       : scaledWidth - scaledPad;
+  const iconLayout = icon
+    ? layoutIcon({
+        width: scaledWidth,
+        height: scaledHeight,
+        pad: scaledPad,
+        align,
+        valign,
+        textHeight: lines.length * lineHeight,
+      })
+    : undefined;
+
+  // With an icon the text hangs below it, so it is laid out from the top.
+  const textValign = iconLayout ? 'top' : valign;
+  const textY = iconLayout
+    ? iconLayout.textTop
+    : valign === 'middle'
+      ? scaledHeight / 2
+      : valign === 'top'
+        ? scaledPad
+        : scaledHeight - scaledPad;
+
+  const iconElement = icon && iconLayout
+    ? buildIcon(icon, iconLayout, foreground)
+    : '';
+
+  const identiconElement = identicon
+    ? buildIdenticon(
+        identicon,
+        layoutIdenticon({ width: scaledWidth, height: scaledHeight, pad: scaledPad }),
+        foreground,
+      )
+    : '';
 
   const textElements = lines.length
     ? buildText(lines, {
         x: textX,
-        yStart: scaledHeight / 2,
+        yStart: textY,
+        valign: textValign,
         lineHeight,
         fill: foreground,
         anchor,
+        direction,
+        fontFamily: fontFamily ?? DEFAULT_FONT,
+        fontSize: effectiveFontSize,
+        fontWeight,
+        stroke: textStroke,
+        strokeWidth: textStrokeWidth,
+        shadow: textShadow,
+        opacity: textOpacity,
+      })
+    : '';
+
+  const textBackgroundElement = lines.length && textBackground
+    ? buildTextBackground(lines, {
+        x: textX,
+        yStart: textY,
+        valign: textValign,
+        align,
+        lineHeight,
+        fill: textBackground,
         fontFamily: fontFamily ?? DEFAULT_FONT,
         fontSize: effectiveFontSize,
         fontWeight,
       })
     : '';
 
-  const rectAttributes = buildRect({
+  const layerElements = layers.length
+    ? buildLayers(layers, {
+        width: scaledWidth,
+        height: scaledHeight,
+        pad: scaledPad,
+        scale: clampedScale,
+        fontFamily: fontFamily ?? DEFAULT_FONT,
+        foreground,
+      })
+    : '';
+
+  const geometry: ShapeGeometry = {
+    kind: shape,
     width: scaledWidth,
     height: scaledHeight,
-    background,
-    radius,
+    radius: typeof radius === 'number' ? [radius, radius, radius, radius] : radius,
+    inset: inset && stroke ? strokeWidth / 2 : 0,
+  };
+
+  const backgroundElement = buildBackground(geometry, {
+    background: gradient ? `url(#${GRADIENT_ID})` : background,
     stroke,
     strokeWidth,
-    shadow,
+    dash,
+    shadow: !!shadow,
   });
 
-  const filterDefs = shadow ? buildShadowFilter() : '';
+  const patternOverlay = pattern
+    ? buildPatternOverlay(geometry, pattern.opacity)
+    : '';
+
+  const defs = [
+    fontFaces ? `<style>${fontFaces}</style>` : '',
+    gradient ? buildGradientDef(gradient, scaledWidth, scaledHeight) : '',
+    pattern
+      ? buildPatternDef({ ...pattern, size: pattern.size * clampedScale })
+      : '',
+    shadow ? buildShadowFilter(SHADOW_ID, shadow) : '',
+    textShadow && lines.length
+      ? buildShadowFilter(TEXT_SHADOW_ID, {
+          dx: 0,
+          dy: effectiveFontSize * 0.05,
+          blur: effectiveFontSize * 0.06,
+          opacity: 0.5,
+        })
+      : '',
+  ].join('');
 
   return [
-    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${scaledWidth} ${scaledHeight}" role="img" aria-label="${escapeXML(text ?? `${width}x${height}`)}">`,
-    filterDefs,
-    rectAttributes,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${scaledWidth} ${scaledHeight}" role="img" aria-label="${escapeXML(text ? paragraphs.map(plainText).join(' ') : `${width}x${height}`)}">`,
+    defs ? `<defs>${defs}</defs>` : '',
+    backgroundElement,
+    patternOverlay,
+    identiconElement,
+    iconElement,
+    textBackgroundElement,
     textElements,
+    layerElements,
     '</svg>',
   ]
     .filter(Boolean)
     .join('');
 }
 
-function alignToAnchor(align: Align): 'start' | 'middle' | 'end' {
-  switch (align) {
-    case 'left':
-      return 'start';
-    case 'right':
-      return 'end';
-    default:
-      return 'middle';
-  }
-}
-
 interface TextOptions {
   x: number;
   yStart: number;
+  valign: VerticalAlign;
   lineHeight: number;
   fill: string;
   anchor: 'start' | 'middle' | 'end';
+  direction: TextDirection;
   fontFamily: string;
   fontSize: number;
   fontWeight?: string;
+  stroke?: string;
+  strokeWidth: number;
+  shadow: boolean;
+  opacity: number;
 }
 
-function buildText(lines: string[], options: TextOptions): string {
-  const { x, yStart, lineHeight, fill, anchor, fontFamily, fontSize, fontWeight } =
-    options;
-  const offset = lineHeight * (lines.length - 1) * 0.5;
-  const baseY = yStart - offset;
+function buildText(lines: RichLine[], options: TextOptions): string {
+  const {
+    x,
+    yStart,
+    valign,
+    lineHeight,
+    fill,
+    anchor,
+    direction,
+    fontFamily,
+    fontSize,
+    fontWeight,
+    stroke,
+    strokeWidth,
+    shadow,
+    opacity,
+  } = options;
+  // Lines use a middle baseline, so each one is centred on its own y.
+  const baseY = textBlockTop(yStart, valign, lineHeight, lines.length) + lineHeight / 2;
 
   const tspans = lines
     .map((line, index) => {
       const y = baseY + index * lineHeight;
-      return `<tspan x="${x}" y="${y}">${escapeXML(line)}</tspan>`;
+      return `<tspan x="${x}" y="${y}">${line.map(renderSpan).join('')}</tspan>`;
     })
     .join('');
 
   const weightAttr = fontWeight ? ` font-weight="${escapeXML(fontWeight)}"` : '';
+  // Left-to-right is the default, so only right-to-left text needs marking.
+  const directionAttr = direction === 'rtl' ? ' direction="rtl" unicode-bidi="embed"' : '';
+  // paint-order keeps the outline behind the fill, so it doesn't thin the
+  // letters.
+  const strokeAttr = stroke && strokeWidth
+    ? ` stroke="${stroke}" stroke-width="${strokeWidth}" stroke-linejoin="round" paint-order="stroke"`
+    : '';
+  const filterAttr = shadow ? ` filter="url(#${TEXT_SHADOW_ID})"` : '';
+  const opacityAttr = opacity < 1 ? ` opacity="${opacity}"` : '';
 
-  return `<text x="${x}" fill="${fill}" text-anchor="${anchor}" font-family="${escapeXML(fontFamily)}" font-size="${fontSize}" dominant-baseline="middle"${weightAttr}>${tspans}</text>`;
+  return `<text x="${x}" fill="${fill}" text-anchor="${anchor}" font-family="${escapeXML(fontFamily)}" font-size="${fontSize}" dominant-baseline="middle"${weightAttr}${directionAttr}${strokeAttr}${filterAttr}${opacityAttr}>${tspans}</text>`;
 }
 
-interface RectOptions {
-  width: number;
-  height: number;
+interface TextBackgroundOptions {
+  x: number;
+  yStart: number;
+  valign: VerticalAlign;
+  align: Align;
+  lineHeight: number;
+  fill: string;
+  fontFamily: string;
+  fontSize: number;
+  fontWeight?: string;
+}
+
+// A rounded rect around the wrapped lines, as wide as the widest of them.
+function buildTextBackground(lines: RichLine[], options: TextBackgroundOptions): string {
+  const { x, yStart, valign, align, lineHeight, fill, fontFamily, fontSize, fontWeight } =
+    options;
+  const textWidth = Math.max(
+    ...lines.map((line) => measureLine(line, { fontSize, fontFamily, fontWeight })),
+  );
+  const padX = fontSize * PILL_PAD_X;
+  const padY = fontSize * PILL_PAD_Y;
+  const width = textWidth + padX * 2;
+  const height = lineHeight * lines.length + padY * 2;
+  const left = align === 'center'
+    ? x - width / 2
+    : align === 'left'
+      ? x - padX
+      : x - textWidth - padX;
+  const top = textBlockTop(yStart, valign, lineHeight, lines.length) - padY;
+  const radius = Math.min(height / 2, lineHeight / 2 + padY);
+  return `<rect x="${round(left)}" y="${round(top)}" width="${round(width)}" height="${round(height)}" rx="${round(radius)}" ry="${round(radius)}" fill="${fill}" />`;
+}
+
+// Top edge of a block of lines pinned to yStart by its top, middle or
+// bottom.
+function textBlockTop(
+  yStart: number,
+  valign: VerticalAlign,
+  lineHeight: number,
+  count: number,
+): number {
+  const blockHeight = lineHeight * count;
+  return valign === 'top'
+    ? yStart
+    : valign === 'bottom'
+      ? yStart - blockHeight
+      : yStart - blockHeight / 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+interface BackgroundOptions {
   background: string;
-  radius: number;
   stroke?: string;
   strokeWidth: number;
+  dash?: number[];
   shadow: boolean;
 }
 
-function buildRect(options: RectOptions): string {
-  const { width, height, background, radius, stroke, strokeWidth, shadow } = options;
-
-  if (background === 'transparent') {
-    return `<rect width="${width}" height="${height}" fill="none"${roundCornerAttr(radius)}${strokeAttributes(stroke, strokeWidth)}${shadowAttr(shadow)} />`;
-  }
-
-  return `<rect width="${width}" height="${height}" fill="${background}"${roundCornerAttr(radius)}${strokeAttributes(stroke, strokeWidth)}${shadowAttr(shadow)} />`;
+function buildBackground(geometry: ShapeGeometry, options: BackgroundOptions): string {
+  const { background, stroke, strokeWidth, dash, shadow } = options;
+  const fill = background === 'transparent' ? 'none' : background;
+  return buildShape(
+    geometry,
+    ` fill="${fill}"${strokeAttributes(stroke, strokeWidth, dash)}${shadowAttr(shadow)}`,
+  );
 }
 
-function roundCornerAttr(radius: number): string {
-  if (!radius) {
-    return '';
-  }
-  return ` rx="${radius}" ry="${radius}"`;
+function buildPatternOverlay(geometry: ShapeGeometry, opacity: number): string {
+  const opacityAttr = opacity < 1 ? ` opacity="${opacity}"` : '';
+  return buildShape(geometry, ` fill="url(#${PATTERN_ID})"${opacityAttr}`);
 }
 
-function strokeAttributes(stroke?: string, strokeWidth?: number): string {
+function strokeAttributes(stroke?: string, strokeWidth?: number, dash?: number[]): string {
   if (!stroke || !strokeWidth) {
     return '';
   }
-  return ` stroke="${stroke}" stroke-width="${strokeWidth}"`;
+  const dashAttr = dash ? ` stroke-dasharray="${dash.map(round).join(' ')}"` : '';
+  return ` stroke="${stroke}" stroke-width="${strokeWidth}"${dashAttr}`;
 }
 
 function shadowAttr(shadow: boolean): string {
-  return shadow ? ' filter="url(#dropShadow)"' : '';
-}
-
-function buildShadowFilter(): string {
-  return '<defs><filter id="dropShadow" x="-20%" y="-20%" width="140%" height="140%"><feDropShadow dx="0" dy="2" stdDeviation="3" flood-opacity="0.25"/></filter></defs>';
+  return shadow ? ` filter="url(#${SHADOW_ID})"` : '';
 }
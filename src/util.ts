@@ -1,4 +1,8 @@
-import { CSS_COLORS } from './colors';
+import { Rgba, colorToRgba, compositeOver, formatRgba, parseRgba } from './color';
+import { CSS_COLORS, colorTokenNames, resolveColorToken } from './colors';
+import { ColorError, DimensionError } from './errors';
+import { measureText } from './metrics';
+import { BreakUnit, splitBreakUnits, splitGraphemes } from './segment';
 
 export interface Dimensions {
   width: number;
@@ -7,6 +11,8 @@ export interface Dimensions {
 
 export type Align = 'center' | 'left' | 'right';
 
+export type VerticalAlign = 'top' | 'middle' | 'bottom';
+
 const MIN_DIMENSION = 1;
 const MAX_DIMENSION = 8000;
 
@@ -14,12 +20,16 @@ export function parseDims(value: string): Dimensions {
   const trimmed = value.trim();
   const match = /^(\d{1,4})x(\d{1,4})$/.exec(trimmed);
   if (!match) {
-    throw new Error('Invalid dimensions');
+    throw new DimensionError(value, { suggestion: suggestDims(trimmed) });
   }
-  const width = clamp(parseInt(match[1], 10), MIN_DIMENSION, MAX_DIMENSION);
-  const height = clamp(parseInt(match[2], 10), MIN_DIMENSION, MAX_DIMENSION);
+  return clampDims(parseInt(match[1], 10), parseInt(match[2], 10));
+}
+
+export function clampDims(rawWidth: number, rawHeight: number): Dimensions {
+  const width = clamp(rawWidth, MIN_DIMENSION, MAX_DIMENSION);
+  const height = clamp(rawHeight, MIN_DIMENSION, MAX_DIMENSION);
   if (width < MIN_DIMENSION || height < MIN_DIMENSION) {
-    throw new Error('Invalid dimensions');
+    throw new DimensionError(`${rawWidth}x${rawHeight}`);
   }
   return { width, height };
 }
@@ -27,74 +37,130 @@ export function parseDims(value: string): Dimensions {
 export function parseColor(input: string): string {
   const normalized = input.trim().toLowerCase();
   if (!normalized) {
-    throw new Error('Invalid color');
+    throw new ColorError(input);
   }
 
-  if (normalized === 't' || normalized === 'transparent') {
+  if (normalized === 't') {
     return 'transparent';
   }
 
-  if (normalized in CSS_COLORS) {
-    return CSS_COLORS[normalized];
+  // Palette and brand tokens come after CSS syntax, so they can't shadow it.
+  let color = parseRgba(normalized);
+  if (!color) {
+    const token = resolveColorToken(normalized);
+    if (!token) {
+      throw new ColorError(input, { suggestion: suggestColor(normalized) });
+    }
+    color = parseRgba(token);
+    if (!color) {
+      throw new ColorError(input, {
+        message: `Color token "${normalized}" is not a valid color`,
+      });
+    }
   }
+  return formatRgba(color);
+}
+
+// Candidates within a couple of edits of `value`, closest first. Prefix
+// matches count as exact so partial names still find their target.
+export function suggestClosest(
+  value: string,
+  candidates: string[],
+  limit = 3,
+  maxDistance = 2,
+): string[] {
+  return candidates
+    .map((candidate) => ({
+      candidate,
+      distance: candidate.startsWith(value) ? 0 : levenshtein(value, candidate),
+    }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+function suggestDims(value: string): string | undefined {
+  const match = /^(\d{1,4})\s*[^\d\s]\s*(\d{1,4})$/.exec(value);
+  return match ? `${match[1]}x${match[2]}` : undefined;
+}
 
-  const hexMatch = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(normalized);
+function suggestColor(value: string): string | undefined {
+  const hexMatch = /^#?([0-9a-f]+)$/.exec(value);
   if (hexMatch) {
-    const value = hexMatch[1];
-    if (value.length === 3) {
-      const expanded = value
-        .split('')
-        .map((char) => char + char)
-        .join('');
-      return `#${expanded}`;
+    const digits = hexMatch[1];
+    if (digits.length === 3 || digits.length === 6) {
+      return `#${digits}`;
+    }
+    if (digits.length === 5) {
+      return `#${digits}${digits[4]}`;
+    }
+    if (digits.length > 6) {
+      return `#${digits.slice(0, 6)}`;
+    }
+    if (6 % digits.length === 0) {
+      return `#${digits.repeat(6 / digits.length)}`;
     }
-    return `#${value}`;
-  }
-
-  const rgbMatch = /^rgba?\(\s*([^)]+)\s*\)$/.exec(normalized);
-  if (rgbMatch) {
-    const components = rgbMatch[1]
-      .split(',')
-      .map((part) => part.trim())
-      .join(', ');
-    return normalized.startsWith('rgba')
-      ? `rgba(${components})`
-      : `rgb(${components})`;
   }
+  return suggestClosest(value, [...Object.keys(CSS_COLORS), ...colorTokenNames()], 1)[0];
+}
 
-  const hslMatch = /^hsla?\(\s*([^)]+)\s*\)$/.exec(normalized);
-  if (hslMatch) {
-    const components = hslMatch[1]
-      .split(',')
-      .map((part) => part.trim())
-      .join(', ');
-    return normalized.startsWith('hsla')
-      ? `hsla(${components})`
-      : `hsl(${components})`;
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
   }
-
-  throw new Error('Invalid color');
+  return previous[b.length];
 }
 
-export function relativeLuminance(hex: string): number {
-  const [r, g, b] = hexToRgb(hex);
+// Luminance of the colour as seen over a white page, so translucent colours
+// count as the lighter composite they actually render as.
+export function relativeLuminance(color: string): number {
+  const rgba = colorToRgba(color);
+  if (!rgba) {
+    throw new ColorError(color);
+  }
+  const { r, g, b } = compositeOver(rgba);
   return rgbToLuminance([r, g, b]);
 }
 
-export function autoContrast(bg: string): string {
-  if (bg === 'transparent') {
+export function autoContrast(bg: string | string[]): string {
+  // Gradients pass every stop; contrast is picked against their average.
+  const colors = Array.isArray(bg) ? bg : [bg];
+  const luminances = colors
+    .map(colorToRgba)
+    .filter((rgba): rgba is Rgba => rgba !== null)
+    .map((rgba) => {
+      const { r, g, b } = compositeOver(rgba);
+      return rgbToLuminance([r, g, b]);
+    });
+
+  if (!luminances.length) {
     return '#111111';
   }
 
-  const rgb = colorToRgb(bg);
-  if (!rgb) {
-    return '#111111';
-  }
-
-  const luminance = rgbToLuminance(rgb);
+  const luminance =
+    luminances.reduce((sum, value) => sum + value, 0) / luminances.length;
   return luminance > 0.55 ? '#111111' : '#ffffff';
 }
 
+// Hex SHA-256 of `value`, truncated to 128 bits.
+export async function hashString(value: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const data = encoder.encode(value);
+  const hash = await crypto.subtle.digest('SHA-256', data);
+  const bytes = Array.from(new Uint8Array(hash));
+  return bytes.map((byte) => byte.toString(16).padStart(2, '0')).join('').slice(0, 32);
+}
+
 export function escapeXML(value: string): string {
   return value
     .replace(/&/g, '&amp;')
@@ -108,12 +174,24 @@ export interface WrapOptions {
   text: string;
   maxWidth: number;
   fontSize: number;
+  fontFamily?: string;
+  fontWeight?: string;
   wrap: boolean;
   maxLines?: number;
 }
 
+type Measure = (value: string) => number;
+
 export function wrapText(options: WrapOptions): string[] {
-  const { text, maxWidth, fontSize, wrap, maxLines = 2 } = options;
+  const {
+    text,
+    maxWidth,
+    fontSize,
+    fontFamily,
+    fontWeight,
+    wrap,
+    maxLines = 2,
+  } = options;
   const trimmed = text.trim();
   if (!trimmed) {
     return [];
@@ -122,218 +200,105 @@ export function wrapText(options: WrapOptions): string[] {
     return [trimmed];
   }
 
-  const widthPerChar = fontSize * 0.6;
-  const charsPerLine = Math.max(1, Math.floor(maxWidth / widthPerChar));
+  const measure: Measure = (value) =>
+    measureText(value, { fontSize, fontFamily, fontWeight });
 
-  if (trimmed.length <= charsPerLine) {
+  if (measure(trimmed) <= maxWidth) {
     return [trimmed];
   }
 
-  const words = trimmed.split(/\s+/);
-  const lines: string[] = [];
-  let current = '';
+  const lines: BreakUnit[] = [];
+  let current: BreakUnit | undefined;
 
   const pushCurrent = () => {
     if (current) {
       lines.push(current);
-      current = '';
+      current = undefined;
     }
   };
 
-  for (const word of words) {
-    if (word.length > charsPerLine) {
-      if (current) {
-        pushCurrent();
-      }
-      const segments = chunkWord(word, charsPerLine);
-      for (const segment of segments) {
-        lines.push(segment);
+  for (const unit of splitBreakUnits(trimmed)) {
+    if (measure(unit.text) > maxWidth) {
+      pushCurrent();
+      for (const [index, chunk] of chunkWord(unit.text, maxWidth, measure).entries()) {
+        lines.push({ text: chunk, space: index === 0 && unit.space });
       }
       continue;
     }
 
-    const candidate = current ? `${current} ${word}` : word;
-    if (candidate.length <= charsPerLine) {
-      current = candidate;
+    const candidate = current
+      ? `${current.text}${unit.space ? ' ' : ''}${unit.text}`
+      : unit.text;
+    if (measure(candidate) <= maxWidth) {
+      current = current ? { ...current, text: candidate } : unit;
     } else {
       pushCurrent();
-      current = word;
+      current = unit;
     }
   }
 
   pushCurrent();
 
   if (lines.length <= maxLines) {
-    return lines;
+    return lines.map((line) => line.text);
   }
 
-  const limited = lines.slice(0, maxLines);
-  const overflow = lines.slice(maxLines - 1);
-  limited[maxLines - 1] = collapseWithEllipsis(
-    overflow.join(' ').trim(),
-    charsPerLine,
-  );
+  const limited = lines.slice(0, maxLines).map((line) => line.text);
+  const overflow = lines
+    .slice(maxLines - 1)
+    .map((line, index) => `${index && line.space ? ' ' : ''}${line.text}`)
+    .join('');
+  limited[maxLines - 1] = collapseWithEllipsis(overflow, maxWidth, measure);
   return limited;
 }
 
-function chunkWord(word: string, size: number): string[] {
+// Splits a word too wide for a line, never inside a grapheme.
+function chunkWord(word: string, maxWidth: number, measure: Measure): string[] {
   const result: string[] = [];
-  let index = 0;
-  while (index < word.length) {
-    result.push(word.slice(index, index + size));
-    index += size;
+  let current = '';
+  for (const grapheme of splitGraphemes(word)) {
+    if (current && measure(current + grapheme) > maxWidth) {
+      result.push(current);
+      current = '';
+    }
+    current += grapheme;
+  }
+  if (current) {
+    result.push(current);
   }
   return result;
 }
 
-function collapseWithEllipsis(text: string, maxChars: number): string {
-  if (text.length <= maxChars) {
+function collapseWithEllipsis(
+  text: string,
+  maxWidth: number,
+  measure: Measure,
+): string {
+  if (measure(text) <= maxWidth) {
     return text;
   }
-  if (maxChars <= 3) {
-    return '.'.repeat(maxChars);
+  const graphemes = splitGraphemes(text);
+  let end = graphemes.length;
+  while (end > 0 && measure(`${graphemes.slice(0, end).join('')}...`) > maxWidth) {
+    end -= 1;
   }
-  return `${text.slice(0, maxChars - 3)}...`;
-}
-
-function normalizeHex(value: string): string {
-  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value);
-  if (!match) {
-    throw new Error('Invalid hex color');
-  }
-  const [hex] = match;
-  if (match[1].length === 3) {
-    const expanded = match[1]
-      .split('')
-      .map((char) => char + char)
-      .join('');
-    return `#${expanded.toLowerCase()}`;
-  }
-  return hex.toLowerCase();
-}
-
-function hexToRgb(hex: string): [number, number, number] {
-  const normalized = normalizeHex(hex);
-  const value = normalized.slice(1);
-  const r = parseInt(value.slice(0, 2), 16);
-  const g = parseInt(value.slice(2, 4), 16);
-  const b = parseInt(value.slice(4, 6), 16);
-  return [r, g, b];
+  return `${graphemes.slice(0, end).join('').trimEnd()}...`;
 }
 
 function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
 
-function colorToRgb(color: string): [number, number, number] | null {
-  const trimmed = color.trim().toLowerCase();
-  if (trimmed === 'transparent') {
-    return null;
-  }
-
-  const hexMatch = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(trimmed);
-  if (hexMatch) {
-    return hexToRgb(trimmed);
-  }
-
-  const rgbMatch = /^rgba?\(\s*([^)]+)\s*\)$/.exec(trimmed);
-  if (rgbMatch) {
-    const parts = rgbMatch[1].split(',').map((part) => part.trim());
-    if (parts.length < 3) {
-      return null;
-    }
-    const rgb = parts.slice(0, 3).map(parseRgbPart);
-    if (rgb.some((value) => value === null)) {
-      return null;
-    }
-    return rgb as [number, number, number];
-  }
-
-  const hslMatch = /^hsla?\(\s*([^)]+)\s*\)$/.exec(trimmed);
-  if (hslMatch) {
-    const parts = hslMatch[1].split(',').map((part) => part.trim());
-    if (parts.length < 3) {
-      return null;
-    }
-    const h = parseFloat(parts[0]);
-    const s = parsePercentage(parts[1]);
-    const l = parsePercentage(parts[2]);
-    if ([h, s, l].some((value) => Number.isNaN(value))) {
-      return null;
-    }
-    return hslToRgb(h, s, l);
-  }
-
-  if (trimmed in CSS_COLORS) {
-    return hexToRgb(CSS_COLORS[trimmed]);
-  }
-
-  return null;
-}
-
-function parseRgbPart(value: string): number | null {
-  if (value.endsWith('%')) {
-    const percent = parseFloat(value.slice(0, -1));
-    if (Number.isNaN(percent)) {
-      return null;
-    }
-    return clamp(Math.round((percent / 100) * 255), 0, 255);
-  }
-  const numeric = parseInt(value, 10);
-  if (Number.isNaN(numeric)) {
+export function colorToRgb(color: string): [number, number, number] | null {
+  const rgba = colorToRgba(color);
+  if (!rgba || rgba.alpha === 0) {
     return null;
   }
-  return clamp(numeric, 0, 255);
-}
-
-function parsePercentage(value: string): number {
-  if (!value.endsWith('%')) {
-    return Number.NaN;
-  }
-  const numeric = parseFloat(value.slice(0, -1));
-  if (Number.isNaN(numeric)) {
-    return Number.NaN;
-  }
-  return clamp(numeric / 100, 0, 1);
-}
-
-function hslToRgb(
-  hDegrees: number,
-  s: number,
-  l: number,
-): [number, number, number] {
-  const h = ((hDegrees % 360) + 360) % 360 / 360;
-
-  if (s === 0) {
-    const gray = Math.round(l * 255);
-    return [gray, gray, gray];
-  }
-
-  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-  const p = 2 * l - q;
-
-  const r = hueToRgb(p, q, h + 1 / 3);
-  const g = hueToRgb(p, q, h);
-  const b = hueToRgb(p, q, h - 1 / 3);
-
-  return [
-    Math.round(r * 255),
-    Math.round(g * 255),
-    Math.round(b * 255),
-  ];
-}
-
-function hueToRgb(p: number, q: number, t: number): number {
-  let temp = t;
-  if (temp < 0) temp += 1;
-  if (temp > 1) temp -= 1;
-  if (temp < 1 / 6) return p + (q - p) * 6 * temp;
-  if (temp < 1 / 2) return q;
-  if (temp < 2 / 3) return p + (q - p) * (2 / 3 - temp) * 6;
-  return p;
+  return [rgba.r, rgba.g, rgba.b];
 }
 
-function rgbToLuminance([r, g, b]: [number, number, number]): number {
+// WCAG 2.x relative luminance of 0–255 sRGB channels.
+export function rgbToLuminance([r, g, b]: [number, number, number]): number {
   const channels = [r, g, b].map((channel) => {
     const scaled = channel / 255;
     return scaled <= 0.03928
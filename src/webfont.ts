@@ -0,0 +1,41 @@
+import subsetWasm from 'harfbuzzjs/dist/harfbuzz-subset.wasm';
+
+import { FontFaceKind, WebFont, loadFontFace } from './fonts';
+import { buildDataUri } from './snippet';
+import { HarfBuzzSubset, subsetFont } from './subset';
+import { encodeWoff2 } from './woff2';
+
+let harfbuzz: Promise<HarfBuzzSubset> | undefined;
+
+// `@font-face` rules with each face subsetted to the characters it draws,
+// inlined as WOFF2 data URIs so the SVG looks the same everywhere.
+export async function buildFontFaces(
+  font: WebFont,
+  characters: Partial<Record<FontFaceKind, string>>,
+): Promise<string> {
+  harfbuzz ??= instantiate();
+  const hb = await harfbuzz;
+
+  // Without a bold face the browser synthesizes bold from the regular one,
+  // which then has to cover every character.
+  const faces = font.faces.bold
+    ? characters
+    : { regular: `${characters.regular ?? ''}${characters.bold ?? ''}` };
+
+  const rules = await Promise.all(
+    (Object.keys(faces) as FontFaceKind[]).map(async (kind) => {
+      const subset = subsetFont(hb, await loadFontFace(font, kind), faces[kind] ?? '');
+      const woff2 = encodeWoff2(subset);
+      const src = buildDataUri(woff2.buffer as ArrayBuffer, 'font/woff2');
+      return `@font-face{font-family:"${font.family}";font-weight:${kind === 'bold' ? 700 : 400};src:url(${src}) format("woff2")}`;
+    }),
+  );
+  return rules.join('');
+}
+
+async function instantiate(): Promise<HarfBuzzSubset> {
+  const instance = await WebAssembly.instantiate(subsetWasm);
+  const exports = instance.exports as unknown as HarfBuzzSubset & { _initialize(): void };
+  exports._initialize();
+  return exports;
+}
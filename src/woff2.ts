@@ -0,0 +1,102 @@
+import { brotliCompressSync, constants } from 'node:zlib';
+
+// Tags with a one-byte code in the WOFF2 table directory, in spec order.
+const KNOWN_TAGS = [
+  'cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post', 'cvt ', 'fpgm',
+  'glyf', 'loca', 'prep', 'CFF ', 'VORG', 'EBDT', 'EBLC', 'gasp', 'hdmx', 'kern',
+  'LTSH', 'PCLT', 'VDMX', 'vhea', 'vmtx', 'BASE', 'GDEF', 'GPOS', 'GSUB', 'EBSC',
+  'JSTF', 'MATH', 'CBDT', 'CBLC', 'COLR', 'CPAL', 'SVG ', 'sbix', 'acnt', 'avar',
+  'bdat', 'bloc', 'bsln', 'cvar', 'fdsc', 'feat', 'fmtx', 'fvar', 'gvar', 'hsty',
+  'just', 'lcar', 'mort', 'morx', 'opbd', 'prop', 'trak', 'Zapf', 'Silf', 'Glat',
+  'Gloc', 'Feat', 'Sill',
+];
+const ARBITRARY_TAG = 63;
+// glyf and loca use transform version 3 for "not transformed"; every other
+// table uses 0.
+const NULL_GLYF_TRANSFORM = 3 << 6;
+const HEADER_SIZE = 48;
+
+interface SfntTable {
+  tag: string;
+  data: Uint8Array;
+}
+
+// Wraps a TrueType or CFF font in a WOFF2 container. Tables are stored
+// untransformed: for the handful of glyphs in a subset, Brotli does nearly
+// all of the work.
+export function encodeWoff2(sfnt: Uint8Array): Uint8Array {
+  const view = new DataView(sfnt.buffer, sfnt.byteOffset, sfnt.byteLength);
+  const flavor = view.getUint32(0);
+  const tables = readTables(sfnt, view);
+
+  const directory: number[] = [];
+  for (const { tag, data } of tables) {
+    const known = KNOWN_TAGS.indexOf(tag);
+    const transform = tag === 'glyf' || tag === 'loca' ? NULL_GLYF_TRANSFORM : 0;
+    directory.push((known === -1 ? ARBITRARY_TAG : known) | transform);
+    if (known === -1) {
+      directory.push(...Array.from(tag, (char) => char.charCodeAt(0)));
+    }
+    directory.push(...base128(data.byteLength));
+  }
+
+  const stream = new Uint8Array(tables.reduce((sum, { data }) => sum + data.byteLength, 0));
+  let offset = 0;
+  for (const { data } of tables) {
+    stream.set(data, offset);
+    offset += data.byteLength;
+  }
+  const compressed = brotliCompressSync(stream, {
+    params: {
+      [constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_FONT,
+      [constants.BROTLI_PARAM_QUALITY]: constants.BROTLI_MAX_QUALITY,
+      [constants.BROTLI_PARAM_SIZE_HINT]: stream.byteLength,
+    },
+  });
+
+  const dataOffset = HEADER_SIZE + directory.length;
+  const length = pad4(dataOffset + compressed.byteLength);
+  const totalSfntSize =
+    12 + 16 * tables.length + tables.reduce((sum, { data }) => sum + pad4(data.byteLength), 0);
+
+  const output = new Uint8Array(length);
+  const header = new DataView(output.buffer);
+  header.setUint32(0, 0x774f4632); // 'wOF2'
+  header.setUint32(4, flavor);
+  header.setUint32(8, length);
+  header.setUint16(12, tables.length);
+  header.setUint32(16, totalSfntSize);
+  header.setUint32(20, compressed.byteLength);
+  header.setUint16(24, 1); // majorVersion
+  output.set(directory, HEADER_SIZE);
+  output.set(compressed, dataOffset);
+  return output;
+}
+
+function readTables(sfnt: Uint8Array, view: DataView): SfntTable[] {
+  const count = view.getUint16(4);
+  const tables: SfntTable[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const record = 12 + index * 16;
+    const tag = String.fromCharCode(...sfnt.subarray(record, record + 4));
+    const offset = view.getUint32(record + 8);
+    const length = view.getUint32(record + 12);
+    tables.push({ tag, data: sfnt.subarray(offset, offset + length) });
+  }
+  // loca has to follow glyf, which sorting by tag already guarantees.
+  return tables.sort((a, b) => (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0));
+}
+
+// UIntBase128: big-endian groups of seven bits, high bit set on all but the
+// last byte.
+function base128(value: number): number[] {
+  const bytes = [value & 0x7f];
+  for (let rest = Math.floor(value / 128); rest > 0; rest = Math.floor(rest / 128)) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+  }
+  return bytes;
+}
+
+function pad4(value: number): number {
+  return (value + 3) & ~3;
+}
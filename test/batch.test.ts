@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_BATCH_LIMITS,
+  parseBatch,
+  parseBatchItem,
+  parseBatchLimits,
+} from '../src/batch';
+import { BatchError, SpecError } from '../src/errors';
+
+describe('parseBatchLimits', () => {
+  it('reads positive integers and falls back otherwise', () => {
+    expect(parseBatchLimits('10', '1000')).toEqual({ maxItems: 10, maxPixels: 1000 });
+    expect(parseBatchLimits(undefined, '-5')).toEqual(DEFAULT_BATCH_LIMITS);
+  });
+});
+
+describe('parseBatch', () => {
+  const limits = { maxItems: 3, maxPixels: 1e6 };
+
+  it('accepts an array or an items envelope and assigns ids', () => {
+    expect(parseBatch([{ id: 'a' }, {}], limits)).toEqual([
+      { id: 'a', spec: { id: 'a' } },
+      { id: '1', spec: {} },
+    ]);
+    expect(parseBatch({ items: [{ id: 7 }] }, limits)).toEqual([
+      { id: '7', spec: { id: 7 } },
+    ]);
+  });
+
+  it('keeps position ids clear of explicit ids', () => {
+    expect(parseBatch([{ id: '1' }, {}], limits).map((entry) => entry.id)).toEqual(['1', '#1']);
+    expect(parseBatch([{}, { id: 0 }], limits).map((entry) => entry.id)).toEqual(['#0', '0']);
+    expect(parseBatch([{ id: '#1' }, {}, { id: 1 }], limits).map((entry) => entry.id)).toEqual([
+      '#1',
+      '##1',
+      '1',
+    ]);
+  });
+
+  it('rejects bad envelopes, oversized batches and duplicate ids', () => {
+    expect(() => parseBatch({}, limits)).toThrow(BatchError);
+    expect(() => parseBatch([], limits)).toThrow('Empty batch');
+    expect(() => parseBatch([{}, {}, {}, {}], limits)).toThrow('At most 3 items');
+    expect(() => parseBatch([{ id: 'x' }, { id: 'x' }], limits)).toThrow(
+      'Duplicate item id "x"',
+    );
+  });
+});
+
+describe('parseBatchItem', () => {
+  it('reads a render spec with an id', () => {
+    expect(parseBatchItem({ id: 'a', size: '16:9/800', bg: 'navy', wrap: true })).toEqual({
+      v: 1,
+      size: '16:9/800',
+      bg: 'navy',
+      wrap: true,
+    });
+  });
+
+  it('refuses outputs that are not SVG images', () => {
+    expect(() => parseBatchItem({ size: '1x1', format: 'png' })).toThrow(
+      'always render as SVG',
+    );
+    expect(() => parseBatchItem({ size: '1x1', output: 'html' })).toThrow(SpecError);
+  });
+});
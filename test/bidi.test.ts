@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+
+import { alignToAnchor, detectDirection, resolveDirection } from '../src/bidi';
+
+describe('detectDirection', () => {
+  it('uses the first strongly directional letter', () => {
+    expect(detectDirection('שלום world')).toBe('rtl');
+    expect(detectDirection('123 مرحبا')).toBe('rtl');
+    expect(detectDirection('Hello مرحبا')).toBe('ltr');
+    expect(detectDirection('600×300')).toBe('ltr');
+  });
+
+  it('is skipped for an explicit direction', () => {
+    expect(resolveDirection('ltr', 'שלום')).toBe('ltr');
+    expect(resolveDirection('auto', 'שלום')).toBe('rtl');
+  });
+});
+
+describe('alignToAnchor', () => {
+  it('flips the anchor so left and right stay physical sides', () => {
+    expect(alignToAnchor('left')).toBe('start');
+    expect(alignToAnchor('left', 'rtl')).toBe('end');
+    expect(alignToAnchor('right', 'rtl')).toBe('start');
+    expect(alignToAnchor('center', 'rtl')).toBe('middle');
+  });
+});
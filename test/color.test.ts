@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+
+import { colorToRgba, compositeOver, formatRgba, parseRgba } from '../src/color';
+
+const format = (input: string) => {
+  const color = parseRgba(input);
+  return color ? formatRgba(color) : undefined;
+};
+
+describe('parseRgba', () => {
+  it('reads hex with alpha', () => {
+    expect(parseRgba('#f008')).toEqual({ r: 255, g: 0, b: 0, alpha: 0.533 });
+    expect(format('#00ff0080')).toBe('rgba(0, 255, 0, 0.502)');
+    expect(format('#336699ff')).toBe('#336699');
+  });
+
+  it('reads legacy and space-separated rgb and hsl', () => {
+    expect(format('rgb(255, 0, 0)')).toBe('#ff0000');
+    expect(format('rgba(255, 0, 0, 0.5)')).toBe('rgba(255, 0, 0, 0.5)');
+    expect(format('rgb(255 0 0 / 50%)')).toBe('rgba(255, 0, 0, 0.5)');
+    expect(format('rgb(100% 50% 0%)')).toBe('#ff8000');
+    expect(format('hsl(120deg 100% 50%)')).toBe('#00ff00');
+    expect(format('hsl(0.5turn, 100%, 25%)')).toBe('#008080');
+  });
+
+  it('reads hwb, lab, lch, oklab and oklch', () => {
+    expect(format('hwb(0 0% 0%)')).toBe('#ff0000');
+    expect(format('hwb(0 60% 60%)')).toBe('#808080');
+    expect(format('lab(54.29 80.8 69.89)')).toBe('#ff0000');
+    expect(format('lch(54.29 106.84 40.85)')).toBe('#ff0000');
+    expect(format('oklab(0.628 0.2249 0.1258)')).toBe('#ff0000');
+    expect(format('oklch(62.8% 0.2577 29.23 / 0.25)')).toBe('rgba(255, 0, 0, 0.25)');
+    expect(format('oklch(100% 0 0)')).toBe('#ffffff');
+  });
+
+  it('mixes colours with color-mix', () => {
+    expect(format('color-mix(in srgb, red, blue)')).toBe('#800080');
+    expect(format('color-mix(in srgb, red 25%, blue)')).toBe('#4000bf');
+    expect(format('color-mix(in srgb, red 30%, blue 20%)')).toBe('rgba(153, 0, 102, 0.5)');
+    expect(format('color-mix(in oklch, white, black)')).toBe('#636363');
+    expect(format('color-mix(in srgb, red, transparent)')).toBe('rgba(255, 0, 0, 0.5)');
+    expect(format('color-mix(in hsl longer hue, red, lime)')).toBe('#0000ff');
+  });
+
+  it('returns undefined for unknown syntax', () => {
+    expect(parseRgba('redd')).toBeUndefined();
+    expect(parseRgba('#12345')).toBeUndefined();
+    expect(parseRgba('color(display-p3 1 0 0)')).toBeUndefined();
+  });
+
+  it('rejects out-of-range components', () => {
+    expect(() => parseRgba('rgb(300, 0, 0)')).toThrowError('out of range in rgb()');
+    expect(() => parseRgba('hsl(0 120% 50%)')).toThrowError('out of range in hsl()');
+    expect(() => parseRgba('rgb(0 0 0 / 2)')).toThrowError('out of range in rgb()');
+    expect(() => parseRgba('oklch(1.5 0.1 20)')).toThrowError('out of range in oklch()');
+    expect(() => parseRgba('lch(50 -10 20)')).toThrowError('out of range in lch()');
+    expect(() => parseRgba('color-mix(in srgb, red 0%, blue 0%)')).toThrowError(
+      'out of range in color-mix()',
+    );
+  });
+
+  it('ignores object prototype keys as colour names', () => {
+    expect(parseRgba('constructor')).toBeUndefined();
+    expect(parseRgba('tostring')).toBeUndefined();
+    expect(parseRgba('__proto__')).toBeUndefined();
+  });
+
+  it('rejects malformed function arguments', () => {
+    expect(() => parseRgba('rgb(1 2)')).toThrowError('Invalid rgb() color');
+    expect(() => parseRgba('hsl(10px 50% 50%)')).toThrowError('Invalid hsl() color');
+    expect(() => parseRgba('hsl(1e999 50% 50%)')).toThrowError('Invalid hsl() color');
+    expect(() => parseRgba('lab(50 1e999 0)')).toThrowError('Invalid lab() color');
+    expect(() => parseRgba('oklch(0.5 0.1 1e400)')).toThrowError('Invalid oklch() color');
+    expect(() => parseRgba('hsl(1e307turn 50% 50%)')).toThrowError('Invalid hsl() color');
+    expect(parseRgba('hsl(1.2e2 100% 50%)')).toMatchObject({ r: 0, g: 255, b: 0 });
+    expect(() => parseRgba('color-mix(in nowhere, red, blue)')).toThrowError(
+      'Invalid color-mix() color',
+    );
+  });
+});
+
+describe('compositeOver', () => {
+  it('flattens translucent colours onto white by default', () => {
+    const color = colorToRgba('rgba(0, 0, 0, 0.5)');
+    expect(color && compositeOver(color)).toEqual({ r: 128, g: 128, b: 128, alpha: 1 });
+  });
+
+  it('returns null from colorToRgba instead of throwing', () => {
+    expect(colorToRgba('rgb(999, 0, 0)')).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { configureThemes, getDefaultTheme, getTheme, resolveColorToken } from '../src/colors';
+import { ConfigError } from '../src/errors';
+import { parseColor } from '../src/util';
+
+afterEach(() => {
+  configureThemes(undefined);
+});
+
+describe('resolveColorToken', () => {
+  it('resolves Tailwind scales without a prefix', () => {
+    expect(resolveColorToken('blue-500')).toBe('#3b82f6');
+    expect(resolveColorToken('Slate-900')).toBe('#0f172a');
+  });
+
+  it('resolves prefixed Material and Radix scales', () => {
+    expect(resolveColorToken('material-blue-500')).toBe('#2196f3');
+    expect(resolveColorToken('material-deep-purple-a700')).toBe('#6200ea');
+    expect(resolveColorToken('radix-slate-12')).toBe('#1c2024');
+  });
+
+  it('returns undefined for anything else', () => {
+    expect(resolveColorToken('blue-501')).toBeUndefined();
+    expect(resolveColorToken('radix-blue-500')).toBeUndefined();
+  });
+
+  it('ignores object prototype keys', () => {
+    expect(resolveColorToken('constructor')).toBeUndefined();
+    expect(resolveColorToken('tailwind-constructor')).toBeUndefined();
+    expect(resolveColorToken('radix-__proto__')).toBeUndefined();
+    expect(getTheme('constructor')).toBeUndefined();
+  });
+
+  it('follows custom token aliases', () => {
+    configureThemes({ colors: { 'brand-primary': 'brand-base', 'brand-base': 'teal-600' } });
+    expect(resolveColorToken('brand-primary')).toBe('#0d9488');
+  });
+});
+
+describe('configureThemes', () => {
+  it('reads JSON config and replaces earlier config', () => {
+    configureThemes(
+      JSON.stringify({
+        colors: { ink: '#101010' },
+        themes: { brand: { bg: 'ink', fg: 'white', radius: 8 } },
+        default: 'Brand',
+      }),
+    );
+    expect(getTheme('brand')).toEqual({ bg: 'ink', fg: 'white', radius: 8 });
+    expect(getDefaultTheme()).toBe('brand');
+
+    configureThemes({});
+    expect(getTheme('brand')).toBeUndefined();
+    expect(resolveColorToken('ink')).toBeUndefined();
+  });
+
+  it('rejects malformed config and keeps no part of it', () => {
+    expect(() => configureThemes('{"colors":')).toThrowError('Invalid THEMES setting: not valid JSON');
+    expect(() => configureThemes('{"colors":{"brand":5}}')).toThrowError(
+      'colour "brand" must be a string',
+    );
+    expect(() => configureThemes({ themes: { brand: { radius: '8' } } } as never)).toThrowError(
+      'theme "brand" field "radius" must be a number',
+    );
+    expect(() => configureThemes('{"default":["brand"]}')).toThrowError(ConfigError);
+    expect(resolveColorToken('brand')).toBeUndefined();
+  });
+
+  it('checks a rejected config again on the next call', () => {
+    const config = '{"colors":{"brand":5}}';
+    expect(() => configureThemes(config)).toThrowError(ConfigError);
+    expect(() => configureThemes(config)).toThrowError(ConfigError);
+  });
+
+  it('keeps the built-in themes', () => {
+    expect(getTheme('dark')).toMatchObject({ bg: 'slate-900' });
+  });
+});
+
+describe('parseColor with tokens', () => {
+  it('normalizes tokens like any other colour', () => {
+    expect(parseColor('emerald-500')).toBe('#10b981');
+  });
+
+  it('lets CSS names win over custom tokens', () => {
+    configureThemes({ colors: { red: '#123456' } });
+    expect(parseColor('red')).toBe('#ff0000');
+  });
+
+  it('rejects tokens that point at invalid colours', () => {
+    configureThemes({ colors: { broken: 'not-a-colour' } });
+    expect(() => parseColor('broken')).toThrowError('Color token "broken" is not a valid color');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  apcaContrast,
+  contrastRatio,
+  enforceContrast,
+  isLargeText,
+  measureContrast,
+} from '../src/contrast';
+
+describe('contrastRatio', () => {
+  it('matches the WCAG extremes', () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21, 5);
+    expect(contrastRatio('#ffffff', '#ffffff')).toBe(1);
+  });
+
+  it('composites translucent text over the background', () => {
+    expect(contrastRatio('rgba(0, 0, 0, 0.5)', '#ffffff')).toBeCloseTo(
+      contrastRatio('#808080', '#ffffff'),
+      5,
+    );
+  });
+});
+
+describe('apcaContrast', () => {
+  it('is positive for dark on light and negative for light on dark', () => {
+    expect(apcaContrast('#000000', '#ffffff')).toBeCloseTo(106.04, 1);
+    expect(apcaContrast('#ffffff', '#000000')).toBeCloseTo(-107.88, 1);
+    expect(apcaContrast('#777777', '#777777')).toBe(0);
+  });
+});
+
+describe('measureContrast', () => {
+  it('reports the worst background', () => {
+    const ratio = measureContrast('#000000', ['#ffffff', '#777777'], 'aa');
+    expect(ratio).toBeCloseTo(contrastRatio('#000000', '#777777'), 5);
+  });
+});
+
+describe('isLargeText', () => {
+  it('follows the WCAG size thresholds', () => {
+    expect(isLargeText(24)).toBe(true);
+    expect(isLargeText(19, 'bold')).toBe(true);
+    expect(isLargeText(19, '400')).toBe(false);
+  });
+});
+
+describe('enforceContrast', () => {
+  it('keeps colours that already pass', () => {
+    expect(enforceContrast('#111111', ['#ffffff'], { level: 'aa', large: false })).toBe(
+      '#111111',
+    );
+  });
+
+  it('darkens yellow on white until it meets the target', () => {
+    const options = { level: 'aa' as const, large: false };
+    const fg = enforceContrast('#ffff00', ['#ffffff'], options);
+    expect(fg).not.toBe('#ffff00');
+    expect(contrastRatio(fg, '#ffffff')).toBeGreaterThanOrEqual(4.5);
+    expect(contrastRatio(fg, '#ffffff')).toBeLessThan(5);
+  });
+
+  it('meets APCA targets too', () => {
+    const fg = enforceContrast('#808080', ['#000000'], { level: 'apca', large: true });
+    expect(Math.abs(apcaContrast(fg, '#000000'))).toBeGreaterThanOrEqual(60);
+  });
+
+  it('falls back to black or white when no lightness works', () => {
+    const fg = enforceContrast('#ff0000', ['#ffffff', '#000000'], {
+      level: 'aaa',
+      large: false,
+    });
+    expect(['#000000', '#ffffff']).toContain(fg);
+  });
+});
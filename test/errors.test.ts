@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  ColorError,
+  ConfigError,
+  DimensionError,
+  RasterError,
+  toProblemDetails,
+} from '../src/errors';
+import { parseColor, parseDims } from '../src/util';
+
+function catchError(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected an error');
+}
+
+describe('typed errors', () => {
+  it('suggests a full hex colour for a short one', () => {
+    const error = catchError(() => parseColor('#ff000'));
+    expect(error).toBeInstanceOf(ColorError);
+    expect(error).toMatchObject({ code: 'invalid_color', value: '#ff000', suggestion: '#ff0000' });
+  });
+
+  it('suggests the nearest CSS colour name', () => {
+    expect(catchError(() => parseColor('redd'))).toMatchObject({ suggestion: 'red' });
+    expect(catchError(() => parseColor('ff8800'))).toMatchObject({ suggestion: '#ff8800' });
+  });
+
+  it('suggests a corrected dimension separator', () => {
+    const error = catchError(() => parseDims('600X300'));
+    expect(error).toBeInstanceOf(DimensionError);
+    expect(error).toMatchObject({ code: 'invalid_dimensions', suggestion: '600x300' });
+  });
+});
+
+describe('toProblemDetails', () => {
+  it('maps server-side failures to a 5xx', () => {
+    expect(toProblemDetails(new RasterError('png'))).toMatchObject({
+      title: 'Internal Server Error',
+      status: 500,
+      code: 'raster_failed',
+    });
+    expect(toProblemDetails(new ConfigError('THEMES', 'not valid JSON'))).toMatchObject({
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'Invalid THEMES setting: not valid JSON',
+    });
+  });
+
+  it('maps typed errors to RFC 7807 fields', () => {
+    const error = new ColorError('redd', { suggestion: 'red' });
+    error.segment = 'bg';
+    expect(toProblemDetails(error, '/600x300/redd')).toEqual({
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'Invalid color',
+      code: 'invalid_color',
+      instance: '/600x300/redd',
+      segment: 'bg',
+      param: undefined,
+      value: 'redd',
+      suggestion: 'red',
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+
+import { DimensionError, toProblemDetails } from '../src/errors';
+import { ERROR_FALLBACK_DIMS, buildErrorSvg, resolveErrorDims } from '../src/fallback';
+
+describe('resolveErrorDims', () => {
+  it('keeps dimensions that parse', () => {
+    expect(resolveErrorDims(['og', 'redd'])).toEqual({ width: 1200, height: 630 });
+  });
+
+  it('falls back when the dimensions are invalid', () => {
+    expect(resolveErrorDims(['600X300'])).toEqual(ERROR_FALLBACK_DIMS);
+  });
+});
+
+describe('buildErrorSvg', () => {
+  it('draws the message, source and suggestion over red stripes', () => {
+    const error = new DimensionError('600X300', { suggestion: '600x300' });
+    error.segment = 'dims';
+    const svg = buildErrorSvg(toProblemDetails(error), { width: 400, height: 200 });
+    expect(svg).toContain('<pattern id="bgPattern"');
+    expect(svg).toContain('font-weight="bold">Invalid dimensions</tspan>');
+    expect(svg).toContain('dims: 600X300');
+    expect(svg).toContain('Did you mean 600x300?');
+  });
+
+  it('keeps markup characters in the message literal', () => {
+    const error = new DimensionError('a|b_c_', { message: 'Bad **value**' });
+    error.segment = 'dims';
+    const svg = buildErrorSvg(toProblemDetails(error), { width: 600, height: 300 });
+    expect(svg).toContain('Bad **value**');
+    expect(svg).toContain('dims: a|b_c_');
+  });
+});
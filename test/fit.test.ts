@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { FitOptions, fitFontSize } from '../src/fit';
+import { measureText } from '../src/metrics';
+
+const base: FitOptions = {
+  mode: 'fill',
+  text: 'Hello World',
+  width: 600,
+  height: 300,
+  pad: 0,
+  fontSize: 50,
+  minSize: 12,
+  maxSize: 128,
+  wrap: false,
+  lineHeight: 1.2,
+};
+
+describe('fitFontSize', () => {
+  it('fills the box with the largest size that fits', () => {
+    const size = fitFontSize(base);
+    expect(measureText('Hello World', { fontSize: size })).toBeLessThanOrEqual(600);
+    expect(measureText('Hello World', { fontSize: size + 1 })).toBeGreaterThan(600);
+  });
+
+  it('honours maxsize', () => {
+    expect(fitFontSize({ ...base, text: 'Hi', maxSize: 80 })).toBe(80);
+  });
+
+  it('only shrinks in shrink mode', () => {
+    expect(fitFontSize({ ...base, mode: 'shrink' })).toBe(50);
+    const long = 'The quick brown fox jumps over the lazy dog';
+    expect(fitFontSize({ ...base, mode: 'shrink', text: long })).toBeLessThan(50);
+  });
+
+  it('only grows in grow mode', () => {
+    expect(fitFontSize({ ...base, mode: 'grow' })).toBeGreaterThan(50);
+    const long = 'The quick brown fox jumps over the lazy dog and keeps running';
+    expect(fitFontSize({ ...base, mode: 'grow', text: long })).toBe(50);
+  });
+
+  it('accounts for padding and wrapped lines', () => {
+    const padded = fitFontSize({ ...base, pad: 100 });
+    expect(padded).toBeLessThan(fitFontSize(base));
+    const wrapped = fitFontSize({ ...base, text: 'Hello wide World', wrap: true });
+    expect(wrapped).toBeGreaterThan(
+      fitFontSize({ ...base, text: 'Hello wide World' }),
+    );
+  });
+
+  it('falls back to minsize when nothing fits', () => {
+    const text = 'x'.repeat(200);
+    expect(fitFontSize({ ...base, text })).toBe(12);
+  });
+});
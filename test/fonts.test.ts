@@ -0,0 +1,126 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { ConfigError } from '../src/errors';
+import {
+  charactersByFace,
+  configureFontAssets,
+  fontNames,
+  getFont,
+  loadFontFace,
+  registerFont,
+  resolveFont,
+} from '../src/fonts';
+import { parseMarkup } from '../src/markup';
+
+describe('resolveFont', () => {
+  it('resolves registered fonts by any spelling of their name', () => {
+    expect(resolveFont('inter')).toMatchObject({ family: 'Inter, sans-serif' });
+    expect(resolveFont('Noto Serif').family).toBe('Noto Serif, serif');
+    expect(resolveFont('noto_sans_mono').family).toBe('Noto Sans Mono, monospace');
+  });
+
+  it('passes generic families through and flags unknown ones', () => {
+    expect(resolveFont('Serif')).toEqual({ family: 'serif' });
+    expect(resolveFont('Comic Sans')).toEqual({ unknown: 'Comic Sans' });
+    expect(resolveFont(undefined)).toEqual({});
+  });
+
+  it('lists the bundled fonts', () => {
+    expect(fontNames()).toEqual(
+      expect.arrayContaining(['inter', 'roboto', 'noto-sans', 'noto-serif', 'noto-sans-mono']),
+    );
+  });
+});
+
+describe('loadFontFace', () => {
+  it('loads each face once and falls back to the regular face', async () => {
+    const regular = vi.fn(async () => new ArrayBuffer(4));
+    registerFont('Test Sans', { family: 'Test Sans', generic: 'sans-serif', faces: { regular } });
+    const font = getFont('test-sans');
+    expect(font).toBeDefined();
+
+    const [a, b] = await Promise.all([
+      loadFontFace(font!, 'regular'),
+      loadFontFace(font!, 'bold'),
+    ]);
+    expect(a).toBe(b);
+    expect(regular).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a face whose load failed', async () => {
+    const regular = vi
+      .fn<[], Promise<ArrayBuffer>>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue(new ArrayBuffer(2));
+    registerFont('flaky', { family: 'Flaky', generic: 'serif', faces: { regular } });
+    const font = getFont('flaky')!;
+
+    await expect(loadFontFace(font, 'regular')).rejects.toThrow('offline');
+    await expect(loadFontFace(font, 'regular')).resolves.toHaveProperty('byteLength', 2);
+  });
+
+  it('drops the oldest faces once over the cache budget', async () => {
+    const large = () => vi.fn(async () => new ArrayBuffer(5 * 1024 * 1024));
+    const first = large();
+    const second = large();
+    registerFont('first', { family: 'First', generic: 'serif', faces: { regular: first } });
+    registerFont('second', { family: 'Second', generic: 'serif', faces: { regular: second } });
+
+    await loadFontFace(getFont('first')!, 'regular');
+    await loadFontFace(getFont('second')!, 'regular');
+    await loadFontFace(getFont('first')!, 'regular');
+    expect(first).toHaveBeenCalledTimes(2);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('bundled fonts', () => {
+  afterEach(() => {
+    configureFontAssets(undefined);
+  });
+
+  it('reads the font files from the assets', async () => {
+    const require = createRequire(import.meta.url);
+    const requested: string[] = [];
+    configureFontAssets({
+      fetch: async (input: RequestInfo | URL) => {
+        const path = new URL(String(input)).pathname.replace('/fonts/', '');
+        requested.push(path);
+        return path.startsWith('roboto/')
+          ? new Response(readFileSync(require.resolve(`@expo-google-fonts/${path}`)))
+          : new Response(null, { status: 404 });
+      },
+    } as Fetcher);
+
+    const bold = await loadFontFace(getFont('roboto')!, 'bold');
+    expect(bold.byteLength).toBeGreaterThan(1000);
+    expect(requested).toEqual(['roboto/700Bold/Roboto_700Bold.ttf']);
+
+    const missing = loadFontFace(getFont('noto-serif')!, 'regular');
+    await expect(missing).rejects.toBeInstanceOf(ConfigError);
+    await expect(missing).rejects.toMatchObject({
+      status: 500,
+      message:
+        'Invalid ASSETS setting: font file noto-serif/400Regular/NotoSerif_400Regular.ttf is missing',
+    });
+  });
+
+  it('reports a missing ASSETS binding as a config error', async () => {
+    await expect(loadFontFace(getFont('noto-sans')!, 'regular')).rejects.toMatchObject({
+      code: 'invalid_config',
+      message: 'Invalid ASSETS setting: the binding is missing, so no font files can be read',
+    });
+  });
+});
+
+describe('charactersByFace', () => {
+  it('splits characters between the faces that draw them', () => {
+    expect(charactersByFace(parseMarkup('ab **cd**'))).toEqual({
+      regular: 'ab .',
+      bold: 'cd.',
+    });
+    expect(charactersByFace(parseMarkup('ab'), '700')).toEqual({ bold: 'ab.' });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_RASTER_MAX_PIXELS,
+  checkRasterSize,
+  negotiateFormat,
+  parseFormat,
+  parseRasterLimit,
+  splitFormatExtension,
+} from '../src/format';
+
+describe('parseFormat', () => {
+  it('accepts jpeg as an alias for jpg', () => {
+    expect(parseFormat('JPEG')).toBe('jpg');
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => parseFormat('bmp')).toThrowError('Invalid format');
+    expect(() => parseFormat('constructor')).toThrowError('Invalid format');
+  });
+});
+
+describe('splitFormatExtension', () => {
+  it('strips a known extension', () => {
+    expect(splitFormatExtension('600x300.png')).toEqual({
+      value: '600x300',
+      format: 'png',
+    });
+  });
+
+  it('leaves unknown extensions alone', () => {
+    expect(splitFormatExtension('600x300.gif')).toEqual({ value: '600x300.gif' });
+    expect(splitFormatExtension('red.constructor')).toEqual({ value: 'red.constructor' });
+  });
+});
+
+describe('negotiateFormat', () => {
+  it('prefers svg when the client accepts it', () => {
+    expect(
+      negotiateFormat('image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8'),
+    ).toBe('svg');
+  });
+
+  it('keeps svg for the Accept headers browsers send', () => {
+    // Chrome navigation and Safari <img>.
+    const navigation =
+      'text/html,application/xhtml+xml,application/xml;q=0.9,' +
+      'image/avif,image/webp,image/apng,*/*;q=0.8';
+    const image =
+      'image/webp,image/avif,image/jxl,image/heic,image/heic-sequence,video/*;q=0.8,' +
+      'image/png,image/svg+xml;q=0.8,image/*;q=0.8,*/*;q=0.5';
+    expect(negotiateFormat(navigation)).toBe('svg');
+    expect(negotiateFormat(image)).toBe('svg');
+    expect(negotiateFormat('image/png, */*;q=0')).toBe('png');
+  });
+
+  it('picks a raster format when svg is not accepted', () => {
+    expect(negotiateFormat('image/png,image/jpeg;q=0.9')).toBe('png');
+    expect(negotiateFormat('image/webp;q=0.5,image/jpeg;q=0.9')).toBe('jpg');
+  });
+
+  it('falls back to svg when nothing matches', () => {
+    expect(negotiateFormat('text/html')).toBe('svg');
+    expect(negotiateFormat('constructor, image/png;q=0.5')).toBe('png');
+    expect(negotiateFormat(null)).toBe('svg');
+  });
+});
+
+describe('checkRasterSize', () => {
+  it('counts the scaled output pixels against the limit', () => {
+    const size = { width: 100, height: 100 };
+    expect(() => checkRasterSize('png', { ...size, scale: 2 }, 40_000)).not.toThrow();
+    expect(() => checkRasterSize('png', { ...size, scale: 2.01 }, 40_000)).toThrowError(
+      'png output is limited to 40000 pixels; this image has 40401',
+    );
+    expect(() =>
+      checkRasterSize('webp', { width: 8000, height: 8000, scale: 4 }, DEFAULT_RASTER_MAX_PIXELS),
+    ).toThrow(expect.objectContaining({ code: 'raster_too_large', suggestion: 'svg' }));
+  });
+
+  it('reads the limit from the environment', () => {
+    expect(parseRasterLimit('1000')).toBe(1000);
+    expect(parseRasterLimit('-5')).toBe(DEFAULT_RASTER_MAX_PIXELS);
+    expect(parseRasterLimit(undefined)).toBe(DEFAULT_RASTER_MAX_PIXELS);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildGradientDef, isGradient, parseGradient } from '../src/gradient';
+
+describe('parseGradient', () => {
+  it('parses a linear gradient with an angle', () => {
+    expect(parseGradient('linear(45,red,#00f)')).toEqual({
+      kind: 'linear',
+      angle: 45,
+      stops: [
+        { color: '#ff0000', offset: 0 },
+        { color: '#0000ff', offset: 1 },
+      ],
+    });
+  });
+
+  it('spreads unpositioned stops between positioned ones', () => {
+    const { stops } = parseGradient('radial(gold, white 20%, rgb(0,0,128), navy)');
+    const offsets = stops.map((stop) => stop.offset);
+    expect(offsets[1]).toBe(0.2);
+    expect(offsets[2]).toBeCloseTo(0.6);
+    expect(offsets[3]).toBe(1);
+    expect(stops[2].color).toBe('#000080');
+  });
+
+  it('rejects gradients with a single stop', () => {
+    expect(() => parseGradient('linear(red)')).toThrowError('Invalid gradient');
+  });
+
+  it('detects gradient syntax', () => {
+    expect(isGradient('conic(red,blue)')).toBe(true);
+    expect(isGradient('red')).toBe(false);
+  });
+});
+
+describe('buildGradientDef', () => {
+  it('spans the box corner to corner for diagonal gradients', () => {
+    const def = buildGradientDef(parseGradient('linear(90,red,blue)'), 200, 100);
+    expect(def).toContain('x1="0" y1="50" x2="200" y2="50"');
+  });
+
+  it('renders conic gradients as a wedge pattern', () => {
+    const def = buildGradientDef(parseGradient('conic(red,blue)'), 100, 100);
+    expect(def).toContain('<pattern id="bgGradient"');
+    expect(def.match(/<path/g)).toHaveLength(90);
+  });
+});
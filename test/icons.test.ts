@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildIcon, layoutIcon, parseIcon } from '../src/icons';
+
+const box = { width: 400, height: 200, pad: 0, align: 'center', valign: 'middle' } as const;
+
+describe('layoutIcon', () => {
+  it('centres a lone icon in the box', () => {
+    expect(layoutIcon({ ...box, textHeight: 0 })).toEqual({
+      x: 160,
+      y: 60,
+      size: 80,
+      textTop: 140,
+    });
+  });
+
+  it('stacks the icon above the text block', () => {
+    const layout = layoutIcon({ ...box, textHeight: 40 });
+    expect(layout.size).toBe(50);
+    expect(layout.y).toBe(48.75);
+    expect(layout.textTop).toBe(111.25);
+    expect(layout.textTop + 40 - layout.y).toBeCloseTo(200 - 2 * layout.y);
+  });
+
+  it('pins the block to the top and the icon to the left', () => {
+    const layout = layoutIcon({ ...box, pad: 10, align: 'left', valign: 'top', textHeight: 40 });
+    expect(layout.x).toBe(10);
+    expect(layout.y).toBe(10);
+  });
+
+  it('shrinks the icon when the text leaves little room', () => {
+    const layout = layoutIcon({ ...box, textHeight: 180 });
+    expect(layout.size).toBe(16);
+    expect(layout.textTop + 180).toBeCloseTo(200);
+  });
+});
+
+describe('parseIcon', () => {
+  it('rejects unknown icons', () => {
+    expect(parseIcon('User')).toBe('user');
+    expect(() => parseIcon('unicorn')).toThrowError('Invalid icon');
+    expect(() => parseIcon('constructor')).toThrowError('Invalid icon');
+  });
+});
+
+describe('buildIcon', () => {
+  it('scales the 24px icon grid to the layout size', () => {
+    const svg = buildIcon('user', { x: 10, y: 20, size: 48, textTop: 0 }, '#ffffff');
+    expect(svg).toContain('transform="translate(10 20) scale(2)"');
+    expect(svg).toContain('fill="#ffffff"');
+  });
+});
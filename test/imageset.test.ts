@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildManifest,
+  buildSprite,
+  clampScale,
+  parseDimsList,
+  parseScaleList,
+} from '../src/imageset';
+
+const url = (size: { width: number; height: number }, scale: number) =>
+  `/${size.width}x${size.height}${scale === 1 ? '' : `?scale=${scale}`}`;
+
+describe('parseDimsList', () => {
+  it('reads sizes and presets and drops duplicates', () => {
+    expect(parseDimsList('320x180, hd,320x180')).toEqual([
+      { width: 320, height: 180 },
+      { width: 1280, height: 720 },
+    ]);
+  });
+
+  it('limits the number of sizes', () => {
+    const list = Array.from({ length: 13 }, (_, index) => `${index + 1}x10`).join(',');
+    expect(() => parseDimsList(list)).toThrowError('At most 12 sizes per set');
+  });
+});
+
+describe('parseScaleList', () => {
+  it('defaults to densities for a single size', () => {
+    expect(parseScaleList(null, 1)).toEqual([1, 2, 3]);
+    expect(parseScaleList(null, 3)).toEqual([1]);
+  });
+
+  it('clamps, sorts and dedupes', () => {
+    expect(parseScaleList('3,0.5,1.5,9,1', 1)).toEqual([1, 1.5, 3, 4]);
+  });
+});
+
+describe('clampScale', () => {
+  it('keeps fractional scales between 1 and 4', () => {
+    expect(clampScale(1.333)).toBe(1.33);
+    expect(clampScale(0)).toBe(1);
+    expect(clampScale(10)).toBe(4);
+  });
+});
+
+describe('buildManifest', () => {
+  it('uses density descriptors for one size', () => {
+    const manifest = buildManifest([{ width: 100, height: 50 }], [1, 2], url);
+    expect(manifest.srcset).toBe('/100x50 1x, /100x50?scale=2 2x');
+    expect(manifest.sizes).toBeUndefined();
+    expect(manifest.src).toBe('/100x50');
+  });
+
+  it('uses width descriptors and sizes for several', () => {
+    const manifest = buildManifest(
+      [
+        { width: 640, height: 360 },
+        { width: 320, height: 180 },
+      ],
+      [1],
+      url,
+    );
+    expect(manifest.srcset).toBe('/320x180 320w, /640x360 640w');
+    expect(manifest.sizes).toBe('(max-width: 320px) 320px, 640px');
+  });
+});
+
+describe('buildSprite', () => {
+  it('wraps each SVG in a symbol with prefixed ids', () => {
+    const sprite = buildSprite([
+      {
+        id: 'v-10x10',
+        svg: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10" aria-label="x"><defs><pattern id="bgPattern"/></defs><rect fill="url(#bgPattern)"/></svg>',
+      },
+    ]);
+    expect(sprite).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg"><symbol id="v-10x10" viewBox="0 0 10 10" role="img" aria-label="x"><defs><pattern id="v-10x10-bgPattern"/></defs><rect fill="url(#v-10x10-bgPattern)"/></symbol></svg>',
+    );
+  });
+});
@@ -1,10 +1,27 @@
-import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { describe, expect, it, vi } from 'vitest';
 
 import worker from '../src/index';
 
-async function fetchSvg(path: string) {
-  const request = new Request(`https://example.com${path}`);
-  const response = await worker.fetch(request);
+// An ASSETS binding serving the font files from node_modules, where the
+// build copies them from.
+function fontAssets() {
+  const require = createRequire(import.meta.url);
+  const fetch = vi.fn<[RequestInfo | URL], Promise<Response>>(async (input) => {
+    const path = new URL(String(input)).pathname.replace('/fonts/', '');
+    return new Response(readFileSync(require.resolve(`@expo-google-fonts/${path}`)));
+  });
+  return Object.assign({} as Fetcher, { fetch });
+}
+
+async function fetchSvg(
+  path: string,
+  init?: RequestInit,
+  env?: Parameters<typeof worker.fetch>[1],
+) {
+  const request = new Request(`https://example.com${path}`, init);
+  const response = await worker.fetch(request, env);
   const body = await response.text();
   return { response, body };
 }
@@ -39,4 +56,711 @@ describe('routes', () => {
     expect(body).toContain('fill="#ff0000"');
     expect(body).toContain('Hello World');
   });
+
+  it('selects the format from the file extension', async () => {
+    const { response } = await fetchSvg('/600x300.png', { method: 'HEAD' });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+    expect(response.headers.get('Vary')).toBeNull();
+  });
+
+  it('renders raster formats', async () => {
+    const response = await worker.fetch(
+      new Request('https://example.com/60x30/red.png?says=Hi&scale=2'),
+      { ASSETS: fontAssets() },
+    );
+    expect(response.status).toBe(200);
+    const png = new DataView(await response.arrayBuffer());
+    expect(png.getUint32(0)).toBe(0x89504e47);
+    // IHDR: width and height follow the chunk length and type.
+    expect([png.getUint32(16), png.getUint32(20)]).toEqual([120, 60]);
+  });
+
+  it('refuses raster output over the pixel limit', async () => {
+    const { response, body } = await fetchSvg('/8000x8000.png?scale=4', {
+      headers: { Accept: 'application/json' },
+    });
+    expect(response.status).toBe(400);
+    expect(JSON.parse(body)).toMatchObject({ code: 'raster_too_large', suggestion: 'svg' });
+
+    const env = { RASTER_MAX_PIXELS: '1000' };
+    const { response: small } = await fetchSvg('/60x30.png', { method: 'HEAD' }, env);
+    expect(small.status).toBe(400);
+    const { response: svg } = await fetchSvg('/60x30.svg', { method: 'HEAD' }, env);
+    expect(svg.status).toBe(200);
+  });
+
+  it('reads only the font faces raster text uses from the assets', async () => {
+    const assets = fontAssets();
+    const env = { ASSETS: assets };
+    const { response } = await fetchSvg('/60x30.png?font=roboto&says=Hi', undefined, env);
+    expect(response.status).toBe(200);
+    expect(assets.fetch).toHaveBeenCalledTimes(1);
+    expect(String(assets.fetch.mock.calls[0][0])).toContain('roboto/400Regular');
+
+    const { response: fallback } = await fetchSvg('/60x30.png?says=**Hi**', undefined, env);
+    expect(fallback.status).toBe(200);
+    expect(String(assets.fetch.mock.calls[1][0])).toContain('inter/700Bold');
+  });
+
+  it('reports missing font assets as a server error', async () => {
+    const { response, body } = await fetchSvg('/60x30.png?font=noto-serif&says=Hi', {
+      headers: { Accept: 'application/json' },
+    });
+    expect(response.status).toBe(500);
+    expect(JSON.parse(body)).toMatchObject({ code: 'invalid_config' });
+  });
+
+  it('negotiates the format from the Accept header', async () => {
+    const { response } = await fetchSvg('/600x300/red', {
+      method: 'HEAD',
+      headers: { Accept: 'image/webp' },
+    });
+    expect(response.headers.get('Content-Type')).toBe('image/webp');
+    expect(response.headers.get('Vary')).toBe('Accept');
+  });
+
+  it('serves snippets as svg whatever the Accept header', async () => {
+    const { response, body } = await fetchSvg('/60x30/red?as=datauri', {
+      headers: { Accept: 'image/webp' },
+    });
+    expect(body).toMatch(/^data:image\/svg\+xml/);
+    expect(response.headers.get('Vary')).toBeNull();
+  });
+
+  it('includes the format in the ETag', async () => {
+    const svg = await fetchSvg('/600x300', { method: 'HEAD' });
+    const png = await fetchSvg('/600x300?format=png', { method: 'HEAD' });
+    expect(svg.response.headers.get('ETag')).not.toBe(
+      png.response.headers.get('ETag'),
+    );
+  });
+
+  it('rejects unknown formats', async () => {
+    const { response } = await fetchSvg('/600x300?format=bmp');
+    expect(response.status).toBe(400);
+  });
+
+  it('pins text to the top or bottom with valign', async () => {
+    const top = await fetchSvg('/600x300?says=Hi&size=20&lh=1.5&valign=top');
+    expect(top.body).toContain('y="15"');
+    const bottom = await fetchSvg('/600x300?says=Hi&size=20&lh=1.5&valign=bottom');
+    expect(bottom.body).toContain('y="285"');
+  });
+
+  it('marks right-to-left text and keeps align=left on the left', async () => {
+    const { body } = await fetchSvg(`/600x300?says=${encodeURIComponent('שלום עולם')}&align=left`);
+    expect(body).toContain('text-anchor="end"');
+    expect(body).toContain('direction="rtl" unicode-bidi="embed"');
+    const forced = await fetchSvg(`/600x300?says=${encodeURIComponent('שלום')}&dir=ltr`);
+    expect(forced.body).not.toContain('direction=');
+  });
+
+  it('truncates long text by grapheme', async () => {
+    const { body } = await fetchSvg(`/600x300?says=${encodeURIComponent('👩‍💻'.repeat(130))}`);
+    expect(body).toContain(`aria-label="${'👩‍💻'.repeat(117)}..."`);
+  });
+
+  it('outlines, shadows and fades the text', async () => {
+    const { body } = await fetchSvg(
+      '/600x300?says=Hi&size=40&tstroke=black&tsw=2&tshadow=1&topacity=0.5',
+    );
+    expect(body).toContain(
+      'stroke="#000000" stroke-width="2" stroke-linejoin="round" paint-order="stroke" filter="url(#textShadow)" opacity="0.5"',
+    );
+    expect(body).toContain('<filter id="textShadow"');
+    expect(body).not.toContain('<filter id="dropShadow"');
+  });
+
+  it('draws a pill behind the text and contrasts the text with it', async () => {
+    const { body } = await fetchSvg('/600x300/white?says=Hi&size=40&tbg=black');
+    const pill = /<rect x="([\d.]+)" y="([\d.]+)" width="([\d.]+)" height="([\d.]+)" rx="[\d.]+" ry="[\d.]+" fill="#000000" \/>/.exec(body);
+    expect(pill).not.toBeNull();
+    const [rect, x, y, width, height] = pill as RegExpExecArray;
+    expect(Number(x) + Number(width) / 2).toBeCloseTo(300);
+    expect(Number(y) + Number(height) / 2).toBeCloseTo(150);
+    expect(Number(height)).toBeCloseTo(40 * 1.2 + 20);
+    expect(body.indexOf(rect)).toBeLessThan(body.indexOf('<text'));
+    expect(body).toContain('<text x="300" fill="#ffffff"');
+  });
+
+  it('includes text styling in the ETag', async () => {
+    const plain = await fetchSvg('/600x300?says=Hi');
+    const styled = await fetchSvg('/600x300?says=Hi&tshadow=1');
+    expect(plain.response.headers.get('ETag')).not.toBe(
+      styled.response.headers.get('ETag'),
+    );
+  });
+
+  it('draws circles, per-corner radii and dashed inset borders', async () => {
+    const circle = await fetchSvg('/200x100?shape=circle');
+    expect(circle.body).toContain('<circle cx="100" cy="50" r="50" fill="#dddddd" />');
+    const corners = await fetchSvg('/200x100?radius=10,10,0,0');
+    expect(corners.body).toContain('<path d="M10 0H190A10 10 0 0 1 200 10V100H0V10A10 10 0 0 1 10 0Z"');
+    const border = await fetchSvg('/200x100?stroke=red&sw=4&dash=4,2&inset=1');
+    expect(border.body).toContain(
+      '<rect x="2" y="2" width="196" height="96" fill="#dddddd" stroke="#ff0000" stroke-width="4" stroke-dasharray="4 2" />',
+    );
+  });
+
+  it('configures the drop shadow', async () => {
+    const { body } = await fetchSvg('/200x100?shadow=0,4,8,red&scale=2');
+    expect(body).toContain('<feDropShadow dx="0" dy="8" stdDeviation="16" flood-color="#ff0000"/>');
+    expect(body).toContain('filter="url(#dropShadow)"');
+  });
+
+  it('draws numbered layers over the placeholder', async () => {
+    const { response, body } = await fetchSvg(
+      '/400x200/navy?says=Main&t1=Title&t1pos=top-left&r2=red&r2pos=bottom-right&r2size=40x10',
+    );
+    expect(response.status).toBe(200);
+    expect(body).toContain('<tspan x="0" y="12">Title</tspan>');
+    expect(body).toMatch(/Main<\/tspan><\/text><text[^>]*>.*Title.*<rect x="360" y="190"/);
+  });
+
+  it('draws shape layers without a colour in the text colour', async () => {
+    const { body } = await fetchSvg('/render', {
+      method: 'POST',
+      body: JSON.stringify({
+        size: '200x100',
+        bg: 'white',
+        fg: 'navy',
+        layers: [{ type: 'rect', anchor: 'top-left', size: 30 }],
+      }),
+    });
+    expect(body).toMatch(/<rect x="\d+" y="\d+" width="30" height="30" fill="#000080" \/>/);
+
+    const { body: query } = await fetchSvg('/200x100/white/navy?c1pos=top-left');
+    expect(query).toMatch(/<circle [^>]*fill="#000080" \/>/);
+  });
+
+  it('points render spec errors at the layer field', async () => {
+    const { response, body } = await fetchSvg('/render', {
+      method: 'POST',
+      body: JSON.stringify({ size: '400x200', layers: [{ type: 'text', text: 'Hi', color: 'nope' }] }),
+    });
+    expect(response.status).toBe(400);
+    expect(JSON.parse(body)).toMatchObject({ param: 't1color', field: 'layers[0].color' });
+  });
+
+  it('honours the lines limit', async () => {
+    const { body } = await fetchSvg(
+      '/100x300?says=alpha+bravo+charlie+delta&size=20&wrap=1&lines=4',
+    );
+    expect(body.match(/<tspan/g)).toHaveLength(4);
+  });
+
+  it('includes line height in the ETag', async () => {
+    const a = await fetchSvg('/600x300?says=Hi', { method: 'HEAD' });
+    const b = await fetchSvg('/600x300?says=Hi&lh=1.6', { method: 'HEAD' });
+    expect(a.response.headers.get('ETag')).not.toBe(b.response.headers.get('ETag'));
+  });
+
+  it('renders gradient backgrounds from the bg segment', async () => {
+    const { response, body } = await fetchSvg('/600x300/linear(45,navy,%23000)?says=Hi');
+    expect(response.status).toBe(200);
+    expect(body).toContain('<linearGradient id="bgGradient"');
+    expect(body).toContain('fill="url(#bgGradient)"');
+    expect(body).toContain('fill="#ffffff"');
+  });
+
+  it('accepts the gradient query param', async () => {
+    const { body } = await fetchSvg('/600x300?gradient=radial(gold,white)&says=Hi');
+    expect(body).toContain('<radialGradient id="bgGradient"');
+    expect(body).toContain('fill="#111111"');
+  });
+
+  it('layers a pattern over the background', async () => {
+    const { body } = await fetchSvg('/600x300/red?pattern=cross&pcolor=blue&psize=10&popacity=0.5');
+    expect(body).toContain('<pattern id="bgPattern" patternUnits="userSpaceOnUse" width="10" height="10">');
+    expect(body).toContain('stroke="#0000ff"');
+    expect(body).toContain('fill="url(#bgPattern)" opacity="0.5"');
+  });
+
+  it('shows a checkerboard for transparent backgrounds with showalpha', async () => {
+    const { body } = await fetchSvg('/600x300/t?showalpha=1');
+    expect(body).toContain('fill="#cccccc"');
+    expect(body).toContain('fill="url(#bgPattern)"');
+  });
+
+  it('renders a dimension label when asked', async () => {
+    const { body } = await fetchSvg('/600x300?label=dims');
+    expect(body).toContain('600×300</tspan>');
+  });
+
+  it('prefers says over the label and expands templates', async () => {
+    const { body } = await fetchSvg('/600x300?label=ratio&says=Card+{w}px+{ratio}');
+    expect(body).toContain('Card 600px 2:1</tspan>');
+  });
+
+  it('renders inline markup as styled tspans', async () => {
+    const { body } = await fetchSvg('/600x300?says=Hello|**big**+{%23f00:world}');
+    expect(body.match(/<tspan x=/g)).toHaveLength(2);
+    expect(body).toContain('<tspan font-weight="bold">big</tspan>');
+    expect(body).toContain('<tspan fill="#ff0000">world</tspan>');
+    expect(body).toContain('aria-label="Hello big world"');
+  });
+
+  it('draws an icon tinted with the foreground colour', async () => {
+    const { response, body } = await fetchSvg('/600x300/navy?icon=image&says=Photo');
+    expect(response.status).toBe(200);
+    expect(body).toMatch(/<path transform="translate\([^)]+\) scale\([^)]+\)" d="[^"]+" fill="#ffffff"\/>/);
+  });
+
+  it('rejects unknown icons', async () => {
+    const { response } = await fetchSvg('/600x300?icon=unicorn');
+    expect(response.status).toBe(400);
+  });
+
+  it('resolves size presets and keeps later segments as colours', async () => {
+    const { response, body } = await fetchSvg('/og/red');
+    expect(response.status).toBe(200);
+    expect(body).toContain('width="1200"');
+    expect(body).toContain('fill="#ff0000"');
+  });
+
+  it('derives dimensions from an aspect ratio', async () => {
+    const { body } = await fetchSvg('/16:9/800/blue');
+    expect(body).toContain('height="450"');
+    expect(body).toContain('fill="#0000ff"');
+  });
+
+  it('returns problem details to JSON clients', async () => {
+    const { response, body } = await fetchSvg('/600x300/redd', {
+      headers: { Accept: 'application/json' },
+    });
+    expect(response.status).toBe(400);
+    expect(response.headers.get('Content-Type')).toContain('application/problem+json');
+    expect(JSON.parse(body)).toMatchObject({
+      code: 'invalid_color',
+      segment: 'bg',
+      value: 'redd',
+      suggestion: 'red',
+    });
+  });
+
+  it('rejects colour components that overflow', async () => {
+    const { response, body } = await fetchSvg('/60x30/hsl(1e999%2050%25%2050%25)', {
+      headers: { Accept: 'application/json' },
+    });
+    expect(response.status).toBe(400);
+    expect(JSON.parse(body)).toMatchObject({ code: 'invalid_color', segment: 'bg' });
+  });
+
+  it('suggests a size preset once', async () => {
+    const { response, body } = await fetchSvg('/ogg');
+    expect(response.status).toBe(400);
+    expect(body.match(/Did you mean/g)).toEqual(['Did you mean']);
+    expect(body).toContain('Error: Unknown size "ogg"\nDid you mean og?');
+  });
+
+  it('returns an HTML help page to browsers', async () => {
+    const { response, body } = await fetchSvg('/600x300?stroke=%23ff000', {
+      headers: { Accept: 'text/html,application/xhtml+xml' },
+    });
+    expect(response.status).toBe(400);
+    expect(response.headers.get('Content-Type')).toContain('text/html');
+    expect(body).toContain('query parameter <code>stroke</code>');
+    expect(body).toContain('<code>#ff0000</code>');
+    expect(body).toContain('<code>popacity</code>');
+  });
+
+  it('keeps plain text usage for other clients', async () => {
+    const { response, body } = await fetchSvg('/600X300');
+    expect(response.headers.get('Content-Type')).toContain('text/plain');
+    expect(body).toContain('Error: Invalid dimensions');
+    expect(body).toContain('Did you mean 600x300?');
+  });
+
+  it('draws errors into an image with onerror=image', async () => {
+    const { response, body } = await fetchSvg('/400x200/redd?onerror=image');
+    expect(response.status).toBe(400);
+    expect(response.headers.get('Content-Type')).toContain('image/svg+xml');
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+    expect(response.headers.get('X-Error-Code')).toBe('invalid_color');
+    expect(body).toContain('width="400"');
+    expect(body).toContain('height="200"');
+    expect(body).toContain('Invalid color');
+  });
+
+  it('uses the fallback size when the dimensions are the error', async () => {
+    const { body } = await fetchSvg('/nope?onerror=image');
+    expect(body).toContain('width="300"');
+    expect(body).toContain('height="150"');
+  });
+
+  it('takes the error mode and status from the environment', async () => {
+    const { response, body } = await fetchSvg('/400x200/redd', undefined, {
+      ONERROR: 'image',
+      ERROR_STATUS: '200',
+    });
+    expect(response.status).toBe(200);
+    expect(body).toContain('<svg');
+  });
+
+  it('lets errstatus override the error image status', async () => {
+    const { response } = await fetchSvg('/400x200/redd?onerror=image&errstatus=200', undefined, {
+      ERROR_STATUS: '422',
+    });
+    expect(response.status).toBe(200);
+  });
+
+  it('keeps server error statuses on error images', async () => {
+    const { response } = await fetchSvg('/400x200?onerror=image&errstatus=200', undefined, {
+      THEMES: '{',
+    });
+    expect(response.status).toBe(500);
+    expect(response.headers.get('X-Error-Code')).toBe('invalid_config');
+  });
+
+  it('reports the contrast ratio when asked', async () => {
+    const { response, body } = await fetchSvg('/600x300/white/yellow?says=Hi&contrast=aa');
+    expect(response.headers.get('X-Contrast-Ratio')).toBe('1.07');
+    expect(body).toContain('fill="#ffff00"');
+  });
+
+  it('gives each contrast level its own ETag', async () => {
+    const etags = await Promise.all(
+      ['', '&contrast=aa', '&contrast=apca'].map(async (query) => {
+        const { response } = await fetchSvg(`/600x300/white/yellow?says=Hi${query}`);
+        return response.headers.get('ETag');
+      }),
+    );
+    expect(new Set(etags).size).toBe(3);
+  });
+
+  it('nudges the foreground to meet the target with enforce', async () => {
+    const { response, body } = await fetchSvg(
+      '/600x300/white/yellow?says=Hi&size=12&contrast=aaa&enforce=1',
+    );
+    expect(Number(response.headers.get('X-Contrast-Ratio'))).toBeGreaterThanOrEqual(7);
+    expect(body).not.toContain('fill="#ffff00"');
+  });
+
+  it('resolves palette tokens in path segments', async () => {
+    const { body } = await fetchSvg('/600x300/blue-500/radix-slate-1?says=Hi');
+    expect(body).toContain('fill="#3b82f6"');
+    expect(body).toContain('fill="#fcfcfd"');
+  });
+
+  it('applies theme defaults that segments and params override', async () => {
+    const { body } = await fetchSvg('/600x300?theme=dark&says=Hi');
+    expect(body).toContain('fill="#0f172a"');
+    expect(body).toContain('fill="#f1f5f9"');
+
+    const { body: overridden } = await fetchSvg('/600x300/red?theme=dark&says=Hi');
+    expect(overridden).toContain('fill="#ff0000"');
+    expect(overridden).not.toContain('fill="#0f172a"');
+  });
+
+  it('loads brand tokens and themes from the environment', async () => {
+    const env = {
+      THEMES: JSON.stringify({
+        colors: { 'brand-primary': '#ff5a00' },
+        themes: { brand: { bg: 'brand-primary', fg: 'white', radius: 12, stroke: 'orange-800' } },
+        default: 'brand',
+      }),
+    };
+    const { body } = await fetchSvg('/600x300?says=Hi', undefined, env);
+    expect(body).toContain('fill="#ff5a00"');
+    expect(body).toContain('rx="12"');
+    expect(body).toContain('stroke="#9a3412"');
+
+    const { body: plain } = await fetchSvg('/600x300/brand-primary', undefined, env);
+    expect(plain).toContain('fill="#ff5a00"');
+  });
+
+  it('reports a malformed THEMES setting as a server error', async () => {
+    const env = { THEMES: '{"colors":{"brand":5}}' };
+    const { response, body } = await fetchSvg(
+      '/600x300',
+      { headers: { Accept: 'application/json' } },
+      env,
+    );
+    expect(response.status).toBe(500);
+    expect(JSON.parse(body)).toMatchObject({
+      code: 'invalid_config',
+      detail: 'Invalid THEMES setting: colour "brand" must be a string',
+    });
+
+    const { response: again } = await fetchSvg('/600x300', undefined, { THEMES: '{' });
+    expect(again.status).toBe(500);
+  });
+
+  it('rejects prototype keys as colours and themes', async () => {
+    for (const path of ['/600x300/constructor', '/600x300/tailwind-constructor']) {
+      const { response, body } = await fetchSvg(path, { headers: { Accept: 'application/json' } });
+      expect(response.status).toBe(400);
+      expect(JSON.parse(body)).toMatchObject({ code: 'invalid_color', segment: 'bg' });
+    }
+
+    const { body } = await fetchSvg('/600x300?theme=constructor', {
+      headers: { Accept: 'application/json' },
+    });
+    expect(JSON.parse(body)).toMatchObject({ code: 'unknown_theme', param: 'theme' });
+  });
+
+  it('rejects unknown themes', async () => {
+    const { response, body } = await fetchSvg('/600x300?theme=drak', {
+      headers: { Accept: 'application/json' },
+    });
+    expect(response.status).toBe(400);
+    expect(JSON.parse(body)).toMatchObject({
+      code: 'unknown_theme',
+      param: 'theme',
+      suggestion: 'dark',
+    });
+  });
+
+  it('derives a stable background from a seed segment', async () => {
+    const { body: first } = await fetchSvg('/96x96/seed:alice@example.com?initials=auto');
+    const { body: second } = await fetchSvg('/96x96?seed=Alice@Example.com&initials=auto');
+    const fill = /<rect[^>]*fill="(#[0-9a-f]{6})"/.exec(first)?.[1];
+    expect(fill).toBeDefined();
+    expect(second).toContain(`fill="${fill}"`);
+    expect(first).toContain('>A</tspan>');
+  });
+
+  it('keeps an explicit background when seed is a param', async () => {
+    const { body } = await fetchSvg('/96x96/navy?seed=alice&identicon=1');
+    expect(body).toContain('fill="#000080"');
+    expect(body).toContain('<g fill="#ffffff"><rect');
+  });
+
+  it('accepts fractional scales up to 4', async () => {
+    const { body } = await fetchSvg('/100x50?scale=1.5');
+    expect(body).toContain('viewBox="0 0 150 75"');
+    const { body: clamped } = await fetchSvg('/100x50?scale=8');
+    expect(clamped).toContain('viewBox="0 0 400 200"');
+  });
+
+  it('returns a srcset manifest for /set', async () => {
+    const { response, body } = await fetchSvg('/set/320x180,640x360/red.png?says=Hi&scales=1,2');
+    expect(response.headers.get('Content-Type')).toContain('application/json');
+    const manifest = JSON.parse(body);
+    expect(manifest.srcset).toBe(
+      [
+        'https://example.com/320x180/red.png?says=Hi 320w',
+        'https://example.com/640x360/red.png?says=Hi 640w',
+        'https://example.com/640x360/red.png?says=Hi&scale=2 1280w',
+      ].join(', '),
+    );
+    expect(manifest.sizes).toBe('(max-width: 320px) 320px, 640px');
+    expect(manifest.variants).toHaveLength(3);
+  });
+
+  it('returns an SVG sprite for /set with sprite=1', async () => {
+    const { response, body } = await fetchSvg('/set/100x100,200x100?pattern=dots&sprite=1');
+    expect(response.headers.get('Content-Type')).toContain('image/svg+xml');
+    expect(body).toContain('<symbol id="v-100x100" viewBox="0 0 100 100"');
+    expect(body).toContain('<symbol id="v-200x100" viewBox="0 0 200 100"');
+    expect(body).toContain('id="v-200x100-bgPattern"');
+  });
+
+  it('rejects bad sizes in a set', async () => {
+    const { response } = await fetchSvg('/set/320x180,nope');
+    expect(response.status).toBe(400);
+  });
+
+  it('returns an img tag with as=html', async () => {
+    const { response, body } = await fetchSvg('/600x300/red?says=**Hello**|World&as=html');
+    expect(response.headers.get('Content-Type')).toContain('text/html');
+    expect(body).toBe(
+      '<img src="https://example.com/600x300/red?says=**Hello**%7CWorld" srcset="https://example.com/600x300/red?says=**Hello**%7CWorld 1x, https://example.com/600x300/red?says=**Hello**%7CWorld&amp;scale=2 2x" width="600" height="300" alt="Hello World">',
+    );
+  });
+
+  it('returns a data URI or CSS rule', async () => {
+    const { body: uri } = await fetchSvg('/60x30/red?as=datauri');
+    expect(uri.startsWith('data:image/svg+xml,%3Csvg')).toBe(true);
+
+    const { body: base64 } = await fetchSvg('/60x30/red?as=datauri&base64=1');
+    expect(base64.startsWith('data:image/svg+xml;base64,PHN2Zy')).toBe(true);
+
+    const { response, body: css } = await fetchSvg('/60x30/red?as=css');
+    expect(response.headers.get('Content-Type')).toContain('text/css');
+    expect(css.startsWith('background-image: url("data:image/svg+xml,')).toBe(true);
+  });
+
+  it('gives each output mode its own ETag', async () => {
+    const { response: image } = await fetchSvg('/60x30/red');
+    const { response: html } = await fetchSvg('/60x30/red?as=html');
+    expect(image.headers.get('ETag')).not.toBe(html.headers.get('ETag'));
+  });
+
+  it('gives base64 and percent-encoded snippets their own ETags', async () => {
+    for (const output of ['datauri', 'css']) {
+      const { response: encoded } = await fetchSvg(`/60x30/red?as=${output}`);
+      const { response: base64 } = await fetchSvg(`/60x30/red?as=${output}&base64=1`);
+      expect(encoded.headers.get('ETag')).not.toBe(base64.headers.get('ETag'));
+    }
+
+    const { response: image } = await fetchSvg('/60x30/red');
+    const { response: ignored } = await fetchSvg('/60x30/red?base64=1');
+    expect(image.headers.get('ETag')).toBe(ignored.headers.get('ETag'));
+  });
+
+  it('renders a batch of specs and reports bad items individually', async () => {
+    const { response, body } = await fetchSvg('/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([
+        { id: 'hero', size: '600x300', bg: 'navy', fg: 'white', text: 'Hero' },
+        { id: 'thumb', width: 64, height: 64, pattern: 'grid' },
+        { id: 'broken', size: '64x64', bg: 'notacolour' },
+      ]),
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toContain('application/json');
+    const { items, failed } = JSON.parse(body);
+    expect(failed).toBe(1);
+    expect(items.hero.status).toBe(200);
+    expect(items.hero.svg).toContain('fill="#000080"');
+    expect(items.hero.svg).toContain('Hero');
+
+    const { response: single } = await fetchSvg('/600x300/navy/white?says=Hero');
+    expect(items.hero.etag).toBe(single.headers.get('ETag'));
+
+    expect(items.thumb).toMatchObject({ status: 200, width: 64, height: 64 });
+    expect(items.broken.status).toBe(400);
+    expect(items.broken.error).toMatchObject({
+      code: 'invalid_color',
+      segment: 'bg',
+      field: 'bg',
+    });
+  });
+
+  it('keys every batch item separately, whatever its id', async () => {
+    const { body } = await fetchSvg('/batch', {
+      method: 'POST',
+      body: JSON.stringify([
+        { id: '1', size: '8x8' },
+        { size: '9x9' },
+        { id: '__proto__', size: '7x7' },
+      ]),
+    });
+    const { items, failed } = JSON.parse(body);
+    expect(failed).toBe(0);
+    expect(Object.keys(items)).toEqual(['1', '#1', '__proto__']);
+    expect(items['#1']).toMatchObject({ width: 9, height: 9 });
+  });
+
+  it('enforces configurable batch limits', async () => {
+    const post = (specs: unknown, env?: Parameters<typeof worker.fetch>[1]) =>
+      fetchSvg(
+        '/batch',
+        { method: 'POST', body: JSON.stringify(specs) },
+        env,
+      );
+
+    const { response: tooMany, body } = await post([{ size: '1x1' }, { size: '1x1' }], {
+      BATCH_MAX_ITEMS: '1',
+    });
+    expect(tooMany.status).toBe(400);
+    expect(tooMany.headers.get('Content-Type')).toContain('application/problem+json');
+    expect(JSON.parse(body).code).toBe('invalid_batch');
+
+    const { response: tooBig } = await post(
+      [{ size: '100x100', scale: 2 }],
+      { BATCH_MAX_PIXELS: '39999' },
+    );
+    expect(tooBig.status).toBe(400);
+
+    const { response: fits } = await post(
+      [{ size: '100x100', scale: 2 }],
+      { BATCH_MAX_PIXELS: '40000' },
+    );
+    expect(fits.status).toBe(200);
+  });
+
+  it('rejects invalid JSON and non-POST batch requests', async () => {
+    const { response: invalid } = await fetchSvg('/batch', { method: 'POST', body: '{' });
+    expect(invalid.status).toBe(400);
+
+    const { response: get } = await fetchSvg('/batch');
+    expect(get.status).toBe(405);
+    expect(get.headers.get('Allow')).toBe('POST, OPTIONS');
+
+    const { response: preflight } = await fetchSvg('/batch', { method: 'OPTIONS' });
+    expect(preflight.headers.get('Access-Control-Allow-Methods')).toContain('POST');
+  });
+
+  it('renders a POSTed spec like its canonical URL', async () => {
+    const spec = { size: '600x300', bg: 'navy', text: 'Grüße, world', lineHeight: 1.4 };
+    const { response, body } = await fetchSvg('/render', {
+      method: 'POST',
+      body: JSON.stringify(spec),
+    });
+    const { response: get, body: getBody } = await fetchSvg(
+      '/600x300/navy?says=Gr%C3%BC%C3%9Fe%2C+world&lh=1.4',
+    );
+    expect(response.status).toBe(200);
+    expect(body).toBe(getBody);
+    expect(response.headers.get('ETag')).toBe(get.headers.get('ETag'));
+  });
+
+  it('reports every invalid spec field as problem details', async () => {
+    const { response, body } = await fetchSvg('/render', {
+      method: 'POST',
+      body: JSON.stringify({ size: '600x300', says: 'Hi', wrap: 'yes', align: 'middle' }),
+    });
+    expect(response.status).toBe(400);
+    expect(response.headers.get('Content-Type')).toContain('application/problem+json');
+    const problem = JSON.parse(body);
+    expect(problem.code).toBe('invalid_spec');
+    expect(problem.errors).toEqual([
+      { field: 'says', detail: 'Unknown field "says"', suggestion: 'text' },
+      { field: 'wrap', detail: 'Expected true or false' },
+      { field: 'align', detail: 'Expected one of left, center, right' },
+    ]);
+
+    const { body: colour } = await fetchSvg('/render', {
+      method: 'POST',
+      body: JSON.stringify({ size: '60x30', bg: 'red', patternColor: 'nope', pattern: 'grid' }),
+    });
+    expect(JSON.parse(colour)).toMatchObject({
+      code: 'invalid_color',
+      param: 'pcolor',
+      field: 'patternColor',
+    });
+  });
+
+  it('renders a base64url spec from /r/', async () => {
+    const spec = { v: 1, size: 'og', bg: 'teal', text: '日本語' };
+    const encoded = btoa(
+      String.fromCharCode(...new TextEncoder().encode(JSON.stringify(spec))),
+    )
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+    const { response, body } = await fetchSvg(`/r/${encoded}`);
+    expect(response.status).toBe(200);
+    expect(body).toContain('日本語');
+    expect(body).toContain('width="1200"');
+
+    const { response: png } = await fetchSvg(`/r/${encoded}.png`, { method: 'HEAD' });
+    expect(png.headers.get('Content-Type')).toBe('image/png');
+
+    const { response: bad } = await fetchSvg('/r/not-json', {
+      headers: { Accept: 'application/json' },
+    });
+    expect(bad.status).toBe(400);
+  });
+
+  it('draws registered fonts and warns about unknown ones', async () => {
+    const { response: inter, body } = await fetchSvg('/60x30?says=Hi&font=inter');
+    expect(body).toContain('font-family="Inter, sans-serif"');
+    expect(inter.headers.get('Warning')).toBeNull();
+
+    const { body: serif } = await fetchSvg('/60x30?says=Hi&font=Serif');
+    expect(serif).toContain('font-family="serif"');
+
+    const { response, body: fallback } = await fetchSvg('/60x30?says=Hi&font=Comic+Sans');
+    expect(response.status).toBe(200);
+    expect(fallback).toContain('font-family="system-ui');
+    expect(response.headers.get('Warning')).toBe(
+      '299 - "Unknown font Comic Sans; drawn with the default font"',
+    );
+    expect(response.headers.get('Access-Control-Expose-Headers')).toBe('Warning');
+  });
 });
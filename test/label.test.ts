@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildLabel, expandTemplate, formatRatio } from '../src/label';
+
+describe('formatRatio', () => {
+  it('reduces by the greatest common divisor', () => {
+    expect(formatRatio({ width: 600, height: 300 })).toBe('2:1');
+    expect(formatRatio({ width: 700, height: 300 })).toBe('7:3');
+  });
+
+  it('recognises common ratios', () => {
+    expect(formatRatio({ width: 1366, height: 768 })).toBe('16:9');
+    expect(formatRatio({ width: 1080, height: 1920 })).toBe('9:16');
+    expect(formatRatio({ width: 1200, height: 630 })).toBe('1.91:1');
+  });
+
+  it('falls back to a decimal ratio for awkward sizes', () => {
+    expect(formatRatio({ width: 1001, height: 700 })).toBe('1.43:1');
+  });
+});
+
+describe('buildLabel', () => {
+  it('combines dimensions and ratio', () => {
+    expect(buildLabel('both', { width: 600, height: 300 })).toBe('600×300 · 2:1');
+    expect(buildLabel('none', { width: 600, height: 300 })).toBe('');
+  });
+});
+
+describe('expandTemplate', () => {
+  it('substitutes width, height and ratio', () => {
+    expect(expandTemplate('{w} by {h} ({ratio})', { width: 800, height: 600 })).toBe(
+      '800 by 600 (4:3)',
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildLayers,
+  layerFieldFor,
+  layerParams,
+  parseLayerSpecs,
+  parseLayers,
+  readLayers,
+} from '../src/layers';
+
+const context = {
+  width: 400,
+  height: 200,
+  pad: 10,
+  scale: 1,
+  fontFamily: 'Inter',
+  foreground: '#ffffff',
+};
+
+describe('readLayers', () => {
+  it('groups numbered params into layers in drawing order', () => {
+    const layers = readLayers(
+      new URLSearchParams('t2=Sub&t1=Title&t1pos=top-left&t1xy=4,8&t1size=24&r1=red&r1size=80x20&i3=star'),
+    );
+    expect(layers).toEqual([
+      { type: 'rect', color: 'red', size: [80, 20] },
+      { type: 'text', text: 'Title', anchor: 'top-left', offset: [4, 8], fontSize: 24 },
+      { type: 'text', text: 'Sub' },
+      { type: 'icon', icon: 'star' },
+    ]);
+  });
+
+  it('skips settings without a layer and unreadable values', () => {
+    expect(readLayers(new URLSearchParams('t1pos=top&t2=Hi&t2pos=nowhere&t2xy=a'))).toEqual([
+      { type: 'text', text: 'Hi' },
+    ]);
+  });
+
+  it('keeps shapes without a colour for the text colour default', () => {
+    expect(readLayers(new URLSearchParams('r1=&c2pos=top&t3='))).toEqual([
+      { type: 'rect' },
+      { type: 'circle', anchor: 'top' },
+    ]);
+    expect(buildLayers(readLayers(new URLSearchParams('r1=')), context)).toContain(
+      'fill="#ffffff"',
+    );
+  });
+});
+
+describe('layer text', () => {
+  it('is clamped like the main text in the query form', () => {
+    const [layer] = readLayers(new URLSearchParams({ t1: 'word '.repeat(4000) }));
+    expect(layer.text).toHaveLength(120);
+    expect(layer.text?.endsWith('...')).toBe(true);
+  });
+
+  it('is rejected when too long in a spec', () => {
+    const errors: string[] = [];
+    parseLayerSpecs([{ type: 'text', text: 'x'.repeat(121) }], (field, detail) =>
+      errors.push(`${field}: ${detail}`),
+    );
+    expect(errors).toEqual(['layers[0].text: Text is longer than 120 characters']);
+    parseLayerSpecs([{ type: 'text', text: 'x'.repeat(120) }], (field) => errors.push(field));
+    expect(errors).toHaveLength(1);
+  });
+});
+
+describe('parseLayers', () => {
+  it('validates colours and icons against their param', () => {
+    expect(parseLayers(new URLSearchParams('c1=red&c1stroke=navy'))[0]).toMatchObject({
+      color: '#ff0000',
+      stroke: '#000080',
+    });
+    expect(() => parseLayers(new URLSearchParams('r1=nope'))).toThrow(
+      expect.objectContaining({ param: 'r1', code: 'invalid_color' }),
+    );
+    expect(() => parseLayers(new URLSearchParams('t1=Hi&t1color=nope'))).toThrow(
+      expect.objectContaining({ param: 't1color' }),
+    );
+    expect(() => parseLayers(new URLSearchParams('i1=nope'))).toThrow(
+      expect.objectContaining({ param: 'i1', code: 'invalid_icon' }),
+    );
+  });
+});
+
+describe('layerParams', () => {
+  it('numbers layers by position and round-trips through readLayers', () => {
+    const layers = [
+      { type: 'line' as const, color: 'white', size: [100, 0] as [number, number], strokeWidth: 2 },
+      { type: 'text' as const, text: 'Hi', fontSize: 18, anchor: 'bottom' as const },
+    ];
+    const params = layerParams(layers);
+    expect(params).toEqual([
+      ['l1', 'white'],
+      ['l1size', '100x0'],
+      ['l1sw', '2'],
+      ['t2', 'Hi'],
+      ['t2pos', 'bottom'],
+      ['t2size', '18'],
+    ]);
+    expect(readLayers(new URLSearchParams(params))).toEqual(layers);
+  });
+
+  it('keeps a shape without a colour through the URL form', () => {
+    const params = layerParams([{ type: 'rect', anchor: 'top-left' }]);
+    expect(params).toEqual([
+      ['r1', ''],
+      ['r1pos', 'top-left'],
+    ]);
+    expect(readLayers(new URLSearchParams(params))).toEqual([{ type: 'rect', anchor: 'top-left' }]);
+  });
+
+  it('maps params back to spec fields', () => {
+    expect(layerFieldFor('t2size')).toBe('layers[1].fontSize');
+    expect(layerFieldFor('r1')).toBe('layers[0].color');
+    expect(layerFieldFor('i3')).toBe('layers[2].icon');
+    expect(layerFieldFor('says')).toBeUndefined();
+  });
+});
+
+describe('parseLayerSpecs', () => {
+  it('reports each bad field by path', () => {
+    const errors: string[] = [];
+    parseLayerSpecs(
+      [
+        { type: 'blob' },
+        { type: 'constructor' },
+        { type: 'text', size: 4, anchor: 'middle', offset: [1] },
+      ],
+      (field) => errors.push(field),
+    );
+    expect(errors).toEqual([
+      'layers[0].type',
+      'layers[1].type',
+      'layers[2].size',
+      'layers[2].anchor',
+      'layers[2].offset',
+    ]);
+  });
+});
+
+describe('buildLayers', () => {
+  it('anchors boxes on the grid inside the padding', () => {
+    expect(
+      buildLayers([{ type: 'rect', color: '#ff0000', anchor: 'bottom-right', size: 20, radius: 4 }], context),
+    ).toBe('<rect x="370" y="170" width="20" height="20" rx="4" ry="4" fill="#ff0000" />');
+    expect(
+      buildLayers([{ type: 'circle', anchor: 'top', offset: [0, 5], size: 30, opacity: 0.5 }], context),
+    ).toBe('<g opacity="0.5"><circle cx="200" cy="30" r="15" fill="#ffffff" /></g>');
+  });
+
+  it('wraps and escapes text layers', () => {
+    const svg = buildLayers(
+      [{ type: 'text', text: 'A & B', anchor: 'top-left', fontSize: 20 }],
+      context,
+    );
+    expect(svg).toContain('text-anchor="start"');
+    expect(svg).toContain('<tspan x="10" y="22">A &amp; B</tspan>');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseMarkup, plainText, renderSpan, wrapRichText } from '../src/markup';
+
+describe('parseMarkup', () => {
+  it('splits lines on pipes, newlines and \\n', () => {
+    const lines = parseMarkup('one|two\nthree\\nfour');
+    expect(lines.map(plainText)).toEqual(['one', 'two', 'three', 'four']);
+  });
+
+  it('parses bold, italic and colour spans', () => {
+    expect(parseMarkup('a **b** _c_ {#f00:d}')).toEqual([
+      [
+        { text: 'a ', bold: false, italic: false },
+        { text: 'b', bold: true, italic: false },
+        { text: ' ', bold: false, italic: false },
+        { text: 'c', bold: false, italic: true },
+        { text: ' ', bold: false, italic: false },
+        { text: 'd', bold: false, italic: false, color: '#ff0000' },
+      ],
+    ]);
+  });
+
+  it('keeps underscores inside words and escaped markers literal', () => {
+    expect(parseMarkup('snake_case_name \\| \\*\\*').map(plainText)).toEqual([
+      'snake_case_name | **',
+    ]);
+  });
+
+  it('leaves braces without a colour alone', () => {
+    expect(parseMarkup('{hello:world}').map(plainText)).toEqual(['{hello:world}']);
+  });
+});
+
+describe('wrapRichText', () => {
+  it('wraps within each line and keeps span styles', () => {
+    const lines = wrapRichText({
+      paragraphs: parseMarkup('**alpha** bravo|charlie'),
+      maxWidth: 60,
+      fontSize: 16,
+      wrap: true,
+      maxLines: 3,
+    });
+    expect(lines.map(plainText)).toEqual(['alpha', 'bravo', 'charlie']);
+    expect(lines[0][0].bold).toBe(true);
+    expect(lines[1][0].bold).toBe(false);
+  });
+
+  it('marks dropped lines with an ellipsis', () => {
+    const lines = wrapRichText({
+      paragraphs: parseMarkup('one|two|three'),
+      maxWidth: 200,
+      fontSize: 16,
+      wrap: false,
+      maxLines: 2,
+    });
+    expect(lines.map(plainText)).toEqual(['one', 'two...']);
+  });
+});
+
+describe('renderSpan', () => {
+  it('escapes text inside styled spans', () => {
+    expect(renderSpan({ text: '<b>', bold: true, italic: false, color: '#ff0000' })).toBe(
+      '<tspan font-weight="bold" fill="#ff0000">&lt;b&gt;</tspan>',
+    );
+  });
+});
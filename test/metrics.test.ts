@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { measureText, registerFontMetrics } from '../src/metrics';
+
+describe('measureText', () => {
+  it('uses per-glyph advances', () => {
+    const narrow = measureText('iiii', { fontSize: 20 });
+    const wide = measureText('WWWW', { fontSize: 20 });
+    expect(wide).toBeGreaterThan(narrow * 3);
+  });
+
+  it('applies kerning pairs', () => {
+    const kerned = measureText('AV', { fontSize: 100 });
+    const separate =
+      measureText('A', { fontSize: 100 }) + measureText('V', { fontSize: 100 });
+    expect(kerned).toBeLessThan(separate);
+  });
+
+  it('measures bold text wider than regular', () => {
+    const regular = measureText('Hello', { fontSize: 20 });
+    const bold = measureText('Hello', { fontSize: 20, fontWeight: '700' });
+    expect(bold).toBeGreaterThan(regular);
+  });
+
+  it('treats CJK and emoji as wide glyphs', () => {
+    expect(measureText('漢字', { fontSize: 10 })).toBe(20);
+    expect(measureText('👍', { fontSize: 10 })).toBe(12);
+  });
+
+  it('resolves registered families from a font stack', () => {
+    registerFontMetrics('Mono Test', {
+      regular: { unitsPerEm: 1000, advances: { a: 500 }, kerning: {} },
+    });
+    expect(
+      measureText('aa', { fontSize: 10, fontFamily: 'Unknown, "Mono Test", serif' }),
+    ).toBe(10);
+  });
+});
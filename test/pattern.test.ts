@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildPatternDef } from '../src/pattern';
+
+describe('buildPatternDef', () => {
+  it('draws two cells per checker tile', () => {
+    const def = buildPatternDef({ kind: 'checker', color: '#000', size: 20, opacity: 1 });
+    expect(def).toContain('width="20" height="20"');
+    expect(def.match(/<rect/g)).toHaveLength(2);
+  });
+
+  it('rotates stripes diagonally', () => {
+    const def = buildPatternDef({ kind: 'stripes', color: '#000', size: 10, opacity: 1 });
+    expect(def).toContain('patternTransform="rotate(45)"');
+  });
+
+  it('paints the tile base when given', () => {
+    const def = buildPatternDef({
+      kind: 'dots',
+      color: '#000',
+      size: 10,
+      opacity: 1,
+      base: '#ffffff',
+    });
+    expect(def).toContain('<rect width="10" height="10" fill="#ffffff"/>');
+    expect(def).toContain('<circle');
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+
+import { resolveDims, suggestPresets } from '../src/presets';
+
+describe('resolveDims', () => {
+  it('keeps plain dimensions working', () => {
+    expect(resolveDims(['600x300', 'red'])).toEqual({ width: 600, height: 300, consumed: 1 });
+    expect(() => resolveDims(['600X300'])).toThrowError('Invalid dimensions');
+  });
+
+  it('resolves named presets', () => {
+    expect(resolveDims(['og'])).toEqual({ width: 1200, height: 630, consumed: 1 });
+    expect(resolveDims(['4K'])).toEqual({ width: 3840, height: 2160, consumed: 1 });
+    expect(resolveDims(['iphone-15'])).toEqual({ width: 393, height: 852, consumed: 1 });
+  });
+
+  it('converts paper sizes at the requested dpi', () => {
+    expect(resolveDims(['a4'])).toEqual({ width: 794, height: 1123, consumed: 1 });
+    expect(resolveDims(['a4@150dpi'])).toEqual({ width: 1240, height: 1754, consumed: 1 });
+  });
+
+  it('derives the height from an aspect ratio and width', () => {
+    expect(resolveDims(['16:9', '800', 'red'])).toEqual({
+      width: 800,
+      height: 450,
+      consumed: 2,
+    });
+    expect(() => resolveDims(['16:9', 'red'])).toThrowError('Aspect ratios need a width');
+  });
+
+  it('suggests close matches for unknown presets', () => {
+    expect(() => resolveDims(['ogg'])).toThrowError(
+      expect.objectContaining({ message: 'Unknown size "ogg"', suggestion: 'og' }),
+    );
+    expect(() => resolveDims(['constructor'])).toThrowError('Unknown size "constructor"');
+    expect(() => resolveDims(['constructor@300dpi'])).toThrowError('Unknown size');
+    expect(suggestPresets('iphone')).toHaveLength(3);
+    expect(suggestPresets('zzzzzz')).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+
+import { RasterError } from '../src/errors';
+import { rasterize } from '../src/raster';
+
+const SVG =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="60" height="30"><rect width="60" height="30" fill="#ff0000" /><text x="4" y="20">Hi</text></svg>';
+
+interface DecodedPng {
+  width: number;
+  height: number;
+  channels: number;
+  // Filtered scanlines, each led by its filter-type byte.
+  rows: Uint8Array;
+}
+
+// Reads IHDR and inflates the IDAT chunks: enough to check a rendered size
+// and pixel without a PNG decoder.
+function decodePng(buffer: ArrayBuffer): DecodedPng {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  expect(Array.from(bytes.subarray(0, 8))).toEqual([137, 80, 78, 71, 13, 10, 26, 10]);
+
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const data: Uint8Array[] = [];
+  for (let offset = 8; offset < bytes.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      channels = { 0: 1, 2: 3, 4: 2, 6: 4 }[chunk[9]] ?? 0;
+    } else if (type === 'IDAT') {
+      data.push(chunk);
+    }
+    offset += length + 12;
+  }
+  const compressed = new Uint8Array(data.reduce((sum, chunk) => sum + chunk.length, 0));
+  let position = 0;
+  for (const chunk of data) {
+    compressed.set(chunk, position);
+    position += chunk.length;
+  }
+  return { width, height, channels, rows: new Uint8Array(inflateSync(compressed)) };
+}
+
+describe('rasterize', () => {
+  it('renders a PNG at the requested scale', async () => {
+    const png = decodePng(await rasterize(SVG, { format: 'png', scale: 2 }));
+    expect(png).toMatchObject({ width: 120, height: 60 });
+    expect(png.rows.length).toBe(png.height * (1 + png.width * png.channels));
+    // Every filter leaves the first pixel of the first row as is.
+    expect(Array.from(png.rows.subarray(1, 4))).toEqual([255, 0, 0]);
+  });
+
+  it('encodes the other formats with their codecs', async () => {
+    const jpg = new Uint8Array(await rasterize(SVG, { format: 'jpg', scale: 1 }));
+    expect(Array.from(jpg.subarray(0, 3))).toEqual([0xff, 0xd8, 0xff]);
+
+    const webp = new Uint8Array(await rasterize(SVG, { format: 'webp', scale: 1 }));
+    expect(String.fromCharCode(...webp.subarray(8, 12))).toBe('WEBP');
+
+    const avif = new Uint8Array(await rasterize(SVG, { format: 'avif', scale: 1 }));
+    expect(String.fromCharCode(...avif.subarray(4, 12))).toBe('ftypavif');
+  });
+
+  it('reports rasterizer failures as server errors', async () => {
+    const failed = rasterize('<svg', { format: 'png', scale: 1 });
+    await expect(failed).rejects.toBeInstanceOf(RasterError);
+    await expect(failed).rejects.toMatchObject({
+      status: 500,
+      message: 'Could not render the image as png',
+    });
+  });
+});
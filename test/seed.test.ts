@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildIdenticon,
+  hashSeed,
+  layoutIdenticon,
+  parseSeed,
+  seedColor,
+  seedInitials,
+} from '../src/seed';
+
+describe('parseSeed', () => {
+  it('strips the seed: prefix', () => {
+    expect(parseSeed('seed:alice@example.com')).toBe('alice@example.com');
+    expect(parseSeed(' bob ')).toBe('bob');
+  });
+
+  it('rejects empty seeds', () => {
+    expect(() => parseSeed('seed:')).toThrowError('Empty seed');
+  });
+});
+
+describe('seedColor', () => {
+  it('is stable and ignores case', async () => {
+    const a = seedColor(await hashSeed('alice@example.com'));
+    const b = seedColor(await hashSeed('Alice@Example.com'));
+    expect(a).toBe(b);
+    expect(a).toMatch(/^#[0-9a-f]{6}$/);
+  });
+
+  it('spreads different seeds across hues', async () => {
+    const colors = await Promise.all(
+      ['alice', 'bob', 'carol', 'dave'].map(async (name) => seedColor(await hashSeed(name))),
+    );
+    expect(new Set(colors).size).toBe(4);
+  });
+});
+
+describe('seedInitials', () => {
+  it('takes the first and last word', () => {
+    expect(seedInitials('Jane Q Doe')).toBe('JD');
+    expect(seedInitials('jane.doe@example.com')).toBe('JD');
+  });
+
+  it('uses one letter for a single word', () => {
+    expect(seedInitials('alice@example.com')).toBe('A');
+    expect(seedInitials('---')).toBe('');
+  });
+});
+
+describe('buildIdenticon', () => {
+  it('mirrors cells around the middle column', async () => {
+    const seed = await hashSeed('alice');
+    const layout = layoutIdenticon({ width: 120, height: 120, pad: 0 });
+    expect(layout).toEqual({ x: 10, y: 10, size: 100 });
+
+    const svg = buildIdenticon(seed, layout, '#ffffff');
+    const cells = Array.from(svg.matchAll(/x="([\d.]+)" y="([\d.]+)"/g), (match) => [
+      Number(match[1]),
+      Number(match[2]),
+    ]);
+    expect(cells.length).toBeGreaterThan(0);
+    for (const [x, y] of cells) {
+      const mirrored = 10 + 100 - 20 - (x - 10);
+      expect(cells).toContainEqual([mirrored, y]);
+    }
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+
+import { splitBreakUnits, splitGraphemes } from '../src/segment';
+
+describe('splitGraphemes', () => {
+  it('keeps emoji sequences and combining marks whole', () => {
+    expect(splitGraphemes('👩‍💻🇫🇷')).toEqual(['👩‍💻', '🇫🇷']);
+    expect(splitGraphemes('éa')).toEqual(['é', 'a']);
+  });
+});
+
+describe('splitBreakUnits', () => {
+  it('breaks at whitespace', () => {
+    expect(splitBreakUnits(' one  two ')).toEqual([
+      { text: 'one', space: false },
+      { text: 'two', space: true },
+    ]);
+  });
+
+  it('breaks between ideographs but not before closing punctuation', () => {
+    expect(splitBreakUnits('日本語。「本」').map((unit) => unit.text)).toEqual([
+      '日',
+      '本',
+      '語。',
+      '「本」',
+    ]);
+  });
+
+  it('leaves words in spaced scripts intact', () => {
+    expect(splitBreakUnits('مرحبا بالعالم').map((unit) => unit.text)).toEqual([
+      'مرحبا',
+      'بالعالم',
+    ]);
+  });
+});
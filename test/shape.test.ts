@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_SHADOW,
+  buildShape,
+  clampCorners,
+  parseCorners,
+  parseDash,
+  parseShadow,
+} from '../src/shape';
+
+describe('parseCorners', () => {
+  it('expands the CSS shorthand', () => {
+    expect(parseCorners('8')).toEqual([8, 8, 8, 8]);
+    expect(parseCorners('8,0')).toEqual([8, 0, 8, 0]);
+    expect(parseCorners('8,4,2')).toEqual([8, 4, 2, 4]);
+    expect(parseCorners('1,2,3,4')).toEqual([1, 2, 3, 4]);
+  });
+
+  it('rejects malformed lists', () => {
+    expect(parseCorners('a')).toBeUndefined();
+    expect(parseCorners('1,2,3,4,5')).toBeUndefined();
+  });
+
+  it('caps each corner at half the shorter side', () => {
+    expect(clampCorners([100, -1, 10, 0], 100, 60)).toEqual([30, 0, 10, 0]);
+  });
+});
+
+describe('parseDash', () => {
+  it('needs non-negative lengths with at least one dash', () => {
+    expect(parseDash('4,2')).toEqual([4, 2]);
+    expect(parseDash('0,0')).toBeUndefined();
+    expect(parseDash('4,-2')).toBeUndefined();
+  });
+});
+
+describe('parseShadow', () => {
+  it('keeps the default shadow for shadow=1', () => {
+    expect(parseShadow('1')).toBe(DEFAULT_SHADOW);
+    expect(parseShadow('0')).toBeUndefined();
+  });
+
+  it('reads offsets, blur and a colour that may contain commas', () => {
+    expect(parseShadow('0,4')).toEqual({ dx: 0, dy: 4, blur: 3, opacity: 0.25 });
+    expect(parseShadow('2,4,8,rgb(255,0,0)')).toEqual({
+      dx: 2,
+      dy: 4,
+      blur: 8,
+      color: '#ff0000',
+    });
+  });
+});
+
+describe('buildShape', () => {
+  const base = { width: 100, height: 60, radius: [0, 0, 0, 0] as [number, number, number, number] };
+
+  it('uses a rect while all corners match', () => {
+    expect(buildShape({ ...base, kind: 'rect', radius: [6, 6, 6, 6] }, ' fill="red"')).toBe(
+      '<rect width="100" height="60" rx="6" ry="6" fill="red" />',
+    );
+  });
+
+  it('draws per-corner radii as a path', () => {
+    expect(buildShape({ ...base, kind: 'rect', radius: [10, 0, 0, 5] }, '')).toBe(
+      '<path d="M10 0H100V60H5A5 5 0 0 1 0 55V10A10 10 0 0 1 10 0Z" />',
+    );
+  });
+
+  it('pulls the outline in by the inset', () => {
+    expect(buildShape({ ...base, kind: 'rect', inset: 2 }, '')).toBe(
+      '<rect x="2" y="2" width="96" height="56" />',
+    );
+    expect(buildShape({ ...base, kind: 'circle', inset: 2 }, '')).toBe(
+      '<circle cx="50" cy="30" r="28" />',
+    );
+  });
+
+  it('draws a squircle inside the canvas', () => {
+    expect(buildShape({ ...base, kind: 'squircle' }, '')).toBe(
+      '<path d="M0 30C0 0 0 0 50 0S100 0 100 30S100 60 50 60S0 60 0 30Z" />',
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildCssRule, buildDataUri, buildImgTag } from '../src/snippet';
+
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><text>#1 & 100%</text></svg>';
+
+describe('buildDataUri', () => {
+  it('URL-encodes SVG but keeps it legible', () => {
+    const uri = buildDataUri(SVG, 'image/svg+xml; charset=utf-8');
+    expect(uri.startsWith('data:image/svg+xml,%3Csvg xmlns=%22http://www.w3.org/2000/svg%22')).toBe(true);
+    expect(uri).toContain('%231 %26 100%25');
+    expect(decodeURIComponent(uri.slice('data:image/svg+xml,'.length))).toBe(SVG);
+  });
+
+  it('base64-encodes on request and for binary bodies', () => {
+    const uri = buildDataUri('<svg>é</svg>', 'image/svg+xml', true);
+    expect(uri).toBe(`data:image/svg+xml;base64,${btoa('<svg>Ã©</svg>')}`);
+    const png = buildDataUri(new Uint8Array([137, 80, 78, 71]).buffer, 'image/png');
+    expect(png).toBe('data:image/png;base64,iVBORw==');
+  });
+});
+
+describe('buildImgTag', () => {
+  it('escapes attributes', () => {
+    expect(
+      buildImgTag({
+        src: '/a?x=1&y=2',
+        srcset: '/a 1x',
+        width: 10,
+        height: 20,
+        alt: 'Say "hi"',
+      }),
+    ).toBe('<img src="/a?x=1&amp;y=2" srcset="/a 1x" width="10" height="20" alt="Say &quot;hi&quot;">');
+  });
+});
+
+describe('buildCssRule', () => {
+  it('wraps the data URI in a background-image declaration', () => {
+    expect(buildCssRule('data:x')).toBe('background-image: url("data:x");');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+
+import { SpecError } from '../src/errors';
+import {
+  decodeSpec,
+  encodeSpec,
+  parseRenderSpec,
+  specFieldFor,
+  specToUrl,
+  urlToSpec,
+} from '../src/spec';
+
+describe('parseRenderSpec', () => {
+  it('returns the canonical spec', () => {
+    expect(
+      parseRenderSpec({
+        width: 600,
+        height: 300,
+        bg: 'navy',
+        format: 'JPEG',
+        align: 'LEFT',
+        weight: 700,
+        wrap: false,
+        text: '',
+      }),
+    ).toEqual({
+      v: 1,
+      size: '600x300',
+      bg: 'navy',
+      format: 'jpg',
+      weight: '700',
+      align: 'left',
+      wrap: false,
+    });
+  });
+
+  it('collects an error for every bad field', () => {
+    try {
+      parseRenderSpec({ v: 2, size: 'huge', fg: 'red', lh: 1.2, pad: '4' });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(SpecError);
+      const { errors, message } = error as SpecError;
+      expect(message).toBe('Render spec has 5 invalid fields');
+      expect(errors.map(({ field }) => field)).toEqual(['lh', 'v', 'size', 'fg', 'pad']);
+      expect(errors[0].suggestion).toBe('lineHeight');
+    }
+  });
+
+  it('takes a shadow as a flag or a setting string', () => {
+    expect(parseRenderSpec({ size: '600x300', shadow: true }).shadow).toBe(true);
+    expect(parseRenderSpec({ size: '600x300', shadow: '0,4,8' }).shadow).toBe('0,4,8');
+    expect(() => parseRenderSpec({ size: '600x300', shadow: 4 })).toThrow(SpecError);
+    expect(urlToSpec('/600x300?shadow=1&radius=8,0').shadow).toBe(true);
+    expect(urlToSpec('/600x300?shadow=1&radius=8,0').radius).toBe('8,0');
+    expect(specToUrl({ v: 1, size: '600x300', shadow: '0,4,8,red' })).toBe(
+      '/600x300?shadow=0%2C4%2C8%2Cred',
+    );
+  });
+
+  it('carries layers through the URL form', () => {
+    const spec = parseRenderSpec({
+      size: '600x300',
+      layers: [
+        { type: 'rect', color: 'navy', size: [200, 40] },
+        { type: 'text', text: 'Title', anchor: 'top-left', fontSize: 32 },
+      ],
+    });
+    const url = specToUrl(spec);
+    expect(url).toBe('/600x300?r1=navy&r1size=200x40&t2=Title&t2pos=top-left&t2size=32');
+    expect(urlToSpec(url)).toEqual(spec);
+    expect(specFieldFor({ param: 't2size' })).toBe('layers[1].fontSize');
+    expect(() => parseRenderSpec({ size: '600x300', layers: {} })).toThrow(SpecError);
+  });
+
+  it('checks size against the dims segment', () => {
+    expect(() => parseRenderSpec({})).toThrow('Missing size');
+    expect(() => parseRenderSpec({ size: '600x300/red' })).toThrow('Unexpected "red"');
+    expect(() => parseRenderSpec({ size: '600x300', width: 10, height: 10 })).toThrow(
+      'either size or width and height',
+    );
+    expect(() => parseRenderSpec({ width: 10 })).toThrow('positive numbers');
+    expect(() => parseRenderSpec([])).toThrow('must be a JSON object');
+  });
+
+  it('ignores fields the caller handles', () => {
+    expect(parseRenderSpec({ id: 'a', size: 'og' }, ['id'])).toEqual({ v: 1, size: 'og' });
+  });
+});
+
+describe('urlToSpec and specToUrl', () => {
+  it('round-trips a placeholder URL', () => {
+    const url =
+      '/16:9/800/linear(45,navy,teal)/white.png?says=Hello%7C%E4%B8%96%E7%95%8C&lh=1.4&wrap=1&align=left';
+    const spec = urlToSpec(url);
+    expect(spec).toEqual({
+      v: 1,
+      size: '16:9/800',
+      bg: 'linear(45,navy,teal)',
+      fg: 'white',
+      format: 'png',
+      text: 'Hello|世界',
+      wrap: true,
+      lineHeight: 1.4,
+      align: 'left',
+    });
+    expect(specToUrl(spec, 'https://example.com')).toBe(
+      'https://example.com/16:9/800/linear(45,navy,teal)/white.png?says=Hello%7C%E4%B8%96%E7%95%8C&wrap=1&lh=1.4&align=left',
+    );
+    expect(urlToSpec(specToUrl(spec))).toEqual(spec);
+  });
+
+  it('drops values the renderer would ignore', () => {
+    expect(urlToSpec('https://example.com/600x300?align=middle&wrap=0&size=big&format=webp')).toEqual({
+      v: 1,
+      size: '600x300',
+      format: 'webp',
+    });
+  });
+
+  it('encodes colour hashes in the path', () => {
+    expect(specToUrl({ v: 1, size: '10x10', bg: '#ff0000' })).toBe('/10x10/%23ff0000');
+  });
+});
+
+describe('encodeSpec and decodeSpec', () => {
+  it('round-trips UTF-8 JSON through base64url', () => {
+    const spec = parseRenderSpec({ size: 'og', text: 'Grüße ✓?' });
+    const encoded = encodeSpec(spec);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeSpec(encoded)).toEqual(spec);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => decodeSpec('not json')).toThrow(SpecError);
+    expect(() => decodeSpec(btoa('{'))).toThrow('not base64url-encoded JSON');
+  });
+});
+
+describe('specFieldFor', () => {
+  it('maps URL locations to spec fields', () => {
+    expect(specFieldFor({ segment: 'dims' })).toBe('size');
+    expect(specFieldFor({ segment: 'fg' })).toBe('fg');
+    expect(specFieldFor({ param: 'says' })).toBe('text');
+    expect(specFieldFor({ param: 'sw' })).toBe('strokeWidth');
+    expect(specFieldFor({ param: 'format' })).toBe('format');
+  });
+});
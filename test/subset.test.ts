@@ -0,0 +1,49 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import { HarfBuzzSubset, subsetFont } from '../src/subset';
+
+const require = createRequire(import.meta.url);
+const INTER = readFileSync(
+  require.resolve('@expo-google-fonts/inter/400Regular/Inter_400Regular.ttf'),
+);
+
+let hb: HarfBuzzSubset;
+
+beforeAll(() => {
+  const instance = new WebAssembly.Instance(
+    new WebAssembly.Module(readFileSync(require.resolve('harfbuzzjs/dist/harfbuzz-subset.wasm'))),
+  );
+  const exports = instance.exports as unknown as HarfBuzzSubset & { _initialize(): void };
+  exports._initialize();
+  hb = exports;
+});
+
+function tableOf(font: Uint8Array, wanted: string): DataView | undefined {
+  const view = new DataView(font.buffer, font.byteOffset, font.byteLength);
+  for (let index = 0; index < view.getUint16(4); index += 1) {
+    const record = 12 + index * 16;
+    const tag = String.fromCharCode(...font.subarray(record, record + 4));
+    if (tag === wanted) {
+      return new DataView(font.buffer, font.byteOffset + view.getUint32(record + 8));
+    }
+  }
+  return undefined;
+}
+
+describe('subsetFont', () => {
+  it('keeps only the glyphs for the given text', () => {
+    const subset = subsetFont(hb, INTER, 'Hello');
+    expect(subset.byteLength).toBeLessThan(INTER.byteLength / 10);
+    expect(tableOf(subset, 'cmap')).toBeDefined();
+    // .notdef plus H, e, l and o.
+    expect(tableOf(subset, 'maxp')?.getUint16(4)).toBe(5);
+  });
+
+  it('can run repeatedly on the same instance', () => {
+    const first = subsetFont(hb, INTER, 'ab');
+    const second = subsetFont(hb, new Uint8Array(INTER), 'ab');
+    expect(Buffer.compare(first, second)).toBe(0);
+  });
+});
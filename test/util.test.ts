@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { autoContrast, parseColor, parseDims } from '../src/util';
+import { autoContrast, parseColor, parseDims, wrapText } from '../src/util';
 
 describe('parseDims', () => {
   it('parses valid dimensions', () => {
@@ -26,10 +26,81 @@ describe('parseColor', () => {
   it('normalizes shorthand hex', () => {
     expect(parseColor('#0f0')).toBe('#00ff00');
   });
+
+  it('normalizes modern syntax to a canonical form', () => {
+    expect(parseColor('RGB(255 0 0 / 100%)')).toBe('#ff0000');
+    expect(parseColor('hsla(0, 100%, 50%, 0.5)')).toBe('rgba(255, 0, 0, 0.5)');
+    expect(parseColor('#0000')).toBe('transparent');
+  });
+
+  it('rejects out-of-range components', () => {
+    expect(() => parseColor('rgb(256, 0, 0)')).toThrowError('out of range');
+  });
 });
 
 describe('autoContrast', () => {
   it('returns light foreground on dark backgrounds', () => {
     expect(autoContrast('#ff0000')).toBe('#ffffff');
   });
+
+  it('averages the luminance of several colors', () => {
+    expect(autoContrast(['#ffffff', '#ffff00'])).toBe('#111111');
+    expect(autoContrast(['#ffffff', '#000000'])).toBe('#ffffff');
+  });
+
+  it('measures translucent colours over white', () => {
+    expect(autoContrast('rgba(0, 0, 0, 0.1)')).toBe('#111111');
+    expect(autoContrast('oklch(0.3 0.1 260)')).toBe('#ffffff');
+  });
+});
+
+describe('wrapText', () => {
+  it('keeps text on one line when it fits', () => {
+    expect(
+      wrapText({ text: 'Hello World', maxWidth: 200, fontSize: 16, wrap: true }),
+    ).toEqual(['Hello World']);
+  });
+
+  it('breaks lines on measured width', () => {
+    const lines = wrapText({
+      text: 'iiiiiiii WWWWWWWW',
+      maxWidth: 140,
+      fontSize: 16,
+      wrap: true,
+    });
+    expect(lines).toEqual(['iiiiiiii', 'WWWWWWWW']);
+  });
+
+  it('ellipsizes overflow past maxLines', () => {
+    const lines = wrapText({
+      text: 'one two three four five six seven eight',
+      maxWidth: 60,
+      fontSize: 16,
+      wrap: true,
+    });
+    expect(lines).toHaveLength(2);
+    expect(lines[1].endsWith('...')).toBe(true);
+  });
+
+  it('breaks CJK text between ideographs', () => {
+    const lines = wrapText({
+      text: '漢字漢字漢字漢字',
+      maxWidth: 70,
+      fontSize: 16,
+      wrap: true,
+    });
+    expect(lines).toEqual(['漢字漢字', '漢字漢字']);
+  });
+
+  it('never splits a grapheme when chunking a long word', () => {
+    const lines = wrapText({
+      text: '👩‍💻👩‍💻👩‍💻👩‍💻',
+      maxWidth: 40,
+      fontSize: 16,
+      wrap: true,
+      maxLines: 10,
+    });
+    expect(lines.join('')).toBe('👩‍💻👩‍💻👩‍💻👩‍💻');
+    expect(lines.every((line) => /^(👩‍💻)+$/u.test(line))).toBe(true);
+  });
 });
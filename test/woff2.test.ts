@@ -0,0 +1,80 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { brotliDecompressSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+
+import { encodeWoff2 } from '../src/woff2';
+
+const require = createRequire(import.meta.url);
+const INTER = new Uint8Array(
+  readFileSync(require.resolve('@expo-google-fonts/inter/400Regular/Inter_400Regular.ttf')),
+);
+
+function readBase128(bytes: Uint8Array, start: number): [number, number] {
+  let value = 0;
+  let offset = start;
+  for (;;) {
+    const byte = bytes[offset++];
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      return [value, offset];
+    }
+  }
+}
+
+describe('encodeWoff2', () => {
+  it('stores every table untransformed in one Brotli stream', () => {
+    const woff2 = encodeWoff2(INTER);
+    const header = new DataView(woff2.buffer);
+    const sfnt = new DataView(INTER.buffer);
+    const numTables = sfnt.getUint16(4);
+
+    expect(header.getUint32(0)).toBe(0x774f4632);
+    expect(header.getUint32(4)).toBe(sfnt.getUint32(0));
+    expect(header.getUint32(8)).toBe(woff2.byteLength);
+    expect(woff2.byteLength % 4).toBe(0);
+    expect(header.getUint16(12)).toBe(numTables);
+    expect(woff2.byteLength).toBeLessThan(INTER.byteLength / 2);
+
+    // Walk the directory and check each table against the source font.
+    const originals = new Map<string, Uint8Array>();
+    for (let index = 0; index < numTables; index += 1) {
+      const record = 12 + index * 16;
+      const tag = String.fromCharCode(...INTER.subarray(record, record + 4));
+      const offset = sfnt.getUint32(record + 8);
+      originals.set(tag, INTER.subarray(offset, offset + sfnt.getUint32(record + 12)));
+    }
+
+    let cursor = 48;
+    const tables: [string, number][] = [];
+    for (let index = 0; index < numTables; index += 1) {
+      const flags = woff2[cursor++];
+      let tag = String(flags & 0x3f);
+      if ((flags & 0x3f) === 63) {
+        tag = String.fromCharCode(...woff2.subarray(cursor, cursor + 4));
+        cursor += 4;
+      }
+      const [length, next] = readBase128(woff2, cursor);
+      cursor = next;
+      tables.push([tag, length]);
+      if (tag === '10' || tag === '11') {
+        // glyf and loca flag the null transform.
+        expect(flags >> 6).toBe(3);
+      }
+    }
+    expect(tables.some(([tag]) => tag.length === 4)).toBe(true);
+
+    const stream = brotliDecompressSync(
+      woff2.subarray(cursor, cursor + header.getUint32(20)),
+    );
+    const sorted = [...originals.keys()].sort();
+    let offset = 0;
+    sorted.forEach((tag, index) => {
+      const original = originals.get(tag)!;
+      expect(tables[index][1]).toBe(original.byteLength);
+      expect(Buffer.compare(stream.subarray(offset, offset + original.byteLength), original)).toBe(0);
+      offset += original.byteLength;
+    });
+    expect(offset).toBe(stream.byteLength);
+  });
+});
@@ -0,0 +1,24 @@
+import { defineConfig } from 'vitest/config';
+
+// Loads .wasm imports as compiled modules, the way Wrangler bundles them, so
+// the raster path runs under test too.
+export default defineConfig({
+  plugins: [
+    {
+      name: 'worker-modules',
+      enforce: 'pre',
+      load(id) {
+        const path = id.split('?')[0];
+        if (path.endsWith('.wasm')) {
+          return `import { readFileSync } from 'node:fs';
+export default new WebAssembly.Module(readFileSync(${JSON.stringify(path)}));`;
+        }
+        return undefined;
+      },
+    },
+  ],
+  test: {
+    // Files under node_modules would otherwise be handed to Node as is.
+    server: { deps: { inline: [/\.wasm$/] } },
+  },
+});